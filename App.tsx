@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Track, TrackType, DAWState, ProjectPhase, PluginInstance, PluginType, MobileTab, TrackSend, Clip, AIAction, AutomationLane, AIChatMessage, ViewMode, User, Theme, DrumPad } from './types';
+import { Track, TrackType, DAWState, ProjectPhase, PluginInstance, PluginType, MobileTab, TrackSend, Clip, AIAction, AutomationLane, AutomationMode, AIChatMessage, ViewMode, User, Theme, DrumPad, MetronomeSettings, MidiRecordSettings, TempoMap } from './types';
 import { audioEngine } from './engine/AudioEngine';
+import { DEFAULT_METRONOME_SETTINGS } from './engine/Metronome';
 import TransportBar from './components/TransportBar';
 import ArrangementView from './components/ArrangementView';
 import MixerView from './components/MixerView';
@@ -24,11 +25,18 @@ import { SessionSerializer } from './services/SessionSerializer';
 import { getAIProductionAssistance } from './services/AIService';
 import { novaBridge } from './services/NovaBridge';
 import { ProjectIO } from './services/ProjectIO';
+import { TakeComping } from './services/TakeComping';
+import { MidiRecording, DEFAULT_MIDI_RECORD_SETTINGS } from './services/MidiRecording';
+import { MidiFile } from './services/MidiFile';
 import PianoRoll from './components/PianoRoll';
 import { midiManager } from './services/MidiManager';
+import { midiLearn } from './services/MidiLearn';
+import { automationManager } from './services/AutomationManager';
+import { PLUGIN_REGISTRY } from './plugins/registry';
 import { AUDIO_CONFIG, UI_CONFIG } from './utils/constants';
+import { mergeAutomationPass, mergePunchClip, rebaseMidiClip, createTempoMap, timeToBeat, timeToBar, barToBeat, beatToTime, tempoAt, generateId } from './utils/helpers';
 import SideBrowser2 from './components/SideBrowser2';
-import { produce } from 'immer';
+import { produce, current } from 'immer';
 
 const AVAILABLE_FX_MENU = [
     { id: 'MASTERSYNC', name: 'Master Sync', icon: 'fa-sync-alt' },
@@ -52,38 +60,14 @@ const createDefaultAutomation = (param: string, color: string): AutomationLane =
 });
 
 const createDefaultPlugins = (type: PluginType, mix: number = 0.3, bpm: number = AUDIO_CONFIG.DEFAULT_BPM, paramsOverride: any = {}): PluginInstance => {
-  let params: any = { isEnabled: true };
+  const entry = PLUGIN_REGISTRY[type];
+  // Deep copy: the registry defaults are shared (PROEQ12 bands)
+  let params: any = entry ? JSON.parse(JSON.stringify(entry.defaultParams)) : { isEnabled: true };
   let name: string = type;
 
-  if (type === 'DELAY') params = { division: '1/4', feedback: 0.4, damping: 5000, mix, pingPong: false, bpm, isEnabled: true };
-  if (type === 'REVERB') params = { decay: 2.5, preDelay: 0.02, damping: 12000, mix, size: 0.7, mode: 'HALL', isEnabled: true };
-  if (type === 'COMPRESSOR') params = { threshold: -18, ratio: 4, knee: 12, attack: 0.003, release: 0.25, makeupGain: 1.0, isEnabled: true };
-  if (type === 'AUTOTUNE') params = { speed: 0.1, humanize: 0.2, mix: 1.0, rootKey: 0, scale: 'CHROMATIC', isEnabled: true };
-  if (type === 'CHORUS') params = { rate: 1.2, depth: 0.35, spread: 0.5, mix: 0.4, isEnabled: true };
-  if (type === 'FLANGER') params = { rate: 0.5, depth: 0.5, feedback: 0.7, manual: 0.3, mix: 0.5, invertPhase: false, isEnabled: true };
-  if (type === 'DOUBLER') params = { detune: 0.4, width: 0.8, gainL: 0.7, gainR: 0.7, directOn: true, isEnabled: true };
-  if (type === 'STEREOSPREADER') params = { width: 1.0, haasDelay: 0.015, lowBypass: 0.8, isEnabled: true };
-  if (type === 'DEESSER') params = { threshold: -25, frequency: 6500, q: 1.0, reduction: 0.6, mode: 'BELL', isEnabled: true };
-  if (type === 'DENOISER') params = { threshold: -45, reduction: 0.8, release: 0.15, isEnabled: true };
-  if (type === 'VOCALSATURATOR') params = { drive: 20, mix: 0.5, tone: 0.0, eqLow: 0, eqMid: 0, eqHigh: 0, mode: 'TAPE', isEnabled: true, outputGain: 1.0 };
-  if (type === 'MASTERSYNC') params = { detectedBpm: 120, detectedKey: 0, isMinor: false, isAnalyzing: false, analysisProgress: 0, isEnabled: true, hasResult: false };
-  if (type === 'PROEQ12') {
-     const defaultFreqs = [80, 150, 300, 500, 1000, 2000, 4000, 6000, 8000, 10000, 12000, 18000];
-     const defaultBands = Array.from({ length: 12 }, (_, i) => ({
-      id: i, type: (i === 0 ? 'highpass' : i === 11 ? 'lowpass' : 'peaking') as any, 
-      frequency: defaultFreqs[i], gain: 0, q: 1.0, isEnabled: true, isSolo: false
-     }));
-     params = { isEnabled: true, masterGain: 1.0, bands: defaultBands };
-  }
-  
-  if (type === 'MELODIC_SAMPLER') {
-      name = 'Melodic Sampler';
-      params = { rootKey: 60, fineTune: 0, glide: 0.05, loop: true, loopStart: 0, loopEnd: 1, attack: 0.01, decay: 0.3, sustain: 0.5, release: 0.5, filterCutoff: 20000, filterRes: 0, velocityToFilter: 0.5, lfoRate: 4, lfoAmount: 0, lfoDest: 'PITCH', saturation: 0, bitCrush: 0, chorus: 0, width: 0.5, isEnabled: true };
-  }
-  if (type === 'DRUM_SAMPLER') {
-      name = 'Drum Sampler';
-      params = { gain: 0, transpose: 0, fineTune: 0, sampleStart: 0, sampleEnd: 1, attack: 0.005, hold: 0.05, decay: 0.2, sustain: 0, release: 0.1, cutoff: 20000, resonance: 0, pan: 0, velocitySens: 0.8, reverse: false, normalize: false, chokeGroup: 1, isEnabled: true };
-  }
+  if (type === 'DELAY') params = { ...params, mix, bpm };
+  if (type === 'REVERB') params = { ...params, mix };
+  if (type === 'MELODIC_SAMPLER' || type === 'DRUM_SAMPLER' || type === 'SYNTH') name = entry.name;
 
   params = { ...params, ...paramsOverride };
   return { id: `pl-${Date.now()}-${Math.random()}`, name, type, isEnabled: true, params, latency: 0 };
@@ -95,6 +79,23 @@ const createBusVox = (defaultSends: TrackSend[], bpm: number): Track => ({
   id: 'bus-vox', name: 'BUS VOX', type: TrackType.BUS, color: '#fbbf24', isMuted: false, isSolo: false, isTrackArmed: false, isFrozen: false, volume: 1.0, pan: 0, outputTrackId: 'master', sends: [...defaultSends], clips: [], plugins: [], automationLanes: [createDefaultAutomation('volume', '#fbbf24')], totalLatency: 0
 });
 
+// Un rendu gelé ne reflète plus la piste dès que ses clips, inserts ou sons changent : la piste repart sur sa chaîne live
+const dropStaleFreeze = (previous: Track, next: Track): Track => {
+  if (!next.freeze) return next;
+  const isEdited = previous.clips !== next.clips || previous.plugins !== next.plugins || previous.drumPads !== next.drumPads || previous.sampleZones !== next.sampleZones;
+  return isEdited ? { ...next, freeze: undefined, isFrozen: false } : next;
+};
+
+// Tempo map modifiée : les clips MIDI restent sur leurs temps, les clips audio en secondes (pas de time-stretch).
+// Un rendu gelé de MIDI n'est plus au bon tempo : la piste est dégelée
+const rebaseMidiClips = (draft: DAWState, previousMap: TempoMap) => {
+  draft.tracks.forEach(track => {
+    if (!track.clips.some(c => c.type === TrackType.MIDI)) return;
+    track.clips = track.clips.map(clip => clip.type === TrackType.MIDI ? rebaseMidiClip(clip, previousMap, draft.tempoMap) : clip);
+    if (track.freeze) { delete track.freeze; track.isFrozen = false; }
+  });
+};
+
 const SaveOverlay: React.FC<{ progress: number; message: string }> = ({ progress, message }) => (
   <div className="fixed inset-0 z-[9999] bg-black/90 backdrop-blur-md flex flex-col items-center justify-center p-6 animate-in fade-in duration-300">
     <div className="w-64 space-y-4 text-center">
@@ -170,7 +171,7 @@ export default function App() {
 
   const initialState: DAWState = {
     id: 'proj-1', name: 'STUDIO_SESSION', bpm: AUDIO_CONFIG.DEFAULT_BPM, isPlaying: false, isRecording: false, currentTime: 0,
-    isLoopActive: false, loopStart: 0, loopEnd: 0,
+    isLoopActive: false, loopStart: 0, loopEnd: 0, isPunchActive: false, punchIn: 0, punchOut: 0,
     tracks: [
       { id: 'instrumental', name: 'BEAT', type: TrackType.AUDIO, color: '#eab308', isMuted: false, isSolo: false, isTrackArmed: false, isFrozen: false, volume: 0.7, pan: 0, outputTrackId: 'master', sends: createInitialSends(AUDIO_CONFIG.DEFAULT_BPM).map(s => ({ id: s.id, level: 0, isEnabled: true })), clips: [], plugins: [], automationLanes: [createDefaultAutomation('volume', '#eab308')], totalLatency: 0 },
       { id: 'track-rec-main', name: 'REC', type: TrackType.AUDIO, color: '#ff0000', isMuted: false, isSolo: false, isTrackArmed: false, isFrozen: false, volume: 1.0, pan: 0, outputTrackId: 'bus-vox', sends: createInitialSends(AUDIO_CONFIG.DEFAULT_BPM).map(s => ({ id: s.id, level: 0, isEnabled: true })), clips: [], plugins: [], automationLanes: [createDefaultAutomation('volume', '#ff0000')], totalLatency: 0 },
@@ -178,7 +179,7 @@ export default function App() {
       ...createInitialSends(AUDIO_CONFIG.DEFAULT_BPM)
     ],
     selectedTrackId: 'track-rec-main', currentView: 'ARRANGEMENT', projectPhase: ProjectPhase.SETUP, isLowLatencyMode: false, isRecModeActive: false, systemMaxLatency: 0, recStartTime: null,
-    isDelayCompEnabled: false
+    isDelayCompEnabled: false, automationMode: 'READ', soloMode: 'SIP', metronome: DEFAULT_METRONOME_SETTINGS, midiRecord: DEFAULT_MIDI_RECORD_SETTINGS, midiMappings: [], tempoMap: createTempoMap(AUDIO_CONFIG.DEFAULT_BPM)
   };
 
   const { state, setState, setVisualState, undo, redo, canUndo, canRedo } = useUndoRedo(initialState);
@@ -193,7 +194,23 @@ export default function App() {
   const stateRef = useRef(state); 
   useEffect(() => { stateRef.current = state; }, [state]);
   useEffect(() => { if (audioEngine.ctx) state.tracks.forEach(t => audioEngine.updateTrack(t, state.tracks)); }, [state.tracks]); 
+  useEffect(() => { automationManager.syncLanes(state.tracks); }, [state.tracks]);
+  useEffect(() => { automationManager.setMode(state.automationMode); }, [state.automationMode]);
   useEffect(() => { audioEngine.setLoop(state.isLoopActive, state.loopStart, state.loopEnd); }, [state.isLoopActive, state.loopStart, state.loopEnd]);
+  useEffect(() => { audioEngine.setPunch(state.isPunchActive, state.punchIn, state.punchOut); }, [state.isPunchActive, state.punchIn, state.punchOut]);
+  useEffect(() => { audioEngine.setTempoMap(state.tempoMap); }, [state.tempoMap]);
+  useEffect(() => { audioEngine.setMetronome(state.metronome); }, [state.metronome]);
+  // Clavier MIDI : joue la piste sélectionnée quand aucune piste instrument n'est armée
+  useEffect(() => { midiManager.setSelectedTrackId(state.selectedTrackId); }, [state.selectedTrackId]);
+  useEffect(() => { midiLearn.setMappings(state.midiMappings); }, [state.midiMappings]);
+  useEffect(() => {
+    audioEngine.setDelayCompensation(state.isDelayCompEnabled);
+    if (audioEngine.ctx) stateRef.current.tracks.forEach(t => audioEngine.updateTrack(t, stateRef.current.tracks));
+  }, [state.isDelayCompEnabled]);
+  useEffect(() => {
+    audioEngine.setSoloMode(state.soloMode);
+    if (audioEngine.ctx) stateRef.current.tracks.forEach(t => audioEngine.updateTrack(t, stateRef.current.tracks));
+  }, [state.soloMode]);
   
   useEffect(() => {
     let animId: number;
@@ -270,33 +287,109 @@ export default function App() {
             break;
       }
       track.clips = newClips;
+      if (track.freeze) { delete track.freeze; track.isFrozen = false; }
     }));
   };
 
-  const handleUpdateBpm = useCallback((newBpm: number) => { setState(prev => ({ ...prev, bpm: Math.max(20, Math.min(999, newBpm)) })); }, [setState]);
+  /**
+   * Les offsets MIDI sont stockés en secondes au premier tempo de la map (clip.start en secondes absolues).
+   * Plutôt que de migrer ce format (projets, SMF, éditeurs en dépendent), les clips MIDI sont ré-exprimés
+   * à chaque changement de tempo pour rester sur la grille.
+   */
+  const handleUpdateBpm = useCallback((newBpm: number) => {
+    setState(produce((draft: DAWState) => {
+      const previousMap = current(draft.tempoMap);
+      draft.bpm = Math.max(20, Math.min(999, newBpm));
+      draft.tempoMap.tempos[0].bpm = draft.bpm; // Le tempo de base est le premier marqueur
+      rebaseMidiClips(draft, previousMap);
+    }));
+  }, [setState]);
+
+  // Marqueur de tempo à une position (remplace celui du même temps ; vide = suppression)
+  const handleAddTempoMarker = useCallback((time: number) => {
+    const map = stateRef.current.tempoMap;
+    const beat = Math.round(timeToBeat(time, map) * 1000) / 1000;
+    const existing = map.tempos.find(m => Math.abs(m.beat - beat) < 0.001);
+    const input = prompt("Tempo (BPM) — préfixer par ~ pour une rampe, vide = supprimer :", existing ? `${existing.ramp ? '~' : ''}${existing.bpm}` : Math.round(tempoAt(time, map)).toString());
+    if (input === null) return;
+
+    setState(produce((draft: DAWState) => {
+      const previousMap = current(draft.tempoMap);
+      const tempos = draft.tempoMap.tempos;
+      const index = tempos.findIndex(m => Math.abs(m.beat - beat) < 0.001);
+      const value = input.trim();
+      if (!value) {
+        if (index > 0) {
+          tempos.splice(index, 1);
+          rebaseMidiClips(draft, previousMap);
+        }
+        return;
+      }
+      const bpm = Math.max(20, Math.min(999, parseFloat(value.replace('~', '')) || 120));
+      const marker = { id: index >= 0 ? tempos[index].id : generateId('tempo'), beat: index === 0 ? 0 : beat, bpm, ramp: value.startsWith('~') };
+      if (index >= 0) tempos[index] = marker; else tempos.push(marker);
+      tempos.sort((a, b) => a.beat - b.beat);
+      tempos[0].ramp = false;
+      draft.bpm = tempos[0].bpm;
+      rebaseMidiClips(draft, previousMap);
+    }));
+  }, [setState]);
+
+  // Changement de mesure à la mesure la plus proche (ex: 6/8 ; vide = suppression)
+  const handleAddMeterMarker = useCallback((time: number) => {
+    const map = stateRef.current.tempoMap;
+    const bar = Math.max(0, Math.round(timeToBar(time, map)));
+    const existing = map.meters.find(m => m.bar === bar);
+    const input = prompt(`Signature à la mesure ${bar + 1} (ex: 6/8), vide = supprimer :`, existing ? `${existing.numerator}/${existing.denominator}` : '4/4');
+    if (input === null) return;
+
+    setState(produce((draft: DAWState) => {
+      const meters = draft.tempoMap.meters;
+      const index = meters.findIndex(m => m.bar === bar);
+      const match = input.trim().match(/^(\d+)\s*\/\s*(1|2|4|8|16|32)$/);
+      if (!match) {
+        if (!input.trim() && index > 0) meters.splice(index, 1);
+        return;
+      }
+      const marker = { id: index >= 0 ? meters[index].id : generateId('meter'), bar, numerator: Math.max(1, parseInt(match[1])), denominator: parseInt(match[2]) };
+      if (index >= 0) meters[index] = marker; else meters.push(marker);
+      meters.sort((a, b) => a.bar - b.bar);
+    }));
+  }, [setState]);
   
   const handleUpdateTrack = useCallback((updatedTrack: Track) => {
     const previousTrack = stateRef.current.tracks.find(t => t.id === updatedTrack.id);
+    // Armement refusé (entrée absente, permission...) : la piste ne reste pas armée sans entrée
+    const onArmError = (e: any) => {
+        setAiNotification(`🎙️ ${updatedTrack.name} : entrée audio indisponible (${e?.message || e}).`);
+        setState(produce((draft: DAWState) => {
+            const t = draft.tracks.find(t => t.id === updatedTrack.id);
+            if (t) t.isTrackArmed = false;
+        }));
+    };
 
-    // Handle Arm/Disarm side effect
+    // Handle Arm/Disarm side effect (plusieurs pistes armées possibles, chacune sur son entrée)
     if (previousTrack && previousTrack.isTrackArmed !== updatedTrack.isTrackArmed) {
-        if (updatedTrack.isTrackArmed) {
-            audioEngine.armTrack(updatedTrack.id);
-            // Disarm all other tracks
-            setState(produce(draft => {
-                draft.tracks.forEach(t => {
-                    if (t.id !== updatedTrack.id) t.isTrackArmed = false;
-                });
-            }));
-        } else {
-            audioEngine.disarmTrack();
-        }
+        if (updatedTrack.isTrackArmed) audioEngine.armTrack(updatedTrack).catch(onArmError);
+        else audioEngine.disarmTrack(updatedTrack.id).catch(e => console.error('[App] Disarm failed:', e));
+    } else if (previousTrack && updatedTrack.isTrackArmed && (
+        previousTrack.inputDeviceId !== updatedTrack.inputDeviceId ||
+        previousTrack.inputChannel !== updatedTrack.inputChannel ||
+        previousTrack.isInputStereo !== updatedTrack.isInputStereo
+    )) {
+        // Entrée changée : ré-armement
+        audioEngine.armTrack(updatedTrack).catch(onArmError);
+    } else if (previousTrack && (
+        previousTrack.monitorMode !== updatedTrack.monitorMode ||
+        previousTrack.isDirectMonitor !== updatedTrack.isDirectMonitor
+    )) {
+        audioEngine.setMonitoring(updatedTrack);
     }
 
     setState(produce(draft => {
         const trackIndex = draft.tracks.findIndex(t => t.id === updatedTrack.id);
         if (trackIndex !== -1) {
-            draft.tracks[trackIndex] = updatedTrack;
+            draft.tracks[trackIndex] = previousTrack ? dropStaleFreeze(previousTrack, updatedTrack) : updatedTrack;
         }
     }));
   }, [setState]);
@@ -307,6 +400,7 @@ export default function App() {
       if (track) {
           const plugin = track.plugins.find(p => p.id === pluginId);
           if (plugin) plugin.params = { ...plugin.params, ...params };
+          if (track.freeze) { delete track.freeze; track.isFrozen = false; }
       }
     }));
     const pluginNode = audioEngine.getPluginNodeInstance(trackId, pluginId);
@@ -314,6 +408,16 @@ export default function App() {
   }, [setState]);
 
   const handleSeek = useCallback((time: number) => { setVisualState({ currentTime: time }); audioEngine.seekTo(time, stateRef.current.tracks, stateRef.current.isPlaying); }, [setVisualState]);
+  // Pendant la lecture le scrub reste un simple déplacement du curseur
+  const handleScrub = useCallback((time: number, velocity: number) => {
+    if (stateRef.current.isPlaying) { handleSeek(time); return; }
+    setVisualState({ currentTime: time });
+    audioEngine.scrub(stateRef.current.tracks, time, velocity);
+  }, [setVisualState, handleSeek]);
+  const handleStopScrub = useCallback(() => {
+    audioEngine.stopScrubbing();
+    if (!stateRef.current.isPlaying) handleSeek(audioEngine.getCurrentTime());
+  }, [handleSeek]);
   
   const handleTogglePlay = useCallback(async () => {
       await ensureAudioEngine();
@@ -339,28 +443,32 @@ export default function App() {
     // Stop recording
     if (currentState.isRecording) {
       audioEngine.stopAll();
-      const result = await audioEngine.stopRecording();
-      setState(produce(draft => {
-        draft.isRecording = false;
-        draft.isPlaying = false;
-        draft.recStartTime = null;
-        if (result) {
-          const track = draft.tracks.find(t => t.id === result.trackId);
-          if (track) {
-            track.clips.push(result.clip);
-          }
-        }
+      const results = await audioEngine.stopRecording();
+      setState(prev => ({
+        ...prev,
+        isRecording: false,
+        isPlaying: false,
+        recStartTime: null,
+        // Cycle recording : une passe par take lane, la dernière est dans le comp
+        tracks: prev.tracks.map(t => {
+          const result = results.find(r => r.trackId === t.id);
+          if (!result) return t;
+          // MIDI : notes fusionnées dans les clips chevauchés (overdub / replace, quantification)
+          if (result.takes[0].type === TrackType.MIDI) return MidiRecording.merge(t, result.takes[0], prev.midiRecord, prev.tempoMap);
+          if (result.takes.length > 1) return TakeComping.addTakes(t, result.takes);
+          // Punch : la prise remplace sa zone, en fondus croisés avec le clip existant
+          return { ...t, clips: result.isPunch ? mergePunchClip(t.clips, result.takes[0]) : [...t.clips, ...result.takes] };
+        })
       }));
       return;
     }
   
     // Start recording
-    const armedTrack = currentState.tracks.find(t => t.isTrackArmed);
-    if (armedTrack) {
-      const success = await audioEngine.startRecording(currentState.currentTime, armedTrack.id);
+    const armedTracks = currentState.tracks.filter(t => t.isTrackArmed);
+    if (armedTracks.length > 0) {
+      // Count-in / pre-roll, then playback and capture of every armed track (see metronome settings)
+      const success = await audioEngine.recordFrom(currentState.currentTime, armedTracks.map(t => t.id), currentState.tracks);
       if (success) {
-        // Auto-start playback when recording begins
-        audioEngine.startPlayback(currentState.currentTime, currentState.tracks);
         setState(produce(draft => {
           draft.isRecording = true;
           draft.isPlaying = true;
@@ -376,7 +484,7 @@ export default function App() {
 
   const handleDuplicateTrack = useCallback((trackId: string) => { /* ... */ }, [setState]);
 
-  const handleCreateTrack = useCallback((type: TrackType, name?: string, initialPluginType?: PluginType) => {
+  const handleCreateTrack = useCallback((type: TrackType, name?: string, initialPluginType?: PluginType, overrides?: Partial<Track>) => {
       setState(produce((draft: DAWState) => {
           let drumPads: DrumPad[] | undefined = undefined;
           if (type === TrackType.DRUM_RACK) {
@@ -385,7 +493,7 @@ export default function App() {
           const plugins: PluginInstance[] = [];
           if (initialPluginType) { plugins.push(createDefaultPlugins(initialPluginType, 1.0, draft.bpm)); }
           const newTrack: Track = {
-              id: `track-${Date.now()}`, name: name || `${type} TRACK`, type, color: UI_CONFIG.TRACK_COLORS[draft.tracks.length % UI_CONFIG.TRACK_COLORS.length], isMuted: false, isSolo: false, isTrackArmed: false, isFrozen: false, volume: 1.0, pan: 0, outputTrackId: 'master', sends: [], clips: [], plugins, automationLanes: [], totalLatency: 0, drumPads
+              id: `track-${Date.now()}`, name: name || `${type} TRACK`, type, color: UI_CONFIG.TRACK_COLORS[draft.tracks.length % UI_CONFIG.TRACK_COLORS.length], isMuted: false, isSolo: false, isSoloSafe: type === TrackType.SEND, isTrackArmed: false, isFrozen: false, volume: 1.0, pan: 0, outputTrackId: 'master', sends: [], clips: [], plugins, automationLanes: [], totalLatency: 0, drumPads, ...overrides
           };
           draft.tracks.push(newTrack);
       }));
@@ -413,6 +521,34 @@ export default function App() {
   }, [setState]);
 
   const handleUniversalAudioImport = async (source: string | File, name: string) => { /* ... */ };
+
+  // Fichier .mid : une piste MIDI par piste / canal du fichier, tempo et mesures du fichier sur demande
+  const handleImportMidiFile = async (file: File) => {
+    try {
+      const smf = MidiFile.parse(await file.arrayBuffer());
+      if (smf.tracks.length === 0) { setAiNotification(`🎹 ${file.name} : aucune note à importer.`); return; }
+      const useFileTempo = smf.tempos.length > 0 && confirm("Utiliser le tempo et la mesure du fichier MIDI ?");
+      const map = useFileTempo ? MidiFile.toTempoMap(smf) : stateRef.current.tempoMap;
+      setState(produce((draft: DAWState) => {
+        if (useFileTempo) {
+          const previousMap = current(draft.tempoMap);
+          draft.tempoMap = map;
+          draft.bpm = map.tempos[0].bpm;
+          rebaseMidiClips(draft, previousMap);
+        }
+        smf.tracks.forEach(smfTrack => {
+          const color = UI_CONFIG.TRACK_COLORS[draft.tracks.length % UI_CONFIG.TRACK_COLORS.length];
+          draft.tracks.push({
+            id: generateId('track'), name: smfTrack.name, type: TrackType.MIDI, color, isMuted: false, isSolo: false, isTrackArmed: false, isFrozen: false, volume: 1.0, pan: 0, outputTrackId: 'master', sends: [], clips: [MidiFile.toClip(smfTrack, map, color)], plugins: [], automationLanes: [], totalLatency: 0
+          });
+        });
+      }));
+      setAiNotification(`🎹 ${file.name} : ${smf.tracks.length} piste(s) MIDI importée(s).`);
+    } catch (e: any) {
+      console.error("[MIDI] Import failed:", e);
+      setAiNotification(`❌ ${file.name} : ${e.message}`);
+    }
+  };
   useEffect(() => { (window as any).DAW_CORE = { handleAudioImport: (url: string, name: string) => handleUniversalAudioImport(url, name) }; }, []);
 
   const handleMoveClip = useCallback((sourceTrackId: string, destTrackId: string, clipId: string) => { /* ... */ }, [setState]);
@@ -421,7 +557,127 @@ export default function App() {
   const handleAddBus = useCallback(() => { handleCreateTrack(TrackType.BUS, "Group Bus"); }, [handleCreateTrack]);
   const handleToggleBypass = useCallback((trackId: string, pluginId: string) => { /* ... */ }, [setState]);
   const handleCreateAutomationLane = useCallback(() => { /* ... */ }, [automationMenu, setState]);
-  const handleToggleDelayComp = useCallback(() => { /* ... */ }, [state.isDelayCompEnabled, setState]);
+  const handleToggleDelayComp = useCallback(() => {
+    setState(produce((draft: DAWState) => {
+      draft.isDelayCompEnabled = !draft.isDelayCompEnabled;
+      const latencies = audioEngine.computeLatencies(draft.tracks);
+      draft.tracks.forEach(t => { t.totalLatency = latencies.get(t.id)?.total || 0; });
+      draft.systemMaxLatency = Math.max(0, ...draft.tracks.map(t => t.totalLatency));
+    }));
+  }, [state.isDelayCompEnabled, setState]);
+  const handleFreezeTrack = useCallback(async (trackId: string) => {
+    const track = stateRef.current.tracks.find(t => t.id === trackId);
+    if (!track) return;
+    if (track.freeze) {
+      setState(produce((draft: DAWState) => {
+        const t = draft.tracks.find(t => t.id === trackId);
+        if (t) { delete t.freeze; t.isFrozen = false; }
+      }));
+      return;
+    }
+    await ensureAudioEngine();
+    const freeze = await audioEngine.freezeTrack(track);
+    if (!freeze) { setAiNotification(track.midiOutput ? `❄️ ${track.name} : piste jouée sur un port MIDI externe, enregistrez d'abord son retour audio.` : `❄️ ${track.name} : aucun clip à geler.`); return; }
+    setState(produce((draft: DAWState) => {
+      const t = draft.tracks.find(t => t.id === trackId);
+      if (t) { t.freeze = freeze; t.isFrozen = true; }
+    }));
+  }, [setState]);
+
+  // Bounce in place : le rendu devient un clip sur une nouvelle piste audio, la source est coupée
+  const handleBounceTrack = useCallback(async (trackId: string) => {
+    const track = stateRef.current.tracks.find(t => t.id === trackId);
+    if (!track) return;
+    await ensureAudioEngine();
+    const render = track.freeze || await audioEngine.freezeTrack(track);
+    if (!render) { setAiNotification(track.midiOutput ? `🎚️ ${track.name} : piste jouée sur un port MIDI externe, enregistrez d'abord son retour audio.` : `🎚️ ${track.name} : aucun clip à bouncer.`); return; }
+    setState(produce((draft: DAWState) => {
+      const index = draft.tracks.findIndex(t => t.id === trackId);
+      if (index === -1) return;
+      const source = draft.tracks[index];
+      const name = `${source.name} (Bounce)`;
+      const bounced: Track = {
+        id: `track-${Date.now()}`, name, type: TrackType.AUDIO, color: source.color, isMuted: false, isSolo: false, isTrackArmed: false, isFrozen: false,
+        volume: source.volume, pan: source.pan, outputTrackId: source.outputTrackId, sends: source.sends.map(send => ({ ...send })),
+        clips: [{ id: generateId('clip'), start: render.start, duration: render.buffer.duration, offset: 0, fadeIn: 0, fadeOut: 0, name, color: source.color, type: TrackType.AUDIO, buffer: render.buffer }],
+        plugins: [],
+        // Les inserts sont dans le rendu : seules les lanes de fader et d'envoi restent valides
+        automationLanes: source.automationLanes.filter(l => !l.parameterName.startsWith('plugin::')).map(l => ({ ...l, id: generateId('lane'), points: l.points.map(p => ({ ...p })) })),
+        totalLatency: 0
+      };
+      source.isMuted = true;
+      draft.tracks.splice(index + 1, 0, bounced);
+    }));
+  }, [setState]);
+
+  // Comping : un clic choisit la prise sur la zone du comp, un glisser sur [start, end[
+  const handleCompTake = useCallback((trackId: string, takeId: string, start: number, end?: number) => {
+    setState(prev => ({
+      ...prev,
+      tracks: prev.tracks.map(t => {
+        if (t.id !== trackId) return t;
+        return dropStaleFreeze(t, end === undefined ? TakeComping.selectTakeAt(t, takeId, start) : TakeComping.setComp(t, takeId, start, end));
+      })
+    }));
+  }, [setState]);
+
+  const handleFlattenComp = useCallback((trackId: string) => {
+    const track = stateRef.current.tracks.find(t => t.id === trackId);
+    if (!track) return;
+    const flat = TakeComping.flatten(track);
+    if (flat === track) {
+        setAiNotification(`🎚️ ${track.name} : aucune prise n'a d'audio chargé, le comp n'est pas aplati.`);
+        return;
+    }
+    setState(prev => ({ ...prev, tracks: prev.tracks.map(t => t.id === trackId ? dropStaleFreeze(t, flat) : t) }));
+  }, [setState]);
+
+  const handleUpdateMetronome = useCallback((changes: Partial<MetronomeSettings>) => {
+    setState(prev => ({ ...prev, metronome: { ...prev.metronome, ...changes } }));
+  }, [setState]);
+
+  const handleUpdateMidiRecord = useCallback((changes: Partial<MidiRecordSettings>) => {
+    setState(prev => ({ ...prev, midiRecord: { ...prev.midiRecord, ...changes } }));
+  }, [setState]);
+
+  // Sans zone définie, le punch reprend la boucle, ou à défaut la mesure du playhead
+  const handleTogglePunch = useCallback(() => {
+    setState(prev => {
+      if (prev.isPunchActive || prev.punchOut > prev.punchIn) return { ...prev, isPunchActive: !prev.isPunchActive };
+      if (prev.loopEnd > prev.loopStart) return { ...prev, isPunchActive: true, punchIn: prev.loopStart, punchOut: prev.loopEnd };
+      const bar = Math.floor(timeToBar(prev.currentTime, prev.tempoMap));
+      return { ...prev, isPunchActive: true, punchIn: beatToTime(barToBeat(bar, prev.tempoMap), prev.tempoMap), punchOut: beatToTime(barToBeat(bar + 1, prev.tempoMap), prev.tempoMap) };
+    });
+  }, [setState]);
+
+  const handleToggleSoloMode = useCallback(() => {
+    setState(prev => ({ ...prev, soloMode: prev.soloMode === 'AFL' ? 'SIP' : 'AFL' }));
+  }, [setState]);
+  const handleSetAutomationMode = useCallback((mode: AutomationMode) => {
+    setState(prev => ({ ...prev, automationMode: mode }));
+  }, [setState]);
+
+  // Chaque passe d'écriture (touch / latch / write) atterrit dans la lane de la piste
+  useEffect(() => {
+    automationManager.setLaneWriter(pass => {
+      setState(produce((draft: DAWState) => {
+        const track = draft.tracks.find(t => t.id === pass.trackId);
+        if (!track) return;
+        let lane = track.automationLanes.find(l => l.parameterName === pass.lane.parameterName);
+        if (!lane) {
+          lane = { id: `auto-${Date.now()}`, parameterName: pass.lane.parameterName, points: [], color: track.color, isExpanded: true, min: pass.lane.min, max: pass.lane.max };
+          track.automationLanes.push(lane);
+        }
+        lane.points = mergeAutomationPass(lane.points, pass.points, pass.start, pass.end);
+      }));
+    });
+    return () => automationManager.setLaneWriter(null);
+  }, [setState]);
+  // MIDI learn : les mappings appris ou édités sont sauvés avec le projet
+  useEffect(() => {
+    midiLearn.setMappingWriter(mappings => setState(prev => ({ ...prev, midiMappings: mappings })));
+    return () => midiLearn.setMappingWriter(null);
+  }, [setState]);
   const handleLoadDrumSample = useCallback(async (trackId: string, padId: number, file: File) => { /* ... */ }, [setState]);
 
   useEffect(() => {
@@ -448,6 +704,7 @@ export default function App() {
           isRecording={state.isRecording}
           isLoopActive={state.isLoopActive}
           onToggleLoop={() => setState(p => ({...p, isLoopActive: !p.isLoopActive}))}
+          isPunchActive={state.isPunchActive} onTogglePunch={handleTogglePunch}
           onStop={handleStop}
           onTogglePlay={handleTogglePlay}
           onToggleRecord={handleToggleRecord}
@@ -464,6 +721,14 @@ export default function App() {
           onOpenAudioEngine={() => setIsAudioSettingsOpen(true)}
           isDelayCompEnabled={state.isDelayCompEnabled}
           onToggleDelayComp={handleToggleDelayComp}
+          soloMode={state.soloMode}
+          metronome={state.metronome}
+          onUpdateMetronome={handleUpdateMetronome}
+          midiRecord={state.midiRecord}
+          onUpdateMidiRecord={handleUpdateMidiRecord}
+          onToggleSoloMode={handleToggleSoloMode}
+          automationMode={state.automationMode}
+          onChangeAutomationMode={handleSetAutomationMode}
           onUndo={undo}
           onRedo={redo}
           canUndo={canUndo}
@@ -502,7 +767,10 @@ export default function App() {
                tracks={state.tracks} currentTime={state.currentTime} 
                isLoopActive={state.isLoopActive} loopStart={state.loopStart} loopEnd={state.loopEnd}
                onSetLoop={(start, end) => setState(prev => ({ ...prev, loopStart: start, loopEnd: end, isLoopActive: true }))} 
-               onSeek={handleSeek} bpm={state.bpm} 
+               isPunchActive={state.isPunchActive} punchIn={state.punchIn} punchOut={state.punchOut}
+               onSetPunch={(start, end) => setState(prev => ({ ...prev, punchIn: Math.min(start, end), punchOut: Math.max(start, end), isPunchActive: end !== start }))} 
+               onSeek={handleSeek} onScrub={handleScrub} onStopScrub={handleStopScrub} bpm={state.bpm} 
+               tempoMap={state.tempoMap} onAddTempoMarker={handleAddTempoMarker} onAddMeterMarker={handleAddMeterMarker} 
                selectedTrackId={state.selectedTrackId} onSelectTrack={id => setState(p => ({ ...p, selectedTrackId: id }))} 
                onUpdateTrack={handleUpdateTrack} onReorderTracks={() => {}} 
                onDropPluginOnTrack={(trackId, type, metadata) => handleAddPluginFromContext(trackId, type, metadata, { openUI: true })} 
@@ -510,8 +778,9 @@ export default function App() {
                onRemovePlugin={handleRemovePlugin} 
                onRequestAddPlugin={(tid, x, y) => setAddPluginMenu({ trackId: tid, x, y })} 
                onAddTrack={handleCreateTrack} onDuplicateTrack={handleDuplicateTrack} onDeleteTrack={handleDeleteTrack} 
-               onFreezeTrack={(tid) => {}} 
-               onImportFile={(file) => handleUniversalAudioImport(file, file.name)}
+               onFreezeTrack={handleFreezeTrack} onBounceTrack={handleBounceTrack} 
+               onCompTake={handleCompTake} onFlattenComp={handleFlattenComp} 
+               onImportFile={(file) => MidiFile.isMidiFile(file) ? handleImportMidiFile(file) : handleUniversalAudioImport(file, file.name)}
                onEditClip={handleEditClip} isRecording={state.isRecording} recStartTime={state.recStartTime}
                onMoveClip={handleMoveClip}
                onEditMidi={(trackId, clipId) => setMidiEditorOpen({ trackId, clipId })}
@@ -1,11 +1,13 @@
 
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { Track, TrackType, PluginType, PluginInstance, Clip, EditorTool, ContextMenuItem, AutomationLane, AutomationPoint } from '../types';
+import { Track, TrackType, PluginType, PluginInstance, Clip, EditorTool, ContextMenuItem, AutomationLane, AutomationPoint, TempoMap } from '../types';
 import TrackHeader from './TrackHeader';
 import ContextMenu from './ContextMenu';
 import TimelineGridMenu from './TimelineGridMenu'; 
 import LiveRecordingClip from './LiveRecordingClip'; 
 import AutomationLaneComponent from './AutomationLane';
+import { createTempoMap, snapToGrid, snapToBar, beatToTime, timeToBeat, barToBeat, timeToBar, beatsPerBar, getMeterAtBar } from '../utils/helpers';
+import { MidiFile } from '../services/MidiFile';
 
 interface ArrangementViewProps {
   tracks: Track[];
@@ -18,8 +20,17 @@ interface ArrangementViewProps {
   loopStart: number;
   loopEnd: number;
   onSetLoop: (start: number, end: number) => void;
+  isPunchActive?: boolean;
+  punchIn?: number;
+  punchOut?: number;
+  onSetPunch?: (start: number, end: number) => void;
   onSeek: (time: number) => void;
+  onScrub?: (time: number, velocity: number) => void; // velocity: secondes projet / seconde réelle
+  onStopScrub?: () => void;
   bpm: number;
+  tempoMap?: TempoMap; // Absent = tempo constant (bpm) en 4/4
+  onAddTempoMarker?: (time: number) => void;
+  onAddMeterMarker?: (time: number) => void;
   onDropPluginOnTrack: (trackId: string, type: PluginType, metadata?: any) => void;
   onMovePlugin?: (sourceTrackId: string, destTrackId: string, pluginId: string) => void;
   onMoveClip?: (sourceTrackId: string, destTrackId: string, clipId: string) => void;
@@ -30,7 +41,10 @@ interface ArrangementViewProps {
   onAddTrack?: (type: TrackType, name?: string, initialPluginType?: PluginType) => void;
   onDuplicateTrack?: (trackId: string) => void;
   onDeleteTrack?: (trackId: string) => void;
-  onFreezeTrack?: (trackId: string) => void;
+  onFreezeTrack?: (trackId: string) => void; // Gèle, ou dégèle une piste déjà gelée
+  onBounceTrack?: (trackId: string) => void;
+  onCompTake?: (trackId: string, takeId: string, start: number, end?: number) => void; // Sans `end` : zone du comp sous `start`
+  onFlattenComp?: (trackId: string) => void;
   onImportFile?: (file: File) => void;
   onEditClip?: (trackId: string, clipId: string, action: string, payload?: any) => void;
   isRecording?: boolean;
@@ -42,25 +56,32 @@ interface ArrangementViewProps {
 
 // Zones d'interaction intelligentes
 type InteractionZone = 'BODY' | 'RESIZE_L' | 'RESIZE_R' | 'FADE_IN' | 'FADE_OUT' | 'GAIN' | 'NONE';
-type DragAction = 'MOVE' | 'TRIM_START' | 'TRIM_END' | 'ADJUST_FADE_IN' | 'ADJUST_FADE_OUT' | 'ADJUST_GAIN' | 'SEEK' | 'SELECT_REGION' | 'MOVE_AUTOMATION' | 'SCRUB' | null;
+type DragAction = 'MOVE' | 'TRIM_START' | 'TRIM_END' | 'ADJUST_FADE_IN' | 'ADJUST_FADE_OUT' | 'ADJUST_GAIN' | 'SEEK' | 'SELECT_REGION' | 'MOVE_AUTOMATION' | 'SCRUB' | 'COMP' | null;
 type LoopDragMode = 'START' | 'END' | 'BODY' | null;
 
-const getSnappedTime = (time: number, bpm: number, gridSize: string, enabled: boolean): number => {
+// Grid sizes in beats (quarter notes); '1/1' snaps to bar lines, whatever the meter
+const GRID_BEATS: Record<string, number> = { '1/4': 1, '1/8': 0.5, '1/16': 0.25 };
+
+const TAKE_LANE_HEIGHT = 36;
+const AUTOMATION_LANE_HEIGHT = 80;
+
+// Hauteur sous la rangée de la piste : take lanes dépliées, puis lanes d'automation
+const getLanesHeight = (t: Track): number => {
+    const takes = t.isTakesExpanded && t.takeFolder ? t.takeFolder.takes.length : 0;
+    return takes * TAKE_LANE_HEIGHT + t.automationLanes.filter(l => l.isExpanded).length * AUTOMATION_LANE_HEIGHT;
+};
+
+const getSnappedTime = (time: number, tempoMap: TempoMap, gridSize: string, enabled: boolean): number => {
     if (!enabled) return time;
-    const beatDuration = 60 / bpm;
-    let subDiv = beatDuration; // 1/4 default
-    if (gridSize === '1/8') subDiv = beatDuration / 2;
-    else if (gridSize === '1/16') subDiv = beatDuration / 4;
-    else if (gridSize === '1/1') subDiv = beatDuration * 4; 
-    
-    return Math.round(time / subDiv) * subDiv;
+    if (gridSize === '1/1') return snapToBar(time, tempoMap);
+    return snapToGrid(time, GRID_BEATS[gridSize] || 1, tempoMap);
 };
 
 const ArrangementView: React.FC<ArrangementViewProps> = ({ 
   tracks, selectedTrackId, onSelectTrack, onUpdateTrack, onReorderTracks, currentTime, 
-  isLoopActive, loopStart, loopEnd, onSetLoop, onSeek, bpm, 
+  isLoopActive, loopStart, loopEnd, onSetLoop, isPunchActive = false, punchIn = 0, punchOut = 0, onSetPunch, onSeek, onScrub, onStopScrub, bpm, tempoMap, onAddTempoMarker, onAddMeterMarker,
   onDropPluginOnTrack, onMovePlugin, onMoveClip, onSelectPlugin, onRemovePlugin, onRequestAddPlugin,
-  onAddTrack, onDuplicateTrack, onDeleteTrack, onFreezeTrack, onImportFile, onEditClip, isRecording, recStartTime,
+  onAddTrack, onDuplicateTrack, onDeleteTrack, onFreezeTrack, onBounceTrack, onCompTake, onFlattenComp, onImportFile, onEditClip, isRecording, recStartTime,
   onCreatePattern, onSwapInstrument, onEditMidi
 }) => {
   const [activeTool, setActiveTool] = useState<EditorTool>('SELECT');
@@ -69,11 +90,13 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
   const [snapEnabled, setSnapEnabled] = useState(true);
   
   const [gridSize, setGridSize] = useState<string>('1/4');
-  const [gridMenu, setGridMenu] = useState<{ x: number, y: number } | null>(null);
+  const [gridMenu, setGridMenu] = useState<{ x: number, y: number, time: number } | null>(null);
+  const tempo = useMemo(() => tempoMap || createTempoMap(bpm), [tempoMap, bpm]);
 
   const [dragAction, setDragAction] = useState<DragAction | null>(null);
   const [activeClip, setActiveClip] = useState<{trackId: string, clip: Clip} | null>(null);
   const [hoveredTrackId, setHoveredTrackId] = useState<string | null>(null);
+  const [compDrag, setCompDrag] = useState<{ trackId: string, takeId: string, start: number, end: number | null } | null>(null);
   
   const [loopDragMode, setLoopDragMode] = useState<LoopDragMode>(null);
   const [initialLoopState, setInitialLoopState] = useState<{ start: number, end: number } | null>(null);
@@ -190,8 +213,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
   const totalArrangementHeight = useMemo(() => {
     let h = 40 + 500; 
     visibleTracks.forEach(t => { 
-        h += zoomV; 
-        t.automationLanes.forEach(l => { if (l.isExpanded) h += 80; }); 
+        h += zoomV + getLanesHeight(t); 
     });
     return h;
   }, [visibleTracks, zoomV]);
@@ -365,13 +387,22 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
 
   const handleTrackContextMenu = (e: React.MouseEvent, trackId: string) => {
     e.preventDefault();
+    const track = tracks.find(t => t.id === trackId);
+    const isFrozen = !!track?.freeze;
+    const takeItems: (ContextMenuItem | 'separator')[] = track?.takeFolder ? [
+        'separator',
+        { label: track.isTakesExpanded ? 'Hide Takes' : 'Show Takes', onClick: () => onUpdateTrack({ ...track, isTakesExpanded: !track.isTakesExpanded }), icon: 'fa-layer-group' },
+        { label: 'Flatten Comp', onClick: () => onFlattenComp?.(trackId), icon: 'fa-compress-alt' }
+    ] : [];
     setContextMenu({
       x: e.clientX,
       y: e.clientY,
       items: [
         { label: 'Duplicate Track', onClick: () => onDuplicateTrack?.(trackId), icon: 'fa-copy' },
         { label: 'Delete Track', danger: true, onClick: () => onDeleteTrack?.(trackId), icon: 'fa-trash' },
-        { label: 'Freeze Track', onClick: () => onFreezeTrack?.(trackId), icon: 'fa-snowflake' }
+        { label: isFrozen ? 'Unfreeze Track' : 'Freeze Track', onClick: () => onFreezeTrack?.(trackId), icon: isFrozen ? 'fa-fire' : 'fa-snowflake' },
+        { label: 'Bounce in Place', onClick: () => onBounceTrack?.(trackId), icon: 'fa-compact-disc' },
+        ...takeItems
       ]
     });
   };
@@ -412,12 +443,14 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
             { label: 'Transposer -1', icon: 'fa-arrow-down', onClick: () => onEditClip?.(trackId, clipId, 'TRANSPOSE', { amount: -1 }) },
             { label: 'Transposer Octave', icon: 'fa-level-up-alt', onClick: () => onEditClip?.(trackId, clipId, 'TRANSPOSE', { amount: 12 }) },
             { label: 'Export MIDI', icon: 'fa-file-export', onClick: () => {
-                const midiData = JSON.stringify(clip.notes);
-                const blob = new Blob([midiData], { type: 'application/json' });
+                // Le clip commence au début du fichier, avec le tempo en vigueur à sa position
+                const channel = MidiFile.getExportChannel(track.type, track.midiOutput?.channel);
+                const smf = MidiFile.fromClips([{ name: clip.name, channel, clips: [clip] }], tempo, timeToBeat(clip.start, tempo));
+                const blob = new Blob([MidiFile.write(smf)], { type: 'audio/midi' });
                 const url = URL.createObjectURL(blob);
                 const a = document.createElement('a');
                 a.href = url;
-                a.download = `${clip.name}.mid.json`;
+                a.download = `${clip.name}.mid`;
                 a.click();
                 URL.revokeObjectURL(url);
             } },
@@ -626,25 +659,25 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
     ctx.fillRect(0, 0, w, h);
 
     ctx.lineWidth = 1;
-    const beatPx = (60 / bpm) * zoomH;
     const startTime = pixelsToTime(scrollX);
     const endTime = pixelsToTime(scrollX + w);
-    const startBar = Math.floor(startTime * (bpm / 60) / 4);
-    const endBar = Math.ceil(endTime * (bpm / 60) / 4);
+    const startBar = Math.max(0, Math.floor(timeToBar(startTime, tempo)));
+    const endBar = Math.ceil(timeToBar(endTime, tempo));
+    const beatToX = (beat: number) => timeToPixels(beatToTime(beat, tempo)) - scrollX;
+    const subStepBeats = GRID_BEATS[gridSize] || 1;
 
+    // Bars follow the meter map, sub-divisions follow the tempo map (ramps included)
     for (let i = startBar; i <= endBar; i++) {
-      const time = i * 4 * (60 / bpm);
-      const x = timeToPixels(time) - scrollX; 
+      const barBeat = barToBeat(i, tempo);
+      const x = beatToX(barBeat);
       
       ctx.strokeStyle = GRID_MAIN;
       ctx.beginPath(); ctx.moveTo(x, 0); ctx.lineTo(x, h); ctx.stroke();
       
-      let subDivs = gridSize === '1/8' ? 8 : (gridSize === '1/16' ? 16 : 4);
-      const subStep = (4 * beatPx) / subDivs;
-
+      const barLength = beatsPerBar(getMeterAtBar(i, tempo));
       ctx.strokeStyle = GRID_SUB;
-      for(let j=1; j<subDivs; j++) {
-         const bx = x + j * subStep;
+      for (let b = subStepBeats; b < barLength - 0.0001; b += subStepBeats) {
+         const bx = beatToX(barBeat + b);
          ctx.beginPath(); ctx.moveTo(bx, 0); ctx.lineTo(bx, h); ctx.stroke();
       }
     }
@@ -670,6 +703,22 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
         }
     }
 
+    // Punch : bande rouge en bas de la règle et bornes sur toute la hauteur
+    if (isPunchActive && punchOut > punchIn) {
+        const px = timeToPixels(punchIn) - scrollX;
+        const pw = timeToPixels(punchOut - punchIn);
+        if (px < w && px + pw > 0) {
+            ctx.fillStyle = 'rgba(239, 68, 68, 0.06)';
+            ctx.fillRect(px, 40, pw, h - 40);
+            ctx.fillStyle = 'rgba(239, 68, 68, 0.6)';
+            ctx.fillRect(px, 36, pw, 4);
+            ctx.strokeStyle = '#ef4444';
+            ctx.lineWidth = 1;
+            ctx.beginPath(); ctx.moveTo(px, 36); ctx.lineTo(px, h); ctx.stroke();
+            ctx.beginPath(); ctx.moveTo(px + pw, 36); ctx.lineTo(px + pw, h); ctx.stroke();
+        }
+    }
+
     ctx.save();
     ctx.translate(0, -scrollTop);
 
@@ -700,7 +749,38 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
           });
       }
       currentY += trackH;
-      track.automationLanes.forEach(l => { if (l.isExpanded) currentY += 80; });
+
+      // Take lanes : chaque passe du cycle, voilée hors des zones retenues dans le comp
+      if (track.isTakesExpanded && track.takeFolder) {
+          track.takeFolder.takes.forEach((take, i) => {
+              const laneY = currentY + i * TAKE_LANE_HEIGHT;
+              if (laneY + TAKE_LANE_HEIGHT < scrollTop || laneY > scrollTop + h) return;
+              ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+              ctx.fillRect(0, laneY, w, TAKE_LANE_HEIGHT);
+
+              const x = timeToPixels(take.clip.start) - scrollX;
+              const width = timeToPixels(take.clip.duration);
+              if (x + width > 0 && x < w) {
+                  drawClip(ctx, take.clip, track.color, x, laneY + 2, width, TAKE_LANE_HEIGHT - 4, false);
+                  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+                  let from = take.clip.start;
+                  track.takeFolder!.comp.filter(seg => seg.takeId === take.id).forEach(seg => {
+                      if (seg.start > from) ctx.fillRect(timeToPixels(from) - scrollX, laneY + 2, timeToPixels(seg.start - from), TAKE_LANE_HEIGHT - 4);
+                      from = Math.max(from, seg.end);
+                  });
+                  const end = take.clip.start + take.clip.duration;
+                  if (end > from) ctx.fillRect(timeToPixels(from) - scrollX, laneY + 2, timeToPixels(end - from), TAKE_LANE_HEIGHT - 4);
+              }
+
+              if (compDrag && compDrag.takeId === take.id && compDrag.end !== null) {
+                  ctx.fillStyle = 'rgba(0, 242, 255, 0.25)';
+                  ctx.fillRect(timeToPixels(Math.min(compDrag.start, compDrag.end)) - scrollX, laneY + 2, timeToPixels(Math.abs(compDrag.end - compDrag.start)), TAKE_LANE_HEIGHT - 4);
+              }
+              ctx.strokeStyle = isLight ? '#475569' : '#1e2229';
+              ctx.beginPath(); ctx.moveTo(0, laneY + TAKE_LANE_HEIGHT); ctx.lineTo(w, laneY + TAKE_LANE_HEIGHT); ctx.stroke();
+          });
+      }
+      currentY += getLanesHeight(track);
     });
     ctx.restore();
 
@@ -709,7 +789,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
         const relativeOffset = mouseTimeAtStart - initialClipState.start;
         const rawNewStart = hoverTime! - relativeOffset;
         const useSnap = snapEnabled && !isShiftDownRef.current;
-        const newStartTime = Math.max(0, getSnappedTime(rawNewStart, bpm, gridSize, useSnap));
+        const newStartTime = Math.max(0, getSnappedTime(rawNewStart, tempo, gridSize, useSnap));
 
         let ghostY = 40;
         let targetTrack: Track | undefined;
@@ -718,7 +798,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
                 targetTrack = t;
                 break;
             }
-            ghostY += zoomV + (t.automationLanes.filter(l=>l.isExpanded).length * 80);
+            ghostY += zoomV + getLanesHeight(t);
         }
         
         let isCompatible = false;
@@ -746,12 +826,24 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
 
     ctx.fillStyle = isLight ? '#64748b' : '#94a3b8';
     ctx.font = 'bold 10px Inter';
-    for (let i = Math.floor(startTime * (bpm / 60) / 4); i <= endBar; i++) {
-        const time = i * 4 * (60 / bpm);
-        const x = timeToPixels(time) - scrollX;
+    for (let i = startBar; i <= endBar; i++) {
+        const x = beatToX(barToBeat(i, tempo));
         if (x >= 0) ctx.fillText((i+1).toString(), x + 4, 24);
     }
 
+    // Tempo markers (top) and time signatures (bottom) of the ruler
+    ctx.font = 'bold 8px Inter';
+    ctx.fillStyle = isLight ? '#0891b2' : '#00f2ff';
+    tempo.tempos.forEach(marker => {
+        const x = beatToX(marker.beat);
+        if (x >= -40 && x <= w) ctx.fillText(`${marker.ramp ? '↗' : '♩'}${Math.round(marker.bpm * 100) / 100}`, x + 4, 11);
+    });
+    ctx.fillStyle = '#eab308';
+    tempo.meters.forEach(marker => {
+        const x = beatToX(barToBeat(marker.bar, tempo));
+        if (x >= -40 && x <= w) ctx.fillText(`${marker.numerator}/${marker.denominator}`, x + 4, 36);
+    });
+
     const phX = timeToPixels(currentTime) - scrollX;
     if (phX >= 0 && phX <= w) {
       const phColor = isRecording ? '#ef4444' : '#00f2ff';
@@ -763,7 +855,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
     }
 
     requestRef.current = requestAnimationFrame(drawTimeline);
-  }, [visibleTracks, zoomV, zoomH, currentTime, isRecording, activeClip, isLoopActive, loopStart, loopEnd, bpm, viewportSize, hoveredTrackId, dragAction, hoverTime, dragStartX, gridSize, snapEnabled]);
+  }, [visibleTracks, zoomV, zoomH, currentTime, isRecording, activeClip, isLoopActive, loopStart, loopEnd, isPunchActive, punchIn, punchOut, tempo, viewportSize, hoveredTrackId, dragAction, hoverTime, dragStartX, gridSize, snapEnabled, compDrag]);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(drawTimeline);
@@ -832,7 +924,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
          setDragAction('SCRUB');
          setLastScrubTime(time);
          setLastScrubTimestamp(Date.now());
-         onSeek(getSnappedTime(time, bpm, gridSize, snapEnabled && !shiftKey));
+         onSeek(getSnappedTime(time, tempo, gridSize, snapEnabled && !shiftKey));
       }
       return;
     }
@@ -863,7 +955,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
 
           if (activeTool === 'SPLIT') {
              const useSnap = snapEnabled && !shiftKey;
-             onEditClip?.(t.id, clip.id, 'SPLIT', { time: getSnappedTime(time, bpm, gridSize, useSnap) });
+             onEditClip?.(t.id, clip.id, 'SPLIT', { time: getSnappedTime(time, tempo, gridSize, useSnap) });
              setDragAction(null);
           } else if (activeTool === 'ERASE') {
              onEditClip?.(t.id, clip.id, 'DELETE');
@@ -879,7 +971,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
           return; 
         } else {
              if (button === 2 && (t.type === TrackType.MIDI || t.type === TrackType.SAMPLER)) {
-                 const snapTime = getSnappedTime(time, bpm, gridSize, true); 
+                 const snapTime = getSnappedTime(time, tempo, gridSize, true); 
                  setContextMenu({
                      x: clientX,
                      y: clientY,
@@ -901,7 +993,21 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
         }
       }
       currentY += zoomV;
-      t.automationLanes.forEach(l => { if (l.isExpanded) currentY += 80; });
+
+      // --- TAKE LANES : clic = prise sur la zone du comp, glisser = swipe comping ---
+      if (t.isTakesExpanded && t.takeFolder) {
+        const lane = Math.floor((absY - currentY) / TAKE_LANE_HEIGHT);
+        const take = absY >= currentY ? t.takeFolder.takes[lane] : undefined;
+        if (take && button === 0 && time >= take.clip.start && time <= take.clip.start + take.clip.duration) {
+          onSelectTrack(t.id);
+          setActiveClip(null);
+          setCompDrag({ trackId: t.id, takeId: take.id, start: time, end: null });
+          setDragStartX(absX);
+          setDragAction('COMP');
+          return;
+        }
+      }
+      currentY += getLanesHeight(t);
     }
 
     if (button === 0) {
@@ -909,10 +1015,10 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
       setDragAction('SCRUB');
       setLastScrubTime(time);
       setLastScrubTimestamp(Date.now());
-      onSeek(getSnappedTime(time, bpm, gridSize, snapEnabled && !shiftKey));
+      onSeek(getSnappedTime(time, tempo, gridSize, snapEnabled && !shiftKey));
     } 
     else if (button === 2) {
-      setGridMenu({ x: clientX, y: clientY });
+      setGridMenu({ x: clientX, y: clientY, time: getSnappedTime(time, tempo, gridSize, snapEnabled && !shiftKey) });
     }
   };
 
@@ -938,8 +1044,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
             foundTrackId = t.id;
             break;
         }
-        currentY += zoomV;
-        t.automationLanes.forEach(l => { if (l.isExpanded) currentY += 80; });
+        currentY += zoomV + getLanesHeight(t);
     }
     setHoveredTrackId(foundTrackId);
 
@@ -948,13 +1053,13 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
     if (loopDragMode) {
         document.body.style.cursor = loopDragMode === 'BODY' ? 'grabbing' : 'ew-resize';
         const rawTime = pixelsToTime(absX);
-        const snappedMouseTime = getSnappedTime(rawTime, bpm, gridSize, useSnap);
+        const snappedMouseTime = getSnappedTime(rawTime, tempo, gridSize, useSnap);
         if (loopDragMode === 'START') onSetLoop(Math.min(Math.max(0, snappedMouseTime), loopEnd - 0.1), loopEnd);
         else if (loopDragMode === 'END') onSetLoop(loopStart, Math.max(snappedMouseTime, loopStart + 0.1));
         else if (loopDragMode === 'BODY' && initialLoopState) {
             const mouseDeltaTime = pixelsToTime(absX - dragStartX);
             let newStart = initialLoopState.start + mouseDeltaTime;
-            if (useSnap) newStart = getSnappedTime(newStart, bpm, gridSize, true);
+            if (useSnap) newStart = getSnappedTime(newStart, tempo, gridSize, true);
             const duration = initialLoopState.end - initialLoopState.start;
             onSetLoop(Math.max(0, newStart), Math.max(0, newStart) + duration);
         }
@@ -973,7 +1078,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
              document.body.style.cursor = 'grabbing';
              break;
           case 'TRIM_START':
-             const rawNewStart = getSnappedTime(initialClipState.start + deltaTime, bpm, gridSize, useSnap);
+             const rawNewStart = getSnappedTime(initialClipState.start + deltaTime, tempo, gridSize, useSnap);
              const maxStart = initialClipState.start + initialClipState.duration - 0.1;
              newStart = Math.min(Math.max(0, rawNewStart), maxStart);
              const diff = newStart - initialClipState.start;
@@ -984,7 +1089,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
              break;
           case 'TRIM_END':
              const proposedEnd = initialClipState.start + initialClipState.duration + deltaTime;
-             const snappedEnd = getSnappedTime(proposedEnd, bpm, gridSize, useSnap);
+             const snappedEnd = getSnappedTime(proposedEnd, tempo, gridSize, useSnap);
              newDuration = Math.max(0.1, snappedEnd - initialClipState.start);
              onEditClip?.(trackId, clip.id, 'UPDATE_PROPS', { duration: newDuration });
              break;
@@ -996,8 +1101,22 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
              break;
        }
     } 
+    else if (dragAction === 'COMP' && compDrag) {
+       // En deçà de quelques pixels, le geste reste un clic
+       if (Math.abs(absX - dragStartX) > 4) {
+           setCompDrag({ ...compDrag, start: getSnappedTime(pixelsToTime(dragStartX), tempo, gridSize, useSnap), end: getSnappedTime(currentTimeAtMouse, tempo, gridSize, useSnap) });
+       }
+    }
     else if (dragAction === 'SCRUB') {
-       onSeek(currentTimeAtMouse);
+       if (onScrub) {
+         const now = Date.now();
+         const elapsed = Math.max(1, now - lastScrubTimestamp) / 1000;
+         onScrub(Math.max(0, currentTimeAtMouse), (currentTimeAtMouse - lastScrubTime) / elapsed);
+         setLastScrubTime(currentTimeAtMouse);
+         setLastScrubTimestamp(now);
+       } else {
+         onSeek(currentTimeAtMouse);
+       }
     } 
     else {
          let cursorSet = false;
@@ -1013,7 +1132,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
                         cursorSet = true;
                     }
                 }
-                cy += zoomV + (t.automationLanes.filter(l => l.isExpanded).length * 80);
+                cy += zoomV + getLanesHeight(t);
             }
         }
         if (!cursorSet) document.body.style.cursor = 'default';
@@ -1039,7 +1158,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
             const relativeOffset = mouseTimeAtStart - initialClipState.start;
             const rawNewStart = hoverTime! - relativeOffset;
             const useSnap = snapEnabled && !isShiftDownRef.current;
-            const newStartTime = Math.max(0, getSnappedTime(rawNewStart, bpm, gridSize, useSnap));
+            const newStartTime = Math.max(0, getSnappedTime(rawNewStart, tempo, gridSize, useSnap));
 
             if (activeClip.trackId !== hoveredTrackId) {
                 onMoveClip?.(activeClip.trackId, hoveredTrackId, activeClip.clip.id);
@@ -1052,6 +1171,13 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
         }
     }
 
+    if (dragAction === 'SCRUB') onStopScrub?.();
+    if (dragAction === 'COMP' && compDrag) {
+        if (compDrag.end === null) onCompTake?.(compDrag.trackId, compDrag.takeId, compDrag.start);
+        else onCompTake?.(compDrag.trackId, compDrag.takeId, compDrag.start, compDrag.end);
+        setCompDrag(null);
+    }
+
     setLoopDragMode(null);
     setInitialLoopState(null);
     setDragAction(null);
@@ -1138,10 +1264,19 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
                    onSwapInstrument={onSwapInstrument}
                 />
               </div>
+              {track.isTakesExpanded && track.takeFolder?.takes.map(take => {
+                 const isInComp = track.takeFolder!.comp.some(seg => seg.takeId === take.id);
+                 return (
+                   <div key={take.id} className="flex items-center px-3 gap-2 border-b text-[9px] font-black uppercase tracking-widest" style={{ height: `${TAKE_LANE_HEIGHT}px`, borderColor: 'var(--border-dim)', color: isInComp ? 'var(--accent-neon)' : 'var(--text-secondary)' }}>
+                     <i className={`fas ${isInComp ? 'fa-check-circle' : 'fa-circle'} text-[8px]`}></i>
+                     <span className="truncate">{take.name}</span>
+                   </div>
+                 );
+              })}
               {track.automationLanes.map(lane => {
                  if (!lane.isExpanded) return null;
                  return (
-                   <div key={lane.id} style={{ height: '80px', position: 'relative' }}>
+                   <div key={lane.id} style={{ height: `${AUTOMATION_LANE_HEIGHT}px`, position: 'relative' }}>
                      <AutomationLaneComponent trackId={track.id} lane={lane} width={0} zoomH={zoomH} scrollLeft={0} onUpdatePoints={() => {}} onRemoveLane={() => { const newLanes = track.automationLanes.map(l => l.id === lane.id ? { ...l, isExpanded: false } : l); onUpdateTrack({ ...track, automationLanes: newLanes }); }} variant="header" />
                    </div>
                  );
@@ -1168,7 +1303,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
           {isRecording && recStartTime !== null && (
              visibleTracks.map((track, idx) => {
                if (!track.isTrackArmed) return null;
-               let topY = 40; for (let i = 0; i < idx; i++) topY += zoomV + (visibleTracks[i].automationLanes.filter(l => l.isExpanded).length * 80);
+               let topY = 40; for (let i = 0; i < idx; i++) topY += zoomV + getLanesHeight(visibleTracks[i]);
                return <div key={`live-${track.id}`} style={{ position: 'absolute', top: `${topY + 2}px`, height: `${zoomV - 4}px`, left: 0, right: 0, pointerEvents: 'none' }}><LiveRecordingClip trackId={track.id} recStartTime={recStartTime} currentTime={currentTime} zoomH={zoomH} height={zoomV - 4} /></div>;
              })
           )}
@@ -1178,7 +1313,7 @@ const ArrangementView: React.FC<ArrangementViewProps> = ({
       {contextMenu && <ContextMenu x={contextMenu.x} y={contextMenu.y} items={contextMenu.items} onClose={() => setContextMenu(null)} />}
       
       {gridMenu && (
-        <TimelineGridMenu x={gridMenu.x} y={gridMenu.y} onClose={() => setGridMenu(null)} gridSize={gridSize} onSetGridSize={setGridSize} snapEnabled={snapEnabled} onToggleSnap={() => setSnapEnabled(!snapEnabled)} onAddTrack={() => onAddTrack && onAddTrack(TrackType.AUDIO)} onResetZoom={() => { setZoomH(40); setZoomV(120); }} onPaste={() => {}} />
+        <TimelineGridMenu x={gridMenu.x} y={gridMenu.y} onClose={() => setGridMenu(null)} gridSize={gridSize} onSetGridSize={setGridSize} snapEnabled={snapEnabled} onToggleSnap={() => setSnapEnabled(!snapEnabled)} onAddTrack={() => onAddTrack && onAddTrack(TrackType.AUDIO)} onResetZoom={() => { setZoomH(40); setZoomV(120); }} onPaste={() => {}} onAddTempoMarker={onAddTempoMarker && (() => onAddTempoMarker(gridMenu.time))} onAddMeterMarker={onAddMeterMarker && (() => onAddMeterMarker(gridMenu.time))} onSetPunchIn={onSetPunch && (() => onSetPunch(gridMenu.time, Math.max(gridMenu.time, punchOut)))} onSetPunchOut={onSetPunch && (() => onSetPunch(Math.min(gridMenu.time, punchIn), gridMenu.time))} />
       )}
 
       {hoverTime !== null && dragAction !== null && (
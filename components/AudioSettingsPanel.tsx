@@ -23,11 +23,17 @@ const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ onClose }) => {
   const [cpuUsage, setCpuUsage] = useState(0);
   const [isPlayingTestTone, setIsPlayingTestTone] = useState(false);
   const [isSinkSupported, setIsSinkSupported] = useState(true);
+
+  // Recording latency (ms) : décalage manuel appliqué en plus des latences du contexte
+  const [recOffsetMs, setRecOffsetMs] = useState<number>(0);
+  const [isCalibrating, setIsCalibrating] = useState(false);
   
   // MIDI State
   const [midiInputs, setMidiInputs] = useState<MidiDevice[]>([]);
   const [selectedMidiInput, setSelectedMidiInput] = useState<string>('');
   const [midiChannel, setMidiChannel] = useState<number>(0);
+  const [midiOutputs, setMidiOutputs] = useState<MidiDevice[]>([]);
+  const [clockOutputs, setClockOutputs] = useState<string[]>([]);
 
   // Status
   const [status, setStatus] = useState<string>('Initialisation...');
@@ -40,6 +46,7 @@ const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ onClose }) => {
         const savedInput = localStorage.getItem('nova_audio_input');
         const savedOutput = localStorage.getItem('nova_audio_output');
         const savedLatency = localStorage.getItem('nova_audio_latency');
+        const savedRecOffset = localStorage.getItem('nova_audio_rec_offset');
 
         if (savedInput) setSelectedInput(savedInput);
         if (savedOutput) setSelectedOutput(savedOutput);
@@ -47,6 +54,7 @@ const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ onClose }) => {
              setLatencyHint(savedLatency);
              audioEngine.setLatencyMode(savedLatency as any);
         }
+        if (savedRecOffset) setRecOffsetMs(parseFloat(savedRecOffset) || 0);
 
         // Feature detection setSinkId
         // @ts-ignore
@@ -65,7 +73,10 @@ const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ onClose }) => {
         if (inputs.length > 0) {
             setSelectedMidiInput(inputs[0].id);
         }
+        setMidiOutputs(midiManager.getOutputs());
+        setClockOutputs(midiManager.getClockOutputs());
     });
+    const unsubscribePorts = midiManager.addPortListener(() => setMidiOutputs(midiManager.getOutputs()));
 
     // Écouter les changements de périphériques
     navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
@@ -81,6 +92,7 @@ const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ onClose }) => {
 
     return () => {
         navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+        unsubscribePorts();
         if (cpuInterval.current) clearInterval(cpuInterval.current);
     };
   }, []);
@@ -130,12 +142,45 @@ const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ onClose }) => {
       midiManager.setChannel(ch);
   };
 
+  const handleToggleClockOutput = (id: string) => {
+      const next = clockOutputs.includes(id) ? clockOutputs.filter(o => o !== id) : [...clockOutputs, id];
+      setClockOutputs(next);
+      midiManager.setClockOutputs(next);
+  };
+
   const handleLatencyChange = (mode: string) => {
       setLatencyHint(mode);
       audioEngine.setLatencyMode(mode as any);
       localStorage.setItem('nova_audio_latency', mode);
   };
 
+  const handleRecOffsetChange = (ms: number) => {
+      setRecOffsetMs(ms);
+      audioEngine.setRecordingOffset(ms / 1000);
+      localStorage.setItem('nova_audio_rec_offset', ms.toString());
+  };
+
+  const handleCalibrate = async () => {
+      setIsCalibrating(true);
+      setStatus('Calibrating... keep the room quiet');
+      try {
+          const offset = await audioEngine.calibrateLatency();
+          if (offset === null) {
+              setStatus('Calibration Error: no click detected. Check the loopback.');
+          } else {
+              handleRecOffsetChange(Math.round(offset * 10000) / 10);
+              setStatus('Calibration done');
+          }
+      } catch (err) {
+          console.error("Calibration error", err);
+          setStatus('Calibration Error: microphone unavailable.');
+      } finally {
+          setIsCalibrating(false);
+      }
+  };
+
+  const recLatency = audioEngine.getRecordingLatency();
+
   const toggleTestTone = () => {
       setIsPlayingTestTone(true);
       audioEngine.playTestTone();
@@ -273,6 +318,24 @@ const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ onClose }) => {
                             </div>
                         </div>
                     </div>
+
+                    {/* MIDI OUTPUTS : les pistes y sont routées depuis le mixer, CLOCK = horloge + transport du projet */}
+                    <div className="space-y-2">
+                        <label className="text-[9px] font-bold text-slate-400 uppercase block tracking-wider">MIDI Outputs</label>
+                        {midiOutputs.length === 0 && <p className="text-[10px] text-slate-600">No MIDI Outputs Found</p>}
+                        {midiOutputs.map(dev => (
+                            <div key={dev.id} className="h-10 bg-[#14161a] border border-white/10 rounded-xl px-4 flex items-center justify-between">
+                                <span className="text-[11px] font-medium text-white truncate">{dev.name}</span>
+                                <button
+                                    onClick={() => handleToggleClockOutput(dev.id)}
+                                    className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${clockOutputs.includes(dev.id) ? 'bg-green-500 text-black' : 'bg-white/5 text-slate-500 hover:text-white'}`}
+                                    title="Send MIDI clock, start/stop and song position to this port"
+                                >
+                                    Clock
+                                </button>
+                            </div>
+                        ))}
+                    </div>
                 </div>
 
                 <div className="h-px bg-white/5 w-full"></div>
@@ -317,6 +380,55 @@ const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ onClose }) => {
                     </div>
                 </div>
 
+                <div className="h-px bg-white/5 w-full"></div>
+
+                {/* RECORDING LATENCY */}
+                <div className="space-y-5">
+                    <div className="flex items-center justify-between mb-2">
+                        <span className="text-[10px] font-black text-red-500 uppercase tracking-widest bg-red-500/10 px-2 py-0.5 rounded">Recording Latency</span>
+                        <div className="flex items-center space-x-2">
+                            <span className="text-[9px] font-bold text-slate-500 uppercase">Round Trip:</span>
+                            <span className="text-[10px] font-mono text-white bg-white/5 px-2 py-0.5 rounded">{((recLatency.base + recLatency.output) * 1000 + recOffsetMs).toFixed(1)} ms</span>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-3 text-center">
+                        <div className="bg-[#14161a] border border-white/5 rounded-xl py-3">
+                            <span className="text-[8px] font-bold text-slate-500 uppercase block">Base</span>
+                            <span className="text-[11px] font-mono text-white">{(recLatency.base * 1000).toFixed(1)} ms</span>
+                        </div>
+                        <div className="bg-[#14161a] border border-white/5 rounded-xl py-3">
+                            <span className="text-[8px] font-bold text-slate-500 uppercase block">Output</span>
+                            <span className="text-[11px] font-mono text-white">{(recLatency.output * 1000).toFixed(1)} ms</span>
+                        </div>
+                        <div className="bg-[#14161a] border border-white/5 rounded-xl py-2 px-3">
+                            <span className="text-[8px] font-bold text-slate-500 uppercase block">Manual Offset</span>
+                            <input 
+                                type="number" step="0.5" value={recOffsetMs}
+                                onChange={(e) => handleRecOffsetChange(parseFloat(e.target.value) || 0)}
+                                className="w-full bg-transparent text-center text-[11px] font-mono text-white outline-none focus:text-red-400"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="bg-white/[0.02] border border-white/5 rounded-2xl p-4 flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                            <i className="fas fa-redo-alt text-slate-500"></i>
+                            <div className="flex flex-col">
+                                <span className="text-[10px] font-bold text-white">Loopback Calibration</span>
+                                <span className="text-[8px] text-slate-500">Relier la sortie à l'entrée (ou micro contre le haut-parleur)</span>
+                            </div>
+                        </div>
+                        <button 
+                            onClick={handleCalibrate}
+                            disabled={isCalibrating}
+                            className={`px-6 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${isCalibrating ? 'bg-red-500 text-white animate-pulse' : 'bg-white/10 text-white hover:bg-white/20'}`}
+                        >
+                            {isCalibrating ? 'Listening...' : 'Calibrate'}
+                        </button>
+                    </div>
+                </div>
+
                 {/* TEST TONE */}
                 <div className="bg-white/[0.02] border border-white/5 rounded-2xl p-4 flex items-center justify-between">
                     <div className="flex items-center space-x-3">
@@ -1,8 +1,10 @@
 
 import React, { useState, useEffect } from 'react';
-import { DAWState, Track } from '../types';
+import { DAWState, Track, TrackType } from '../types';
 import { audioEngine } from '../engine/AudioEngine';
 import { AudioEncoder, BitDepth, AudioFormat } from '../services/AudioEncoder';
+import { MidiFile } from '../services/MidiFile';
+import { timeToBeat } from '../utils/helpers';
 import JSZip from 'jszip';
 
 interface ExportModalProps {
@@ -16,7 +18,7 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, projectState
   const [filename, setFilename] = useState(projectState.name || 'Master');
   
   // SOURCE & PLAGE
-  const [source, setSource] = useState<'MASTER' | 'STEMS'>('MASTER');
+  const [source, setSource] = useState<'MASTER' | 'STEMS' | 'MIDI'>('MASTER');
   const [rangeMode, setRangeMode] = useState<'FULL' | 'LOOP'>('FULL');
 
   // FORMAT & QUALITÉ
@@ -104,11 +106,28 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, projectState
   };
 
   const handleExport = async () => {
+    // Les pistes sur un port MIDI externe ne passent pas par l'instrument interne : silencieuses au rendu
+    const routedTracks = audioEngine.getUnrenderedMidiTracks(projectState.tracks);
+    if (source !== 'MIDI' && routedTracks.length > 0 && !confirm(`${routedTracks.map(t => t.name).join(', ')} : joué sur un port MIDI externe, absent du rendu. Enregistrez d'abord le retour audio. Exporter quand même ?`)) return;
+
     setIsRendering(true);
     setProgress(0);
 
     try {
-        if (source === 'MASTER') {
+        if (source === 'MIDI') {
+            // --- EXPORT MIDI : une piste par piste instrument, la plage donne l'origine du fichier ---
+            const map = projectState.tempoMap;
+            const tracks = projectState.tracks
+                .filter(t => t.clips.some(c => c.type === TrackType.MIDI))
+                .map(t => ({ name: t.name, channel: MidiFile.getExportChannel(t.type, t.midiOutput?.channel), clips: t.clips }));
+            const smf = rangeMode === 'LOOP'
+                ? MidiFile.fromClips(tracks, map, timeToBeat(projectState.loopStart, map), timeToBeat(projectState.loopEnd, map))
+                : MidiFile.fromClips(tracks, map);
+            if (smf.tracks.length === 0) throw new Error('Aucune note MIDI à exporter');
+            setStatusText('Écriture du fichier MIDI...');
+            downloadBlob(new Blob([MidiFile.write(smf)], { type: 'audio/midi' }), `${filename}.mid`);
+        }
+        else if (source === 'MASTER') {
             // --- EXPORT MASTER SIMPLE ---
             const blob = await renderTrackList(projectState.tracks, "Master Mix");
             downloadBlob(blob, `${filename}_${sampleRate}Hz_${bitDepth}bit.${format.toLowerCase()}`);
@@ -225,6 +244,7 @@ const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, projectState
                                 >
                                     <option value="MASTER">Master Mix (Stereo)</option>
                                     <option value="STEMS">All Tracks (Stems .zip)</option>
+                                    <option value="MIDI">MIDI File (.mid)</option>
                                 </select>
                              </div>
                              <div className="space-y-1">
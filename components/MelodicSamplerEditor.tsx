@@ -1,18 +1,21 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { PluginInstance } from '../types';
+import { PluginInstance, Track } from '../types';
 import { audioEngine } from '../engine/AudioEngine';
 import WaveformRenderer from './WaveformRenderer';
 import { MelodicSamplerNode, MelodicSamplerParams } from '../engine/MelodicSamplerNode';
 import { midiManager } from '../services/MidiManager'; // NEW
+import SampleZoneEditor from './SampleZoneEditor';
 
 interface MelodicSamplerEditorProps {
   plugin: PluginInstance;
   trackId: string;
   onClose: () => void;
+  track?: Track; // Mapping multi-échantillons
+  onUpdateTrack?: (track: Track) => void;
 }
 
-const MelodicSamplerEditor: React.FC<MelodicSamplerEditorProps> = ({ plugin, trackId, onClose }) => {
+const MelodicSamplerEditor: React.FC<MelodicSamplerEditorProps> = ({ plugin, trackId, onClose, track, onUpdateTrack }) => {
   const [params, setParams] = useState<MelodicSamplerParams>({
     rootKey: 60, fineTune: 0, glide: 0.05, loop: true, loopStart: 0, loopEnd: 1,
     attack: 0.01, decay: 0.3, sustain: 0.5, release: 0.5,
@@ -241,6 +244,9 @@ const MelodicSamplerEditor: React.FC<MelodicSamplerEditorProps> = ({ plugin, tra
             </div>
         </div>
 
+        {/* MULTISAMPLE ZONES */}
+        {track && onUpdateTrack && <SampleZoneEditor track={track} onUpdateTrack={onUpdateTrack} />}
+
         {/* VIRTUAL KEYBOARD */}
         <div className="h-24 bg-black/40 rounded-xl border-t-4 border-white/5 flex overflow-hidden relative">
             {Array.from({ length: 24 }).map((_, i) => {
@@ -2,10 +2,13 @@
 import React, { useEffect, useRef } from 'react';
 import { audioEngine } from '../engine/AudioEngine';
 
+// INPUT = crête de l'entrée d'une piste armée, avant monitoring (réglage du gain)
+type MeterType = 'TRACK' | 'INPUT' | 'MASTER_L' | 'MASTER_R';
+
 // --- METER MANAGER LOGIC ---
 class MeterManager {
   private static instance: MeterManager;
-  private registeredElements: Map<string, { el: HTMLElement, type: 'TRACK' | 'MASTER_L' | 'MASTER_R', peak: number, peakTimer: number }> = new Map();
+  private registeredElements: Map<string, { el: HTMLElement, type: MeterType, trackId: string, peak: number, peakTimer: number }> = new Map();
   private animationFrameId: number | null = null;
 
   private constructor() {
@@ -19,8 +22,8 @@ class MeterManager {
     return MeterManager.instance;
   }
 
-  public register(id: string, element: HTMLElement, type: 'TRACK' | 'MASTER_L' | 'MASTER_R') {
-    this.registeredElements.set(id, { el: element, type, peak: 0, peakTimer: 0 });
+  public register(id: string, element: HTMLElement, type: MeterType, trackId: string = id) {
+    this.registeredElements.set(id, { el: element, type, trackId, peak: 0, peakTimer: 0 });
     if (!this.animationFrameId) {
       this.loop();
     }
@@ -40,7 +43,7 @@ class MeterManager {
     const now = Date.now();
     const isPlaying = audioEngine.getIsPlaying();
 
-    this.registeredElements.forEach((data, id) => {
+    this.registeredElements.forEach((data) => {
       let rms = 0;
 
       if (data.type === 'MASTER_L' || data.type === 'MASTER_R') {
@@ -52,8 +55,14 @@ class MeterManager {
         }
       } else if (data.type === 'TRACK') {
         // Pour les pistes, on vérifie toujours l'analyseur (monitoring possible)
-        const analyzer = audioEngine.getTrackAnalyzer(id);
+        const analyzer = audioEngine.getTrackAnalyzer(data.trackId);
         if (analyzer) rms = audioEngine.getRMS(analyzer);
+      } else if (data.type === 'INPUT') {
+        const level = audioEngine.getInputLevel(data.trackId);
+        rms = level ? level.peak : 0;
+        // Voyant de saturation : second enfant de l'élément
+        const led = data.el.children[1] as HTMLElement | undefined;
+        if (led) led.style.opacity = level?.isClipping ? '1' : '0.15';
       }
 
       // Convert RMS to dB visual scale (0 to 1)
@@ -70,12 +79,12 @@ class MeterManager {
       }
 
       // DOM Update (Highly Optimized)
-      // On assume que l'élément a un enfant pour la barre (index 0)
-      const bar = data.el.firstElementChild as HTMLElement;
+      // On assume que l'élément a un enfant pour la barre (index 0, dans sa gaine pour INPUT)
+      const bar = (data.type === 'INPUT' ? data.el.firstElementChild?.firstElementChild : data.el.firstElementChild) as HTMLElement;
       if (bar) {
         const percent = visual * 100;
         
-        if (data.type.startsWith('MASTER')) {
+        if (data.type === 'MASTER_L' || data.type === 'MASTER_R') {
             // Vertical bar
             bar.style.height = `${percent}%`;
         } else {
@@ -141,3 +150,34 @@ export const TrackMeter: React.FC<TrackMeterProps> = ({ trackId }) => {
     </div>
   );
 };
+
+interface InputMeterProps {
+  trackId: string;
+}
+
+// Mètre d'entrée d'une piste armée ; clic sur le voyant rouge pour l'éteindre
+export const InputMeter: React.FC<InputMeterProps> = ({ trackId }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const manager = MeterManager.getInstance();
+    const id = `input_${trackId}`;
+    if (ref.current) manager.register(id, ref.current, 'INPUT', trackId);
+    return () => manager.unregister(id);
+  }, [trackId]);
+
+  return (
+    <div className="flex items-center space-x-1 flex-1" ref={ref} title="Input Level (peak)">
+      <div className="flex-1 h-2 bg-black/50 rounded-full overflow-hidden border border-white/5">
+        <div className="h-full bg-green-500 transition-none" style={{ width: '0%' }} />
+      </div>
+      <button
+        onClick={(e) => { e.stopPropagation(); audioEngine.resetInputClip(trackId); }}
+        onTouchStart={(e) => { e.stopPropagation(); audioEngine.resetInputClip(trackId); }}
+        className="w-2 h-2 rounded-full bg-red-500 shrink-0"
+        style={{ opacity: 0.15 }}
+        title="Clip (click to reset)"
+      />
+    </div>
+  );
+};
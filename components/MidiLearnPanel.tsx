@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { MidiMapping, MidiMappingCurve, MidiTakeover } from '../types';
+import { midiLearn } from '../services/MidiLearn';
+
+const CURVES: { value: MidiMappingCurve, label: string }[] = [
+  { value: 'LINEAR', label: 'Lin' },
+  { value: 'LOG', label: 'Log' },
+  { value: 'EXP', label: 'Exp' }
+];
+
+const TAKEOVERS: { value: MidiTakeover, label: string }[] = [
+  { value: 'JUMP', label: 'Jump' },
+  { value: 'PICKUP', label: 'Pickup' }
+];
+
+const getSourceLabel = (mapping: MidiMapping) => `${mapping.source.type === 'CC' ? 'CC' : 'Note'} ${mapping.source.number} · Ch${mapping.source.channel}`;
+
+/**
+ * Liste des mappings du projet (course, courbe, reprise) et presets de contrôleur.
+ * Le learn lui-même se fait sur les contrôles : LEARN actif, clic sur un bouton, mouvement du contrôleur.
+ */
+const MidiLearnPanel: React.FC = () => {
+  const [, setRevision] = useState(0);
+  useEffect(() => midiLearn.addListener(() => setRevision(r => r + 1)), []);
+
+  const mappings = midiLearn.getMappings();
+  const presets = midiLearn.getPresets();
+  const isLearning = midiLearn.getIsLearning();
+
+  const handleSavePreset = () => {
+    const name = prompt('Controller preset name:');
+    if (name) midiLearn.savePreset(name);
+  };
+
+  return (
+    <div className="w-72 p-3 space-y-3 bg-[#14161a] border border-white/10 rounded-xl shadow-2xl">
+      <button
+        onClick={() => midiLearn.setLearning(!isLearning)}
+        className={`w-full h-7 rounded text-[9px] font-black uppercase tracking-widest ${isLearning ? 'bg-green-500 text-black animate-pulse' : 'bg-white/5 text-slate-400 hover:text-white'}`}
+      >
+        {isLearning ? (midiLearn.getTarget() ? 'Move a control…' : 'Click a knob…') : 'Learn'}
+      </button>
+
+      <div className="space-y-1 max-h-60 overflow-y-auto custom-scroll">
+        {mappings.length === 0 && <p className="text-[9px] text-slate-600 text-center py-2">No mappings</p>}
+        {mappings.map(mapping => (
+          <div key={mapping.id} className="p-2 rounded-lg bg-black/40 border border-white/5 space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-[9px] font-bold text-white truncate">{mapping.label || mapping.paramId}</span>
+              <button onClick={() => midiLearn.removeMapping(mapping.id)} className="text-slate-600 hover:text-red-400 text-[9px]" title="Remove mapping">
+                <i className="fas fa-times"></i>
+              </button>
+            </div>
+            <div className="flex items-center space-x-1 text-[8px] font-black uppercase text-slate-500">
+              <span className="font-mono text-green-400 flex-1">{getSourceLabel(mapping)}</span>
+              <input
+                type="number" min={0} max={100} value={Math.round(mapping.min * 100)}
+                onChange={(e) => midiLearn.updateMapping(mapping.id, { min: Math.max(0, Math.min(100, Number(e.target.value))) / 100 })}
+                className="w-9 bg-transparent border border-white/10 rounded px-1 text-slate-300 outline-none"
+                title="Minimum (% of the parameter range)"
+              />
+              <input
+                type="number" min={0} max={100} value={Math.round(mapping.max * 100)}
+                onChange={(e) => midiLearn.updateMapping(mapping.id, { max: Math.max(0, Math.min(100, Number(e.target.value))) / 100 })}
+                className="w-9 bg-transparent border border-white/10 rounded px-1 text-slate-300 outline-none"
+                title="Maximum (% of the parameter range)"
+              />
+              <select value={mapping.curve} onChange={(e) => midiLearn.updateMapping(mapping.id, { curve: e.target.value as MidiMappingCurve })} className="bg-transparent text-slate-300 outline-none cursor-pointer">
+                {CURVES.map(c => <option key={c.value} value={c.value} className="bg-[#14161a]">{c.label}</option>)}
+              </select>
+              <select value={mapping.takeover} onChange={(e) => midiLearn.updateMapping(mapping.id, { takeover: e.target.value as MidiTakeover })} className="bg-transparent text-slate-300 outline-none cursor-pointer">
+                {TAKEOVERS.map(t => <option key={t.value} value={t.value} className="bg-[#14161a]">{t.label}</option>)}
+              </select>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* PRESETS : partagés entre projets */}
+      <div className="pt-2 border-t border-white/5 space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-[8px] font-black uppercase text-slate-500">Controller Presets</span>
+          <button onClick={handleSavePreset} disabled={mappings.length === 0} className="text-[8px] font-black uppercase text-green-400 hover:text-white disabled:opacity-30">Save</button>
+        </div>
+        {presets.map(preset => (
+          <div key={preset.id} className="flex items-center justify-between h-6 px-2 rounded bg-white/5">
+            <button onClick={() => midiLearn.loadPreset(preset.id)} className="text-[9px] text-slate-300 hover:text-white truncate flex-1 text-left" title="Replace the project mappings">
+              {preset.name} <span className="text-slate-600">({preset.mappings.length})</span>
+            </button>
+            <button onClick={() => midiLearn.deletePreset(preset.id)} className="text-slate-600 hover:text-red-400 text-[9px]">
+              <i className="fas fa-trash"></i>
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MidiLearnPanel;
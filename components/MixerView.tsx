@@ -1,9 +1,10 @@
 
 import React, { useRef, useEffect, useState } from 'react';
-import { Track, TrackType, PluginInstance, TrackSend, PluginType } from '../types';
+import { Track, TrackType, PluginInstance, TrackSend, PluginType, MonitorMode, MidiDevice } from '../types';
 import { audioEngine } from '../engine/AudioEngine';
+import { midiManager } from '../services/MidiManager';
 import { SmartKnob } from './SmartKnob';
-import { getValidDestinations, getRouteLabel } from './RoutingManager';
+import { getValidDestinations, getValidSendDestinations, getRouteLabel } from './RoutingManager';
 
 const VUMeter: React.FC<{ analyzer: AnalyserNode | null }> = ({ analyzer }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -31,36 +32,116 @@ const VUMeter: React.FC<{ analyzer: AnalyserNode | null }> = ({ analyzer }) => {
   return <canvas ref={canvasRef} width={6} height={120} className="rounded-full overflow-hidden" />;
 };
 
-const SendKnob: React.FC<{ send: TrackSend, track: Track, onUpdate: (t: Track) => void }> = ({ send, track, onUpdate }) => {
+const SendKnob: React.FC<{ send: TrackSend, track: Track, allTracks: Track[], onUpdate: (t: Track) => void }> = ({ send, track, allTracks, onUpdate }) => {
+  const destTrack = allTracks.find(t => t.id === send.id);
   const getSendColor = (id: string) => {
+    if (destTrack) return destTrack.color;
     if (id === 'send-delay') return '#00f2ff';
     if (id === 'send-verb-short') return '#6366f1';
     return '#a855f7';
   };
 
+  const patchSend = (patch: Partial<TrackSend>) => {
+      onUpdate({ ...track, sends: track.sends.map(s => s.id === send.id ? { ...s, ...patch } : s) });
+  };
+
   return (
-    <div className="flex flex-col items-center justify-center">
+    <div className={`relative group/send flex flex-col items-center justify-center ${send.isEnabled ? '' : 'opacity-40'}`}>
        <SmartKnob 
           id={`${track.id}-send-${send.id}`}
           targetId={track.id}
           paramId={`send::${send.id}`} 
-          label={send.id.replace('send-', '').substring(0, 4)}
+          label={(destTrack ? destTrack.name : send.id.replace('send-', '')).substring(0, 4)}
           value={send.level}
           min={0}
           max={1.5}
           size={26} // Slightly bigger
           color={getSendColor(send.id)}
-          onChange={(val) => {
-              const newSends = track.sends.map(s => s.id === send.id ? { ...s, level: val } : s);
-              onUpdate({ ...track, sends: newSends });
-          }}
+          onChange={(val) => patchSend({ level: val })}
        />
+       <div className="flex space-x-0.5 mt-0.5">
+          <button onClick={() => patchSend({ isPreFader: !send.isPreFader })} title="Pre / Post Fader" className={`px-1 rounded text-[6px] font-black ${send.isPreFader ? 'bg-amber-500/20 text-amber-400' : 'bg-white/5 text-slate-500'}`}>{send.isPreFader ? 'PRE' : 'POST'}</button>
+          <button onClick={() => patchSend({ isEnabled: !send.isEnabled })} title="Send On/Off" className={`w-3 rounded flex items-center justify-center ${send.isEnabled ? 'bg-cyan-500/20 text-cyan-400' : 'bg-white/5 text-slate-600'}`}><i className="fas fa-power-off text-[5px]"></i></button>
+       </div>
+       <button onClick={() => onUpdate({ ...track, sends: track.sends.filter(s => s.id !== send.id) })} className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-red-500/80 text-white text-[6px] items-center justify-center hidden group-hover/send:flex"><i className="fas fa-times"></i></button>
     </div>
   );
 };
 
+const SendsSection: React.FC<{ track: Track, allTracks: Track[], onUpdate: (t: Track) => void }> = ({ track, allTracks, onUpdate }) => {
+    // Only SEND/BUS returns that cannot feed back into this track
+    const available = getValidSendDestinations(track.id, allTracks).filter(d => !track.sends.some(s => s.id === d.id));
+
+    return (
+        <div className="h-24 bg-black/40 border-b border-white/5 p-2 flex flex-col">
+            <div className="flex items-center justify-between mb-1">
+                <span className="text-[7px] font-black text-slate-600 uppercase px-1">Sends</span>
+                {available.length > 0 && (
+                    <div className="relative">
+                        <div className="h-4 px-1.5 rounded bg-white/5 border border-white/5 flex items-center text-[7px] font-black text-cyan-400 cursor-pointer hover:border-cyan-500/40"><i className="fas fa-plus mr-1"></i>ADD</div>
+                        <select
+                            className="absolute inset-0 opacity-0 cursor-pointer"
+                            value=""
+                            onChange={(e) => e.target.value && onUpdate({ ...track, sends: [...track.sends, { id: e.target.value, level: 0.5, isEnabled: true, isPreFader: false }] })}
+                        >
+                            <option value="">Add Send...</option>
+                            {available.map(dest => <option key={dest.id} value={dest.id}>{dest.name}</option>)}
+                        </select>
+                    </div>
+                )}
+            </div>
+            <div className="flex-1 grid grid-cols-3 gap-2 items-center overflow-y-auto custom-scroll">
+                {track.sends.map(s => <SendKnob key={s.id} send={s} track={track} allTracks={allTracks} onUpdate={onUpdate} />)}
+            </div>
+        </div>
+    );
+};
+
+// Canaux proposés : paires stéréo puis entrées mono ; l'engine se limite à ce que l'interface expose
+const INPUT_CHANNEL_COUNT = 8;
+const INPUT_CHANNEL_OPTIONS = [
+    ...Array.from({ length: INPUT_CHANNEL_COUNT / 2 }, (_, i) => ({ value: `S${i * 2}`, label: `Stereo ${i * 2 + 1}-${i * 2 + 2}` })),
+    ...Array.from({ length: INPUT_CHANNEL_COUNT }, (_, i) => ({ value: `M${i}`, label: `Mono ${i + 1}${i === 0 ? ' (L)' : i === 1 ? ' (R)' : ''}` }))
+];
+
+const MONITOR_OPTIONS: { value: MonitorMode, label: string }[] = [
+    { value: 'AUTO', label: 'Auto' },
+    { value: 'ALWAYS', label: 'Always' },
+    { value: 'TAPE', label: 'Tape' },
+    { value: 'OFF', label: 'Off' }
+];
+
+const getInputChannelValue = (track: Track) => `${track.isInputStereo === false ? 'M' : 'S'}${track.inputChannel || 0}`;
+
+// Entrées audio du système, mises à jour au branchement d'une interface
+const useInputDevices = () => {
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+    useEffect(() => {
+        const refresh = () => navigator.mediaDevices.enumerateDevices().then(list => setDevices(list.filter(d => d.kind === 'audioinput' && d.deviceId !== 'default'))).catch(() => {});
+        refresh();
+        navigator.mediaDevices.addEventListener('devicechange', refresh);
+        return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    }, []);
+    return devices;
+};
+
+// Sorties MIDI (synthés externes, autres applications)
+const useMidiOutputs = () => {
+    const [outputs, setOutputs] = useState<MidiDevice[]>([]);
+    useEffect(() => {
+        midiManager.init().then(() => setOutputs(midiManager.getOutputs()));
+        return midiManager.addPortListener(() => setOutputs(midiManager.getOutputs()));
+    }, []);
+    return outputs;
+};
+
 const IOSection: React.FC<{ track: Track, allTracks: Track[], onUpdate: (t: Track) => void }> = ({ track, allTracks, onUpdate }) => {
     const validDestinations = getValidDestinations(track.id, allTracks);
+    const inputDevices = useInputDevices();
+    const inputDevice = inputDevices.find(d => d.deviceId === track.inputDeviceId);
+    const channelLabel = INPUT_CHANNEL_OPTIONS.find(o => o.value === getInputChannelValue(track))?.label || '';
+    const midiOutputs = useMidiOutputs();
+    const isInstrument = track.type === TrackType.MIDI || track.type === TrackType.SAMPLER || track.type === TrackType.DRUM_RACK;
     
     return (
         <div className="flex flex-col space-y-1 mb-2 px-1">
@@ -69,7 +150,7 @@ const IOSection: React.FC<{ track: Track, allTracks: Track[], onUpdate: (t: Trac
                 <div className="h-6 bg-black/60 rounded flex items-center px-2 border border-white/5 cursor-pointer hover:border-white/20">
                     <span className="text-[8px] font-black text-slate-500 mr-2">IN</span>
                     <span className="text-[8px] font-mono text-cyan-400 truncate flex-1">
-                        {track.inputDeviceId === 'mic-default' ? 'MIC 1' : (track.inputDeviceId ? 'EXT' : 'NO IN')}
+                        {track.inputDeviceId === 'mic-default' ? 'MIC 1' : (inputDevice ? inputDevice.label || 'EXT' : (track.inputDeviceId ? 'EXT' : 'NO IN'))}
                     </span>
                     <i className="fas fa-caret-down text-[8px] text-slate-600"></i>
                 </div>
@@ -80,9 +161,94 @@ const IOSection: React.FC<{ track: Track, allTracks: Track[], onUpdate: (t: Trac
                 >
                     <option value="none">No Input</option>
                     <option value="mic-default">Mic / Line 1</option>
+                    {inputDevices.map(d => <option key={d.deviceId} value={d.deviceId}>{d.label || `Input ${d.deviceId.substring(0, 5)}`}</option>)}
                 </select>
             </div>
 
+            {/* INPUT CHANNEL : stéréo ou mono, sur une interface multi-canaux */}
+            {track.inputDeviceId && (
+                <div className="relative group/io">
+                    <div className="h-6 bg-black/60 rounded flex items-center px-2 border border-white/5 cursor-pointer hover:border-white/20">
+                        <span className="text-[8px] font-black text-slate-500 mr-2">CH</span>
+                        <span className="text-[8px] font-mono text-cyan-400 truncate flex-1">{channelLabel}</span>
+                        <i className="fas fa-caret-down text-[8px] text-slate-600"></i>
+                    </div>
+                    <select 
+                        className="absolute inset-0 opacity-0 cursor-pointer"
+                        value={getInputChannelValue(track)}
+                        onChange={(e) => onUpdate({ ...track, isInputStereo: e.target.value[0] === 'S', inputChannel: parseInt(e.target.value.slice(1)) })}
+                    >
+                        {INPUT_CHANNEL_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                    </select>
+                </div>
+            )}
+
+            {/* MONITORING : mode d'écoute de l'entrée armée, DIR = sans les inserts */}
+            {track.inputDeviceId && (
+                <div className="flex space-x-1">
+                    <div className="relative group/io flex-1">
+                        <div className="h-6 bg-black/60 rounded flex items-center px-2 border border-white/5 cursor-pointer hover:border-white/20">
+                            <span className="text-[8px] font-black text-slate-500 mr-2">MON</span>
+                            <span className="text-[8px] font-mono text-cyan-400 truncate flex-1">
+                                {MONITOR_OPTIONS.find(o => o.value === (track.monitorMode || 'AUTO'))?.label}
+                            </span>
+                            <i className="fas fa-caret-down text-[8px] text-slate-600"></i>
+                        </div>
+                        <select 
+                            className="absolute inset-0 opacity-0 cursor-pointer"
+                            value={track.monitorMode || 'AUTO'}
+                            onChange={(e) => onUpdate({ ...track, monitorMode: e.target.value as MonitorMode })}
+                        >
+                            {MONITOR_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                        </select>
+                    </div>
+                    <button
+                        onClick={() => onUpdate({ ...track, isDirectMonitor: !track.isDirectMonitor })}
+                        className={`h-6 px-1.5 rounded text-[8px] font-black border border-white/5 ${track.isDirectMonitor ? 'bg-amber-400 text-black' : 'bg-black/60 text-slate-500 hover:text-white'}`}
+                        title="Direct monitoring: bypass the inserts for zero plugin latency"
+                    >
+                        DIR
+                    </button>
+                </div>
+            )}
+
+            {/* MIDI OUTPUT : port + canal, remplace l'instrument interne */}
+            {isInstrument && (
+                <div className="flex space-x-1">
+                    <div className="relative group/io flex-1 min-w-0">
+                        <div className="h-6 bg-black/60 rounded flex items-center px-2 border border-white/5 cursor-pointer hover:border-white/20">
+                            <span className="text-[8px] font-black text-slate-500 mr-2">MIDI</span>
+                            <span className="text-[8px] font-mono text-green-400 truncate flex-1">
+                                {track.midiOutput ? (midiOutputs.find(o => o.id === track.midiOutput!.portId)?.name || 'OFFLINE') : 'INT'}
+                            </span>
+                            <i className="fas fa-caret-down text-[8px] text-slate-600"></i>
+                        </div>
+                        <select 
+                            className="absolute inset-0 opacity-0 cursor-pointer"
+                            value={track.midiOutput?.portId || 'none'}
+                            onChange={(e) => onUpdate({ ...track, midiOutput: e.target.value === 'none' ? undefined : { portId: e.target.value, channel: track.midiOutput?.channel || 1 } })}
+                        >
+                            <option value="none">Internal Instrument</option>
+                            {midiOutputs.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+                        </select>
+                    </div>
+                    {track.midiOutput && (
+                        <div className="relative group/io w-9">
+                            <div className="h-6 bg-black/60 rounded flex items-center justify-center border border-white/5 cursor-pointer hover:border-white/20">
+                                <span className="text-[8px] font-mono text-green-400">{track.midiOutput.channel}</span>
+                            </div>
+                            <select 
+                                className="absolute inset-0 opacity-0 cursor-pointer"
+                                value={track.midiOutput.channel}
+                                onChange={(e) => onUpdate({ ...track, midiOutput: { ...track.midiOutput!, channel: parseInt(e.target.value) } })}
+                            >
+                                {Array.from({ length: 16 }, (_, i) => <option key={i + 1} value={i + 1}>Channel {i + 1}</option>)}
+                            </select>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* OUTPUT SELECTOR */}
             <div className="relative group/io">
                 <div className="h-6 bg-black/60 rounded flex items-center px-2 border border-white/5 cursor-pointer hover:border-white/20">
@@ -197,10 +363,8 @@ const ChannelStrip: React.FC<{
       className={`flex-shrink-0 bg-[#0c0e12] border-r border-white/5 flex flex-col h-full transition-all touch-manipulation ${isMaster ? 'w-64 border-l-2 border-cyan-500/20' : track.type === TrackType.BUS ? 'w-48 bg-[#14161a]' : 'w-44'} ${isDragOver ? 'bg-cyan-500/20' : ''}`}
     >
       
-      {!isMaster && (track.type === TrackType.AUDIO || track.type === TrackType.SAMPLER) && (
-        <div className="h-20 bg-black/40 border-b border-white/5 p-2 grid grid-cols-3 gap-2 items-center">
-          {track.sends.map(s => <SendKnob key={s.id} send={s} track={track} onUpdate={onUpdate} />)}
-        </div>
+      {!isMaster && track.type !== TrackType.SEND && (
+        <SendsSection track={track} allTracks={allTracks} onUpdate={onUpdate} />
       )}
       
       <div className={`${track.type === TrackType.BUS ? 'h-52' : 'h-40'} bg-black/20 border-b border-white/5 p-2 space-y-1.5 overflow-y-auto custom-scroll`}>
@@ -258,6 +422,9 @@ const ChannelStrip: React.FC<{
            <button onClick={() => onUpdate({...track, isMuted: !track.isMuted})} onTouchStart={() => onUpdate({...track, isMuted: !track.isMuted})} className={`flex-1 h-8 rounded text-[9px] font-black border ${track.isMuted ? 'bg-amber-500 text-black border-amber-400' : 'bg-white/5 border-white/5 text-slate-600'}`}>MUTE</button>
            <button onClick={() => onUpdate({...track, isSolo: !track.isSolo})} onTouchStart={() => onUpdate({...track, isSolo: !track.isSolo})} className={`flex-1 h-8 rounded text-[9px] font-black border ${track.isSolo ? 'bg-cyan-500 text-black border-cyan-400' : 'bg-white/5 border-white/5 text-slate-600'}`}>SOLO</button>
         </div>
+        {(track.type === TrackType.BUS || track.type === TrackType.SEND) && !isMaster && (
+           <button onClick={() => onUpdate({...track, isSoloSafe: !track.isSoloSafe})} title="Solo Safe : jamais coupée par le solo d'une autre piste" className={`mt-1 h-5 rounded text-[7px] font-black border ${track.isSoloSafe ? 'bg-amber-500/20 text-amber-400 border-amber-500/40' : 'bg-white/5 border-white/5 text-slate-600'}`}>SOLO SAFE</button>
+        )}
         
         <div className={`mt-3 h-10 rounded-lg flex items-center px-2 text-[9px] font-black uppercase border truncate relative ${track.type === TrackType.BUS ? 'bg-amber-500/10 border-amber-500/30 text-amber-400' : 'bg-black/40 border-white/10 text-white'}`}>
            <div className="w-1.5 h-full mr-2 rounded-full" style={{ backgroundColor: track.color }} />
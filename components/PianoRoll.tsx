@@ -1,6 +1,6 @@
 
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { Track, Clip, MidiNote, EditorTool, TrackType } from '../types';
+import { Track, Clip, MidiNote, EditorTool, TrackType, MidiControllerLane, MidiControllerType } from '../types';
 import { NOTES } from '../plugins/AutoTunePlugin';
 import { audioEngine } from '../engine/AudioEngine';
 
@@ -20,6 +20,105 @@ const VELOCITY_HEIGHT = 150;
 
 type DragMode = 'MOVE' | 'RESIZE_R' | 'VELOCITY' | 'SELECT' | 'DRAW' | null;
 
+// Panneau du bas : vélocités ou une lane de contrôleur du clip
+const CONTROLLER_OPTIONS: { key: string, label: string, type?: MidiControllerType, cc?: number }[] = [
+  { key: 'VELOCITY', label: 'Velocity' },
+  { key: 'CC:1', label: 'CC1 Modulation', type: 'CC', cc: 1 },
+  { key: 'CC:7', label: 'CC7 Volume', type: 'CC', cc: 7 },
+  { key: 'CC:11', label: 'CC11 Expression', type: 'CC', cc: 11 },
+  { key: 'CC:64', label: 'CC64 Sustain', type: 'CC', cc: 64 },
+  { key: 'CC:74', label: 'CC74 Brightness', type: 'CC', cc: 74 },
+  { key: 'PITCH_BEND:', label: 'Pitch Bend', type: 'PITCH_BEND' },
+  { key: 'AFTERTOUCH:', label: 'Aftertouch', type: 'AFTERTOUCH' },
+  { key: 'PROGRAM:', label: 'Program', type: 'PROGRAM' }
+];
+
+const getControllerRange = (type: MidiControllerType) => type === 'PITCH_BEND' ? { min: -8192, max: 8191 } : { min: 0, max: 127 };
+
+const ERASE_RADIUS_PX = 4;
+
+/**
+ * Lane de contrôleur : crayon = dessine des paliers (le tracé remplace les points sous la souris),
+ * gomme = efface les points touchés.
+ */
+const ControllerLane: React.FC<{
+  clip: Clip,
+  option: typeof CONTROLLER_OPTIONS[number],
+  zoomX: number,
+  tool: EditorTool,
+  color: string,
+  onChange: (lanes: MidiControllerLane[]) => void
+}> = ({ clip, option, zoomX, tool, color, onChange }) => {
+  const type = option.type!;
+  const { min, max } = getControllerRange(type);
+  const lane = clip.controllers?.find(l => l.type === type && l.cc === option.cc);
+  const points = lane?.points || [];
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const base: MidiControllerLane = lane || { id: `ctrl-${Date.now()}`, type, cc: option.cc, points: [] };
+    let current = [...base.points];
+    let lastTime: number | null = null;
+
+    const commit = (next: typeof current) => {
+      current = next.sort((a, b) => a.time - b.time);
+      const others = (clip.controllers || []).filter(l => l !== lane);
+      onChange(current.length > 0 ? [...others, { ...base, points: current }] : others);
+    };
+
+    const apply = (clientX: number, clientY: number) => {
+      const time = Math.max(0, (clientX - rect.left) / zoomX);
+      if (tool === 'ERASE') {
+        const radius = ERASE_RADIUS_PX / zoomX;
+        commit(current.filter(p => Math.abs(p.time - time) > radius));
+        return;
+      }
+      const ratio = 1 - Math.max(0, Math.min(1, (clientY - rect.top) / rect.height));
+      const value = Math.round(min + ratio * (max - min));
+      // Le tracé remplace les points entre la position précédente et la courante
+      const from = Math.min(lastTime ?? time, time);
+      const to = Math.max(lastTime ?? time, time);
+      lastTime = time;
+      commit([...current.filter(p => p.time < from || p.time > to), { id: `pt-${Date.now()}-${current.length}`, time, value }]);
+    };
+
+    apply(e.clientX, e.clientY);
+    const move = (m: MouseEvent) => apply(m.clientX, m.clientY);
+    const up = () => { window.removeEventListener('mousemove', move); window.removeEventListener('mouseup', up); };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', up);
+  };
+
+  const toPercent = (value: number) => ((value - min) / (max - min)) * 100;
+  const center = type === 'PITCH_BEND' ? toPercent(0) : 0;
+
+  return (
+    <div className="absolute inset-0 cursor-crosshair" onMouseDown={handleMouseDown}>
+      {type === 'PITCH_BEND' && <div className="absolute left-0 right-0 border-t border-white/10 pointer-events-none" style={{ bottom: `${center}%` }} />}
+      {points.map((point, i) => {
+        const next = points[i + 1];
+        const height = toPercent(point.value);
+        return (
+          <div
+            key={point.id}
+            className="absolute pointer-events-none"
+            style={{
+              left: point.time * zoomX,
+              width: Math.max(2, ((next ? next.time : clip.duration) - point.time) * zoomX),
+              bottom: `${Math.min(center, height)}%`,
+              height: `${Math.max(0.5, Math.abs(height - center))}%`,
+              backgroundColor: color,
+              opacity: 0.6,
+              borderLeft: '2px solid #fff'
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
 const PianoRoll: React.FC<PianoRollProps> = ({ track, clipId, bpm, currentTime, onUpdateTrack, onClose }) => {
   const clipIndex = track.clips.findIndex(c => c.id === clipId);
   const clip = track.clips[clipIndex];
@@ -40,6 +139,8 @@ const PianoRoll: React.FC<PianoRollProps> = ({ track, clipId, bpm, currentTime,
   const [selectionBox, setSelectionBox] = useState<{ startX: number, startY: number, endX: number, endY: number } | null>(null);
   
   const [hoveredNoteId, setHoveredNoteId] = useState<string | null>(null);
+  const [laneKey, setLaneKey] = useState('VELOCITY');
+  const laneOption = CONTROLLER_OPTIONS.find(o => o.key === laneKey) || CONTROLLER_OPTIONS[0];
 
   const gridRef = useRef<HTMLDivElement>(null);
   const keysRef = useRef<HTMLDivElement>(null);
@@ -274,6 +375,10 @@ const PianoRoll: React.FC<PianoRollProps> = ({ track, clipId, bpm, currentTime,
       onUpdateTrack(updatedTrack);
   };
 
+  const updateControllers = (controllers: MidiControllerLane[]) => {
+      onUpdateTrack({ ...track, clips: track.clips.map(c => c.id === clipId ? { ...c, controllers } : c) });
+  };
+
   const deleteNotes = (ids: string[]) => {
       const remaining = (clip.notes || []).filter(n => !ids.includes(n.id));
       updateNotes(remaining);
@@ -446,11 +551,24 @@ const PianoRoll: React.FC<PianoRollProps> = ({ track, clipId, bpm, currentTime,
           
           {/* Velocity Panel (Simple version) */}
           <div className="h-[30%] border-t border-white/10 bg-[#0f1115] flex relative z-30">
-               {/* Just spacer for sidebar alignment */}
-               <div className={`flex-shrink-0 border-r border-white/10 bg-[#0c0d10] ${isDrumMode ? 'w-32' : 'w-16'}`}></div>
+               {/* Sélecteur de lane, aligné sur la barre des touches */}
+               <div className={`flex-shrink-0 border-r border-white/10 bg-[#0c0d10] p-1 ${isDrumMode ? 'w-32' : 'w-16'}`}>
+                    <select
+                        value={laneKey}
+                        onChange={(e) => setLaneKey(e.target.value)}
+                        className="w-full bg-transparent text-[8px] font-black uppercase text-slate-400 outline-none cursor-pointer"
+                    >
+                        {CONTROLLER_OPTIONS.map(o => {
+                            const hasData = o.type && clip.controllers?.some(l => l.type === o.type && l.cc === o.cc && l.points.length > 0);
+                            return <option key={o.key} value={o.key} className="bg-[#14161a]">{hasData ? `• ${o.label}` : o.label}</option>;
+                        })}
+                    </select>
+               </div>
                <div ref={velocityRef} className="flex-1 overflow-hidden relative">
                     <div style={{ width: Math.max((clip.duration + 4) * zoomX, 2000), height: '100%', position: 'relative' }}>
-                        {(clip.notes || []).map(note => (
+                        {laneOption.type ? (
+                            <ControllerLane clip={clip} option={laneOption} zoomX={zoomX} tool={tool} color={track.color} onChange={updateControllers} />
+                        ) : (clip.notes || []).map(note => (
                             <div key={`vel-${note.id}`} className="absolute bottom-0 w-1.5 bg-slate-500 hover:bg-white" style={{ left: note.start * zoomX, height: `${note.velocity * 100}%` }} />
                         ))}
                     </div>
@@ -1,19 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, Suspense } from 'react';
 import { PluginInstance, Track } from '../types';
 import { audioEngine } from '../engine/AudioEngine';
-import { AutoTuneUI } from '../plugins/AutoTunePlugin';
-import { ProfessionalReverbUI } from '../plugins/ReverbPlugin';
-import { VocalCompressorUI } from '../plugins/CompressorPlugin';
-import { SyncDelayUI } from '../plugins/DelayPlugin';
-import { VocalChorusUI } from '../plugins/ChorusPlugin';
-import { StudioFlangerUI } from '../plugins/FlangerPlugin';
-import { VocalDoublerUI } from '../plugins/DoublerPlugin';
-import { StereoSpreaderUI } from '../plugins/StereoSpreaderPlugin';
-import { VocalDeEsserUI } from '../plugins/DeEsserPlugin';
-import { VocalDenoiserUI } from '../plugins/DenoiserPlugin';
-import { ProEQ12UI } from '../plugins/ProEQ12Plugin';
-import { VocalSaturatorUI } from '../plugins/VocalSaturatorPlugin';
-import { MasterSyncUI } from '../plugins/MasterSyncPlugin';
+import { PLUGIN_REGISTRY } from '../plugins/registry';
 import VSTPluginWindow from './VSTPluginWindow';
 import SamplerEditor from './SamplerEditor'; 
 import DrumSamplerEditor from './DrumSamplerEditor';
@@ -26,8 +14,8 @@ interface PluginEditorProps {
   onUpdateParams: (params: Record<string, any>) => void;
   onClose: () => void;
   isMobile?: boolean; 
-  track?: Track; // Needed for Drum Rack
-  onUpdateTrack?: (track: Track) => void; // Needed for Drum Rack
+  track?: Track; // Needed for Drum Rack and sampler zones
+  onUpdateTrack?: (track: Track) => void; // Needed for Drum Rack and sampler zones
 }
 
 const PluginEditor: React.FC<PluginEditorProps> = ({ plugin, trackId, onClose, onUpdateParams, isMobile, track, onUpdateTrack }) => {
@@ -117,7 +105,7 @@ const PluginEditor: React.FC<PluginEditorProps> = ({ plugin, trackId, onClose, o
       return (
           <div className="fixed inset-0 flex items-center justify-center z-[300] pointer-events-none">
               <div className="pointer-events-auto shadow-[0_0_100px_rgba(0,0,0,0.8)] rounded-[40px]">
-                  <MelodicSamplerEditor plugin={plugin} trackId={trackId} onClose={onClose} />
+                  <MelodicSamplerEditor plugin={plugin} trackId={trackId} onClose={onClose} track={track} onUpdateTrack={onUpdateTrack} />
               </div>
           </div>
       );
@@ -172,22 +160,13 @@ const PluginEditor: React.FC<PluginEditorProps> = ({ plugin, trackId, onClose, o
   }
 
   const renderPluginUI = () => {
-    switch(plugin.type) {
-      case 'AUTOTUNE': return <AutoTuneUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'REVERB': return <ProfessionalReverbUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'COMPRESSOR': return <VocalCompressorUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'DELAY': return <SyncDelayUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'CHORUS': return <VocalChorusUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'FLANGER': return <StudioFlangerUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'DOUBLER': return <VocalDoublerUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'STEREOSPREADER': return <StereoSpreaderUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'DEESSER': return <VocalDeEsserUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'DENOISER': return <VocalDenoiserUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'PROEQ12': return <ProEQ12UI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'VOCALSATURATOR': return <VocalSaturatorUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      case 'MASTERSYNC': return <MasterSyncUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} />;
-      default: return <div className="p-20 text-white">Plugin UI Not Found</div>;
-    }
+    const PluginUI = PLUGIN_REGISTRY[plugin.type]?.ui;
+    if (!PluginUI) return <div className="p-20 text-white">Plugin UI Not Found</div>;
+    return (
+      <Suspense fallback={<div className="p-20 text-slate-500 text-[10px] font-black uppercase tracking-widest">Chargement UI...</div>}>
+        <PluginUI node={nodeInstance} initialParams={plugin.params as any} onParamsChange={onUpdateParams} trackId={trackId} pluginId={plugin.id} />
+      </Suspense>
+    );
   };
 
   return (
@@ -7,6 +7,29 @@ import { Track, TrackType } from '../types';
  * Empêche les boucles de feedback (Larsen numérique).
  */
 
+/**
+ * Vrai si le signal de `fromTrackId` finit par atteindre `targetTrackId`,
+ * en suivant les sorties ET les envois (sends) actifs.
+ */
+const routesBackTo = (fromTrackId: string, targetTrackId: string, tracks: Track[]): boolean => {
+  const visited = new Set<string>();
+  const stack = [fromTrackId];
+  const MAX_DEPTH = 64; // Sécurité anti-boucle infinie
+
+  while (stack.length > 0 && visited.size < MAX_DEPTH) {
+    const id = stack.pop()!;
+    if (id === targetTrackId) return true;
+    if (id === 'master' || visited.has(id)) continue;
+    visited.add(id);
+
+    const track = tracks.find(t => t.id === id);
+    if (!track) continue;
+    if (track.outputTrackId) stack.push(track.outputTrackId);
+    track.sends.forEach(s => { if (s.isEnabled) stack.push(s.id); });
+  }
+  return false;
+};
+
 export const getValidDestinations = (sourceTrackId: string, tracks: Track[]): Track[] => {
   // 1. Récupérer les bus existants
   const busTracks = tracks.filter(t => t.type === TrackType.BUS);
@@ -43,23 +66,7 @@ export const getValidDestinations = (sourceTrackId: string, tracks: Track[]): Tr
 
     // C. Détection de Boucle (Cycle Check)
     // Si on connecte Source -> Dest, on doit vérifier que Dest ne finit pas par revenir dans Source.
-    let currentPointer: Track | undefined = dest;
-    let iterations = 0;
-    const MAX_DEPTH = 20; // Sécurité anti-boucle infinie
-
-    while (currentPointer && currentPointer.id !== 'master' && iterations < MAX_DEPTH) {
-      // Si la destination pointe vers notre source, c'est une boucle !
-      if (currentPointer.outputTrackId === sourceTrackId) {
-        return false;
-      }
-      
-      // On avance au maillon suivant
-      const nextId = currentPointer.outputTrackId;
-      currentPointer = tracks.find(t => t.id === nextId);
-      iterations++;
-    }
-
-    return true;
+    return !routesBackTo(dest.id, sourceTrackId, tracks);
   });
 
   // TRI : Master toujours en premier, puis alphabétique pour les bus
@@ -70,6 +77,16 @@ export const getValidDestinations = (sourceTrackId: string, tracks: Track[]): Tr
   });
 };
 
+/**
+ * Destinations possibles pour un envoi (aux send) : pistes SEND et BUS,
+ * avec la même protection anti-boucle que getValidDestinations.
+ */
+export const getValidSendDestinations = (sourceTrackId: string, tracks: Track[]): Track[] => {
+  const sendReturns = tracks.filter(t => t.type === TrackType.SEND && t.id !== sourceTrackId && !routesBackTo(t.id, sourceTrackId, tracks));
+  const buses = getValidDestinations(sourceTrackId, tracks).filter(t => t.id !== 'master');
+  return [...sendReturns, ...buses];
+};
+
 export const getRouteLabel = (trackId: string, tracks: Track[]): string => {
     if (trackId === 'master' || !trackId) return 'STEREO OUT';
     const t = tracks.find(trk => trk.id === trackId);
@@ -0,0 +1,312 @@
+import React, { useState, useRef } from 'react';
+import { Track, SampleZone } from '../types';
+import { audioEngine } from '../engine/AudioEngine';
+import { SfzFile } from '../services/SfzFile';
+import { generateId, midiToNoteName, noteNameToMidi, clamp } from '../utils/helpers';
+
+interface SampleZoneEditorProps {
+  track: Track;
+  onUpdateTrack: (track: Track) => void;
+}
+
+type DragMode = 'MOVE' | 'LEFT' | 'RIGHT' | 'TOP' | 'BOTTOM';
+
+const KEYS = 128;
+const VELOCITIES = 127;
+const BLACK_KEYS = [1, 3, 6, 8, 10];
+const GROUP_COLORS = ['#22d3ee', '#f59e0b', '#a855f7', '#10b981', '#ef4444', '#3b82f6'];
+
+const isAudioFile = (file: File) => file.type.startsWith('audio/') || /\.(wav|aiff?|flac|mp3|ogg|m4a)$/i.test(file.name);
+
+// "Piano_C#4_v2.wav" -> 61 ; null si aucun nom de note dans le fichier
+const rootFromName = (fileName: string): number | null => {
+  const tokens = fileName.replace(/\.[^.]+$/, '').split(/[\s_.]+|-(?!\d)/).reverse();
+  for (const token of tokens) {
+    const midi = noteNameToMidi(token);
+    if (midi !== null) return midi;
+  }
+  return null;
+};
+
+const createZone = (sampleName: string, buffer: AudioBuffer, rootKey: number, lowKey: number, highKey: number): SampleZone => ({
+  id: generateId('zone'), sampleName, buffer, rootKey, lowKey, highKey,
+  lowVelocity: 1, highVelocity: VELOCITIES, roundRobinGroup: 0, tune: 0, volume: 0, keyTracking: 1
+});
+
+/**
+ * Auto-mapping des fichiers déposés : les échantillons nommés par note ("C4", "F#2") se partagent
+ * le clavier à mi-chemin entre leurs racines, plusieurs fichiers sur la même note deviennent des
+ * couches de vélocité. Les autres sont posés sur la touche du dépôt.
+ */
+const mapSamples = (samples: { name: string, buffer: AudioBuffer }[], dropKey: number, isEmpty: boolean): SampleZone[] => {
+  const byRoot = new Map<number, { name: string, buffer: AudioBuffer }[]>();
+  const unnamed: SampleZone[] = [];
+  samples.forEach(sample => {
+    const root = rootFromName(sample.name);
+    if (root === null) {
+      const fullRange = isEmpty && samples.length === 1;
+      unnamed.push(createZone(sample.name, sample.buffer, dropKey, fullRange ? 0 : dropKey, fullRange ? KEYS - 1 : dropKey));
+    } else {
+      byRoot.set(root, [...(byRoot.get(root) || []), sample]);
+    }
+  });
+
+  const roots = [...byRoot.keys()].sort((a, b) => a - b);
+  const named = roots.flatMap((root, i) => {
+    const lowKey = i === 0 ? 0 : Math.floor((roots[i - 1] + root) / 2) + 1;
+    const highKey = i === roots.length - 1 ? KEYS - 1 : Math.floor((root + roots[i + 1]) / 2);
+    const layers = byRoot.get(root)!.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    return layers.map((layer, j) => ({
+      ...createZone(layer.name, layer.buffer, root, lowKey, highKey),
+      lowVelocity: Math.floor(j * VELOCITIES / layers.length) + 1,
+      highVelocity: Math.floor((j + 1) * VELOCITIES / layers.length)
+    }));
+  });
+  return [...named, ...unnamed];
+};
+
+/**
+ * SAMPLE ZONE EDITOR
+ * Mapping multi-échantillons de la piste : touches en X, vélocité en Y.
+ * Glisser une zone la déplace, ses bords changent sa plage ; déposer des fichiers audio ou un .sfz
+ * (avec ses échantillons) crée les zones.
+ */
+const SampleZoneEditor: React.FC<SampleZoneEditorProps> = ({ track, onUpdateTrack }) => {
+  const zones = track.sampleZones || [];
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [dragZone, setDragZone] = useState<SampleZone | null>(null);
+  const [status, setStatus] = useState<string>('');
+  const [isImporting, setIsImporting] = useState(false);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = zones.find(z => z.id === selectedId) || null;
+  // Les échantillons ne sont pas sauvegardés avec la session : après un rechargement, les zones sont vides
+  const missingCount = zones.filter(z => !z.buffer).length;
+
+  const setZones = (next: SampleZone[]) => onUpdateTrack({ ...track, sampleZones: next });
+
+  const updateZone = (id: string, changes: Partial<SampleZone>) => {
+    setZones(zones.map(z => z.id === id ? { ...z, ...changes } : z));
+  };
+
+  const keyAt = (clientX: number) => {
+    const rect = gridRef.current!.getBoundingClientRect();
+    return clamp(Math.floor((clientX - rect.left) / rect.width * KEYS), 0, KEYS - 1);
+  };
+
+  const importFiles = async (files: File[], dropKey: number) => {
+    if (files.length === 0) return;
+    setIsImporting(true);
+    try {
+      await audioEngine.init();
+      const sfz = files.find(f => SfzFile.isSfzFile(f));
+      if (sfz) {
+        if (zones.length > 0 && !confirm(`Replace the ${zones.length} current zones with ${sfz.name}?`)) return;
+        const result = await SfzFile.load(sfz, files, audioEngine.ctx!);
+        setZones(result.zones);
+        setSelectedId(null);
+        setStatus(`${sfz.name} : ${result.zones.length} zones${result.missing.length ? ` · ${result.missing.length} missing samples` : ''}`);
+        if (result.missing.length) console.warn('[SFZ] Échantillons manquants :', result.missing);
+        return;
+      }
+
+      const samples: { name: string, buffer: AudioBuffer }[] = [];
+      for (const file of files.filter(isAudioFile)) {
+        try {
+          samples.push({ name: file.name, buffer: await audioEngine.ctx!.decodeAudioData(await file.arrayBuffer()) });
+        } catch (e) {
+          console.warn(`[Zones] Impossible de décoder ${file.name}`, e);
+        }
+      }
+      const added = mapSamples(samples, dropKey, zones.length === 0);
+      if (added.length === 0) return;
+      setZones([...zones, ...added]);
+      setSelectedId(added[added.length - 1].id);
+      setStatus(`${added.length} zone${added.length > 1 ? 's' : ''} added`);
+    } catch (e) {
+      console.error('[Zones] Import error:', e);
+      setStatus('Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    importFiles(Array.from(e.dataTransfer.files), keyAt(e.clientX));
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    importFiles(Array.from(e.target.files || []), 60);
+    e.target.value = '';
+  };
+
+  const startDrag = (e: React.MouseEvent, zone: SampleZone, mode: DragMode) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setSelectedId(zone.id);
+    const rect = gridRef.current!.getBoundingClientRect();
+    const startX = e.clientX;
+    const startY = e.clientY;
+    let latest = zone;
+
+    const onMove = (m: MouseEvent) => {
+      const dKey = Math.round((m.clientX - startX) / rect.width * KEYS);
+      const dVel = Math.round((startY - m.clientY) / rect.height * VELOCITIES);
+      const next = { ...zone };
+      if (mode === 'MOVE') {
+        const shiftKey = clamp(dKey, -zone.lowKey, KEYS - 1 - zone.highKey);
+        const shiftVel = clamp(dVel, 1 - zone.lowVelocity, VELOCITIES - zone.highVelocity);
+        next.lowKey += shiftKey;
+        next.highKey += shiftKey;
+        next.rootKey = clamp(zone.rootKey + shiftKey, 0, KEYS - 1);
+        next.lowVelocity += shiftVel;
+        next.highVelocity += shiftVel;
+      }
+      else if (mode === 'LEFT') next.lowKey = clamp(zone.lowKey + dKey, 0, zone.highKey);
+      else if (mode === 'RIGHT') next.highKey = clamp(zone.highKey + dKey, zone.lowKey, KEYS - 1);
+      else if (mode === 'TOP') next.highVelocity = clamp(zone.highVelocity + dVel, zone.lowVelocity, VELOCITIES);
+      else next.lowVelocity = clamp(zone.lowVelocity + dVel, 1, zone.highVelocity);
+      latest = next;
+      setDragZone(next);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+      setDragZone(null);
+      // La piste n'est mise à jour qu'au relâchement
+      if (latest !== zone) updateZone(zone.id, latest);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const deleteZone = (id: string) => {
+    setZones(zones.filter(z => z.id !== id));
+    setSelectedId(null);
+  };
+
+  const shown = zones.map(z => dragZone && z.id === dragZone.id ? dragZone : z);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <h3 className="text-[9px] font-black text-slate-500 uppercase tracking-widest">
+          Zone Map <span className="text-slate-600">· {zones.length ? `${zones.length} zones` : 'single sample'}</span>
+          {missingCount > 0 && <span className="text-red-400"> · {missingCount === zones.length ? 'samples missing, re-import them' : `${missingCount} missing samples`}</span>}
+        </h3>
+        <div className="flex items-center space-x-2">
+          {(status || isImporting) && <span className="text-[8px] font-mono text-cyan-500">{isImporting ? 'Importing...' : status}</span>}
+          <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1 rounded-lg text-[8px] font-black uppercase bg-white/5 border border-white/10 text-slate-400 hover:text-white">
+            <i className="fas fa-file-import mr-1"></i>Samples / SFZ
+          </button>
+          <button onClick={() => folderInputRef.current?.click()} className="px-3 py-1 rounded-lg text-[8px] font-black uppercase bg-white/5 border border-white/10 text-slate-400 hover:text-white">
+            <i className="fas fa-folder-open mr-1"></i>SFZ Folder
+          </button>
+          {zones.length > 0 && (
+            <button onClick={() => { if (confirm('Clear all zones?')) { setZones([]); setSelectedId(null); } }} className="px-3 py-1 rounded-lg text-[8px] font-black uppercase bg-white/5 border border-white/10 text-slate-400 hover:text-red-400">
+              Clear
+            </button>
+          )}
+          <input type="file" ref={fileInputRef} className="hidden" multiple accept=".sfz,audio/*" onChange={handleFileSelect} />
+          <input type="file" ref={folderInputRef} className="hidden" onChange={handleFileSelect} {...({ webkitdirectory: "", directory: "" } as any)} />
+        </div>
+      </div>
+
+      {/* Grille touches x vélocité */}
+      <div
+        ref={gridRef}
+        className="h-36 bg-black/60 rounded-2xl border border-white/5 relative overflow-hidden"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDrop}
+        onMouseDown={() => setSelectedId(null)}
+      >
+        {Array.from({ length: KEYS }).map((_, key) => (BLACK_KEYS.includes(key % 12) || key % 12 === 0) && (
+          <div key={key} className={`absolute top-0 bottom-0 pointer-events-none ${key % 12 === 0 ? 'border-l border-white/10' : 'bg-white/[0.02]'}`} style={{ left: `${key / KEYS * 100}%`, width: `${100 / KEYS}%` }}>
+            {key % 12 === 0 && <span className="absolute bottom-0.5 left-0.5 text-[6px] font-mono text-slate-600">{midiToNoteName(key)}</span>}
+          </div>
+        ))}
+
+        {shown.map(zone => {
+          const color = GROUP_COLORS[zone.roundRobinGroup % GROUP_COLORS.length];
+          const isSelected = zone.id === selectedId;
+          return (
+            <div
+              key={zone.id}
+              className={`absolute rounded-sm border cursor-move ${zone.buffer ? '' : 'opacity-40'}`}
+              style={{
+                left: `${zone.lowKey / KEYS * 100}%`,
+                width: `${(zone.highKey - zone.lowKey + 1) / KEYS * 100}%`,
+                top: `${(VELOCITIES - zone.highVelocity) / VELOCITIES * 100}%`,
+                height: `${(zone.highVelocity - zone.lowVelocity + 1) / VELOCITIES * 100}%`,
+                backgroundColor: `${color}${isSelected ? '55' : '22'}`,
+                borderColor: isSelected ? '#fff' : `${color}88`,
+                zIndex: isSelected ? 2 : 1
+              }}
+              title={`${zone.sampleName} · ${midiToNoteName(zone.lowKey)}-${midiToNoteName(zone.highKey)} · vel ${zone.lowVelocity}-${zone.highVelocity}`}
+              onMouseDown={(e) => startDrag(e, zone, 'MOVE')}
+            >
+              {/* Touche racine */}
+              {zone.rootKey >= zone.lowKey && zone.rootKey <= zone.highKey && (
+                <div className="absolute top-0 bottom-0 w-px pointer-events-none" style={{ left: `${(zone.rootKey - zone.lowKey + 0.5) / (zone.highKey - zone.lowKey + 1) * 100}%`, backgroundColor: color }} />
+              )}
+              <div className="absolute left-0 top-0 bottom-0 w-1 cursor-ew-resize" onMouseDown={(e) => startDrag(e, zone, 'LEFT')} />
+              <div className="absolute right-0 top-0 bottom-0 w-1 cursor-ew-resize" onMouseDown={(e) => startDrag(e, zone, 'RIGHT')} />
+              <div className="absolute left-1 right-1 top-0 h-1 cursor-ns-resize" onMouseDown={(e) => startDrag(e, zone, 'TOP')} />
+              <div className="absolute left-1 right-1 bottom-0 h-1 cursor-ns-resize" onMouseDown={(e) => startDrag(e, zone, 'BOTTOM')} />
+            </div>
+          );
+        })}
+
+        {zones.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-center opacity-40 pointer-events-none">
+            <p className="text-[9px] font-black uppercase tracking-widest">Drop samples (named C4, F#2...) or an .sfz with its samples</p>
+          </div>
+        )}
+      </div>
+
+      {/* Inspecteur de la zone sélectionnée */}
+      {selected && (
+        <div className="flex items-end space-x-3 bg-white/5 rounded-xl p-3">
+          <div className="flex-1 min-w-0">
+            <span className="text-[7px] font-black text-slate-500 uppercase tracking-widest">Sample</span>
+            <p className={`text-[9px] font-mono truncate ${selected.buffer ? 'text-white' : 'text-red-400'}`}>{selected.sampleName}{selected.buffer ? '' : ' (missing)'}</p>
+          </div>
+          <ZoneField label={`Root ${midiToNoteName(selected.rootKey)}`} value={selected.rootKey} min={0} max={127} onChange={v => updateZone(selected.id, { rootKey: v })} />
+          <ZoneField label="Low Key" value={selected.lowKey} min={0} max={selected.highKey} onChange={v => updateZone(selected.id, { lowKey: v })} />
+          <ZoneField label="High Key" value={selected.highKey} min={selected.lowKey} max={127} onChange={v => updateZone(selected.id, { highKey: v })} />
+          <ZoneField label="Low Vel" value={selected.lowVelocity} min={1} max={selected.highVelocity} onChange={v => updateZone(selected.id, { lowVelocity: v })} />
+          <ZoneField label="High Vel" value={selected.highVelocity} min={selected.lowVelocity} max={127} onChange={v => updateZone(selected.id, { highVelocity: v })} />
+          <ZoneField label="RR Group" value={selected.roundRobinGroup} min={0} max={999} onChange={v => updateZone(selected.id, { roundRobinGroup: v })} />
+          <ZoneField label="Tune ct" value={selected.tune} min={-2400} max={2400} onChange={v => updateZone(selected.id, { tune: v })} />
+          <ZoneField label="Vol dB" value={selected.volume} min={-48} max={12} onChange={v => updateZone(selected.id, { volume: v })} />
+          <ZoneField label="Key Trk %" value={Math.round(selected.keyTracking * 100)} min={0} max={200} onChange={v => updateZone(selected.id, { keyTracking: v / 100 })} />
+          <button onClick={() => deleteZone(selected.id)} className="w-8 h-8 rounded-lg bg-white/5 border border-white/10 text-slate-500 hover:text-red-400">
+            <i className="fas fa-trash text-[10px]"></i>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ZoneField: React.FC<{ label: string, value: number, min: number, max: number, onChange: (v: number) => void }> = ({ label, value, min, max, onChange }) => (
+  <label className="flex flex-col space-y-1">
+    <span className="text-[7px] font-black text-slate-500 uppercase tracking-widest whitespace-nowrap">{label}</span>
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      onChange={e => {
+        const v = parseFloat(e.target.value);
+        if (!isNaN(v)) onChange(clamp(v, min, max));
+      }}
+      className="w-14 bg-black/40 border border-white/10 rounded px-1 py-0.5 text-[9px] font-mono text-white outline-none focus:border-cyan-500"
+    />
+  </label>
+);
+
+export default SampleZoneEditor;
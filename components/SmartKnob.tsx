@@ -1,6 +1,7 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { automationManager } from '../services/AutomationManager';
+import { midiLearn } from '../services/MidiLearn';
 
 interface SmartKnobProps {
   id: string;           // ID unique pour le registre automation (ex: 'track-1-vol')
@@ -24,6 +25,17 @@ export const SmartKnob: React.FC<SmartKnobProps> = ({
   // État local visuel (découplé du parent pour performance 60fps en lecture)
   const [visualValue, setVisualValue] = useState(value);
   const internalValueRef = useRef(value);
+  // Le callback enregistré doit toujours voir la dernière version de la piste
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  // MIDI learn : contrôle cliquable pour être lié, cible en attente, déjà mappé
+  const [learn, setLearn] = useState({ isLearning: false, isTarget: false, isMapped: false });
+
+  useEffect(() => {
+    const refresh = () => setLearn({ isLearning: midiLearn.getIsLearning(), isTarget: midiLearn.getTarget() === id, isMapped: midiLearn.isMapped(id) });
+    refresh();
+    return midiLearn.addListener(refresh);
+  }, [id]);
   
   // Synchro avec les props (si changement externe hors automation)
   useEffect(() => {
@@ -44,10 +56,13 @@ export const SmartKnob: React.FC<SmartKnobProps> = ({
         // Ici, l'onChange passé en props est souvent une mise à jour d'état React.
         // Pour l'audio pur, on devrait idéalement bypasser React.
         // Mais pour rester compatible avec l'existant :
-        onChange(val);
+        onChangeRef.current(val);
       }, 
       value, 
-      isBridged
+      isBridged,
+      // Sans paramId le contrôle n'a pas de lane où écrire
+      paramId ? { parameterName: paramId, min, max } : undefined,
+      { label, min, max }
     );
 
     // Souscription pour la mise à jour visuelle fluide (bypass React re-render complet)
@@ -60,12 +75,16 @@ export const SmartKnob: React.FC<SmartKnobProps> = ({
       automationManager.unregister(id);
       automationManager.unsubscribeUI(id);
     };
-  }, [id, targetId, isBridged]); // Dependencies minimales
+  }, [id, targetId, paramId, isBridged]); // Dependencies minimales
 
   // GESTION SOURIS (WRITE MODE)
   const handleMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
+    if (learn.isLearning) {
+      midiLearn.setTarget(id);
+      return;
+    }
     
     automationManager.touch(id);
     
@@ -83,10 +102,9 @@ export const SmartKnob: React.FC<SmartKnobProps> = ({
       setVisualValue(newVal);
       internalValueRef.current = newVal;
 
-      // Envoi au moteur (qui gère le throttling VST et l'enregistrement)
+      // Envoi au moteur (qui gère le throttling VST et l'enregistrement à la position de lecture)
       // Le moteur appellera ensuite le onChange réel si nécessaire
-      const currentTime = window.DAW_CONTROL ? window.DAW_CONTROL.getState().currentTime : 0;
-      automationManager.setValue(id, newVal, currentTime);
+      automationManager.setValue(id, newVal);
     };
 
     const handleMouseUp = () => {
@@ -108,8 +126,9 @@ export const SmartKnob: React.FC<SmartKnobProps> = ({
     <div className="flex flex-col items-center space-y-2 select-none group">
       <div 
         onMouseDown={handleMouseDown}
-        className="relative rounded-full bg-[#14161a] border-2 border-white/10 flex items-center justify-center cursor-ns-resize hover:border-white/30 transition-colors shadow-lg"
+        className={`relative rounded-full bg-[#14161a] border-2 flex items-center justify-center transition-colors shadow-lg ${learn.isLearning ? 'cursor-pointer' : 'cursor-ns-resize'} ${learn.isTarget ? 'border-green-400 animate-pulse' : learn.isLearning ? 'border-dashed border-green-500/50 hover:border-green-400' : 'border-white/10 hover:border-white/30'}`}
         style={{ width: size, height: size }}
+        title={learn.isLearning ? 'Click, then move a control on your MIDI controller' : undefined}
       >
         {/* Fond interne */}
         <div className="absolute inset-1 rounded-full border border-white/5 bg-black/40 shadow-inner pointer-events-none" />
@@ -124,6 +143,9 @@ export const SmartKnob: React.FC<SmartKnobProps> = ({
           }}
         />
         
+        {/* Contrôle piloté par un contrôleur MIDI */}
+        {learn.isMapped && <div className="absolute -bottom-1 -right-1 w-2 h-2 rounded-full bg-green-500 pointer-events-none" />}
+
         {/* Status Automation (Point Rouge si Write) */}
         <div className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-red-500 opacity-0 group-active:opacity-100 transition-opacity pointer-events-none" />
       </div>
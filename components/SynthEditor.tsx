@@ -0,0 +1,245 @@
+import React, { useRef, useState } from 'react';
+import { SmartKnob } from './SmartKnob';
+import {
+  SynthParams, SynthOscillatorParams, SynthLfoParams, SynthModSlot, SynthWaveform, SynthFilterType,
+  SynthModSource, SynthModDestination, DEFAULT_SYNTH_PARAMS
+} from '../engine/Synthesizer';
+import { SynthPresets, SynthPreset } from '../services/SynthPresets';
+
+interface SynthEditorProps {
+  initialParams: SynthParams;
+  onParamsChange?: (params: SynthParams) => void;
+  trackId: string;
+  pluginId: string;
+}
+
+const WAVEFORMS: { value: SynthWaveform, label: string }[] = [
+  { value: 'sine', label: 'Sin' },
+  { value: 'triangle', label: 'Tri' },
+  { value: 'sawtooth', label: 'Saw' },
+  { value: 'square', label: 'Sqr' }
+];
+
+const FILTER_TYPES: { value: SynthFilterType, label: string }[] = [
+  { value: 'lowpass', label: 'LP' },
+  { value: 'highpass', label: 'HP' },
+  { value: 'bandpass', label: 'BP' }
+];
+
+const MOD_SOURCES: { value: SynthModSource, label: string }[] = [
+  { value: 'LFO1', label: 'LFO 1' },
+  { value: 'LFO2', label: 'LFO 2' },
+  { value: 'FILTER_ENV', label: 'Filter Env' },
+  { value: 'VELOCITY', label: 'Velocity' }
+];
+
+const MOD_DESTINATIONS: { value: SynthModDestination, label: string }[] = [
+  { value: 'PITCH', label: 'Pitch' },
+  { value: 'CUTOFF', label: 'Cutoff' },
+  { value: 'AMP', label: 'Amp' },
+  { value: 'PAN', label: 'Pan' }
+];
+
+const ACCENT = '#ec4899';
+
+/**
+ * Éditeur du synthé soustractif. Chaque bouton est un SmartKnob : automation, MIDI learn.
+ * Les paramètres portés par un AudioParam (niveaux, coupure, résonance, enveloppe de filtre, vitesse des LFO)
+ * ont en plus une lane 'plugin::<pluginId>::<paramId>'.
+ */
+const SynthEditor: React.FC<SynthEditorProps> = ({ initialParams, onParamsChange, trackId, pluginId }) => {
+  const [params, setParams] = useState<SynthParams>({ ...DEFAULT_SYNTH_PARAMS, ...initialParams });
+  // Les callbacks des SmartKnob (automation, contrôleur) doivent voir le dernier patch
+  const paramsRef = useRef(params);
+  const [presets, setPresets] = useState<SynthPreset[]>(() => SynthPresets.getAll());
+  const [presetId, setPresetId] = useState('');
+
+  const update = (changes: Partial<SynthParams>) => {
+    const next = { ...paramsRef.current, ...changes };
+    paramsRef.current = next;
+    setParams(next);
+    if (onParamsChange) onParamsChange(next);
+  };
+
+  const updateOscillator = (index: number, changes: Partial<SynthOscillatorParams>) => {
+    update({ oscillators: paramsRef.current.oscillators.map((osc, i) => i === index ? { ...osc, ...changes } : osc) });
+  };
+
+  const updateLfo = (index: number, changes: Partial<SynthLfoParams>) => {
+    update({ lfos: paramsRef.current.lfos.map((lfo, i) => i === index ? { ...lfo, ...changes } : lfo) });
+  };
+
+  const updateSlot = (index: number, changes: Partial<SynthModSlot>) => {
+    update({ modMatrix: paramsRef.current.modMatrix.map((slot, i) => i === index ? { ...slot, ...changes } : slot) });
+  };
+
+  // --- PRESETS ---
+  const handleLoadPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    setPresetId(id);
+    if (preset) update({ ...DEFAULT_SYNTH_PARAMS, ...preset.params });
+  };
+
+  const handleSavePreset = () => {
+    const name = prompt('Synth preset name:');
+    if (!name) return;
+    const preset = SynthPresets.save(name, paramsRef.current);
+    setPresets(SynthPresets.getAll());
+    setPresetId(preset.id);
+  };
+
+  const handleDeletePreset = () => {
+    SynthPresets.delete(presetId);
+    setPresets(SynthPresets.getAll());
+    setPresetId('');
+  };
+
+  const selectedPreset = presets.find(p => p.id === presetId);
+
+  const knob = (key: string, label: string, value: number, min: number, max: number, onChange: (value: number) => void, options: { suffix?: string, color?: string, isAutomatable?: boolean } = {}) => (
+    <SmartKnob
+      id={`${pluginId}-${key}`}
+      targetId={trackId}
+      paramId={options.isAutomatable ? `plugin::${pluginId}::${key}` : undefined}
+      label={label} value={value} min={min} max={max} onChange={onChange}
+      size={36} color={options.color || ACCENT} suffix={options.suffix}
+    />
+  );
+
+  const choice = <T extends string>(items: { value: T, label: string }[], value: T, onChange: (value: T) => void) => (
+    <div className="flex bg-white/5 p-0.5 rounded-lg">
+      {items.map(item => (
+        <button key={item.value} onClick={() => onChange(item.value)} className={`flex-1 px-1.5 py-1 text-[7px] font-black uppercase rounded ${value === item.value ? 'bg-pink-500 text-white' : 'text-slate-500 hover:text-white'}`}>
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const section = 'p-4 rounded-[24px] bg-black/40 border border-white/5 space-y-3';
+  const title = 'text-[9px] font-black text-slate-500 uppercase tracking-widest';
+
+  return (
+    <div className="w-[980px] bg-[#0c0d10] border border-pink-500/20 rounded-[40px] p-8 shadow-[0_0_100px_rgba(236,72,153,0.1)] flex flex-col space-y-5 select-none text-white">
+      {/* Header + presets */}
+      <div className="flex justify-between items-center">
+        <div className="flex items-center space-x-4">
+          <div className="w-12 h-12 rounded-2xl bg-pink-500/10 flex items-center justify-center text-pink-400 border border-pink-500/20">
+            <i className="fas fa-keyboard text-xl"></i>
+          </div>
+          <div>
+            <h2 className="text-lg font-black uppercase italic tracking-tighter leading-none">Poly <span className="text-pink-400">Synth</span></h2>
+            <p className="text-[7px] font-black text-slate-500 uppercase tracking-widest mt-1">Subtractive Synthesizer</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select value={presetId} onChange={(e) => handleLoadPreset(e.target.value)} className="h-8 w-48 bg-black/60 border border-white/10 rounded-lg px-2 text-[10px] font-bold text-slate-300 outline-none cursor-pointer">
+            <option value="" className="bg-[#14161a]">— Preset —</option>
+            {presets.map(preset => <option key={preset.id} value={preset.id} className="bg-[#14161a]">{preset.isFactory ? preset.name : `★ ${preset.name}`}</option>)}
+          </select>
+          <button onClick={handleSavePreset} className="h-8 px-3 rounded-lg bg-white/5 text-[9px] font-black uppercase text-pink-400 hover:text-white">Save</button>
+          <button onClick={handleDeletePreset} disabled={!selectedPreset || selectedPreset.isFactory} className="h-8 w-8 rounded-lg bg-white/5 text-[10px] text-slate-500 hover:text-red-400 disabled:opacity-30" title="Delete preset">
+            <i className="fas fa-trash"></i>
+          </button>
+        </div>
+      </div>
+
+      {/* OSCILLATORS */}
+      <div className="grid grid-cols-3 gap-4">
+        {params.oscillators.map((osc, i) => (
+          <div key={i} className={section}>
+            <div className="flex items-center justify-between">
+              <h3 className={title}>Osc {i + 1}</h3>
+              {choice(WAVEFORMS, osc.waveform, waveform => updateOscillator(i, { waveform }))}
+            </div>
+            <div className="flex justify-between">
+              {knob(`osc${i + 1}Level`, 'Level', osc.level, 0, 1, v => updateOscillator(i, { level: v }), { isAutomatable: true })}
+              {knob(`osc${i + 1}Octave`, 'Oct', osc.octave, -3, 3, v => updateOscillator(i, { octave: Math.round(v) }))}
+              {knob(`osc${i + 1}Semitone`, 'Semi', osc.semitone, -12, 12, v => updateOscillator(i, { semitone: Math.round(v) }))}
+              {knob(`osc${i + 1}Fine`, 'Fine', osc.fine, -100, 100, v => updateOscillator(i, { fine: v }), { suffix: 'ct' })}
+              {knob(`osc${i + 1}Unison`, 'Unison', osc.unison, 1, 7, v => updateOscillator(i, { unison: Math.round(v) }))}
+              {knob(`osc${i + 1}Spread`, 'Spread', osc.unisonDetune, 0, 100, v => updateOscillator(i, { unisonDetune: v }), { suffix: 'ct' })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-12 gap-4">
+        {/* FILTER */}
+        <div className={`col-span-5 ${section}`}>
+          <div className="flex items-center justify-between">
+            <h3 className={title}>Filter</h3>
+            {choice(FILTER_TYPES, params.filterType, filterType => update({ filterType }))}
+          </div>
+          <div className="flex justify-between">
+            {knob('cutoff', 'Cutoff', params.cutoff, 20, 20000, v => update({ cutoff: v }), { suffix: 'Hz', color: '#f59e0b', isAutomatable: true })}
+            {knob('resonance', 'Res', params.resonance, 0, 20, v => update({ resonance: v }), { color: '#f59e0b', isAutomatable: true })}
+            {knob('filterEnvAmount', 'Env Amt', params.filterEnvAmount, -1, 1, v => update({ filterEnvAmount: v }), { color: '#f59e0b', isAutomatable: true })}
+            {knob('keyTracking', 'Key Trk', params.keyTracking * 100, 0, 100, v => update({ keyTracking: v / 100 }), { suffix: '%', color: '#f59e0b' })}
+          </div>
+          <div className="flex justify-between">
+            {knob('filterAttack', 'Atk', params.filterAttack * 1000, 1, 2000, v => update({ filterAttack: v / 1000 }), { suffix: 'ms', color: '#f59e0b' })}
+            {knob('filterDecay', 'Dec', params.filterDecay * 1000, 1, 3000, v => update({ filterDecay: v / 1000 }), { suffix: 'ms', color: '#f59e0b' })}
+            {knob('filterSustain', 'Sus', params.filterSustain * 100, 0, 100, v => update({ filterSustain: v / 100 }), { suffix: '%', color: '#f59e0b' })}
+            {knob('filterRelease', 'Rel', params.filterRelease * 1000, 1, 5000, v => update({ filterRelease: v / 1000 }), { suffix: 'ms', color: '#f59e0b' })}
+          </div>
+        </div>
+
+        {/* AMP + VOICING */}
+        <div className={`col-span-3 ${section}`}>
+          <h3 className={title}>Amp</h3>
+          <div className="grid grid-cols-2 gap-y-3 justify-items-center">
+            {knob('attack', 'Atk', params.attack * 1000, 1, 2000, v => update({ attack: v / 1000 }), { suffix: 'ms', color: '#10b981' })}
+            {knob('decay', 'Dec', params.decay * 1000, 1, 3000, v => update({ decay: v / 1000 }), { suffix: 'ms', color: '#10b981' })}
+            {knob('sustain', 'Sus', params.sustain * 100, 0, 100, v => update({ sustain: v / 100 }), { suffix: '%', color: '#10b981' })}
+            {knob('release', 'Rel', params.release * 1000, 1, 5000, v => update({ release: v / 1000 }), { suffix: 'ms', color: '#10b981' })}
+          </div>
+        </div>
+
+        <div className={`col-span-4 ${section}`}>
+          <h3 className={title}>Voice</h3>
+          <div className="flex justify-between">
+            {knob('polyphony', 'Voices', params.polyphony, 1, 16, v => update({ polyphony: Math.round(v) }), { color: '#3b82f6' })}
+            {knob('glide', 'Glide', params.glide * 1000, 0, 1000, v => update({ glide: v / 1000 }), { suffix: 'ms', color: '#3b82f6' })}
+            {knob('level', 'Level', params.level, 0, 1, v => update({ level: v }), { color: '#3b82f6', isAutomatable: true })}
+          </div>
+          <p className="text-[8px] text-slate-600 text-center">{params.polyphony <= 1 ? 'Mono legato' : `${params.polyphony} voices, oldest stolen first`}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-12 gap-4">
+        {/* LFOs */}
+        {params.lfos.map((lfo, i) => (
+          <div key={i} className={`col-span-3 ${section}`}>
+            <h3 className={title}>LFO {i + 1}</h3>
+            {choice(WAVEFORMS, lfo.waveform, waveform => updateLfo(i, { waveform }))}
+            <div className="flex justify-center">
+              {knob(`lfo${i + 1}Rate`, 'Rate', lfo.rate, 0.05, 20, v => updateLfo(i, { rate: v }), { suffix: 'Hz', color: '#8b5cf6', isAutomatable: true })}
+            </div>
+          </div>
+        ))}
+
+        {/* MOD MATRIX */}
+        <div className={`col-span-6 ${section}`}>
+          <h3 className={title}>Mod Matrix</h3>
+          <div className="grid grid-cols-4 gap-2">
+            {params.modMatrix.map((slot, i) => (
+              <div key={i} className="flex flex-col items-center space-y-1">
+                <select value={slot.source} onChange={(e) => updateSlot(i, { source: e.target.value as SynthModSource })} className="w-full bg-white/5 rounded text-[8px] font-bold text-slate-300 outline-none cursor-pointer">
+                  {MOD_SOURCES.map(s => <option key={s.value} value={s.value} className="bg-[#14161a]">{s.label}</option>)}
+                </select>
+                <i className="fas fa-arrow-down text-[7px] text-slate-600"></i>
+                <select value={slot.destination} onChange={(e) => updateSlot(i, { destination: e.target.value as SynthModDestination })} className="w-full bg-white/5 rounded text-[8px] font-bold text-slate-300 outline-none cursor-pointer">
+                  {MOD_DESTINATIONS.map(d => <option key={d.value} value={d.value} className="bg-[#14161a]">{d.label}</option>)}
+                </select>
+                {knob(`mod${i + 1}Amount`, 'Amount', slot.amount * 100, -100, 100, v => updateSlot(i, { amount: v / 100 }), { suffix: '%', color: '#8b5cf6' })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SynthEditor;
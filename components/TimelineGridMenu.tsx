@@ -12,13 +12,19 @@ interface TimelineGridMenuProps {
   onAddTrack: () => void;
   onResetZoom: () => void;
   onPaste?: () => void;
+  onAddTempoMarker?: () => void;
+  onAddMeterMarker?: () => void;
+  onSetPunchIn?: () => void;
+  onSetPunchOut?: () => void;
 }
 
 const TimelineGridMenu: React.FC<TimelineGridMenuProps> = ({ 
   x, y, onClose, 
   gridSize, onSetGridSize, 
   snapEnabled, onToggleSnap,
-  onAddTrack, onResetZoom, onPaste
+  onAddTrack, onResetZoom, onPaste,
+  onAddTempoMarker, onAddMeterMarker,
+  onSetPunchIn, onSetPunchOut
 }) => {
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -99,7 +105,51 @@ const TimelineGridMenu: React.FC<TimelineGridMenuProps> = ({
 
         <div className="h-px bg-white/5 my-2 mx-2" />
 
-        {/* SECTION 3: GLOBAL TOOLS */}
+        {/* SECTION 3: TEMPO MAP */}
+        {(onAddTempoMarker || onAddMeterMarker) && (
+          <>
+            <div className="px-3 py-1.5 text-[8px] font-black uppercase text-slate-600 tracking-widest">Tempo & Mesure</div>
+            <div className="flex flex-col space-y-0.5">
+              {onAddTempoMarker && (
+                <button onClick={() => { onAddTempoMarker(); onClose(); }} className="w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-[10px] font-bold hover:bg-white/5 text-slate-300">
+                  <i className="fas fa-tachometer-alt w-4 text-center text-slate-500"></i>
+                  <span>Ajouter un marqueur de tempo</span>
+                </button>
+              )}
+              {onAddMeterMarker && (
+                <button onClick={() => { onAddMeterMarker(); onClose(); }} className="w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-[10px] font-bold hover:bg-white/5 text-slate-300">
+                  <i className="fas fa-ruler-horizontal w-4 text-center text-slate-500"></i>
+                  <span>Changer la mesure ici</span>
+                </button>
+              )}
+            </div>
+            <div className="h-px bg-white/5 my-2 mx-2" />
+          </>
+        )}
+
+        {/* SECTION 4: PUNCH */}
+        {(onSetPunchIn || onSetPunchOut) && (
+          <>
+            <div className="px-3 py-1.5 text-[8px] font-black uppercase text-slate-600 tracking-widest">Punch In / Out</div>
+            <div className="flex flex-col space-y-0.5">
+              {onSetPunchIn && (
+                <button onClick={() => { onSetPunchIn(); onClose(); }} className="w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-[10px] font-bold hover:bg-white/5 text-slate-300">
+                  <i className="fas fa-sign-in-alt w-4 text-center text-red-500"></i>
+                  <span>Punch In ici</span>
+                </button>
+              )}
+              {onSetPunchOut && (
+                <button onClick={() => { onSetPunchOut(); onClose(); }} className="w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-[10px] font-bold hover:bg-white/5 text-slate-300">
+                  <i className="fas fa-sign-out-alt w-4 text-center text-red-500"></i>
+                  <span>Punch Out ici</span>
+                </button>
+              )}
+            </div>
+            <div className="h-px bg-white/5 my-2 mx-2" />
+          </>
+        )}
+
+        {/* SECTION 5: GLOBAL TOOLS */}
         <div className="flex flex-col space-y-0.5">
           <button onClick={() => { onAddTrack(); onClose(); }} className="w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-[10px] font-bold hover:bg-white/5 text-slate-300">
             <i className="fas fa-plus-circle w-4 text-center text-slate-500"></i>
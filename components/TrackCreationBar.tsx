@@ -1,15 +1,18 @@
 import React from 'react';
-import { TrackType, PluginType } from '../types';
+import { Track, TrackType, PluginType } from '../types';
 
 interface TrackCreationBarProps {
-  onCreateTrack: (type: TrackType, name?: string, initialPluginType?: PluginType) => void;
+  onCreateTrack: (type: TrackType, name?: string, initialPluginType?: PluginType, overrides?: Partial<Track>) => void;
 }
 
 const TrackCreationBar: React.FC<TrackCreationBarProps> = ({ onCreateTrack }) => {
-  const trackTypes = [
+  const trackTypes: { type: TrackType; icon: string; label: string; name: string; plugin?: PluginType; track?: Partial<Track> }[] = [
     { type: TrackType.AUDIO, icon: 'fa-wave-square', label: 'Audio', name: 'New Audio' },
     { type: TrackType.BUS, icon: 'fa-layer-group', label: 'Bus', name: 'New Bus' },
     { type: TrackType.SEND, icon: 'fa-share-alt', label: 'Send', name: 'New Send' },
+    { type: TrackType.MIDI, icon: 'fa-keyboard', label: 'Synth', name: 'Poly Synth', plugin: 'SYNTH' },
+    // Synthé externe : joué par une sortie MIDI (à choisir dans le mixer), audio rendu par l'entrée 1
+    { type: TrackType.MIDI, icon: 'fa-plug', label: 'Ext Inst', name: 'External Instrument', track: { isExternalInstrument: true, inputDeviceId: 'mic-default' } },
   ];
 
   return (
@@ -17,7 +20,7 @@ const TrackCreationBar: React.FC<TrackCreationBarProps> = ({ onCreateTrack }) =>
       {trackTypes.map((item, idx) => (
         <button
           key={`${item.type}-${idx}`}
-          onClick={() => onCreateTrack(item.type, item.name, (item as any).plugin)}
+          onClick={() => onCreateTrack(item.type, item.name, item.plugin, item.track)}
           className="w-16 h-16 rounded-xl bg-white/5 hover:bg-cyan-500 hover:text-black border border-white/10 text-slate-400 hover:border-cyan-400 transition-all flex flex-col items-center justify-center space-y-1 group active:scale-95"
           title={item.name}
         >
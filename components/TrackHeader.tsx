@@ -1,6 +1,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Track, PluginType, PluginInstance, TrackType, TrackSend } from '../types';
+import { Track, PluginType, PluginInstance, TrackType, TrackSend, MonitorMode } from '../types';
+import { InputMeter } from './MeterWidgets';
 
 interface TrackHeaderProps {
   track: Track;
@@ -22,6 +23,14 @@ interface TrackHeaderProps {
   onSwapInstrument?: (trackId: string) => void;
 }
 
+// Ordre du bouton de monitoring : un clic passe au mode suivant
+const MONITOR_MODES: { mode: MonitorMode, label: string, title: string }[] = [
+  { mode: 'AUTO', label: 'AUTO', title: 'Input while stopped and recording, playback while playing' },
+  { mode: 'ALWAYS', label: 'IN', title: 'Always hear the input' },
+  { mode: 'TAPE', label: 'TAPE', title: 'Tape style: input only between punch-in and punch-out while recording' },
+  { mode: 'OFF', label: 'OFF', title: 'Input never heard' }
+];
+
 const HorizontalSendFader: React.FC<{ 
   send: TrackSend, 
   trackId: string,
@@ -262,7 +271,7 @@ const TrackHeader: React.FC<TrackHeaderProps> = ({
     const map: Record<string, string> = { 
       'AUTOTUNE': 'TUNE', 'COMPRESSOR': 'COMP', 'STEREOSPREADER': 'MS', 
       'DEESSER': 'DS', 'DENOISER': 'NOISE', 'PROEQ12': 'EQ12', 'VOCALSATURATOR': 'SAT',
-      'MELODIC_SAMPLER': 'KEYS', 'DRUM_SAMPLER': 'DRUM'
+      'MELODIC_SAMPLER': 'KEYS', 'DRUM_SAMPLER': 'DRUM', 'SYNTH': 'SYN'
     };
     return map[type] || type.substring(0, 4);
   };
@@ -273,9 +282,15 @@ const TrackHeader: React.FC<TrackHeaderProps> = ({
   const canHaveSends = (track.type === TrackType.AUDIO || track.type === TrackType.BUS || track.type === TrackType.MIDI || track.type === TrackType.SAMPLER || track.type === TrackType.DRUM_RACK) && track.id !== 'instrumental' && track.id !== 'master';
   const isMidiOrSampler = track.type === TrackType.MIDI || track.type === TrackType.SAMPLER || track.type === TrackType.DRUM_RACK;
   const isAudio = track.type === TrackType.AUDIO;
+  const monitorIndex = Math.max(0, MONITOR_MODES.findIndex(m => m.mode === (track.monitorMode || 'AUTO')));
+  const handleMonitorCycle = (e: React.MouseEvent | React.TouchEvent) => {
+    e.stopPropagation();
+    onUpdate({ ...track, monitorMode: MONITOR_MODES[(monitorIndex + 1) % MONITOR_MODES.length].mode });
+  };
 
   // Track Icon Logic
   const getTrackIcon = () => {
+      if (track.isExternalInstrument) return 'fa-plug';
       if (track.type === TrackType.MIDI) return 'fa-music';
       if (track.type === TrackType.SAMPLER) return 'fa-wave-square';
       if (track.type === TrackType.DRUM_RACK) return 'fa-th';
@@ -296,7 +311,7 @@ const TrackHeader: React.FC<TrackHeaderProps> = ({
   } : null;
 
   const instrumentPlugin = isMidiOrSampler 
-      ? (track.plugins.find(p => p.type === 'MELODIC_SAMPLER' || p.type === 'DRUM_SAMPLER') || drumRackFakePlugin)
+      ? (track.plugins.find(p => p.type === 'MELODIC_SAMPLER' || p.type === 'DRUM_SAMPLER' || p.type === 'SYNTH') || drumRackFakePlugin)
       : null;
       
   const insertPlugins = track.plugins.filter(p => p.id !== instrumentPlugin?.id);
@@ -386,6 +401,29 @@ const TrackHeader: React.FC<TrackHeaderProps> = ({
         </div>
       </div>
       
+      {/* ENTRÉE ARMÉE : niveau + voyant de saturation, mode de monitoring */}
+      {isAudio && track.isTrackArmed && (
+        <div className="flex items-center space-x-2 mb-1 px-1">
+          <InputMeter trackId={track.id} />
+          <button
+            onClick={handleMonitorCycle}
+            onTouchStart={handleMonitorCycle}
+            className={`h-5 px-1.5 rounded text-[8px] font-black transition-all ${track.monitorMode === 'OFF' ? 'bg-white/5 text-slate-600' : 'bg-cyan-500/20 text-cyan-400'}`}
+            title={`Monitoring: ${MONITOR_MODES[monitorIndex].title}`}
+          >
+            {MONITOR_MODES[monitorIndex].label}
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); onUpdate({ ...track, isDirectMonitor: !track.isDirectMonitor }); }}
+            onTouchStart={(e) => { e.stopPropagation(); onUpdate({ ...track, isDirectMonitor: !track.isDirectMonitor }); }}
+            className={`h-5 px-1.5 rounded text-[8px] font-black transition-all ${track.isDirectMonitor ? 'bg-amber-400 text-black' : 'bg-white/5 text-slate-600 hover:text-white'}`}
+            title="Direct monitoring: bypass the inserts for zero plugin latency"
+          >
+            DIR
+          </button>
+        </div>
+      )}
+
       {/* Horizontal Sends Panel */}
       {canHaveSends && showSends && (
         <div className="flex flex-col bg-black/40 rounded-lg p-2 border border-cyan-500/20 mb-2 animate-in slide-in-from-top-1 space-y-1">
@@ -443,7 +481,7 @@ const TrackHeader: React.FC<TrackHeaderProps> = ({
                   <div className="flex-1 h-8 relative border-r border-cyan-500/20 hover:bg-white/5 transition-colors">
                       <div className="absolute inset-0 flex flex-col justify-center px-2 pointer-events-none">
                           <span className="text-[9px] font-black uppercase text-cyan-100 truncate">
-                              {instrumentPlugin.type === 'DRUM_RACK_UI' ? 'Drum Rack 30' : (instrumentPlugin.type === 'DRUM_SAMPLER' ? 'Single Drum' : 'Melodic Sampler')}
+                              {instrumentPlugin.type === 'DRUM_RACK_UI' ? 'Drum Rack 30' : (instrumentPlugin.type === 'DRUM_SAMPLER' ? 'Single Drum' : (instrumentPlugin.type === 'SYNTH' ? 'Poly Synth' : 'Melodic Sampler'))}
                           </span>
                           <span className="text-[7px] text-slate-500 font-mono">Instrument</span>
                       </div>
@@ -1,8 +1,10 @@
 import React, { useState, useRef, useEffect, PropsWithChildren } from 'react';
-import { ViewType, Theme, User } from '../types';
+import { ViewType, Theme, User, AutomationMode, SoloMode, MetronomeSettings, MetronomeSound, MidiRecordSettings } from '../types';
 import { MasterMeter } from './MeterWidgets';
 import MasterVisualizer from './MasterVisualizer';
 import { midiManager } from '../services/MidiManager';
+import { midiLearn } from '../services/MidiLearn';
+import MidiLearnPanel from './MidiLearnPanel';
 
 interface TransportProps {
   isPlaying: boolean;
@@ -12,6 +14,8 @@ interface TransportProps {
   onToggleRecord: () => void;
   isLoopActive: boolean;
   onToggleLoop: () => void;
+  isPunchActive?: boolean;
+  onTogglePunch?: () => void;
   bpm: number;
   onBpmChange: (newBpm: number) => void;
   currentTime: number;
@@ -33,6 +37,14 @@ interface TransportProps {
   onOpenAudioEngine?: () => void;
   isDelayCompEnabled?: boolean;
   onToggleDelayComp?: () => void;
+  soloMode?: SoloMode;
+  onToggleSoloMode?: () => void;
+  metronome?: MetronomeSettings;
+  onUpdateMetronome?: (changes: Partial<MetronomeSettings>) => void;
+  midiRecord?: MidiRecordSettings;
+  onUpdateMidiRecord?: (changes: Partial<MidiRecordSettings>) => void;
+  automationMode?: AutomationMode;
+  onChangeAutomationMode?: (mode: AutomationMode) => void;
 
   onUndo?: () => void;
   onRedo?: () => void;
@@ -47,9 +59,13 @@ interface TransportProps {
 }
 
 const TransportBar: React.FC<PropsWithChildren<TransportProps>> = ({ 
-  isPlaying, onTogglePlay, onStop, isRecording, onToggleRecord, isLoopActive, onToggleLoop, bpm, onBpmChange, currentTime, 
+  isPlaying, onTogglePlay, onStop, isRecording, onToggleRecord, isLoopActive, onToggleLoop, isPunchActive, onTogglePunch, bpm, onBpmChange, currentTime, 
   currentView, onChangeView, noArmedTrackError, statusMessage, currentTheme, onToggleTheme, 
   onOpenSaveMenu, onOpenLoadMenu, onExportMix, onShareProject, onOpenAudioEngine, isDelayCompEnabled, onToggleDelayComp,
+  soloMode = 'SIP', onToggleSoloMode,
+  metronome, onUpdateMetronome,
+  midiRecord, onUpdateMidiRecord,
+  automationMode = 'READ', onChangeAutomationMode,
   onUndo, onRedo, canUndo, canRedo, 
   user, onOpenAuth, onLogout, 
   isSidebarOpen, onToggleSidebar,
@@ -57,10 +73,16 @@ const TransportBar: React.FC<PropsWithChildren<TransportProps>> = ({
 }) => {
   const [isEditingBpm, setIsEditingBpm] = useState(false);
   const [tempBpm, setTempBpm] = useState(bpm.toString());
+  const [isMidiRecMenuOpen, setIsMidiRecMenuOpen] = useState(false);
+  const [isLearnMenuOpen, setIsLearnMenuOpen] = useState(false);
+  const [isLearning, setIsLearning] = useState(false);
   const [midiActive, setMidiActive] = useState(false);
   const [midiDeviceName, setMidiDeviceName] = useState<string | null>(null);
+  const [isClickMenuOpen, setIsClickMenuOpen] = useState(false);
   const bpmInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => midiLearn.addListener(() => setIsLearning(midiLearn.getIsLearning())), []);
+
   useEffect(() => {
      // Check for MIDI device on mount
      const name = midiManager.getActiveDeviceName();
@@ -164,6 +186,24 @@ const TransportBar: React.FC<PropsWithChildren<TransportProps>> = ({
                 <span className="text-[9px] font-black uppercase tracking-wider">PDC</span>
              </button>
 
+             {/* SOLO MODE */}
+             <button onClick={onToggleSoloMode} className={`h-8 px-2 rounded-lg flex items-center space-x-1 transition-all border ${soloMode === 'AFL' ? 'bg-amber-500/20 border-amber-500/50 text-amber-400' : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`} title={soloMode === 'AFL' ? 'Solo: After-Fader Listen' : 'Solo: In Place'}>
+                <i className="fas fa-headphones text-[9px]"></i>
+                <span className="text-[9px] font-black uppercase tracking-wider">{soloMode}</span>
+             </button>
+
+             {/* AUTOMATION MODE */}
+             <div className="h-8 px-1 rounded-lg flex items-center border border-white/10 bg-white/5" title="Automation Mode">
+                <i className={`fas fa-wave-square text-[9px] mx-1 ${automationMode === 'OFF' ? 'text-slate-600' : automationMode === 'READ' ? 'text-green-400' : 'text-red-500'}`}></i>
+                <select
+                  value={automationMode}
+                  onChange={(e) => onChangeAutomationMode?.(e.target.value as AutomationMode)}
+                  className="bg-transparent text-[9px] font-black uppercase tracking-wider text-slate-300 outline-none cursor-pointer"
+                >
+                  {(['OFF', 'READ', 'TOUCH', 'LATCH', 'WRITE'] as AutomationMode[]).map(m => <option key={m} value={m} className="bg-[#14161a]">{m}</option>)}
+                </select>
+             </div>
+
              {/* MIDI INDICATOR */}
              <div className={`h-8 px-2 rounded-lg flex items-center justify-center space-x-2 border transition-all ${midiActive ? 'bg-green-500 text-black border-green-400 shadow-lg shadow-green-500/30' : 'bg-white/5 border-white/10 text-slate-600'}`} title={midiDeviceName || "No MIDI Device"}>
                  <i className="fas fa-plug text-[10px]"></i>
@@ -180,6 +220,100 @@ const TransportBar: React.FC<PropsWithChildren<TransportProps>> = ({
           <button onClick={onStop} className="w-8 h-8 text-slate-600 hover:text-white transition-colors hide-on-tablet-text" style={{ color: 'var(--text-secondary)' }}><i className="fas fa-stop text-xs"></i></button>
           <button onClick={onTogglePlay} className={`w-10 h-10 rounded-full flex items-center justify-center transition-all ${isPlaying ? 'text-black shadow-lg shadow-[#00f2ff]/30' : 'bg-white text-black hover:scale-105'}`} style={{ backgroundColor: isPlaying ? 'var(--accent-neon)' : '#fff' }}><i className={`fas ${isPlaying ? 'fa-pause' : 'fa-play'} text-sm`}></i></button>
           <button onClick={onToggleLoop} className={`hidden md:flex w-8 h-8 rounded-lg items-center justify-center transition-all ${isLoopActive ? 'text-cyan-400' : 'text-slate-600 hover:text-white'}`} style={{ backgroundColor: isLoopActive ? 'rgba(0,242,255,0.2)' : 'transparent', color: isLoopActive ? 'var(--accent-neon)' : 'var(--text-secondary)' }}><i className="fas fa-sync-alt text-xs"></i></button>
+          {onTogglePunch && (
+            <button onClick={onTogglePunch} className={`hidden md:flex h-8 px-2 rounded-lg items-center justify-center transition-all text-[8px] font-black uppercase ${isPunchActive ? 'bg-red-500/20 text-red-400' : 'text-slate-600 hover:text-white'}`} title="Punch In/Out">
+              Punch
+            </button>
+          )}
+          {/* METRONOME : clic + réglages (son, niveau, sortie, count-in) */}
+          {metronome && (
+            <div className="relative hidden md:flex items-center">
+              <button onClick={() => onUpdateMetronome?.({ isEnabled: !metronome.isEnabled })} onContextMenu={(e) => { e.preventDefault(); setIsClickMenuOpen(!isClickMenuOpen); }} className={`h-8 px-2 rounded-l-lg flex items-center space-x-1 transition-all ${metronome.isEnabled ? 'bg-amber-500/20 text-amber-400' : 'text-slate-600 hover:text-white'}`} title="Clic (clic droit : réglages)">
+                <i className="fas fa-drum text-[10px]"></i>
+                <span className="text-[8px] font-black uppercase">Clic</span>
+              </button>
+              <button onClick={() => setIsClickMenuOpen(!isClickMenuOpen)} className="h-8 w-4 rounded-r-lg flex items-center justify-center text-slate-600 hover:text-white"><i className="fas fa-caret-down text-[8px]"></i></button>
+              {isClickMenuOpen && (
+                <div className="absolute top-full left-0 mt-2 w-52 p-3 space-y-2 bg-[#14161a] border border-white/10 rounded-xl shadow-2xl z-[200]">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[8px] font-black uppercase text-slate-500">Son</span>
+                    <select value={metronome.sound} onChange={(e) => onUpdateMetronome?.({ sound: e.target.value as MetronomeSound })} className="bg-transparent text-[9px] font-black uppercase text-slate-300 outline-none cursor-pointer">
+                      {(['CLICK', 'WOOD', 'BEEP'] as MetronomeSound[]).map(s => <option key={s} value={s} className="bg-[#14161a]">{s}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-[8px] font-black uppercase text-slate-500">Niveau</span>
+                    <input type="range" min={0} max={1} step={0.01} value={metronome.level} onChange={(e) => onUpdateMetronome?.({ level: parseFloat(e.target.value) })} className="w-24 accent-amber-500" />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-[8px] font-black uppercase text-slate-500">Sortie</span>
+                    <select value={metronome.output} onChange={(e) => onUpdateMetronome?.({ output: e.target.value as MetronomeSettings['output'] })} className="bg-transparent text-[9px] font-black uppercase text-slate-300 outline-none cursor-pointer">
+                      <option value="STEREO" className="bg-[#14161a]">Stéréo</option>
+                      <option value="LEFT" className="bg-[#14161a]">Gauche</option>
+                      <option value="RIGHT" className="bg-[#14161a]">Droite</option>
+                    </select>
+                  </div>
+                  <label className="flex items-center justify-between cursor-pointer">
+                    <span className="text-[8px] font-black uppercase text-slate-500">Accent 1er temps</span>
+                    <input type="checkbox" checked={metronome.accentDownbeat} onChange={(e) => onUpdateMetronome?.({ accentDownbeat: e.target.checked })} className="accent-amber-500" />
+                  </label>
+                  <div className="h-px bg-white/5" />
+                  <div className="flex items-center justify-between">
+                    <span className="text-[8px] font-black uppercase text-slate-500">Avant REC</span>
+                    <select value={metronome.countInMode} onChange={(e) => onUpdateMetronome?.({ countInMode: e.target.value as MetronomeSettings['countInMode'] })} className="bg-transparent text-[9px] font-black uppercase text-slate-300 outline-none cursor-pointer">
+                      <option value="COUNT_IN" className="bg-[#14161a]">Count-in</option>
+                      <option value="PRE_ROLL" className="bg-[#14161a]">Pre-roll</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    {([0, 1, 2, 4] as MetronomeSettings['countInBars'][]).map(bars => (
+                      <button key={bars} onClick={() => onUpdateMetronome?.({ countInBars: bars })} className={`flex-1 h-6 rounded text-[8px] font-black ${metronome.countInBars === bars ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-400 hover:text-white'}`}>{bars === 0 ? 'OFF' : `${bars} bar${bars > 1 ? 's' : ''}`}</button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          {/* MIDI REC : overdub / replace, quantification à l'entrée */}
+          {midiRecord && (
+            <div className="relative hidden md:flex items-center">
+              <button onClick={() => setIsMidiRecMenuOpen(!isMidiRecMenuOpen)} className={`h-8 px-2 rounded-lg flex items-center space-x-1 transition-all ${isMidiRecMenuOpen ? 'bg-white/10 text-white' : 'text-slate-600 hover:text-white'}`} title="Enregistrement MIDI">
+                <i className="fas fa-keyboard text-[10px]"></i>
+                <span className="text-[8px] font-black uppercase">{midiRecord.mode === 'OVERDUB' ? 'Merge' : 'Replace'}</span>
+              </button>
+              {isMidiRecMenuOpen && (
+                <div className="absolute top-full left-0 mt-2 w-52 p-3 space-y-2 bg-[#14161a] border border-white/10 rounded-xl shadow-2xl z-[200]">
+                  <div className="flex items-center space-x-1">
+                    {(['OVERDUB', 'REPLACE'] as MidiRecordSettings['mode'][]).map(mode => (
+                      <button key={mode} onClick={() => onUpdateMidiRecord?.({ mode })} className={`flex-1 h-6 rounded text-[8px] font-black ${midiRecord.mode === mode ? 'bg-cyan-500 text-black' : 'bg-white/5 text-slate-400 hover:text-white'}`}>{mode === 'OVERDUB' ? 'Overdub' : 'Replace'}</button>
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-[8px] font-black uppercase text-slate-500">Quantize</span>
+                    <select value={midiRecord.quantize} onChange={(e) => onUpdateMidiRecord?.({ quantize: parseFloat(e.target.value) })} className="bg-transparent text-[9px] font-black uppercase text-slate-300 outline-none cursor-pointer">
+                      <option value={0} className="bg-[#14161a]">Off</option>
+                      <option value={1} className="bg-[#14161a]">1/4</option>
+                      <option value={0.5} className="bg-[#14161a]">1/8</option>
+                      <option value={0.25} className="bg-[#14161a]">1/16</option>
+                      <option value={0.125} className="bg-[#14161a]">1/32</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          {/* MIDI LEARN : mappings contrôleur -> paramètres */}
+          <div className="relative hidden md:flex items-center">
+            <button onClick={() => setIsLearnMenuOpen(!isLearnMenuOpen)} className={`h-8 px-2 rounded-lg flex items-center space-x-1 transition-all ${isLearning ? 'bg-green-500 text-black' : isLearnMenuOpen ? 'bg-white/10 text-white' : 'text-slate-600 hover:text-white'}`} title="MIDI Learn">
+              <i className="fas fa-sliders-h text-[10px]"></i>
+              <span className="text-[8px] font-black uppercase">Learn</span>
+            </button>
+            {isLearnMenuOpen && (
+              <div className="absolute top-full left-0 mt-2 z-[200]">
+                <MidiLearnPanel />
+              </div>
+            )}
+          </div>
           <button onClick={onToggleRecord} className={`h-10 px-3 md:px-5 rounded-xl flex items-center space-x-2 md:space-x-2 border transition-all ${isRecording ? 'bg-red-600 border-red-400 text-white shadow-lg shadow-red-600/40 animate-pulse' : 'text-slate-500 hover:text-white'}`} style={{ backgroundColor: isRecording ? '#ef4444' : 'var(--border-dim)', borderColor: isRecording ? '#f87171' : 'var(--border-highlight)' }}><div className={`w-2.5 h-2.5 rounded-full ${isRecording ? 'bg-white' : 'bg-red-600'}`}></div><span className="hidden md:inline font-black uppercase text-[10px] tracking-widest hide-on-tablet-text">Rec</span></button>
         </div>
         
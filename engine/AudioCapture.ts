@@ -0,0 +1,80 @@
+/**
+ * AUDIO CAPTURE
+ * Enregistrement PCM sans perte via public/worklets/RecorderProcessor.js.
+ * `startTime` = heure du contexte du premier échantillon : l'engine en déduit la position projet.
+ */
+
+export interface CaptureResult {
+  buffer: AudioBuffer;
+  startTime: number;
+}
+
+const modules: WeakMap<BaseAudioContext, Promise<void>> = new WeakMap();
+
+export class AudioCapture {
+  private ctx: AudioContext;
+  private source: AudioNode;
+  private node: AudioWorkletNode | null = null;
+  private sink: GainNode | null = null;
+  private chunks: Float32Array[][] = [];
+  private startTime: number | null = null;
+  private stopped: (() => void) | null = null;
+
+  constructor(ctx: AudioContext, source: AudioNode) {
+    this.ctx = ctx;
+    this.source = source;
+  }
+
+  // Chargé une fois par contexte ; appelé à l'init pour que la première prise parte sans attendre
+  public static preload(ctx: AudioContext): Promise<void> {
+    let ready = modules.get(ctx);
+    if (!ready) {
+      ready = ctx.audioWorklet.addModule('/worklets/RecorderProcessor.js');
+      modules.set(ctx, ready);
+    }
+    return ready;
+  }
+
+  public async start() {
+    await AudioCapture.preload(this.ctx);
+    this.node = new AudioWorkletNode(this.ctx, 'recorder-processor', { numberOfInputs: 1, numberOfOutputs: 1 });
+    this.node.port.onmessage = (event) => {
+      const msg = event.data;
+      if (msg.type === 'started') this.startTime = msg.time;
+      else if (msg.type === 'data') this.chunks.push(msg.channels);
+      else if (msg.type === 'stopped') this.stopped?.();
+    };
+    // Silent link to the destination so the browser keeps pulling the processor
+    this.sink = this.ctx.createGain();
+    this.sink.gain.value = 0;
+    this.source.connect(this.node);
+    this.node.connect(this.sink);
+    this.sink.connect(this.ctx.destination);
+    this.node.port.postMessage({ type: 'start' });
+  }
+
+  public async stop(): Promise<CaptureResult | null> {
+    const node = this.node;
+    if (!node) return null;
+    await new Promise<void>(resolve => {
+      this.stopped = resolve;
+      node.port.postMessage({ type: 'stop' });
+    });
+    try { this.source.disconnect(node); } catch (e) {}
+    node.disconnect();
+    this.sink?.disconnect();
+    this.node = null;
+
+    const length = this.chunks.reduce((sum, chunk) => sum + chunk[0].length, 0);
+    if (length === 0 || this.startTime === null) return null;
+
+    const buffer = new AudioBuffer({ length, numberOfChannels: this.chunks[0].length, sampleRate: this.ctx.sampleRate });
+    let offset = 0;
+    this.chunks.forEach(chunk => {
+      chunk.forEach((data, ch) => buffer.copyToChannel(data, ch, offset));
+      offset += chunk[0].length;
+    });
+    this.chunks = [];
+    return { buffer, startTime: this.startTime };
+  }
+}
@@ -1,41 +1,13 @@
 
-import { Track, Clip, PluginInstance, TrackType, TrackSend, AutomationLane, PluginParameter, PluginType, MidiNote, DrumPad } from '../types';
-import { ReverbNode } from '../plugins/ReverbPlugin';
-import { SyncDelayNode } from '../plugins/DelayPlugin';
-import { ChorusNode } from '../plugins/ChorusPlugin';
-import { FlangerNode } from '../plugins/FlangerPlugin';
-import { VocalDoublerNode } from '../plugins/DoublerPlugin';
-import { StereoSpreaderNode } from '../plugins/StereoSpreaderPlugin';
-import { AutoTuneNode } from '../plugins/AutoTunePlugin';
-import { CompressorNode } from '../plugins/CompressorPlugin';
-import { DeEsserNode } from '../plugins/DeEsserPlugin';
-import { DenoiserNode } from '../plugins/DenoiserPlugin';
-import { ProEQ12Node } from '../plugins/ProEQ12Plugin';
-import { VocalSaturatorNode } from '../plugins/VocalSaturatorPlugin';
-import { MasterSyncNode } from '../plugins/MasterSyncPlugin';
-import { Synthesizer } from './Synthesizer';
-import { AudioSampler } from './AudioSampler';
-import { DrumSamplerNode } from './DrumSamplerNode';
-import { MelodicSamplerNode } from './MelodicSamplerNode';
-import { DrumRackNode } from './DrumRackNode'; // NEW
-
-interface TrackDSP {
-  input: GainNode;          
-  output: GainNode;         
-  panner: StereoPannerNode; 
-  gain: GainNode;           
-  analyzer: AnalyserNode;
-  inputAnalyzer?: AnalyserNode; 
-  pluginChain: Map<string, { input: AudioNode; output: AudioNode; instance: any }>; 
-  sends: Map<string, GainNode>; 
-  inputStream?: MediaStreamAudioSourceNode | null;
-  currentInputDeviceId?: string | null;
-  synth?: Synthesizer; // PolySynth for MIDI tracks
-  sampler?: AudioSampler; // Legacy/Chromatic Sampler
-  drumSampler?: DrumSamplerNode; // Pro Drum Sampler (Single)
-  melodicSampler?: MelodicSamplerNode; // New Pro Melodic Sampler
-  drumRack?: DrumRackNode; // NEW: 30-Pad Drum Rack
-}
+import { Track, Clip, TrackType, AutomationLane, AutomationMode, PluginParameter, TempoMap, SoloMode, TrackFreeze, MetronomeSettings, MonitorMode, MidiNote, MidiControlEvent, MidiControllerLane, TrackMidiOutput } from '../types';
+import { GraphManager, TrackDSP, TrackLatency } from './GraphManager';
+import { TransportManager } from './TransportManager';
+import { Metronome, DEFAULT_METRONOME_SETTINGS } from './Metronome';
+import { AudioCapture, CaptureResult } from './AudioCapture';
+import { MidiCapture, CapturedNote, CapturedControl } from './MidiCapture';
+import { MidiOutput } from './MidiOutput';
+import { audioBufferToWav } from '../services/AudioUtils';
+import { getAutomationValueAt, createTempoMap, beatToTime, timeToBeat, tempoAt, timeToBar, getMeterAtBar, midiOffsetToTime, timeToMidiOffset, generateId } from '../utils/helpers';
 
 interface ScheduledSource {
   source: AudioBufferSourceNode;
@@ -43,66 +15,114 @@ interface ScheduledSource {
   clipId: string;
 }
 
+// Flux d'une interface audio, partagé par toutes les pistes armées dessus
+interface DeviceInput {
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  splitter: ChannelSplitterNode;
+  channelCount: number;
+  users: number;
+}
+
+interface ArmedInput {
+  deviceId: string;
+  node: AudioNode; // Canal ou paire de canaux de la piste : monitoring et capture
+  monitor: GainNode; // Porte d'écoute, pilotée par le mode de monitoring
+  mode: MonitorMode;
+  isDirect: boolean;
+}
+
+// Retour audio d'un instrument externe, toujours branché sur l'entrée de sa piste
+interface ExternalReturn {
+  deviceId: string;
+  node: AudioNode;
+}
+
+/**
+ * AUDIO ENGINE
+ * Façade utilisée par l'UI : le graphe appartient à GraphManager, l'horloge à TransportManager.
+ * L'engine garde les voix (clips, notes, scrub), l'automation, le preview et l'enregistrement.
+ */
 export class AudioEngine {
   public ctx: AudioContext | null = null;
-  
-  // Master Section
-  private masterOutput: GainNode | null = null;
-  private masterLimiter: DynamicsCompressorNode | null = null; // SAFETY LIMITER
-  private masterAnalyzer: AnalyserNode | null = null; 
-  private masterSplitter: ChannelSplitterNode | null = null;
-  public masterAnalyzerL: AnalyserNode | null = null;
-  public masterAnalyzerR: AnalyserNode | null = null;
-  
+  private graph: GraphManager | null = null;
+  private transport: TransportManager = new TransportManager((start, end, when, endsAtLoop) => this.onTransportSchedule(start, end, when, endsAtLoop));
+  private playbackTracks: Track[] = [];
+
   // Graph Audio
-  private tracksDSP: Map<string, TrackDSP> = new Map();
-  private activeSources: Map<string, ScheduledSource> = new Map();
-  private scrubbingSources: Map<string, ScheduledSource> = new Map();
+  private activeSources: Map<string, ScheduledSource> = new Map(); // Key: clipId@loopPass
+  private loopPass: number = 0; // Incrémenté à chaque retour de boucle : un clip peut rejouer pendant que sa queue s'éteint
+  private scrubbingSources: Map<string, ScheduledSource> = new Map(); // Key: clipId (un grain par clip)
+  private lastScrubGrainAt: number = 0;
+  private reversedBuffers: WeakMap<AudioBuffer, AudioBuffer> = new WeakMap();
   
   // MIDI State
   private activeMidiNotes: Set<string> = new Set(); // Key: "trackId-noteId"
+  private tempoMap: TempoMap = createTempoMap(120);
+  private metronome: Metronome | null = null;
+  private metronomeSettings: MetronomeSettings = DEFAULT_METRONOME_SETTINGS;
+
+  // Automation State
+  private automationMode: AutomationMode = 'READ';
+  private primedAutomation: Set<string> = new Set(); // Lanes (trackId::param) anchored since the last start/seek/loop
+  private overriddenAutomation: Set<string> = new Set(); // Lanes en cours d'écriture (touch / latch)
+  private automatedParams: Set<AudioParam> = new Set();
+  private automationWindowEnd: number = 0;
 
   // --- PREVIEW SYSTEM (STUDIO MODE) ---
   private previewSource: AudioBufferSourceNode | null = null;
-  private previewGain: GainNode | null = null;
-  public previewAnalyzer: AnalyserNode | null = null;
   private isPreviewPlaying: boolean = false;
 
-  // Scheduling State
-  private isPlaying: boolean = false;
-  private schedulerTimer: number | null = null;
-  private nextScheduleTime: number = 0;
-  private playbackStartTime: number = 0; 
-  private pausedAt: number = 0; 
-
   // Latency & Rec
   private isRecMode: boolean = false;
   private isDelayCompEnabled: boolean = false;
+  private soloMode: SoloMode = 'SIP';
 
-  private LOOKAHEAD_MS = 25.0; 
-  private SCHEDULE_AHEAD_SEC = 0.1; 
+  private RENDER_SLICE_SEC = 1.0; // Offline render scheduling granularity
+  private LOOP_SPLICE_SEC = 0.003; // Micro-fade on clips cut at loopEnd
+  private FREEZE_TAIL_SEC = 2.0; // Effect tails (reverb, delay) kept after the last clip
+  private SCRUB_GRAIN_SEC = 0.08;
+  private SCRUB_RELEASE_SEC = 0.01;
+  private SCRUB_MIN_SPEED = 0.05; // En dessous, la souris est considérée immobile
+  private SCRUB_MIN_RATE = 0.25;
+  private SCRUB_MAX_RATE = 4.0;
 
-  private mediaRecorder: MediaRecorder | null = null;
-  private audioChunks: Blob[] = [];
-  private activeMonitorStream: MediaStream | null = null;
-  private monitorSource: MediaStreamAudioSourceNode | null = null;
-  private monitoringTrackId: string | null = null;
-  private recordingTrackId: string | null = null;
-  private recStartTime: number = 0;
-  
-  private armingPromise: Promise<void> | null = null;
+  private deviceInputs: Map<string, Promise<DeviceInput>> = new Map(); // Key: deviceId (un flux par interface)
+  private armedInputs: Map<string, ArmedInput> = new Map(); // Key: trackId
+  private captures: Map<string, AudioCapture> = new Map(); // Key: trackId, pendant une prise
+  private midiArmed: Set<string> = new Set(); // Pistes instrument armées sur l'entrée MIDI
+  private midiCaptures: Map<string, MidiCapture> = new Map(); // Key: trackId, pendant une prise
+  private recStopTime: number = 0; // Position entendue à l'arrêt du transport (fin des prises MIDI)
+  private sustainedNotes: Map<string, Set<number>> = new Map(); // Key: trackId, présent = pédale enfoncée (live)
+  private midiOutput: MidiOutput = new MidiOutput();
+  private midiRoutes: Map<string, TrackMidiOutput> = new Map(); // Key: trackId, pistes jouées sur un port externe
+  private externalReturns: Map<string, ExternalReturn> = new Map(); // Key: trackId
+  private externalReturnKeys: Map<string, string> = new Map(); // Entrée demandée par piste (device/canal), à jour avant l'ouverture
+  private recStartTime: number = 0;  // Position projet du premier échantillon capturé
+  private recAnchorCtxTime: number = 0; // Heure du contexte à laquelle correspond recStartTime
+  private recordingOffset: number = 0; // Réglage manuel / calibration, en plus des latences du contexte
+  private recPunchTime: number = 0;  // Position projet où la prise commence
+  private recLoop: { start: number, end: number } | null = null; // Cycle actif au lancement de la prise
+  private recPunch: { start: number, end: number } | null = null; // Seule zone conservée de la capture
+  private punch = { active: false, start: 0, end: 0 };
+  private inputClips: Set<string> = new Set(); // Pistes dont l'entrée a saturé, tenu jusqu'au reset
 
-  // --- LOOP MANAGEMENT ---
-  private isLoopActive: boolean = false;
-  private loopStart: number = 0;
-  private loopEnd: number = 0;
+  private MIN_TAKE_SEC = 0.5; // Dernière passe plus courte : abandonnée
+  private MIDI_EARLY_SEC = 0.05; // Note jouée juste avant le début de prise : ramenée dessus
+  private MIN_NOTE_SEC = 0.01;
+  private CALIBRATION_CLICKS = 6;
+  private CALIBRATION_SPACING_SEC = 0.5;
+  
+  private armingQueue: Promise<void> = Promise.resolve(); // Armements / désarmements traités un par un
+  private MAX_INPUT_CHANNELS = 32; // Demandé au navigateur : toutes les entrées de l'interface
+  private MONITOR_SMOOTHING_SEC = 0.01;
+  private CLIP_THRESHOLD = 0.999; // ~0 dBFS
 
   // --- DEVICE MANAGEMENT ---
   private currentInputDeviceId: string = 'default';
   private currentOutputDeviceId: string = 'default';
   public sampleRate: number = 44100;
   public latency: number = 0;
-  private currentBpm: number = 120;
 
   constructor() {}
 
@@ -118,49 +138,24 @@ export class AudioEngine {
     this.sampleRate = this.ctx.sampleRate;
     this.latency = this.ctx.baseLatency;
 
-    // 1. Master Volume
-    this.masterOutput = this.ctx.createGain();
-    
-    // 2. Master Limiter (Safety & Glue)
-    this.masterLimiter = this.ctx.createDynamicsCompressor();
-    this.masterLimiter.threshold.value = -1.0;
-    this.masterLimiter.knee.value = 0.0;
-    this.masterLimiter.ratio.value = 20.0;
-    this.masterLimiter.attack.value = 0.005; 
-    this.masterLimiter.release.value = 0.1;
-
-    // 3. Analyzer (Visualizer)
-    this.masterAnalyzer = this.ctx.createAnalyser();
-    this.masterAnalyzer.fftSize = 2048;
-    this.masterAnalyzer.smoothingTimeConstant = 0.8;
-    
-    // 4. Stereo Splitters for Meters
-    this.masterSplitter = this.ctx.createChannelSplitter(2);
-    this.masterAnalyzerL = this.ctx.createAnalyser();
-    this.masterAnalyzerR = this.ctx.createAnalyser();
-    this.masterAnalyzerL.fftSize = 1024; 
-    this.masterAnalyzerR.fftSize = 1024;
-    this.masterAnalyzerL.smoothingTimeConstant = 0.5;
-    this.masterAnalyzerR.smoothingTimeConstant = 0.5;
-
-    // Routing Chain: MasterGain -> Limiter -> Analyzer -> Destination
-    this.masterOutput.connect(this.masterLimiter);
-    this.masterLimiter.connect(this.masterAnalyzer);
-    this.masterAnalyzer.connect(this.ctx.destination);
-    
-    // Side-chain for Stereo Meters
-    this.masterAnalyzer.connect(this.masterSplitter);
-    this.masterSplitter.connect(this.masterAnalyzerL, 0);
-    this.masterSplitter.connect(this.masterAnalyzerR, 1);
-
-    // Init Preview System
-    this.previewGain = this.ctx.createGain();
-    this.previewAnalyzer = this.ctx.createAnalyser();
-    this.previewAnalyzer.fftSize = 256; 
-    this.previewGain.connect(this.previewAnalyzer);
-    this.previewAnalyzer.connect(this.ctx.destination);
+    // Master chain, meters and preview channel live in the graph
+    this.graph = new GraphManager(this.ctx, { withMeters: true });
+    this.graph.setSoloMode(this.soloMode);
+    this.transport.attach(this.ctx);
+    this.midiOutput.attach(this.ctx);
+    this.metronome = new Metronome(this.ctx);
+    this.metronome.setSettings(this.metronomeSettings);
+    AudioCapture.preload(this.ctx).catch(e => console.error("[AudioEngine] Recorder worklet unavailable:", e));
+    // Décalage propre à la machine : conservé hors projet, comme les réglages du panneau audio
+    this.recordingOffset = (parseFloat(localStorage.getItem('nova_audio_rec_offset') || '0') || 0) / 1000;
   }
 
+  public get masterAnalyzerL() { return this.graph?.masterAnalyzerL || null; }
+  public get masterAnalyzerR() { return this.graph?.masterAnalyzerR || null; }
+  public get previewAnalyzer() { return this.graph?.previewAnalyzer || null; }
+
+  private getTrackDSP(trackId: string): TrackDSP | undefined { return this.graph?.getTrackDSP(trackId); }
+
   // --- DEVICE MANAGEMENT METHODS ---
   public async setOutputDevice(deviceId: string) {
       if (!this.ctx) return;
@@ -178,18 +173,43 @@ export class AudioEngine {
   public getActiveInputDevice() { return this.currentInputDeviceId; }
   public getActiveOutputDevice() { return this.currentOutputDeviceId; }
   
-  public setLatencyMode(mode: 'low' | 'balanced' | 'high') {
-      if (mode === 'low') { this.LOOKAHEAD_MS = 15.0; this.SCHEDULE_AHEAD_SEC = 0.04; } 
-      else if (mode === 'balanced') { this.LOOKAHEAD_MS = 25.0; this.SCHEDULE_AHEAD_SEC = 0.1; } 
-      else { this.LOOKAHEAD_MS = 50.0; this.SCHEDULE_AHEAD_SEC = 0.2; }
-  }
+  public setLatencyMode(mode: 'low' | 'balanced' | 'high') { this.transport.setLatencyMode(mode); }
 
   public setDelayCompensation(enabled: boolean) { this.isDelayCompEnabled = enabled; }
+
+  public setMetronome(settings: MetronomeSettings) {
+    this.metronomeSettings = settings;
+    this.metronome?.setSettings(settings);
+  }
+
+  // Takes effect on the next updateTrack pass, like the PDC toggle
+  public setSoloMode(mode: SoloMode) {
+    this.soloMode = mode;
+    this.graph?.setSoloMode(mode);
+  }
+
+  // Tempo-synced plugins follow the map immediately, and every transport window while playing
+  public setTempoMap(map: TempoMap) {
+    this.tempoMap = map;
+    if (this.ctx && this.graph) this.graph.syncTempo(tempoAt(this.getCurrentTime(), map), this.ctx.currentTime);
+  }
+
+  /**
+   * Heure projet d'une position dans un clip MIDI.
+   * Les notes sont stockées en secondes au tempo de base : ce sont des positions musicales,
+   * replacées ici sur la carte de tempo (rampes et changements compris).
+   */
+  private getMidiTime(clip: Clip, offset: number): number {
+    return midiOffsetToTime(clip.start, offset, this.tempoMap);
+  }
   
-  public setLoop(active: boolean, start: number, end: number) {
-    this.isLoopActive = active;
-    this.loopStart = start;
-    this.loopEnd = end;
+  public setLoop(active: boolean, start: number, end: number) { this.transport.setLoop(active, start, end); }
+
+  // Points de punch, indépendants de la boucle
+  public setPunch(active: boolean, start: number, end: number) { this.punch = { active, start, end }; }
+
+  private getActivePunch(): { start: number, end: number } | null {
+    return this.punch.active && this.punch.end > this.punch.start ? { start: this.punch.start, end: this.punch.end } : null;
   }
   
   public playTestTone() { /* ... */ }
@@ -206,14 +226,14 @@ export class AudioEngine {
           const audioBuffer = await this.ctx!.decodeAudioData(arrayBuffer); 
           this.previewSource = this.ctx!.createBufferSource(); 
           this.previewSource.buffer = audioBuffer; 
-          this.previewSource.connect(this.previewGain!); 
+          this.previewSource.connect(this.graph!.previewGain!); 
           this.previewSource.onended = () => { 
               this.isPreviewPlaying = false; 
               if (onEnded) onEnded();
           }; 
           this.previewSource.start(0); 
           this.isPreviewPlaying = true; 
-          this.previewGain!.gain.value = 0.8; 
+          this.graph!.previewGain!.gain.value = 0.8; 
       } catch (e: any) { 
           console.error("[AudioEngine] Preview Error:", e.message); 
           this.isPreviewPlaying = false;
@@ -235,277 +255,971 @@ export class AudioEngine {
   public async resume() { if (this.ctx && this.ctx.state === 'suspended') { await this.ctx.resume(); } }
   
   // --- OFFLINE RENDER ENGINE ---
+  /**
+   * Rend le projet dans un OfflineAudioContext.
+   * Le graphe est reconstruit par un GraphManager offline (même code que le live),
+   * puis les clips et notes sont planifiés par tranches de RENDER_SLICE_SEC,
+   * exactement comme le scheduler temps réel, via suspend()/resume().
+   */
   public async renderProject(tracks: Track[], totalDuration: number, startOffset: number = 0, targetSampleRate: number = 44100, onProgress?: (progress: number) => void): Promise<AudioBuffer> {
-    // ... (Offline Render Logic Omitted for Brevity - Keeping Existing Logic) ...
-    // Note: For DrumRack, we would need to replicate logic in Offline context.
-    return this.ctx!.createBuffer(2, 44100, 44100); // Dummy return
+    return this.renderOffline(tracks, totalDuration, startOffset, targetSampleRate, onProgress);
   }
 
-  public async armTrack(trackId: string) {
-    if (!this.ctx) await this.init();
-    if (this.ctx!.state === 'suspended') await this.ctx!.resume();
-    if (this.armingPromise) await this.armingPromise;
-    this.armingPromise = this._armTrackInternal(trackId);
-    await this.armingPromise;
-    this.armingPromise = null;
+  // Pistes jouées sur un port MIDI externe : silencieuses au rendu, leur retour audio doit être enregistré avant l'export
+  public getUnrenderedMidiTracks(tracks: Track[]): Track[] {
+    return tracks.filter(t => t.midiOutput && !t.isMuted && !t.freeze && t.clips.some(c => c.type === TrackType.MIDI));
+  }
+
+  /**
+   * FREEZE
+   * Rend les clips de la piste à travers ses inserts, sans fader, pan ni envois,
+   * avec une queue pour les effets (reverb, delay). Null si la piste n'a rien à rendre.
+   */
+  public async freezeTrack(track: Track): Promise<TrackFreeze | null> {
+    const isolated: Track = { ...track, freeze: undefined, isMuted: false, isSolo: false, outputTrackId: 'master', sends: [] };
+    const audioClips = this.getAudioClips(isolated).filter(c => c.buffer && !c.isMuted);
+    // Piste jouée sur un port externe : son instrument interne n'est pas entendu, rien à rendre
+    const midiClips = isolated.type === TrackType.AUDIO || isolated.midiOutput ? [] : isolated.clips.filter(c => c.type === TrackType.MIDI && c.notes && c.notes.length > 0);
+    if (audioClips.length === 0 && midiClips.length === 0) return null;
+
+    const start = Math.min(...audioClips.map(c => c.start), ...midiClips.map(c => c.start));
+    const end = Math.max(...audioClips.map(c => c.start + c.duration), ...midiClips.map(c => this.getMidiTime(c, c.duration)));
+    const sampleRate = this.ctx?.sampleRate || 44100;
+    const buffer = await this.renderOffline([isolated], end - start + this.FREEZE_TAIL_SEC, start, sampleRate, undefined, isolated.id);
+    return { buffer, start };
   }
 
-  private async _armTrackInternal(trackId: string) {
-    this.disarmTrack();
-    this.monitoringTrackId = trackId;
+  private async renderOffline(tracks: Track[], totalDuration: number, startOffset: number, targetSampleRate: number, onProgress?: (progress: number) => void, freezeTrackId?: string): Promise<AudioBuffer> {
+    const duration = Math.max(0.1, totalDuration);
+    // Exports are always delay-compensated: the first `pdc` seconds are rendered then trimmed
+    const latencies = GraphManager.computeLatencies(tracks);
+    const pdc = GraphManager.getMaxLatency(latencies);
+    const renderDuration = duration + pdc;
+    const offlineCtx = new OfflineAudioContext(2, Math.ceil(renderDuration * targetSampleRate), targetSampleRate);
+
+    // 1. Rebuild every track (instruments, plugins, gain/pan, bus routing, sends)
+    const offlineGraph = new GraphManager(offlineCtx);
+    offlineGraph.setBpm(this.tempoMap.tempos[0]?.bpm || 120);
+    offlineGraph.setSoloMode(this.soloMode);
+    tracks.forEach(track => offlineGraph.updateTrack(track, tracks, { latency: latencies.get(track.id) }));
+    if (this.graph) offlineGraph.copyInstrumentState(this.graph, tracks);
+    if (freezeTrackId) offlineGraph.routeChainToDestination(freezeTrackId);
+    await offlineGraph.whenReady();
+
+    const routedTracks = this.getUnrenderedMidiTracks(tracks);
+    if (routedTracks.length > 0) console.warn('[AudioEngine] Pistes MIDI externes non rendues :', routedTracks.map(t => t.name));
+
+    // 2. Sliced scheduling (project time = startOffset + t, render time = t + pdc - track latency)
+    const scheduledClips = new Set<string>();
+    const primedAutomation = new Set<string>();
+    const scheduleWindow = (from: number, to: number) => {
+      const projectFrom = startOffset + from;
+      const projectTo = startOffset + to;
+
+      offlineGraph.syncTempo(tempoAt(projectFrom, this.tempoMap), from);
+
+      tracks.forEach(track => {
+        if (track.isMuted) return;
+        const dsp = offlineGraph.getTrackDSP(track.id)!;
+        const shift = pdc - (latencies.get(track.id)?.total || 0);
+
+        this.getAudioClips(track).forEach(clip => {
+          if (!clip.buffer || scheduledClips.has(clip.id)) return;
+          if (clip.start >= projectTo || clip.start + clip.duration <= projectFrom) return;
+          scheduledClips.add(clip.id);
+          this.createClipVoice(offlineCtx, clip, dsp.input, from + shift, projectFrom);
+        });
+
+        if (!track.freeze && !track.midiOutput && (track.type === TrackType.MIDI || track.type === TrackType.SAMPLER || track.type === TrackType.DRUM_RACK)) {
+          track.clips.forEach(clip => {
+            if (clip.type !== TrackType.MIDI || !clip.notes) return;
+            if (clip.start >= projectTo || this.getMidiTime(clip, clip.duration) <= projectFrom) return;
+
+            // Contrôleurs : état au début du rendu, puis chaque point
+            if (from === 0) this.getControlStateAt(clip, projectFrom).forEach(event => this.controlInstrument(dsp, event, shift));
+            this.getControlEvents(clip, projectFrom, projectTo).forEach(({ event, time }) => {
+              this.controlInstrument(dsp, event, time - startOffset + shift);
+            });
+
+            clip.notes.forEach(note => {
+              const noteAbsStart = this.getMidiTime(clip, note.start);
+              const noteAbsEnd = this.getSustainedEnd(clip, note);
+              // Notes already sounding at the render start are attacked at t = 0
+              const isFirstWindowCarry = from === 0 && noteAbsStart < projectFrom && noteAbsEnd > projectFrom;
+
+              if ((noteAbsStart >= projectFrom && noteAbsStart < projectTo) || isFirstWindowCarry) {
+                this.attackInstrument(dsp, note.pitch, note.velocity, Math.max(0, noteAbsStart - startOffset) + shift);
+              }
+              if (noteAbsEnd >= projectFrom && noteAbsEnd < projectTo) {
+                this.releaseInstrument(dsp, note.pitch, noteAbsEnd - startOffset + shift);
+              }
+            });
+          });
+        }
+      });
+
+      // Automation : mêmes courbes que la lecture, décalées comme les clips de chaque piste
+      this.scheduleAutomation(offlineGraph, tracks.filter(t => !t.isMuted), projectFrom, projectTo, from, pdc, latencies, primedAutomation);
+    };
+
+    // Each slice is scheduled one slice ahead, so events always land in the future
+    const slice = this.RENDER_SLICE_SEC;
+    scheduleWindow(0, slice);
+    scheduleWindow(slice, slice * 2);
+
+    for (let t = slice; t < renderDuration; t += slice) {
+      const windowStart = t + slice;
+      offlineCtx.suspend(t).then(() => {
+        if (windowStart < duration) scheduleWindow(windowStart, windowStart + slice);
+        if (onProgress) onProgress(Math.min(99, Math.round((t / renderDuration) * 100)));
+        offlineCtx.resume();
+      });
+    }
+
+    const rendered = await offlineCtx.startRendering();
+    if (onProgress) onProgress(100);
+    if (pdc <= 0) return rendered;
+
+    // Trim the compensation head so the export starts exactly at startOffset
+    const skip = Math.round(pdc * targetSampleRate);
+    const trimmed = new AudioBuffer({ length: rendered.length - skip, numberOfChannels: rendered.numberOfChannels, sampleRate: targetSampleRate });
+    for (let ch = 0; ch < rendered.numberOfChannels; ch++) {
+      trimmed.copyToChannel(rendered.getChannelData(ch).subarray(skip), ch);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Arme une piste sur son entrée : interface (`inputDeviceId`, sinon celle des réglages audio),
+   * canal de départ (`inputChannel`) et mono / stéréo. Plusieurs pistes peuvent être armées à la fois.
+   */
+  public armTrack(track: Track): Promise<void> {
+    return this.enqueueArming(() => this.armTrackInternal(track));
+  }
+
+  // Sans piste : désarme tout
+  public disarmTrack(trackId?: string): Promise<void> {
+    return this.enqueueArming(async () => {
+      const ids = trackId ? [trackId] : [...this.armedInputs.keys()];
+      for (const id of ids) await this.releaseInput(id);
+    });
+  }
+
+  // L'appelant reçoit sa propre erreur ; la file continue pour les opérations suivantes
+  private enqueueArming(task: () => Promise<void>): Promise<void> {
+    const run = this.armingQueue.then(task);
+    this.armingQueue = run.catch(() => {});
+    return run;
+  }
+
+  public isTrackArmed(trackId: string) { return this.armedInputs.has(trackId) || this.midiArmed.has(trackId); }
+
+  public getMidiArmedTrackIds(): string[] { return [...this.midiArmed]; }
+
+  private async armTrackInternal(track: Track) {
+    if (track.type === TrackType.MIDI || track.type === TrackType.SAMPLER || track.type === TrackType.DRUM_RACK) {
+      // Piste instrument : armée sur l'entrée MIDI, aucune entrée audio à ouvrir
+      this.midiArmed.add(track.id);
+      return;
+    }
+    if (!this.ctx) await this.init();
+    if (this.ctx!.state === 'suspended') await this.ctx!.resume();
+    await this.releaseInput(track.id);
     
-    let dsp = this.tracksDSP.get(trackId);
+    let dsp = this.getTrackDSP(track.id);
     
     // Si DSP n'existe pas, attendre un peu et réessayer (race condition fix)
     if (!dsp) {
       console.log("[AudioEngine] DSP not ready, waiting 150ms...");
       await new Promise(r => setTimeout(r, 150));
-      dsp = this.tracksDSP.get(trackId);
+      dsp = this.getTrackDSP(track.id);
     }
     
     if (!dsp) {
-      console.error("[AudioEngine] ARM FAILED - No DSP for track:", trackId);
-      this.monitoringTrackId = null;
-      return;
+      console.error("[AudioEngine] ARM FAILED - No DSP for track:", track.id);
+      throw new Error(`Piste ${track.name} non prête`);
     }
 
+    let opened: { deviceId: string, node: AudioNode } | null = null;
     try {
-      this.activeMonitorStream = await navigator.mediaDevices.getUserMedia({
+      opened = await this.openInputNode(track);
+      const { deviceId, node } = opened;
+      const monitor = this.ctx!.createGain();
+      monitor.gain.value = 0;
+      node.connect(monitor);
+      if (dsp.inputAnalyzer) node.connect(dsp.inputAnalyzer);
+      const armed: ArmedInput = { deviceId, node, monitor, mode: track.monitorMode || 'AUTO', isDirect: !!track.isDirectMonitor };
+      this.armedInputs.set(track.id, armed);
+      this.connectMonitor(armed, dsp);
+      this.refreshMonitoring();
+      console.log("[AudioEngine] Track armed OK:", track.id, deviceId);
+    } catch (e) {
+      console.error("[AudioEngine] ARM ERROR:", e);
+      // Rien ne reste ouvert : l'appelant reçoit l'erreur et remet la piste désarmée
+      this.armedInputs.delete(track.id);
+      if (opened) await this.closeInputNode(opened.deviceId, opened.node);
+      throw e;
+    }
+  }
+
+  // Canal ou paire de canaux de l'interface choisie par la piste (`inputDeviceId`, sinon celle des réglages audio)
+  private async openInputNode(track: Track): Promise<{ deviceId: string, node: AudioNode }> {
+    const deviceId = !track.inputDeviceId || track.inputDeviceId === 'mic-default' ? this.currentInputDeviceId : track.inputDeviceId;
+    const device = await this.openDevice(deviceId);
+    const first = Math.min(track.inputChannel || 0, device.channelCount - 1);
+    const isStereo = track.isInputStereo !== false && first + 1 < device.channelCount;
+
+    let node: AudioNode;
+    if (isStereo) {
+      node = this.ctx!.createChannelMerger(2);
+      device.splitter.connect(node, first, 0);
+      device.splitter.connect(node, first + 1, 1);
+    } else {
+      // Mono : un seul canal, étalé au centre par le mixage de la piste
+      const mono = this.ctx!.createGain();
+      mono.channelCount = 1;
+      mono.channelCountMode = 'explicit';
+      device.splitter.connect(mono, first);
+      node = mono;
+    }
+    device.users++;
+    return { deviceId, node };
+  }
+
+  private openDevice(deviceId: string): Promise<DeviceInput> {
+    let device = this.deviceInputs.get(deviceId);
+    if (!device) {
+      device = navigator.mediaDevices.getUserMedia({
         audio: {
+          deviceId: deviceId === 'default' ? undefined : { exact: deviceId },
+          channelCount: { ideal: this.MAX_INPUT_CHANNELS },
           echoCancellation: false,
           noiseSuppression: false,
           autoGainControl: false,
         }
+      }).then(stream => {
+        const source = this.ctx!.createMediaStreamSource(stream);
+        const channelCount = Math.max(1, stream.getAudioTracks()[0]?.getSettings().channelCount || 2);
+        const splitter = this.ctx!.createChannelSplitter(channelCount);
+        source.connect(splitter);
+        return { stream, source, splitter, channelCount, users: 0 };
       });
-      this.monitorSource = this.ctx!.createMediaStreamSource(this.activeMonitorStream);
-      this.monitorSource.connect(dsp.input);
-      console.log("[AudioEngine] Track armed OK:", trackId);
-    } catch (e) {
-      console.error("[AudioEngine] ARM ERROR:", e);
-      this.monitoringTrackId = null;
-      this.activeMonitorStream = null;
+      device.catch(() => this.deviceInputs.delete(deviceId));
+      this.deviceInputs.set(deviceId, device);
     }
+    return device;
   }
 
-  public disarmTrack() {
-    if (this.monitorSource) {
-      this.monitorSource.disconnect();
-      this.monitorSource = null;
-    }
-    if (this.activeMonitorStream) {
-      this.activeMonitorStream.getTracks().forEach(track => track.stop());
-      this.activeMonitorStream = null;
+  // Désarmement : entrée MIDI ou audio de la piste
+  private async releaseInput(trackId: string) {
+    this.midiArmed.delete(trackId);
+    const armed = this.armedInputs.get(trackId);
+    if (!armed) return;
+    this.armedInputs.delete(trackId);
+    this.inputClips.delete(trackId);
+    armed.monitor.disconnect();
+    await this.closeInputNode(armed.deviceId, armed.node);
+  }
+
+  // Le flux de l'interface est fermé quand plus aucune piste ne l'utilise
+  private async closeInputNode(deviceId: string, node: AudioNode) {
+    node.disconnect();
+    const device = await this.deviceInputs.get(deviceId);
+    if (!device) return;
+    try { device.splitter.disconnect(node); } catch (e) {}
+    if (--device.users > 0) return;
+    device.source.disconnect();
+    device.stream.getTracks().forEach(track => track.stop());
+    this.deviceInputs.delete(deviceId);
+  }
+
+  // --- EXTERNAL INSTRUMENTS ---
+  /**
+   * Piste instrument externe : le son du synthé revient par l'entrée de la piste et passe par sa chaîne
+   * (inserts, fader, envois) qu'elle soit armée ou non. Rouvert quand l'entrée change.
+   */
+  private syncExternalReturn(track: Track) {
+    const key = track.isExternalInstrument ? `${track.inputDeviceId || ''}/${track.inputChannel || 0}/${track.isInputStereo !== false}` : '';
+    if ((this.externalReturnKeys.get(track.id) || '') === key) return;
+    if (key) this.externalReturnKeys.set(track.id, key);
+    else this.externalReturnKeys.delete(track.id);
+
+    this.enqueueArming(async () => {
+      const previous = this.externalReturns.get(track.id);
+      if (previous) {
+        this.externalReturns.delete(track.id);
+        await this.closeInputNode(previous.deviceId, previous.node);
+      }
+      const dsp = this.getTrackDSP(track.id);
+      if (!key || !dsp) return;
+      try {
+        if (this.ctx!.state === 'suspended') await this.ctx!.resume();
+        const input = await this.openInputNode(track);
+        input.node.connect(dsp.input);
+        this.externalReturns.set(track.id, input);
+      } catch (e) {
+        console.error("[AudioEngine] External return failed:", track.id, e);
+      }
+    });
+  }
+
+  // --- MIDI OUTPUT ---
+  // Ports ouverts par MidiManager
+  public setMidiOutputPorts(ports: Map<string, any>) { this.midiOutput.setPorts(ports); }
+
+  // Ports qui reçoivent l'horloge et le transport du projet
+  public setMidiClockPorts(portIds: string[]) { this.midiOutput.setClockPorts(portIds); }
+
+  public getMidiClockPorts(): string[] { return this.midiOutput.getClockPorts(); }
+
+  // --- INPUT MONITORING ---
+  // Mode ou chemin direct changés : pas besoin de rouvrir l'entrée
+  public setMonitoring(track: Track) {
+    const armed = this.armedInputs.get(track.id);
+    const dsp = this.getTrackDSP(track.id);
+    if (!armed || !dsp) return;
+    armed.mode = track.monitorMode || 'AUTO';
+    if (armed.isDirect !== !!track.isDirectMonitor) {
+      armed.isDirect = !!track.isDirectMonitor;
+      this.connectMonitor(armed, dsp);
     }
-    this.monitoringTrackId = null;
+    this.refreshMonitoring();
+  }
+
+  /**
+   * Direct : l'entrée contourne les inserts et le délai de PDC pour rejoindre la sortie de la piste.
+   * Le fader, le pan, le mute et le solo de la piste s'appliquent toujours (recopiés par le GraphManager),
+   * pas les envois ni l'automation.
+   */
+  private connectMonitor(armed: ArmedInput, dsp: TrackDSP) {
+    armed.monitor.disconnect();
+    armed.monitor.connect(armed.isDirect ? dsp.directMonitor : dsp.input);
   }
 
-  public async startRecording(currentTime: number, trackId: string): Promise<boolean> {
-    console.log("[AudioEngine] startRecording called - stream:", !!this.activeMonitorStream, "recording:", this.recordingTrackId);
+  /**
+   * Ouvre ou ferme la porte d'écoute de chaque piste armée selon l'état du transport.
+   * TAPE pendant une prise : fermée ici, ouverte sur la zone enregistrée par scheduleTapeMonitoring.
+   */
+  private refreshMonitoring() {
+    if (!this.ctx) return;
+    const now = this.ctx.currentTime;
+    const isPlaying = this.transport.getIsPlaying();
+    this.armedInputs.forEach((armed, trackId) => {
+      const isRecording = this.captures.has(trackId);
+      let open: boolean;
+      switch (armed.mode) {
+        case 'OFF': open = false; break;
+        case 'ALWAYS': open = true; break;
+        case 'TAPE': open = !isPlaying && !isRecording; break;
+        default: open = !isPlaying || isRecording;
+      }
+      armed.monitor.gain.cancelScheduledValues(now);
+      armed.monitor.gain.setTargetAtTime(open ? 1 : 0, now, this.MONITOR_SMOOTHING_SEC);
+    });
+  }
+
+  // Zone effectivement gardée par la prise en cours : punch, sinon du début de prise à l'arrêt (toute la boucle après un retour)
+  private isInTake(time: number): boolean {
+    if (this.recPunch) return time >= this.recPunch.start && time < this.recPunch.end;
+    return time >= this.recPunchTime || (this.recLoop !== null && this.loopPass > 0);
+  }
+
+  // Bascule lecture / entrée au sample près, alignée sur ce qui est entendu
+  private scheduleTapeMonitoring(projectStart: number, projectEnd: number, when: number) {
+    const bounds = this.recPunch ? [this.recPunch.start, this.recPunch.end] : [this.recPunchTime];
+    this.armedInputs.forEach((armed, trackId) => {
+      if (armed.mode !== 'TAPE' || !this.captures.has(trackId)) return;
+      armed.monitor.gain.setValueAtTime(this.isInTake(projectStart) ? 1 : 0, when);
+      bounds.forEach(bound => {
+        if (bound > projectStart && bound < projectEnd) armed.monitor.gain.setValueAtTime(this.isInTake(bound) ? 1 : 0, when + bound - projectStart);
+      });
+    });
+  }
+
+  /**
+   * Niveau crête de l'entrée d'une piste armée (0..1) pour régler le gain avant la prise.
+   * La saturation reste signalée jusqu'à resetInputClip.
+   */
+  public getInputLevel(trackId: string): { peak: number, isClipping: boolean } | null {
+    const analyzer = this.armedInputs.has(trackId) ? this.getTrackDSP(trackId)?.inputAnalyzer : undefined;
+    if (!analyzer) return null;
+    const data = new Float32Array(analyzer.fftSize);
+    analyzer.getFloatTimeDomainData(data);
+    let peak = 0;
+    for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+    if (peak >= this.CLIP_THRESHOLD) this.inputClips.add(trackId);
+    return { peak, isClipping: this.inputClips.has(trackId) };
+  }
+
+  // Sans piste : efface tous les voyants
+  public resetInputClip(trackId?: string) {
+    if (trackId) this.inputClips.delete(trackId);
+    else this.inputClips.clear();
+  }
+
+  /**
+   * `punchTime` = début de la prise visible ; ce qui est capturé avant reste dans l'offset du clip.
+   * Une capture par piste armée ; chacune rapporte l'heure de son premier échantillon,
+   * les prises restent donc alignées entre elles au sample près.
+   */
+  public async startRecording(currentTime: number, trackIds: string[], punchTime: number = currentTime): Promise<boolean> {
+    const armed = trackIds.filter(id => this.armedInputs.has(id));
+    const midiArmed = trackIds.filter(id => this.midiArmed.has(id));
+    console.log("[AudioEngine] startRecording called - armed:", armed, "midi:", midiArmed, "recording:", [...this.captures.keys()]);
     
-    if (!this.activeMonitorStream) {
-      console.error("[AudioEngine] REC FAILED - No monitor stream! Arm track first.");
+    if (!this.ctx || armed.length + midiArmed.length === 0) {
+      console.error("[AudioEngine] REC FAILED - No armed input! Arm track first.");
       return false;
     }
-    if (this.recordingTrackId) {
-      console.error("[AudioEngine] REC FAILED - Already recording on:", this.recordingTrackId);
+    if (this.captures.size > 0 || this.midiCaptures.size > 0) {
+      console.error("[AudioEngine] REC FAILED - Already recording on:", [...this.captures.keys()]);
       return false;
     }
     
     try {
-      this.mediaRecorder = new MediaRecorder(this.activeMonitorStream);
-      this.audioChunks = [];
       this.recStartTime = currentTime;
-      this.recordingTrackId = trackId;
-      this.mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          this.audioChunks.push(event.data);
-        }
-      };
-      this.mediaRecorder.start();
-      console.log("[AudioEngine] Recording started OK on track:", trackId);
+      this.recAnchorCtxTime = this.ctx.currentTime;
+      this.recPunchTime = Math.max(currentTime, punchTime);
+      const loop = this.transport.getLoop();
+      this.recLoop = loop.active && loop.end > loop.start && this.recPunchTime < loop.end ? { start: loop.start, end: loop.end } : null;
+      const punch = this.getActivePunch();
+      this.recPunch = punch && this.recPunchTime < punch.end ? { start: Math.max(punch.start, this.recPunchTime), end: punch.end } : null;
+      armed.forEach(id => this.captures.set(id, new AudioCapture(this.ctx!, this.armedInputs.get(id)!.node)));
+      midiArmed.forEach(id => this.midiCaptures.set(id, new MidiCapture(this.recLoop)));
+      await Promise.all([...this.captures.values()].map(capture => capture.start()));
+      this.refreshMonitoring();
+      console.log("[AudioEngine] Recording started OK on tracks:", armed, midiArmed);
       return true;
     } catch (e) {
       console.error("[AudioEngine] REC ERROR:", e);
-      this.recordingTrackId = null;
+      await Promise.all([...this.captures.values()].map(capture => capture.stop().catch(() => null)));
+      this.captures.clear();
+      this.midiCaptures.clear();
       return false;
     }
   }
 
-  public async stopRecording(): Promise<{ clip: Clip, trackId: string } | null> {
-    if (!this.mediaRecorder || this.mediaRecorder.state === 'inactive' || !this.recordingTrackId) {
-      return null;
+  /**
+   * Arrête les captures : une entrée par piste enregistrée. Sans cycle : une seule prise.
+   * En cycle, chaque passe de boucle devient une prise distincte (take lanes).
+   * Pistes MIDI : un clip de notes par piste, les passes du cycle y sont fusionnées.
+   */
+  public async stopRecording(): Promise<{ takes: Clip[], trackId: string, isPunch: boolean }[]> {
+    if (this.captures.size === 0 && this.midiCaptures.size === 0) return [];
+    const captures = [...this.captures.entries()];
+    const latency = this.getRecordingLatency().total;
+    const stopTime = this.transport.getIsPlaying() ? this.transport.getCurrentTime() : this.recStopTime;
+    try {
+      const midiResults = [...this.midiCaptures.entries()].map(([trackId, capture]) => this.buildMidiTake(trackId, capture.finish(stopTime), stopTime));
+      const results = await Promise.all(captures.map(async ([trackId, capture]) => {
+        const result = await capture.stop();
+        return result ? this.buildTakes(trackId, result, latency) : null;
+      }));
+      const recorded = [...results, ...midiResults].filter((r): r is { takes: Clip[], trackId: string, isPunch: boolean } => r !== null);
+      console.log("[AudioEngine] Recording stopped. Takes created:", recorded.map(r => `${r.trackId}: ${r.takes.length}`));
+      return recorded;
+    } catch (e) {
+      console.error("Error processing recorded audio:", e);
+      return [];
+    } finally {
+      this.captures.clear();
+      this.midiCaptures.clear();
+      this.recStartTime = 0;
+      this.recPunchTime = 0;
+      this.recLoop = null;
+      this.recPunch = null;
+      this.refreshMonitoring();
     }
-    return new Promise((resolve) => {
-      this.mediaRecorder!.onstop = async () => {
-        const trackId = this.recordingTrackId!;
-        const blob = new Blob(this.audioChunks, { type: this.mediaRecorder!.mimeType });
-        if (blob.size === 0) {
-          resolve(null);
-          return;
-        }
-        try {
-          const arrayBuffer = await blob.arrayBuffer();
-          const audioBuffer = await this.ctx!.decodeAudioData(arrayBuffer);
-          const clip: Clip = {
-            id: `rec-${Date.now()}`,
-            name: `Vocal Take ${new Date().toLocaleTimeString()}`,
-            start: this.recStartTime,
-            duration: audioBuffer.duration,
-            offset: 0,
-            fadeIn: 0.01,
-            fadeOut: 0.01,
-            type: TrackType.AUDIO,
-            color: '#ff0000',
-            buffer: audioBuffer,
-            audioRef: URL.createObjectURL(blob),
-          };
-          console.log("[AudioEngine] Recording stopped. New clip created:", clip);
-          resolve({ clip, trackId });
-        } catch (e) {
-          console.error("Error processing recorded audio:", e);
-          resolve(null);
-        } finally {
-          this.audioChunks = [];
-          this.recordingTrackId = null;
-          this.recStartTime = 0;
-        }
-      };
-      this.mediaRecorder.stop();
+  }
+
+  private buildTakes(trackId: string, result: CaptureResult, latency: number): { takes: Clip[], trackId: string, isPunch: boolean } | null {
+    // Premier échantillon réel, puis recul de l'aller-retour : ce qui a été capturé à t a été joué à t - latence
+    const captureStart = this.recStartTime + (result.startTime - this.recAnchorCtxTime) - latency;
+    const audioBuffer = result.buffer;
+    const hiddenHead = this.recPunchTime - captureStart;
+    if (audioBuffer.duration <= hiddenHead) return null; // Stoppé pendant le count-in
+    const clip: Clip = {
+      id: `rec-${trackId}-${Date.now()}`,
+      name: `Vocal Take ${new Date().toLocaleTimeString()}`,
+      start: this.recPunchTime,
+      duration: audioBuffer.duration - hiddenHead,
+      offset: hiddenHead,
+      fadeIn: 0.01,
+      fadeOut: 0.01,
+      type: TrackType.AUDIO,
+      color: '#ff0000',
+      buffer: audioBuffer,
+    };
+    // WAV sans perte derrière chaque prise (upload cloud / sauvegarde)
+    const takes = this.splitLoopPasses(clip, audioBuffer, captureStart)
+      .map(take => this.clampToPunch(take))
+      .filter((take): take is Clip => take !== null)
+      .map(take => ({ ...take, audioRef: URL.createObjectURL(audioBufferToWav(take.buffer!)) }));
+    if (takes.length === 0) return null; // Arrêté avant le punch-in
+    return { takes, trackId, isPunch: this.recPunch !== null };
+  }
+
+  /**
+   * Zone de la prise MIDI : du début de prise à l'arrêt, toute la boucle après un retour, bornée au punch.
+   * Notes en offsets MIDI du clip (voir midiOffsetToTime).
+   */
+  private buildMidiTake(trackId: string, captured: { notes: CapturedNote[], controls: CapturedControl[] }, stopTime: number): { takes: Clip[], trackId: string, isPunch: boolean } | null {
+    const wrapped = this.recLoop !== null && this.loopPass > 0;
+    let start = wrapped ? Math.min(this.recPunchTime, this.recLoop!.start) : this.recPunchTime;
+    let end = wrapped ? this.recLoop!.end : stopTime;
+    if (this.recPunch) {
+      start = Math.max(start, this.recPunch.start);
+      end = Math.min(end, this.recPunch.end);
+    }
+    const kept = captured.notes.filter(n => n.start >= start - this.MIDI_EARLY_SEC && n.start < end);
+    const controls = captured.controls.filter(c => c.time >= start && c.time < end);
+    if ((kept.length === 0 && controls.length === 0) || end <= start) return null; // Rien joué dans la zone
+
+    const toOffset = (time: number) => timeToMidiOffset(start, time, this.tempoMap);
+    // Une lane par contrôleur, points dans l'ordre du temps
+    const lanes: Map<string, MidiControllerLane> = new Map();
+    controls.forEach(({ event, time }) => {
+      const key = `${event.type}:${event.cc ?? ''}`;
+      if (!lanes.has(key)) lanes.set(key, { id: generateId('ctrl'), type: event.type, cc: event.cc, points: [] });
+      lanes.get(key)!.points.push({ id: generateId('pt'), time: toOffset(time), value: event.value });
     });
+    lanes.forEach(lane => lane.points.sort((a, b) => a.time - b.time));
+    const clip: Clip = {
+      id: `rec-${trackId}-${Date.now()}`,
+      name: `MIDI Take ${new Date().toLocaleTimeString()}`,
+      start,
+      duration: toOffset(end),
+      offset: 0,
+      fadeIn: 0,
+      fadeOut: 0,
+      type: TrackType.MIDI,
+      color: '#ff0000',
+      notes: kept.map(n => {
+        const noteStart = Math.max(n.start, start);
+        const noteEnd = Math.max(noteStart, Math.min(n.end, end));
+        return {
+          id: generateId('note'),
+          pitch: n.pitch,
+          start: toOffset(noteStart),
+          duration: Math.max(this.MIN_NOTE_SEC, toOffset(noteEnd) - toOffset(noteStart)),
+          velocity: n.velocity
+        };
+      }),
+      controllers: [...lanes.values()]
+    };
+    return { takes: [clip], trackId, isPunch: this.recPunch !== null };
   }
 
-  public startPlayback(startOffset: number, tracks: Track[]) {
-    if (!this.ctx) return;
-    if (this.isPlaying) this.stopAll();
+  /**
+   * Note reçue par MidiManager pendant une prise. `timeStamp` = horodatage du message (base performance.now()) :
+   * la position est celle qui était entendue quand la touche a été jouée.
+   */
+  public recordMidiNote(trackId: string, pitch: number, velocity: number, timeStamp: number = performance.now()) {
+    const capture = this.midiCaptures.get(trackId);
+    if (!capture) return;
+    const time = this.getHeardPosition(timeStamp);
+    if (velocity > 0) capture.noteOn(pitch, velocity, time);
+    else capture.noteOff(pitch, time);
+  }
 
-    this.isPlaying = true;
-    this.pausedAt = startOffset;
-    this.nextScheduleTime = this.ctx.currentTime + 0.05; 
-    this.playbackStartTime = this.ctx.currentTime - startOffset; 
+  public recordMidiControl(trackId: string, event: MidiControlEvent, timeStamp: number = performance.now()) {
+    this.midiCaptures.get(trackId)?.control(event, this.getHeardPosition(timeStamp));
+  }
 
-    this.schedulerTimer = window.setInterval(() => {
-      this.scheduler(tracks);
-    }, this.LOOKAHEAD_MS);
+  private getHeardPosition(timeStamp: number): number {
+    if (!this.ctx) return 0;
+    const ctxTime = this.ctx.currentTime - Math.max(0, performance.now() - timeStamp) / 1000;
+    return this.transport.getPositionAt(ctxTime);
   }
 
-  public stopAll() {
-    this.isPlaying = false;
-    if (this.schedulerTimer) {
-      clearInterval(this.schedulerTimer);
-      this.schedulerTimer = null;
+  // Ne garde que [punchIn, punchOut[ ; le reste de la capture reste masqué dans le buffer
+  private clampToPunch(take: Clip): Clip | null {
+    if (!this.recPunch) return take;
+    const start = Math.max(take.start, this.recPunch.start);
+    const end = Math.min(take.start + take.duration, this.recPunch.end);
+    if (end - start < this.MIN_TAKE_SEC) return null;
+    return { ...take, start, duration: end - start, offset: take.offset + (start - take.start) };
+  }
+
+  // --- RECORDING LATENCY ---
+  public setRecordingOffset(seconds: number) { this.recordingOffset = seconds; }
+
+  // Aller-retour estimé : tampon du contexte + sortie matérielle + décalage manuel (entrée, pilote)
+  public getRecordingLatency() {
+    const base = this.ctx?.baseLatency || 0;
+    const output = this.ctx?.outputLatency || 0;
+    return { base, output, offset: this.recordingOffset, total: base + output + this.recordingOffset };
+  }
+
+  /**
+   * Calibration en loopback : une série de clics est jouée puis réenregistrée
+   * (sortie reliée à l'entrée, ou micro collé au haut-parleur).
+   * Le retard médian mesuré, moins les latences déjà connues du contexte, devient le décalage manuel.
+   * Retourne le nouveau décalage (secondes), ou null si les clics ne sont pas revenus.
+   */
+  public async calibrateLatency(): Promise<number | null> {
+    await this.init();
+    const ctx = this.ctx!;
+    if (ctx.state === 'suspended') await ctx.resume();
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+    });
+    const input = ctx.createMediaStreamSource(stream);
+    const capture = new AudioCapture(ctx, input);
+
+    try {
+      await capture.start();
+      const impulse = new AudioBuffer({ length: Math.round(ctx.sampleRate * 0.002), numberOfChannels: 1, sampleRate: ctx.sampleRate });
+      impulse.getChannelData(0).fill(0.9);
+      const first = ctx.currentTime + 0.3;
+      const clicks: number[] = [];
+      for (let i = 0; i < this.CALIBRATION_CLICKS; i++) {
+        const click = ctx.createBufferSource();
+        click.buffer = impulse;
+        click.connect(ctx.destination);
+        click.start(first + i * this.CALIBRATION_SPACING_SEC);
+        clicks.push(first + i * this.CALIBRATION_SPACING_SEC);
+      }
+      await new Promise(r => setTimeout(r, (0.3 + this.CALIBRATION_CLICKS * this.CALIBRATION_SPACING_SEC + 0.2) * 1000));
+
+      const result = await capture.stop();
+      if (!result) return null;
+      const data = result.buffer.getChannelData(0);
+      const rate = result.buffer.sampleRate;
+      const delays: number[] = [];
+
+      // Front de chaque clic dans la fenêtre qui le suit : premier échantillon à mi-hauteur du pic
+      clicks.forEach(time => {
+        const from = Math.max(0, Math.round((time - result.startTime) * rate));
+        const to = Math.min(data.length, from + Math.round(this.CALIBRATION_SPACING_SEC * 0.8 * rate));
+        let peak = 0;
+        for (let i = from; i < to; i++) peak = Math.max(peak, Math.abs(data[i]));
+        if (peak < 0.02) return;
+        for (let i = from; i < to; i++) {
+          if (Math.abs(data[i]) >= peak * 0.5) { delays.push((i - from) / rate); break; }
+        }
+      });
+      if (delays.length < Math.ceil(this.CALIBRATION_CLICKS / 2)) return null;
+
+      delays.sort((a, b) => a - b);
+      const measured = delays[Math.floor(delays.length / 2)];
+      const { base, output } = this.getRecordingLatency();
+      this.recordingOffset = measured - base - output;
+      return this.recordingOffset;
+    } finally {
+      input.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+    }
+  }
+
+  /**
+   * Découpe une capture en cycle : la première passe va du punch à loopEnd,
+   * les suivantes couvrent [loopStart, loopEnd[ chacune dans son propre buffer.
+   */
+  private splitLoopPasses(clip: Clip, buffer: AudioBuffer, captureStart: number): Clip[] {
+    const loop = this.recLoop;
+    const firstWrap = loop ? loop.end - captureStart : Infinity; // Position buffer du premier retour
+    if (!loop || buffer.duration <= firstWrap) return [clip];
+
+    const length = loop.end - loop.start;
+    const takes: Clip[] = [{ ...clip, id: `${clip.id}-0`, duration: loop.end - clip.start, buffer: this.sliceBuffer(buffer, 0, firstWrap) }];
+    for (let pass = 1, from = firstWrap; from < buffer.duration; pass++, from += length) {
+      const duration = Math.min(length, buffer.duration - from);
+      if (duration < this.MIN_TAKE_SEC) break;
+      takes.push({ ...clip, id: `${clip.id}-${pass}`, start: loop.start, duration, offset: 0, buffer: this.sliceBuffer(buffer, from, duration) });
+    }
+    return takes;
+  }
+
+  private sliceBuffer(buffer: AudioBuffer, from: number, duration: number): AudioBuffer {
+    const start = Math.floor(from * buffer.sampleRate);
+    const length = Math.max(1, Math.min(buffer.length - start, Math.round(duration * buffer.sampleRate)));
+    const slice = new AudioBuffer({ length, numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+      slice.copyToChannel(buffer.getChannelData(ch).subarray(start, start + length), ch);
+    }
+    return slice;
+  }
+
+
+  // Résout l'heure du contexte du premier échantillon joué (voir TransportManager.start)
+  public startPlayback(startOffset: number, tracks: Track[], at?: number): Promise<number | null> {
+    if (!this.ctx || !this.graph) return Promise.resolve(null);
+    if (this.transport.getIsPlaying()) this.stopAll();
+
+    this.playbackTracks = tracks;
+    this.loopPass = 0;
+    const pdcOffset = this.isPdcActive() ? GraphManager.getMaxLatency(GraphManager.computeLatencies(tracks)) : 0;
+    const started = this.transport.start(startOffset, pdcOffset, at);
+    this.refreshMonitoring();
+    tracks.forEach(track => track.clips.forEach(clip => {
+      this.getControlStateAt(clip, startOffset).forEach(event => this.sendTrackControl(track.id, event));
+    }));
+    return started;
+  }
+
+  /**
+   * Lance une prise à `time` avec le count-in des réglages du métronome :
+   * COUNT_IN = N mesures de clic puis départ du transport sur `time`,
+   * PRE_ROLL = lecture N mesures avant `time` (count-in si le projet commence là).
+   * Punch actif : la prise commence au punch-in, la lecture part du playhead s'il le précède,
+   * sinon d'un pré-roll d'au moins une mesure.
+   * La capture démarre tout de suite ; le début de prise est masqué par l'offset du clip.
+   */
+  public async recordFrom(time: number, trackIds: string[], tracks: Track[]): Promise<boolean> {
+    if (!this.ctx || !this.metronome) return false;
+    const { countInBars, countInMode } = this.metronomeSettings;
+    const punch = this.getActivePunch();
+    const target = punch ? punch.start : time;
+    const meter = getMeterAtBar(Math.floor(timeToBar(target, this.tempoMap)), this.tempoMap);
+    const bpm = tempoAt(target, this.tempoMap);
+    const leadIn = this.metronome.getCountInDuration(countInBars, bpm, meter);
+    const preRollFrom = (bars: number) => beatToTime(Math.max(0, timeToBeat(target, this.tempoMap) - bars * meter.numerator * 4 / meter.denominator), this.tempoMap);
+
+    let from = time;
+    let at = this.ctx.currentTime + 0.05;
+    if (punch) {
+      if (time >= punch.start) from = preRollFrom(Math.max(1, countInBars));
+    } else if (leadIn > 0 && countInMode === 'PRE_ROLL' && time > 0) {
+      from = preRollFrom(countInBars);
+    } else if (leadIn > 0) {
+      at += leadIn;
+      this.metronome.scheduleCountIn(at, countInBars, bpm, meter);
+    }
+
+    // Position projet au moment où la capture commence (négative pendant un count-in), estimée sur `at`
+    const captureStart = from - (at - this.ctx.currentTime);
+    const success = await this.startRecording(captureStart, trackIds, target);
+    if (!success) { this.metronome.stop(); return false; }
+    const startedAt = await this.startPlayback(from, tracks, at);
+    // Le transport a pu partir après `at` (ouverture des captures) : la prise suit son ancre réelle,
+    // décalée du PDC comme la position entendue (getPositionAt)
+    if (startedAt !== null && this.captures.size > 0) {
+      this.recStartTime = from - (startedAt + this.transport.getPdcOffset() - this.recAnchorCtxTime);
     }
+    return true;
+  }
+
+  public stopAll() {
+    if (this.midiCaptures.size > 0) this.recStopTime = this.transport.getCurrentTime();
+    this.transport.stop();
+    this.metronome?.stop();
     this.activeSources.forEach((src) => {
       try { src.source.stop(); src.source.disconnect(); src.gain.disconnect(); } catch (e) { }
     });
     this.activeSources.clear();
-    this.tracksDSP.forEach(dsp => {
+    this.graph?.tracksDSP.forEach(dsp => {
         if (dsp.synth) dsp.synth.releaseAll();
         if (dsp.sampler) dsp.sampler.stopAll();
         if (dsp.drumSampler) dsp.drumSampler.stop();
         if (dsp.melodicSampler) dsp.melodicSampler.stopAll();
+        // Pitch bend, modulation... ne restent pas bloqués après l'arrêt
+        dsp.synth?.resetControllers();
+        dsp.sampler?.resetControllers();
+        dsp.melodicSampler?.resetControllers();
     });
+    this.sustainedNotes.clear();
+    this.midiOutput.stop();
     this.activeMidiNotes.clear();
+    this.resetAutomationSchedule();
     this.stopScrubbing();
+    this.refreshMonitoring();
   }
 
   public seekTo(time: number, tracks: Track[], wasPlaying: boolean) {
     this.stopAll();
-    this.pausedAt = time;
+    this.transport.setPausedAt(time);
     tracks.forEach(track => this.applyAutomation(track, time));
     if (wasPlaying) {
       this.startPlayback(time, tracks);
     }
   }
 
-  public getCurrentTime(): number {
-    if (!this.ctx) return 0;
-    if (this.isPlaying) {
-      let time = this.ctx.currentTime - this.playbackStartTime;
-      
-      // Handle loop
-      if (this.isLoopActive && this.loopEnd > this.loopStart) {
-        const loopDuration = this.loopEnd - this.loopStart;
-        if (time >= this.loopEnd) {
-          // Calculate how far past the loop end we are and wrap
-          const overflow = time - this.loopStart;
-          const wrappedTime = this.loopStart + (overflow % loopDuration);
-          // Adjust playbackStartTime to reflect the loop
-          this.playbackStartTime = this.ctx.currentTime - wrappedTime;
-          return wrappedTime;
+  public getCurrentTime(): number { return this.transport.getCurrentTime(); }
+  
+  public getIsPlaying(): boolean { return this.transport.getIsPlaying(); }
+
+  /**
+   * SCRUBBING
+   * Joue un court grain fenêtré de chaque clip audible à la position glissée.
+   * `velocity` = secondes projet par seconde réelle : sa valeur absolue donne la vitesse
+   * de lecture (varispeed), son signe le sens (négatif = lecture inversée).
+   */
+  public scrub(tracks: Track[], time: number, velocity: number) {
+    if (!this.ctx || this.transport.getIsPlaying()) return;
+    this.transport.setPausedAt(Math.max(0, time));
+
+    const now = this.ctx.currentTime;
+    const speed = Math.abs(velocity);
+    if (speed < this.SCRUB_MIN_SPEED) return;
+    // Un nouveau grain toutes les demi-fenêtres : les grains se chevauchent sans s'empiler
+    if (now - this.lastScrubGrainAt < this.SCRUB_GRAIN_SEC / 2) return;
+    this.lastScrubGrainAt = now;
+
+    const rate = Math.max(this.SCRUB_MIN_RATE, Math.min(this.SCRUB_MAX_RATE, speed));
+    const isBackwards = velocity < 0;
+    const solo = GraphManager.computeSoloStates(tracks, this.soloMode);
+
+    tracks.forEach(track => {
+      if (track.isMuted || solo.get(track.id)?.isSilenced) return;
+      const dsp = this.getTrackDSP(track.id);
+      if (!dsp) return;
+
+      this.getAudioClips(track).forEach(clip => {
+        if (!clip.buffer || clip.isMuted) return;
+        if (time < clip.start || time >= clip.start + clip.duration) {
+          this.releaseScrubGrain(clip.id, now);
+          return;
         }
-      }
-      
-      return Math.max(0, time);
-    }
-    return this.pausedAt;
+        this.playScrubGrain(clip, dsp.input, time - clip.start, rate, isBackwards, now);
+      });
+    });
   }
-  
-  public getIsPlaying(): boolean { return this.isPlaying; }
 
-  // ... (Scrubbing) ...
-  public scrub(tracks: Track[], time: number, velocity: number) { /* ... */ }
-  public stopScrubbing() { /* ... */ }
+  public stopScrubbing() {
+    if (!this.ctx) { this.scrubbingSources.clear(); return; }
+    const now = this.ctx.currentTime;
+    Array.from(this.scrubbingSources.keys()).forEach(clipId => this.releaseScrubGrain(clipId, now));
+    this.lastScrubGrainAt = 0;
+  }
 
-  // ... (Scheduler & internal methods) ...
-  private scheduler(tracks: Track[]) {
-    if (!this.ctx) return;
-    // PDC Logic omitted
-    while (this.nextScheduleTime < this.ctx.currentTime + this.SCHEDULE_AHEAD_SEC) {
-      const scheduleUntil = this.nextScheduleTime + this.SCHEDULE_AHEAD_SEC;
-      const projectTimeStart = this.nextScheduleTime - this.playbackStartTime;
-      const projectTimeEnd = scheduleUntil - this.playbackStartTime;
-      
-      this.scheduleClips(tracks, projectTimeStart, projectTimeEnd, this.nextScheduleTime, 0, new Map());
-      this.scheduleMidi(tracks, projectTimeStart, projectTimeEnd, this.nextScheduleTime);
-      this.scheduleAutomation(tracks, projectTimeStart, projectTimeEnd, this.nextScheduleTime);
-      this.nextScheduleTime += this.SCHEDULE_AHEAD_SEC; 
+  private playScrubGrain(clip: Clip, destination: AudioNode, positionInClip: number, rate: number, isBackwards: boolean, now: number) {
+    if (!this.ctx || !clip.buffer) return;
+
+    // Sens de lecture dans le buffer source : clip inversé XOR scrub arrière
+    const readReversed = !!clip.isReversed !== isBackwards;
+    const buffer = readReversed ? this.getReversedBuffer(clip.buffer) : clip.buffer;
+    const forwardOffset = clip.isReversed
+      ? clip.offset + clip.duration - positionInClip
+      : clip.offset + positionInClip;
+    const bufferOffset = readReversed ? clip.buffer.duration - forwardOffset : forwardOffset;
+    if (bufferOffset < 0 || bufferOffset >= buffer.duration) return;
+
+    const source = this.ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rate;
+    const gain = this.ctx.createGain();
+    source.connect(gain);
+    gain.connect(destination);
+
+    // Fenêtre trapézoïdale : pas de clic en entrée ni en sortie de grain
+    const level = clip.gain ?? 1.0;
+    const fade = this.SCRUB_GRAIN_SEC * 0.3;
+    gain.gain.setValueAtTime(0, now);
+    gain.gain.linearRampToValueAtTime(level, now + fade);
+    gain.gain.setValueAtTime(level, now + this.SCRUB_GRAIN_SEC - fade);
+    gain.gain.linearRampToValueAtTime(0, now + this.SCRUB_GRAIN_SEC);
+
+    this.releaseScrubGrain(clip.id, now);
+    const voice: ScheduledSource = { source, gain, clipId: clip.id };
+    this.scrubbingSources.set(clip.id, voice);
+    source.onended = () => {
+      try { source.disconnect(); gain.disconnect(); } catch (e) { }
+      if (this.scrubbingSources.get(clip.id) === voice) this.scrubbingSources.delete(clip.id);
+    };
+    source.start(now, bufferOffset);
+    source.stop(now + this.SCRUB_GRAIN_SEC);
+  }
+
+  // Fondu court du grain en cours (remplacement ou relâchement)
+  private releaseScrubGrain(clipId: string, now: number) {
+    const voice = this.scrubbingSources.get(clipId);
+    if (!voice) return;
+    this.scrubbingSources.delete(clipId);
+    try {
+      voice.gain.gain.cancelScheduledValues(now);
+      voice.gain.gain.setValueAtTime(voice.gain.gain.value, now);
+      voice.gain.gain.linearRampToValueAtTime(0, now + this.SCRUB_RELEASE_SEC);
+      voice.source.stop(now + this.SCRUB_RELEASE_SEC);
+    } catch (e) { }
+  }
+
+  // Segment [start, end[ du transport : latences recalculées puis clips, notes et automation
+  private onTransportSchedule(projectTimeStart: number, projectTimeEnd: number, when: number, endsAtLoop: boolean) {
+    if (!this.graph) return;
+    const tracks = this.playbackTracks;
+    const latencies = this.isPdcActive() ? GraphManager.computeLatencies(tracks) : new Map<string, TrackLatency>();
+    const maxLatency = this.transport.getPdcOffset();
+    this.graph.syncTempo(tempoAt(projectTimeStart, this.tempoMap), when);
+
+    this.scheduleClips(tracks, projectTimeStart, projectTimeEnd, when, maxLatency, latencies, endsAtLoop);
+    this.scheduleMidi(tracks, projectTimeStart, projectTimeEnd, when, maxLatency, latencies, endsAtLoop);
+    // Project time went backwards (loop wrap): re-anchor every curve on the boundary,
+    // without cancelling what is still scheduled before it
+    if (projectTimeStart < this.automationWindowEnd - 0.001) this.primedAutomation.clear();
+    this.automationWindowEnd = projectTimeEnd;
+    this.scheduleAutomation(this.graph, tracks, projectTimeStart, projectTimeEnd, when, maxLatency, latencies, this.primedAutomation);
+    // The click lines up with what is heard at the master, after the PDC offset
+    this.metronome?.schedule(projectTimeStart, projectTimeEnd, when + maxLatency, this.tempoMap);
+    this.midiOutput.schedule(projectTimeStart, projectTimeEnd, when + maxLatency, this.tempoMap, endsAtLoop);
+    if (this.captures.size > 0) this.scheduleTapeMonitoring(projectTimeStart, projectTimeEnd, when + maxLatency);
+    if (endsAtLoop) this.loopPass++;
+  }
+
+  // Clips audio joués par la piste : son rendu gelé s'il existe, sinon ses clips
+  private getAudioClips(track: Track): Clip[] {
+    if (track.freeze) {
+      const { buffer, start } = track.freeze;
+      return [{ id: `freeze-${track.id}`, start, duration: buffer.duration, offset: 0, fadeIn: 0, fadeOut: 0, name: track.name, color: track.color, type: TrackType.AUDIO, buffer }];
     }
+    if (track.type !== TrackType.AUDIO && track.type !== TrackType.SAMPLER && track.type !== TrackType.BUS && track.type !== TrackType.SEND) return [];
+    return track.clips;
   }
 
-  private scheduleClips(tracks: Track[], projectWindowStart: number, projectWindowEnd: number, contextScheduleTime: number, maxLatency: number, latencies: Map<string, number>) {
+  private scheduleClips(tracks: Track[], projectWindowStart: number, projectWindowEnd: number, contextScheduleTime: number, maxLatency: number, latencies: Map<string, TrackLatency>, endsAtLoop: boolean = false) {
       // Existing logic for audio clips
       tracks.forEach(track => {
       if (track.isMuted) return; 
-      if (track.type !== TrackType.AUDIO && track.type !== TrackType.SAMPLER && track.type !== TrackType.BUS && track.type !== TrackType.SEND) return;
 
-      track.clips.forEach(clip => {
+      this.getAudioClips(track).forEach(clip => {
         if (!clip.buffer) return;
-        const sourceKey = `${clip.id}`; 
+        const sourceKey = `${clip.id}@${this.loopPass}`;
         if (this.activeSources.has(sourceKey)) return;
         
         const clipEnd = clip.start + clip.duration;
         const overlapsWindow = clip.start < projectWindowEnd && clipEnd > projectWindowStart;
         if (overlapsWindow) {
-           this.playClipSource(track.id, clip, contextScheduleTime, projectWindowStart);
+           // Latent tracks are started earlier so every path lines up at the master
+           const pdcShift = Math.max(0, maxLatency - (latencies.get(track.id)?.total || 0));
+           // Clips crossing loopEnd are cut on the boundary; the next pass restarts them from loopStart
+           this.playClipSource(track.id, clip, sourceKey, contextScheduleTime + pdcShift, projectWindowStart, endsAtLoop ? projectWindowEnd : undefined);
         }
       });
     });
   }
 
-  private scheduleMidi(tracks: Track[], projectWindowStart: number, projectWindowEnd: number, contextScheduleTime: number) {
+  private scheduleMidi(tracks: Track[], projectWindowStart: number, projectWindowEnd: number, contextScheduleTime: number, maxLatency: number, latencies: Map<string, TrackLatency>, endsAtLoop: boolean = false) {
       // Loop over tracks with MIDI clips (including DRUM_RACK)
       tracks.forEach(track => {
-        if (track.isMuted) return;
+        if (track.isMuted || track.freeze) return;
         if (track.type !== TrackType.MIDI && track.type !== TrackType.SAMPLER && track.type !== TrackType.DRUM_RACK) return;
+        const pdcShift = Math.max(0, maxLatency - (latencies.get(track.id)?.total || 0));
+        // Port externe : la pédale part telle quelle, le synthé gère lui-même le sustain
+        const isRouted = this.midiRoutes.has(track.id);
 
         track.clips.forEach(clip => {
            if (clip.type !== TrackType.MIDI || !clip.notes) return;
            
            // Determine clip overlap
-           const clipEnd = clip.start + clip.duration;
+           const clipEnd = this.getMidiTime(clip, clip.duration);
            if (clip.start >= projectWindowEnd || clipEnd <= projectWindowStart) return;
 
+           this.getControlEvents(clip, projectWindowStart, projectWindowEnd, isRouted).forEach(({ event, time }) => {
+               this.sendTrackControl(track.id, event, contextScheduleTime + (time - projectWindowStart) + pdcShift);
+           });
+
            // For each note in clip
            clip.notes.forEach(note => {
-               // Calculate note absolute start time
-               const noteAbsStart = clip.start + note.start;
-               const noteAbsEnd = noteAbsStart + note.duration;
+               // Calculate note absolute start time (tempo map aware)
+               const noteAbsStart = this.getMidiTime(clip, note.start);
+               const noteAbsEnd = isRouted ? this.getMidiTime(clip, note.start + note.duration) : this.getSustainedEnd(clip, note);
 
                // Schedule Note On
                if (noteAbsStart >= projectWindowStart && noteAbsStart < projectWindowEnd) {
                    // Time delta from scheduling window start
                    const timeOffset = noteAbsStart - projectWindowStart;
-                   const scheduleTime = contextScheduleTime + timeOffset;
+                   const scheduleTime = contextScheduleTime + timeOffset + pdcShift;
                    
                    this.triggerTrackAttack(track.id, note.pitch, note.velocity, scheduleTime);
                }
@@ -513,10 +1227,16 @@ export class AudioEngine {
                // Schedule Note Off
                if (noteAbsEnd >= projectWindowStart && noteAbsEnd < projectWindowEnd) {
                    const timeOffset = noteAbsEnd - projectWindowStart;
-                   const scheduleTime = contextScheduleTime + timeOffset;
+                   const scheduleTime = contextScheduleTime + timeOffset + pdcShift;
                    
                    this.triggerTrackRelease(track.id, note.pitch, scheduleTime);
                }
+
+               // Notes still held at loopEnd are released on the boundary
+               if (endsAtLoop && noteAbsStart < projectWindowEnd && noteAbsEnd >= projectWindowEnd) {
+                   const scheduleTime = contextScheduleTime + (projectWindowEnd - projectWindowStart) + pdcShift;
+                   this.triggerTrackRelease(track.id, note.pitch, scheduleTime);
+               }
            });
         });
       });
@@ -527,11 +1247,98 @@ export class AudioEngine {
   
   public triggerTrackAttack(trackId: string, pitch: number, velocity: number, time: number = 0) {
       if (!this.ctx) return;
-      const dsp = this.tracksDSP.get(trackId);
+      const route = this.midiRoutes.get(trackId);
+      if (route) { this.midiOutput.noteOn(route, pitch, velocity, Math.max(time, this.ctx.currentTime)); return; }
+      const dsp = this.getTrackDSP(trackId);
       if (!dsp) return;
       
-      const now = Math.max(time, this.ctx.currentTime);
+      this.attackInstrument(dsp, pitch, velocity, Math.max(time, this.ctx.currentTime));
+  }
+
+  public triggerTrackRelease(trackId: string, pitch: number, time: number = 0) {
+      if (!this.ctx) return;
+      const route = this.midiRoutes.get(trackId);
+      if (route) { this.midiOutput.noteOff(route, pitch, Math.max(time, this.ctx.currentTime)); return; }
+      const dsp = this.getTrackDSP(trackId);
+      if (!dsp) return;
+      const sustained = this.sustainedNotes.get(trackId);
+      if (sustained) { sustained.add(pitch); return; } // Relâchée avec la pédale
       
+      this.releaseInstrument(dsp, pitch, Math.max(time, this.ctx.currentTime));
+  }
+
+  /**
+   * Message de contrôle (live ou planifié) vers l'instrument de la piste.
+   * CC64 : tant que la pédale est enfoncée, les note-off sont retenus puis joués au relâchement.
+   */
+  public sendTrackControl(trackId: string, event: MidiControlEvent, time: number = 0) {
+      if (!this.ctx) return;
+      const route = this.midiRoutes.get(trackId);
+      if (route) { this.midiOutput.control(route, event, Math.max(time, this.ctx.currentTime)); return; }
+      const dsp = this.getTrackDSP(trackId);
+      if (!dsp) return;
+      const now = Math.max(time, this.ctx.currentTime);
+
+      if (event.type === 'CC' && event.cc === 64) {
+          const sustained = this.sustainedNotes.get(trackId);
+          if (event.value >= 64) {
+              if (!sustained) this.sustainedNotes.set(trackId, new Set());
+          } else if (sustained) {
+              this.sustainedNotes.delete(trackId);
+              sustained.forEach(pitch => this.releaseInstrument(dsp, pitch, now));
+          }
+          return;
+      }
+      this.controlInstrument(dsp, event, now);
+  }
+
+  private controlInstrument(dsp: TrackDSP, event: MidiControlEvent, now: number) {
+      if (dsp.synth) dsp.synth.applyControl(event, now);
+      else if (dsp.melodicSampler) dsp.melodicSampler.applyControl(event, now);
+      else if (dsp.sampler) dsp.sampler.applyControl(event, now);
+  }
+
+  private static isSustainLane(lane: MidiControllerLane) { return lane.type === 'CC' && lane.cc === 64; }
+
+  // Points de contrôle du clip dans [from, to[ (positions projet) ; le sustain est appliqué aux fins de notes
+  private getControlEvents(clip: Clip, from: number, to: number, withSustain: boolean = false): { event: MidiControlEvent, time: number }[] {
+      const events: { event: MidiControlEvent, time: number }[] = [];
+      (clip.controllers || []).forEach(lane => {
+          if (AudioEngine.isSustainLane(lane) && !withSustain) return;
+          lane.points.forEach(point => {
+              const time = this.getMidiTime(clip, point.time);
+              if (time >= from && time < to) events.push({ event: { type: lane.type, cc: lane.cc, value: point.value }, time });
+          });
+      });
+      return events;
+  }
+
+  // Dernière valeur de chaque contrôleur avant `time` (départ de lecture au milieu d'un clip)
+  private getControlStateAt(clip: Clip, time: number): MidiControlEvent[] {
+      if (clip.type !== TrackType.MIDI || clip.start > time || this.getMidiTime(clip, clip.duration) <= time) return [];
+      const offset = timeToMidiOffset(clip.start, time, this.tempoMap);
+      const events: MidiControlEvent[] = [];
+      (clip.controllers || []).forEach(lane => {
+          if (AudioEngine.isSustainLane(lane)) return;
+          const last = lane.points.filter(p => p.time <= offset).pop();
+          if (last) events.push({ type: lane.type, cc: lane.cc, value: last.value });
+      });
+      return events;
+  }
+
+  // Fin entendue d'une note : prolongée jusqu'au relâchement de la pédale de sustain du clip
+  private getSustainedEnd(clip: Clip, note: MidiNote): number {
+      const end = note.start + note.duration;
+      const pedal = clip.controllers?.find(AudioEngine.isSustainLane);
+      if (!pedal) return this.getMidiTime(clip, end);
+      const before = pedal.points.filter(p => p.time <= end).pop();
+      if (!before || before.value < 64) return this.getMidiTime(clip, end);
+      const release = pedal.points.find(p => p.time > end && p.value < 64);
+      return this.getMidiTime(clip, release ? release.time : clip.duration);
+  }
+
+  // Instrument dispatch shared by the live engine and the offline renderer
+  private attackInstrument(dsp: TrackDSP, pitch: number, velocity: number, now: number) {
       if (dsp.synth) {
           dsp.synth.triggerAttack(pitch, velocity, now);
       } else if (dsp.melodicSampler) {
@@ -547,13 +1354,7 @@ export class AudioEngine {
       }
   }
 
-  public triggerTrackRelease(trackId: string, pitch: number, time: number = 0) {
-      if (!this.ctx) return;
-      const dsp = this.tracksDSP.get(trackId);
-      if (!dsp) return;
-      
-      const now = Math.max(time, this.ctx.currentTime);
-      
+  private releaseInstrument(dsp: TrackDSP, pitch: number, now: number) {
       if (dsp.synth) {
           dsp.synth.triggerRelease(pitch, now);
       } else if (dsp.melodicSampler) {
@@ -570,7 +1371,7 @@ export class AudioEngine {
   }
   
   public loadSamplerBuffer(trackId: string, buffer: AudioBuffer) {
-      const dsp = this.tracksDSP.get(trackId);
+      const dsp = this.getTrackDSP(trackId);
       if (dsp) {
           if (dsp.sampler) dsp.sampler.loadBuffer(buffer);
           if (dsp.drumSampler) dsp.drumSampler.loadBuffer(buffer);
@@ -580,199 +1381,259 @@ export class AudioEngine {
 
   // --- DRUM RACK SPECIFIC METHODS ---
   public loadDrumRackSample(trackId: string, padId: number, buffer: AudioBuffer) {
-      const dsp = this.tracksDSP.get(trackId);
+      const dsp = this.getTrackDSP(trackId);
       if (dsp && dsp.drumRack) {
           dsp.drumRack.loadSample(padId, buffer);
       }
   }
   
-  public getDrumRackNode(trackId: string) { return this.tracksDSP.get(trackId)?.drumRack || null; }
-  public getDrumSamplerNode(trackId: string) { return this.tracksDSP.get(trackId)?.drumSampler || null; }
-  public getMelodicSamplerNode(trackId: string) { return this.tracksDSP.get(trackId)?.melodicSampler || null; }
-
-  private scheduleAutomation(tracks: Track[], start: number, end: number, when: number) { /* ... */ }
-  private playClipSource(trackId: string, clip: Clip, scheduleTime: number, projectTime: number) { /* ... */ }
-  private createPluginNode(plugin: PluginInstance, bpm: number): { input: GainNode; output: GainNode; node: any } | null {
-    if (!this.ctx) return null;
-    
-    let node: any = null;
-    
-    switch (plugin.type) {
-      case 'REVERB':
-        node = new ReverbNode(this.ctx);
-        break;
-      case 'DELAY':
-        node = new SyncDelayNode(this.ctx);
-        break;
-      case 'COMPRESSOR':
-        node = new CompressorNode(this.ctx);
-        break;
-      case 'AUTOTUNE':
-        node = new AutoTuneNode(this.ctx);
-        break;
-      case 'CHORUS':
-        node = new ChorusNode(this.ctx);
-        break;
-      case 'FLANGER':
-        node = new FlangerNode(this.ctx);
-        break;
-      case 'DOUBLER':
-        node = new VocalDoublerNode(this.ctx);
-        break;
-      case 'STEREOSPREADER':
-        node = new StereoSpreaderNode(this.ctx);
-        break;
-      case 'DEESSER':
-        node = new DeEsserNode(this.ctx);
-        break;
-      case 'DENOISER':
-        node = new DenoiserNode(this.ctx);
-        break;
-      case 'PROEQ12':
-        const eqDefaultParams = {
-          isEnabled: true,
-          masterGain: 1.0,
-          bands: Array.from({ length: 12 }, (_, i) => ({
-            id: i,
-            type: i === 0 ? 'highpass' : i === 11 ? 'lowpass' : 'peaking',
-            frequency: [80, 150, 300, 500, 1000, 2000, 4000, 6000, 8000, 10000, 12000, 18000][i],
-            gain: 0,
-            q: 1.0,
-            isEnabled: true,
-            isSolo: false
-          }))
-        };
-        const eqParams = plugin.params && plugin.params.bands ? plugin.params : eqDefaultParams;
-        node = new ProEQ12Node(this.ctx, eqParams as any);
-        break;
-      case 'VOCALSATURATOR':
-        node = new VocalSaturatorNode(this.ctx);
-        break;
-      case 'MASTERSYNC':
-        node = new MasterSyncNode(this.ctx);
-        break;
-      default:
-        // Plugin type not supported, create bypass
-        const bypassIn = this.ctx.createGain();
-        const bypassOut = this.ctx.createGain();
-        bypassIn.connect(bypassOut);
-        return { input: bypassIn, output: bypassOut, node: { updateParams: () => {} } };
+  public getDrumRackNode(trackId: string) { return this.getTrackDSP(trackId)?.drumRack || null; }
+  public getDrumSamplerNode(trackId: string) { return this.getTrackDSP(trackId)?.drumSampler || null; }
+  public getMelodicSamplerNode(trackId: string) { return this.getTrackDSP(trackId)?.melodicSampler || null; }
+
+  /**
+   * Planifie les courbes d'automation de la fenêtre [start, end[ sur les AudioParams.
+   * Le premier passage (lecture, seek, boucle) ancre la valeur au début de la fenêtre,
+   * ensuite chaque point devient une rampe linéaire depuis l'événement précédent.
+   * Sert au transport (graphe live) comme au rendu offline (graphe offline, `when` en temps de rendu).
+   * Le mode d'automation et les lanes en cours d'écriture ne concernent que la lecture live :
+   * un export lit toujours toutes les courbes.
+   */
+  private scheduleAutomation(graph: GraphManager, tracks: Track[], start: number, end: number, when: number, maxLatency: number, latencies: Map<string, TrackLatency>, primed: Set<string>) {
+    const isLive = graph === this.graph;
+    tracks.forEach(track => {
+      if (track.automationLanes.length === 0) return;
+      const latency = latencies.get(track.id);
+      const pdcShift = latency ? Math.max(0, maxLatency - latency.total) : 0;
+
+      track.automationLanes.forEach(lane => {
+        if (lane.points.length === 0 || (isLive && !this.isLaneRead(track.id, lane.parameterName))) return;
+        const param = this.resolveAutomationParam(graph, track, lane.parameterName);
+        if (!param) return;
+        const key = `${track.id}::${lane.parameterName}`;
+
+        // Fader/pan/sends sit after the inserts, so they also follow the chain latency
+        const isPostChain = !lane.parameterName.startsWith('plugin::');
+        const at = when + pdcShift + (isPostChain ? latency?.chain || 0 : 0);
+        const points = this.getSortedPoints(lane);
+
+        if (!primed.has(key)) {
+          primed.add(key);
+          const value = getAutomationValueAt(points, start)!;
+          param.cancelScheduledValues(at);
+          if (isLive) this.automatedParams.add(param);
+          // Offline : la valeur de départ tient dès t = 0, tête de compensation comprise
+          else param.setValueAtTime(value, 0);
+          param.setValueAtTime(value, at);
+        }
+
+        points.forEach(point => {
+          if (point.time > start && point.time <= end) {
+            param.linearRampToValueAtTime(point.value, at + (point.time - start));
+          }
+        });
+      });
+    });
+  }
+
+  private resetAutomationSchedule() {
+    const now = this.ctx ? this.ctx.currentTime : 0;
+    this.automatedParams.forEach(param => {
+      try {
+        const held = param.value;
+        param.cancelScheduledValues(now);
+        param.setValueAtTime(held, now);
+      } catch (e) { }
+    });
+    this.automatedParams.clear();
+    this.primedAutomation.clear();
+    this.automationWindowEnd = 0;
+  }
+
+  private getSortedPoints(lane: AutomationLane) {
+    const points = lane.points;
+    for (let i = 1; i < points.length; i++) {
+      if (points[i].time < points[i - 1].time) return [...points].sort((a, b) => a.time - b.time);
     }
-    
-    if (node && node.input && node.output) {
-      if (node.updateParams) {
-        node.updateParams({ ...plugin.params, isEnabled: plugin.isEnabled });
-      }
-      return { input: node.input, output: node.output, node };
+    return points;
+  }
+
+  /**
+   * Résout le nom d'une lane vers l'AudioParam piloté :
+   * 'volume' | 'pan' | 'send::<trackId>' | 'plugin::<pluginId>::<paramId>'
+   */
+  private resolveAutomationParam(graph: GraphManager | null, track: Track, parameterName: string): AudioParam | null {
+    // Mute wins over volume/send automation
+    if (track.isMuted && parameterName !== 'pan' && !parameterName.startsWith('plugin::')) return null;
+    if (parameterName.startsWith('send::')) {
+      const send = track.sends.find(s => s.id === parameterName.split('::')[1]);
+      if (!send || !send.isEnabled) return null;
     }
-    
-    return null;
+    return graph ? graph.getParam(track.id, parameterName) : null;
   }
 
-  // --- UPDATE TRACK ---
-  public updateTrack(track: Track, allTracks: Track[]) {
-    if (!this.ctx) return;
-    let dsp = this.tracksDSP.get(track.id);
-    
-    if (!dsp) {
-      dsp = {
-        input: this.ctx.createGain(),
-        output: this.ctx.createGain(),
-        gain: this.ctx.createGain(),
-        panner: this.ctx.createStereoPanner(),
-        analyzer: this.ctx.createAnalyser(),
-        pluginChain: new Map(),
-        sends: new Map(),
-        inputAnalyzer: this.ctx.createAnalyser()
-      };
-      
-      if (track.type === TrackType.MIDI) {
-        dsp.synth = new Synthesizer(this.ctx);
-        dsp.synth.output.connect(dsp.input);
-      }
-      if (track.type === TrackType.SAMPLER) {
-        dsp.sampler = new AudioSampler(this.ctx, this.currentBpm);
-        dsp.sampler.output.connect(dsp.input);
+  private isParamAutomated(track: Track, parameterName: string) {
+    return this.transport.getIsPlaying() && this.isLaneRead(track.id, parameterName) && track.automationLanes.some(l => l.parameterName === parameterName && l.points.length > 0);
+  }
+
+  // WRITE réécrit toutes les lanes : rien n'est relu pendant la passe
+  private isLaneRead(trackId: string, parameterName: string) {
+    if (this.automationMode === 'OFF' || this.automationMode === 'WRITE') return false;
+    return !this.overriddenAutomation.has(`${trackId}::${parameterName}`);
+  }
+
+  public setAutomationMode(mode: AutomationMode) {
+    this.automationMode = mode;
+    this.resetAutomationSchedule();
+  }
+
+  /**
+   * Suspend la lecture d'une lane pendant que l'utilisateur l'écrit.
+   * La valeur courante est gelée ; au relâchement la lane est ré-ancrée au prochain tick.
+   */
+  public setAutomationOverride(trackId: string, parameterName: string, active: boolean) {
+    const key = `${trackId}::${parameterName}`;
+    if (active) {
+      this.overriddenAutomation.add(key);
+      const param = this.graph?.getParam(trackId, parameterName);
+      if (param && this.ctx) {
+        const held = param.value;
+        param.cancelScheduledValues(this.ctx.currentTime);
+        param.setValueAtTime(held, this.ctx.currentTime);
       }
-      if (track.type === TrackType.DRUM_RACK) {
-        dsp.drumRack = new DrumRackNode(this.ctx);
-        dsp.drumRack.output.connect(dsp.input);
+    } else {
+      this.overriddenAutomation.delete(key);
+    }
+    this.primedAutomation.delete(key);
+  }
+  private playClipSource(trackId: string, clip: Clip, sourceKey: string, scheduleTime: number, projectTime: number, until?: number) {
+    if (!this.ctx) return;
+    const dsp = this.getTrackDSP(trackId);
+    if (!dsp) return;
+
+    const voice = this.createClipVoice(this.ctx, clip, dsp.input, scheduleTime, projectTime, until);
+    if (!voice) return;
+
+    this.activeSources.set(sourceKey, voice);
+    voice.source.onended = () => {
+      try { voice.source.disconnect(); voice.gain.disconnect(); } catch (e) { }
+      // Only release the slot if it was not re-used by a newer voice (seek / loop)
+      if (this.activeSources.get(sourceKey) === voice) this.activeSources.delete(sourceKey);
+    };
+  }
+
+  // Reversed copies are cached per source buffer so reversing is free after the first pass
+  private getReversedBuffer(buffer: AudioBuffer): AudioBuffer {
+    let reversed = this.reversedBuffers.get(buffer);
+    if (!reversed) {
+      reversed = new AudioBuffer({ length: buffer.length, numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+      for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+        const data = reversed.getChannelData(ch);
+        data.set(buffer.getChannelData(ch));
+        data.reverse();
       }
-      this.tracksDSP.set(track.id, dsp);
+      this.reversedBuffers.set(buffer, reversed);
     }
-    
-    if (track.type === TrackType.DRUM_RACK && dsp.drumRack && track.drumPads) {
-      dsp.drumRack.updatePadsState(track.drumPads);
+    return reversed;
+  }
+
+  /**
+   * Crée la source d'un clip audio dans n'importe quel contexte (live ou offline).
+   * `when` est l'heure du contexte qui correspond à `projectTime` : si la fenêtre
+   * commence au milieu du clip, la lecture démarre à la bonne position.
+   * `until` (temps projet) coupe la voix avant la fin du clip (borne de boucle).
+   */
+  private createClipVoice(ctx: BaseAudioContext, clip: Clip, destination: AudioNode, when: number, projectTime: number, until?: number): ScheduledSource | null {
+    if (!clip.buffer || clip.isMuted) return null;
+
+    const startInClip = Math.max(0, projectTime - clip.start);
+    const endInClip = until !== undefined ? Math.min(clip.duration, until - clip.start) : clip.duration;
+    const isSpliced = endInClip < clip.duration;
+    const remaining = endInClip - startInClip;
+    if (remaining <= 0) return null;
+
+    // Reversed clips read the mirrored region of the reversed buffer
+    const buffer = clip.isReversed ? this.getReversedBuffer(clip.buffer) : clip.buffer;
+    const bufferOffset = clip.isReversed
+      ? Math.max(0, buffer.duration - (clip.offset + clip.duration)) + startInClip
+      : clip.offset + startInClip;
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    const gain = ctx.createGain();
+    source.connect(gain);
+    gain.connect(destination);
+
+    const playAt = when + Math.max(0, clip.start - projectTime);
+    const level = clip.gain ?? 1.0;
+    const fadeIn = Math.max(0, clip.fadeIn || 0);
+    const fadeOut = Math.max(0, clip.fadeOut || 0);
+    const gainAt = (x: number) => level * Math.max(0, Math.min(1,
+      fadeIn > 0 ? x / fadeIn : 1,
+      fadeOut > 0 ? (clip.duration - x) / fadeOut : 1
+    ));
+
+    // Fade envelope expressed in clip-local time, shifted by where playback starts
+    gain.gain.setValueAtTime(gainAt(startInClip), playAt);
+    if (fadeIn > 0 && startInClip < fadeIn) {
+      gain.gain.linearRampToValueAtTime(gainAt(fadeIn), playAt + fadeIn - startInClip);
     }
-    
-    // Disconnect for rebuild
-    dsp.input.disconnect();
-    let head: AudioNode = dsp.input;
-    
-    // ===== PLUGIN CHAIN CREATION (THIS WAS MISSING!) =====
-    const currentPluginIds = new Set<string>();
-    
-    track.plugins.forEach(plugin => {
-      currentPluginIds.add(plugin.id);
-      let pEntry = dsp!.pluginChain.get(plugin.id);
-      
-      if (!pEntry) {
-        const instance = this.createPluginNode(plugin, this.currentBpm);
-        if (instance) {
-          pEntry = {
-            input: instance.input,
-            output: instance.output,
-            instance: instance.node
-          };
-          dsp!.pluginChain.set(plugin.id, pEntry);
-        }
-      } else if (pEntry.instance && pEntry.instance.updateParams) {
-        pEntry.instance.updateParams(plugin.params);
-      }
-      
-      if (pEntry && plugin.isEnabled) {
-        head.connect(pEntry.input);
-        head = pEntry.output;
-      }
-    });
-    
-    // Remove old plugins
-    dsp.pluginChain.forEach((val, id) => {
-      if (!currentPluginIds.has(id)) {
-        try {
-          val.input.disconnect();
-          val.output.disconnect();
-        } catch (e) {}
-        dsp!.pluginChain.delete(id);
-      }
-    });
-    // ===== END PLUGIN CHAIN =====
-    
-    // Continue routing
-    head.connect(dsp.gain);
-    dsp.gain.connect(dsp.panner);
-    dsp.panner.connect(dsp.analyzer);
-    dsp.analyzer.connect(dsp.output);
-  
-    const now = this.ctx.currentTime;
-    dsp.gain.gain.setTargetAtTime(track.isMuted ? 0 : track.volume, now, 0.015);
-    dsp.panner.pan.setTargetAtTime(track.pan, now, 0.015);
-    
-    dsp.output.disconnect();
-    let destNode: AudioNode = this.masterOutput!;
-    if (track.outputTrackId && track.outputTrackId !== 'master') {
-      const destDSP = this.tracksDSP.get(track.outputTrackId);
-      if (destDSP) destNode = destDSP.input;
+    if (fadeOut > 0 && endInClip > clip.duration - fadeOut) {
+      const fadeOutStart = clip.duration - fadeOut;
+      if (startInClip < fadeOutStart) gain.gain.setValueAtTime(gainAt(fadeOutStart), playAt + fadeOutStart - startInClip);
+      if (!isSpliced) gain.gain.linearRampToValueAtTime(0, playAt + remaining);
     }
-    dsp.output.connect(destNode);
+    if (isSpliced) {
+      // Cut on the loop boundary: follow the envelope, then a micro-fade so the splice never clicks
+      const splice = Math.min(this.LOOP_SPLICE_SEC, remaining);
+      gain.gain.linearRampToValueAtTime(gainAt(endInClip - splice), playAt + remaining - splice);
+      gain.gain.linearRampToValueAtTime(0, playAt + remaining);
+    }
+
+    source.start(playAt, bufferOffset, remaining);
+    return { source, gain, clipId: clip.id };
+  }
+
+  // --- UPDATE TRACK ---
+  public updateTrack(track: Track, allTracks: Track[]) {
+    if (!this.ctx || !this.graph) return;
+    if (track.midiOutput) this.midiRoutes.set(track.id, track.midiOutput);
+    else this.midiRoutes.delete(track.id);
+    const latency = this.isPdcActive() ? GraphManager.computeLatencies(allTracks).get(track.id) : undefined;
+    this.graph.updateTrack(track, allTracks, {
+      latency,
+      isAutomated: (parameterName) => this.isParamAutomated(track, parameterName)
+    });
+    this.syncExternalReturn(track);
+  }
+
+  // --- PLUGIN DELAY COMPENSATION ---
+  // PDC is bypassed in rec mode so monitoring stays at the lowest possible latency
+  private isPdcActive() { return this.isDelayCompEnabled && !this.isRecMode; }
+
+  public computeLatencies(tracks: Track[]): Map<string, TrackLatency> {
+    return GraphManager.computeLatencies(tracks);
   }
 
-  private applyAutomation(track: Track, time: number) { /* ... */ }
+  // Jumps every automated parameter to its curve value at `time` (seek / stop)
+  private applyAutomation(track: Track, time: number) {
+    if (!this.ctx) return;
+    const now = this.ctx.currentTime;
+    track.automationLanes.forEach(lane => {
+      if (lane.points.length === 0 || !this.isLaneRead(track.id, lane.parameterName)) return;
+      const param = this.resolveAutomationParam(this.graph, track, lane.parameterName);
+      if (!param) return;
+      param.cancelScheduledValues(now);
+      param.setTargetAtTime(getAutomationValueAt(this.getSortedPoints(lane), time)!, now, 0.005);
+    });
+  }
 
-  public getTrackPluginParameters(trackId: string): { pluginId: string, pluginName: string, params: PluginParameter[] }[] { return []; }
-  public getMasterAnalyzer() { return this.masterAnalyzer; }
-  public getTrackAnalyzer(trackId: string) { const dsp = this.tracksDSP.get(trackId); if (!dsp) return null; if (this.monitoringTrackId === trackId && dsp.inputAnalyzer) return dsp.inputAnalyzer; return dsp.analyzer; }
-  public getPluginNodeInstance(trackId: string, pluginId: string) { return this.tracksDSP.get(trackId)?.pluginChain.get(pluginId)?.instance || null; }
+  public getTrackPluginParameters(trackId: string): { pluginId: string, pluginName: string, params: PluginParameter[] }[] {
+    return this.graph ? this.graph.getTrackPluginParameters(trackId) : [];
+  }
+  public getMasterAnalyzer() { return this.graph?.masterAnalyzer || null; }
+  public getTrackAnalyzer(trackId: string) { const dsp = this.getTrackDSP(trackId); if (!dsp) return null; if (this.armedInputs.has(trackId) && dsp.inputAnalyzer) return dsp.inputAnalyzer; return dsp.analyzer; }
+  public getPluginNodeInstance(trackId: string, pluginId: string) { return this.graph?.getPluginNodeInstance(trackId, pluginId) || null; }
   public setRecMode(active: boolean) { this.isRecMode = active; }
   public getRMS(analyser: AnalyserNode | null): number {
     if (!analyser) return 0;
@@ -784,4 +1645,4 @@ export class AudioEngine {
   }
 }
 
-export const audioEngine = new AudioEngine();
\ No newline at end of file
+export const audioEngine = new AudioEngine();
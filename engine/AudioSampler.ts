@@ -1,3 +1,7 @@
+import { MidiControlEvent, SampleZone } from '../types';
+import { MidiChannelState } from './MidiChannelState';
+import { SampleZoneMap } from './SampleZoneMap';
+
 export interface SamplerADSR {
   attack: number;
   decay: number;
@@ -10,8 +14,9 @@ export interface SamplerADSR {
  * Handles sample playback, pitch shifting (re-sampling), and ADSR envelopes.
  */
 export class AudioSampler {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public output: GainNode;
+  public readonly channel: MidiChannelState;
   private buffer: AudioBuffer | null = null;
   
   // ADSR Params (seconds/gain)
@@ -25,22 +30,29 @@ export class AudioSampler {
   // Active Voices: Map<NoteID, { source, gain }>
   // NoteID is typical MidiPitch but handles polyphony by storing multiple instances if needed,
   // though typically we key by Pitch to allow re-triggering/stealing.
-  private activeVoices: Map<number, { source: AudioBufferSourceNode, gain: GainNode }> = new Map();
+  private activeVoices: Map<number, { source: AudioBufferSourceNode, gain: GainNode }[]> = new Map(); // Une voix par couche
+  private zoneMap = new SampleZoneMap();
   
   // Root key for the sample (C4 = 60)
   private rootKey: number = 60;
 
   // FIX: The constructor now accepts a BPM argument to match the call in AudioEngine.
   // FIX: Added bpm argument to constructor to match the call signature.
-  constructor(ctx: AudioContext, bpm: number) {
+  constructor(ctx: BaseAudioContext, bpm: number) {
     this.ctx = ctx;
     this.output = ctx.createGain();
+    this.channel = new MidiChannelState(ctx);
   }
 
   public loadBuffer(buffer: AudioBuffer) {
     this.buffer = buffer;
   }
 
+  // Mapping multi-échantillons : remplace le buffer unique tant qu'il a des zones
+  public setZones(zones: SampleZone[]) {
+    this.zoneMap.setZones(zones);
+  }
+
   public setADSR(params: Partial<SamplerADSR>) {
     this.adsr = { ...this.adsr, ...params };
   }
@@ -60,7 +72,11 @@ export class AudioSampler {
    * @param time AudioContext time to schedule start
    */
   public triggerAttack(pitch: number, velocity: number = 1.0, time: number = 0) {
-    if (!this.buffer) return;
+    // Layers: zones of the multisample map, or the single buffer pitched from rootKey
+    const layers = this.zoneMap.hasZones()
+      ? this.zoneMap.select(pitch, velocity).map(zone => ({ buffer: zone.buffer!, cents: SampleZoneMap.getCents(zone, pitch), gain: SampleZoneMap.getGain(zone) }))
+      : this.buffer ? [{ buffer: this.buffer, cents: (pitch - this.rootKey) * 100, gain: 1 }] : [];
+    if (layers.length === 0) return;
 
     // 1. Voice Stealing / Monophonic per key behavior
     // If key is already pressed, stop it (fast release) to retrigger
@@ -68,46 +84,52 @@ export class AudioSampler {
 
     const now = Math.max(time, this.ctx.currentTime);
     
-    // 2. Create Voice Graph
-    const source = this.ctx.createBufferSource();
-    source.buffer = this.buffer;
-    
-    // Pitch Calculation
-    // Rate = 2 ^ ((Note - Root) / 12)
-    const semitoneRatio = Math.pow(2, 1/12);
-    const semitoneDiff = pitch - this.rootKey;
-    const playbackRate = Math.pow(semitoneRatio, semitoneDiff);
-    source.playbackRate.value = playbackRate;
-
-    const env = this.ctx.createGain();
-    
-    // 3. ADSR Envelope
-    const { attack, decay, sustain } = this.adsr;
-    
-    // Initial silence
-    env.gain.setValueAtTime(0, now);
-    // Attack
-    env.gain.linearRampToValueAtTime(velocity, now + attack);
-    // Decay -> Sustain
-    env.gain.exponentialRampToValueAtTime(Math.max(0.001, velocity * sustain), now + attack + decay);
-
-    // 4. Connect
-    source.connect(env);
-    env.connect(this.output);
-
-    source.start(now);
+    const voices = layers.map(layer => {
+      // 2. Create Voice Graph
+      const source = this.ctx.createBufferSource();
+      source.buffer = layer.buffer;
+      
+      // Pitch Calculation
+      // Rate = 2 ^ (cents / 1200)
+      source.playbackRate.value = Math.pow(2, layer.cents / 1200);
+      source.detune.setValueAtTime(this.channel.bendCents, now);
+      this.channel.vibrato.connect(source.detune);
+
+      const env = this.ctx.createGain();
+      
+      // 3. ADSR Envelope
+      const { attack, decay, sustain } = this.adsr;
+      const peak = velocity * layer.gain;
+      
+      // Initial silence
+      env.gain.setValueAtTime(0, now);
+      // Attack
+      env.gain.linearRampToValueAtTime(peak, now + attack);
+      // Decay -> Sustain
+      env.gain.exponentialRampToValueAtTime(Math.max(0.001, peak * sustain), now + attack + decay);
+
+      // 4. Connect
+      source.connect(env);
+      env.connect(this.output);
+
+      source.start(now);
+      return { source, gain: env };
+    });
 
     // 5. Track Voice
-    this.activeVoices.set(pitch, { source, gain: env });
+    this.activeVoices.set(pitch, voices);
     
     // Auto-cleanup on end (if sample finishes before release)
-    source.onended = () => {
-        // Only cleanup if this is still the active voice for this pitch
-        const current = this.activeVoices.get(pitch);
-        if (current && current.source === source) {
-            this.activeVoices.delete(pitch);
-        }
-    };
+    voices.forEach(({ source }) => {
+      source.onended = () => {
+          try { this.channel.vibrato.disconnect(source.detune); } catch (e) {}
+          voices.splice(voices.findIndex(v => v.source === source), 1);
+          // Only cleanup if this is still the active voice for this pitch
+          if (voices.length === 0 && this.activeVoices.get(pitch) === voices) {
+              this.activeVoices.delete(pitch);
+          }
+      };
+    });
   }
 
   /**
@@ -116,40 +138,55 @@ export class AudioSampler {
    * @param time AudioContext time to schedule release
    */
   public triggerRelease(pitch: number, time: number = 0) {
-    const voice = this.activeVoices.get(pitch);
-    if (!voice) return;
+    const voices = this.activeVoices.get(pitch);
+    if (!voices) return;
 
     const now = Math.max(time, this.ctx.currentTime);
     const { release } = this.adsr;
 
-    // Cancel planned updates (sustain hold)
-    voice.gain.gain.cancelScheduledValues(now);
-    
-    // Current value check to avoid clicking
-    // (Web Audio automation handles interpolation from 'now', 
-    // but setValueAtTime is safer to anchor the ramp)
-    voice.gain.gain.setValueAtTime(voice.gain.gain.value, now);
-    
-    // Release Ramp
-    voice.gain.gain.exponentialRampToValueAtTime(0.0001, now + release);
-    
-    // Stop Source
-    voice.source.stop(now + release + 0.1); // Small buffer to ensure silence
+    voices.forEach(voice => {
+      // Cancel planned updates (sustain hold)
+      voice.gain.gain.cancelScheduledValues(now);
+      
+      // Current value check to avoid clicking
+      // (Web Audio automation handles interpolation from 'now', 
+      // but setValueAtTime is safer to anchor the ramp)
+      voice.gain.gain.setValueAtTime(voice.gain.gain.value, now);
+      
+      // Release Ramp
+      voice.gain.gain.exponentialRampToValueAtTime(0.0001, now + release);
+      
+      // Stop Source
+      voice.source.stop(now + release + 0.1); // Small buffer to ensure silence
+    });
 
     // Remove from active map immediately so new notes can take slot
     this.activeVoices.delete(pitch);
   }
 
+  // Pas de filtre : pitch bend, vibrato (CC1) et volume (CC7/CC11) seulement
+  public applyControl(event: MidiControlEvent, time: number = 0) {
+    const now = Math.max(time, this.ctx.currentTime);
+    this.channel.apply(event, now);
+    this.output.gain.setValueAtTime(this.channel.volume, now);
+    this.activeVoices.forEach(voices => voices.forEach(voice => voice.source.detune.setValueAtTime(this.channel.bendCents, now)));
+  }
+
+  public resetControllers() {
+    this.channel.reset();
+    this.output.gain.setValueAtTime(1, this.ctx.currentTime);
+  }
+
   public stopAll() {
     const now = this.ctx.currentTime;
-    this.activeVoices.forEach(voice => {
+    this.activeVoices.forEach(voices => voices.forEach(voice => {
         try {
             voice.gain.gain.cancelScheduledValues(now);
             voice.gain.gain.setValueAtTime(voice.gain.gain.value, now);
             voice.gain.gain.linearRampToValueAtTime(0, now + 0.05);
             voice.source.stop(now + 0.05);
         } catch(e) {}
-    });
+    }));
     this.activeVoices.clear();
   }
 }
\ No newline at end of file
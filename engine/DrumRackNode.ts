@@ -7,7 +7,7 @@ import { DrumPad } from '../types';
  * Triggered by MIDI notes 60 (Pad 1) to 89 (Pad 30).
  */
 export class DrumRackNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   
@@ -17,7 +17,7 @@ export class DrumRackNode {
   // Internal State (Vol/Pan/Mute) to apply on trigger
   private pads: Map<number, DrumPad> = new Map();
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     this.input = ctx.createGain(); // Aux Input (rarely used for DrumRack but good for chain)
     this.output = ctx.createGain();
@@ -39,6 +39,10 @@ export class DrumRackNode {
     this.buffers.set(padId, buffer);
   }
 
+  public getBuffers() {
+    return this.buffers;
+  }
+
   /**
    * Triggers a specific Pad by ID (1-30) or MIDI Note (60-89)
    */
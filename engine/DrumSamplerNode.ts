@@ -31,7 +31,7 @@ export interface DrumSamplerParams {
 }
 
 export class DrumSamplerNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode; // Dummy input for chain consistency
   public output: GainNode;
   
@@ -63,7 +63,7 @@ export class DrumSamplerNode {
     isEnabled: true
   };
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     this.input = ctx.createGain(); 
     this.output = ctx.createGain();
@@ -0,0 +1,551 @@
+import { Track, TrackType, PluginInstance, PluginParameter, SoloMode } from '../types';
+import { PLUGIN_REGISTRY, isInsertPlugin } from '../plugins/registry';
+import { Synthesizer } from './Synthesizer';
+import { AudioSampler } from './AudioSampler';
+import { DrumSamplerNode } from './DrumSamplerNode';
+import { MelodicSamplerNode } from './MelodicSamplerNode';
+import { DrumRackNode } from './DrumRackNode';
+import { getValidSendDestinations } from '../components/RoutingManager';
+
+/**
+ * GRAPH MANAGER
+ * Possède le graphe de noeuds : master, pistes, chaînes d'inserts, envois et PDC.
+ * Le même code construit le graphe live (AudioContext) et celui de l'export (OfflineAudioContext).
+ */
+
+export interface TrackDSP {
+  input: GainNode;
+  output: GainNode;
+  panner: StereoPannerNode;
+  gain: GainNode;
+  preFader: GainNode;       // Unity tap before the fader (pre-fader sends)
+  soloGate: GainNode;       // Solo in place: closes main output and sends together
+  aflTap: GainNode;         // After-fader listen: post-fader, PDC-compensated copy to the listen bus
+  analyzer: AnalyserNode;
+  inputAnalyzer?: AnalyserNode;
+  pluginChain: Map<string, { input: AudioNode; output: AudioNode; instance: any; name: string }>;
+  sends: Map<string, { gain: GainNode; delay: DelayNode }>;
+  pdcDelay: DelayNode;      // Compensates the main output path (PDC)
+  directMonitor: GainNode;  // Direct input monitoring: copy of the fader, joins the output after the PDC delay
+  directPanner: StereoPannerNode;
+  synth?: Synthesizer; // PolySynth for MIDI tracks
+  sampler?: AudioSampler; // Legacy/Chromatic Sampler
+  drumSampler?: DrumSamplerNode; // Pro Drum Sampler (Single)
+  melodicSampler?: MelodicSamplerNode; // New Pro Melodic Sampler
+  drumRack?: DrumRackNode; // 30-Pad Drum Rack
+}
+
+export interface TrackLatency {
+  chain: number;        // Enabled inserts of the track itself (s)
+  total: number;        // Worst path from the track input to the master (s)
+  outputDelay: number;  // Compensation added on the main output path (s)
+  sendDelays: Map<string, number>; // Compensation added on each send path (s)
+}
+
+export interface TrackSoloState {
+  isSilenced: boolean; // SIP : coupée par le solo d'une autre piste
+  isListened: boolean; // AFL : entendue sur le bus d'écoute
+}
+
+export interface TrackUpdateOptions {
+  latency?: TrackLatency;                       // Absent = pas de compensation
+  isAutomated?: (parameterName: string) => boolean; // Paramètres pilotés par l'automation
+}
+
+export class GraphManager {
+  public readonly ctx: BaseAudioContext;
+  public tracksDSP: Map<string, TrackDSP> = new Map();
+
+  // Master Section
+  public masterOutput: GainNode;
+  public masterLimiter: DynamicsCompressorNode; // SAFETY LIMITER
+  public masterAnalyzer: AnalyserNode | null = null;
+  public masterAnalyzerL: AnalyserNode | null = null;
+  public masterAnalyzerR: AnalyserNode | null = null;
+  private masterSplitter: ChannelSplitterNode | null = null;
+
+  // Solo: the mix gate closes the main mix while AFL listens to the soloed tracks alone
+  private mixGate: GainNode;
+  private aflBus: GainNode;
+  private soloMode: SoloMode = 'SIP';
+  private soloCache: { tracks: Track[]; mode: SoloMode; states: Map<string, TrackSoloState> } | null = null;
+
+  // Preview Channel (Browser/Store)
+  public previewGain: GainNode | null = null;
+  public previewAnalyzer: AnalyserNode | null = null;
+
+  public static readonly MAX_PDC_SEC = 1.0; // Upper bound of compensable plugin latency
+  private currentBpm: number = 120;
+
+  constructor(ctx: BaseAudioContext, options: { withMeters?: boolean } = {}) {
+    this.ctx = ctx;
+
+    // 1. Master Volume + 2. Limiter (Safety & Glue)
+    this.masterOutput = this.ctx.createGain();
+    this.masterLimiter = this.ctx.createDynamicsCompressor();
+    this.masterLimiter.threshold.value = -1.0;
+    this.masterLimiter.knee.value = 0.0;
+    this.masterLimiter.ratio.value = 20.0;
+    this.masterLimiter.attack.value = 0.005;
+    this.masterLimiter.release.value = 0.1;
+    this.mixGate = this.ctx.createGain();
+    this.aflBus = this.ctx.createGain();
+    this.masterOutput.connect(this.mixGate);
+    this.mixGate.connect(this.masterLimiter);
+    this.aflBus.connect(this.masterLimiter);
+
+    // Offline export: Gain -> Limiter -> Destination, sans analyseurs
+    if (!options.withMeters) {
+      this.masterLimiter.connect(this.ctx.destination);
+      return;
+    }
+
+    // 3. Analyzer (Visualizer)
+    this.masterAnalyzer = this.ctx.createAnalyser();
+    this.masterAnalyzer.fftSize = 2048;
+    this.masterAnalyzer.smoothingTimeConstant = 0.8;
+
+    // 4. Stereo Splitters for Meters
+    this.masterSplitter = this.ctx.createChannelSplitter(2);
+    this.masterAnalyzerL = this.ctx.createAnalyser();
+    this.masterAnalyzerR = this.ctx.createAnalyser();
+    this.masterAnalyzerL.fftSize = 1024;
+    this.masterAnalyzerR.fftSize = 1024;
+    this.masterAnalyzerL.smoothingTimeConstant = 0.5;
+    this.masterAnalyzerR.smoothingTimeConstant = 0.5;
+
+    // Routing Chain: MasterGain -> Limiter -> Analyzer -> Destination
+    this.masterLimiter.connect(this.masterAnalyzer);
+    this.masterAnalyzer.connect(this.ctx.destination);
+
+    // Side-chain for Stereo Meters
+    this.masterAnalyzer.connect(this.masterSplitter);
+    this.masterSplitter.connect(this.masterAnalyzerL, 0);
+    this.masterSplitter.connect(this.masterAnalyzerR, 1);
+
+    // Preview System
+    this.previewGain = this.ctx.createGain();
+    this.previewAnalyzer = this.ctx.createAnalyser();
+    this.previewAnalyzer.fftSize = 256;
+    this.previewGain.connect(this.previewAnalyzer);
+    this.previewAnalyzer.connect(this.ctx.destination);
+  }
+
+  public setBpm(bpm: number) { this.currentBpm = bpm; }
+  public getBpm() { return this.currentBpm; }
+
+  // Tempo courant de la carte, poussé vers les plugins synchronisés (delay)
+  public syncTempo(bpm: number, when: number) {
+    this.currentBpm = bpm;
+    this.tracksDSP.forEach(dsp => dsp.pluginChain.forEach(entry => {
+      if (entry.instance?.syncTempo) entry.instance.syncTempo(bpm, when);
+    }));
+  }
+
+  public getTrackDSP(trackId: string) { return this.tracksDSP.get(trackId); }
+
+  // Freeze render: the insert chain output goes straight to the destination, before fader and master
+  public routeChainToDestination(trackId: string) {
+    const dsp = this.tracksDSP.get(trackId);
+    if (!dsp) return;
+    dsp.soloGate.disconnect();
+    dsp.soloGate.connect(this.ctx.destination);
+  }
+
+  // Applied on the next updateTrack pass (the whole mix is rebuilt on every change)
+  public setSoloMode(mode: SoloMode) { this.soloMode = mode; }
+
+  // Every track of a pass shares the same array: states are computed once per pass
+  private getSoloStates(tracks: Track[]): Map<string, TrackSoloState> {
+    if (!this.soloCache || this.soloCache.tracks !== tracks || this.soloCache.mode !== this.soloMode) {
+      this.soloCache = { tracks, mode: this.soloMode, states: GraphManager.computeSoloStates(tracks, this.soloMode) };
+    }
+    return this.soloCache.states;
+  }
+
+  // --- TRACK DSP FACTORY ---
+  private createTrackDSP(track: Track): TrackDSP {
+    const dsp: TrackDSP = {
+      input: this.ctx.createGain(),
+      output: this.ctx.createGain(),
+      gain: this.ctx.createGain(),
+      preFader: this.ctx.createGain(),
+      soloGate: this.ctx.createGain(),
+      aflTap: this.ctx.createGain(),
+      panner: this.ctx.createStereoPanner(),
+      analyzer: this.ctx.createAnalyser(),
+      pluginChain: new Map(),
+      sends: new Map(),
+      pdcDelay: this.ctx.createDelay(GraphManager.MAX_PDC_SEC),
+      directMonitor: this.ctx.createGain(),
+      directPanner: this.ctx.createStereoPanner(),
+      inputAnalyzer: this.ctx.createAnalyser()
+    };
+    dsp.directMonitor.connect(dsp.directPanner);
+    dsp.directPanner.connect(dsp.output);
+
+    if (track.type === TrackType.MIDI) {
+      dsp.synth = new Synthesizer(this.ctx);
+      dsp.synth.output.connect(dsp.input);
+    }
+    if (track.type === TrackType.SAMPLER) {
+      dsp.sampler = new AudioSampler(this.ctx, this.currentBpm);
+      dsp.sampler.output.connect(dsp.input);
+    }
+    if (track.type === TrackType.DRUM_RACK) {
+      dsp.drumRack = new DrumRackNode(this.ctx);
+      dsp.drumRack.output.connect(dsp.input);
+    }
+    dsp.aflTap.gain.value = 0;
+    dsp.aflTap.connect(this.aflBus);
+    return dsp;
+  }
+
+  public getOrCreateTrackDSP(track: Track): TrackDSP {
+    let dsp = this.tracksDSP.get(track.id);
+    if (!dsp) {
+      dsp = this.createTrackDSP(track);
+      this.tracksDSP.set(track.id, dsp);
+    }
+    return dsp;
+  }
+
+  // Copies loaded samples and instrument settings from another graph (live -> export)
+  public copyInstrumentState(source: GraphManager, tracks: Track[]) {
+    tracks.forEach(track => {
+      const from = source.getTrackDSP(track.id);
+      const target = this.tracksDSP.get(track.id);
+      if (!target) return;
+
+      if (target.drumRack) {
+        if (track.drumPads) target.drumRack.updatePadsState(track.drumPads);
+        from?.drumRack?.getBuffers().forEach((buffer, padId) => target.drumRack!.loadSample(padId, buffer));
+      }
+      if (!from) return;
+
+      if (target.sampler && from.sampler) {
+        const buffer = from.sampler.getBuffer();
+        if (buffer) target.sampler.loadBuffer(buffer);
+        target.sampler.setADSR(from.sampler.getADSR());
+      }
+      if (from.melodicSampler) {
+        if (!target.melodicSampler) {
+          target.melodicSampler = new MelodicSamplerNode(this.ctx);
+          target.melodicSampler.output.connect(target.input);
+        }
+        target.melodicSampler.updateParams(from.melodicSampler.getParams());
+        const buffer = from.melodicSampler.getBuffer();
+        if (buffer) target.melodicSampler.loadBuffer(buffer);
+      }
+      if (from.drumSampler) {
+        target.drumSampler = new DrumSamplerNode(this.ctx);
+        target.drumSampler.output.connect(target.input);
+        target.drumSampler.updateParams(from.drumSampler.getParams());
+        const buffer = from.drumSampler.getBuffer();
+        if (buffer) target.drumSampler.loadBuffer(buffer);
+      }
+    });
+  }
+
+  // --- UPDATE TRACK ---
+  public updateTrack(track: Track, allTracks: Track[], options: TrackUpdateOptions = {}) {
+    const dsp = this.getOrCreateTrackDSP(track);
+    const isAutomated = options.isAutomated || (() => false);
+
+    if (track.type === TrackType.DRUM_RACK && dsp.drumRack && track.drumPads) {
+      dsp.drumRack.updatePadsState(track.drumPads);
+    }
+    // Le Melodic Sampler joue dès qu'il est inséré sur la piste ; les zones multi-échantillons vivent dans la piste
+    if (!dsp.melodicSampler && track.plugins.some(p => p.type === 'MELODIC_SAMPLER')) {
+      dsp.melodicSampler = new MelodicSamplerNode(this.ctx);
+      dsp.melodicSampler.output.connect(dsp.input);
+    }
+    dsp.melodicSampler?.setZones(track.sampleZones || []);
+    dsp.sampler?.setZones(track.sampleZones || []);
+
+    // Disconnect for rebuild
+    dsp.input.disconnect();
+    let head: AudioNode = dsp.input;
+
+    const currentPluginIds = new Set<string>();
+
+    track.plugins.forEach(plugin => {
+      currentPluginIds.add(plugin.id);
+      let pEntry = dsp.pluginChain.get(plugin.id);
+
+      if (!pEntry) {
+        const instance = this.createPluginNode(plugin, plugin.type === 'SYNTH' ? dsp.synth : undefined);
+        if (instance) {
+          pEntry = {
+            input: instance.input,
+            output: instance.output,
+            instance: instance.node,
+            name: plugin.name
+          };
+          dsp.pluginChain.set(plugin.id, pEntry);
+        }
+      } else if (pEntry.instance && pEntry.instance.updateParams) {
+        pEntry.instance.updateParams(plugin.params);
+      }
+      // Stored params carry the tempo at creation time: tempo-synced plugins follow the map instead
+      if (pEntry?.instance?.syncTempo) pEntry.instance.syncTempo(this.currentBpm, this.ctx.currentTime);
+
+      if (pEntry) {
+        // Drop links from the previous build so bypass/reorder never leaves stale paths
+        pEntry.output.disconnect();
+        // A frozen track plays its render: the inserts stay loaded but out of the graph
+        if (plugin.isEnabled && !track.freeze) {
+          head.connect(pEntry.input);
+          head = pEntry.output;
+        }
+      }
+    });
+
+    // Remove old plugins
+    dsp.pluginChain.forEach((val, id) => {
+      if (!currentPluginIds.has(id)) {
+        try {
+          val.input.disconnect();
+          val.output.disconnect();
+        } catch (e) {}
+        if (val.instance && val.instance.dispose) val.instance.dispose();
+        dsp.pluginChain.delete(id);
+      }
+    });
+
+    // Continue routing: Chain -> Solo Gate -> PreFader Tap -> Gain -> Panner -> Analyzer -> PDC Delay (AFL Tap) -> Output
+    dsp.soloGate.disconnect();
+    dsp.preFader.disconnect();
+    dsp.panner.disconnect();
+    head.connect(dsp.soloGate);
+    dsp.soloGate.connect(dsp.preFader);
+    dsp.preFader.connect(dsp.gain);
+    dsp.gain.connect(dsp.panner);
+    dsp.panner.connect(dsp.analyzer);
+    dsp.analyzer.connect(dsp.pdcDelay);
+    dsp.pdcDelay.connect(dsp.output);
+    // AFL is tapped after the PDC delay so listened tracks stay aligned with each other
+    dsp.pdcDelay.connect(dsp.aflTap);
+
+    dsp.pdcDelay.delayTime.setValueAtTime(options.latency?.outputDelay || 0, this.ctx.currentTime);
+    // Automated params are driven by the scheduler while playing
+    if (!isAutomated('volume') || track.isMuted) this.setParam(dsp.gain.gain, track.isMuted ? 0 : track.volume);
+    if (!isAutomated('pan')) this.setParam(dsp.panner.pan, track.pan);
+
+    const solo = this.getSoloStates(allTracks).get(track.id);
+    this.setParam(dsp.soloGate.gain, solo?.isSilenced ? 0 : 1);
+    this.setParam(dsp.aflTap.gain, solo?.isListened ? 1 : 0);
+    this.setParam(this.mixGate.gain, this.soloMode === 'AFL' && allTracks.some(t => t.isSolo) ? 0 : 1);
+
+    // Direct monitoring skips inserts and PDC, but still follows the track fader, pan, mute and solo
+    // (static values: no volume/pan automation, no sends)
+    this.setParam(dsp.directMonitor.gain, track.isMuted || solo?.isSilenced ? 0 : track.volume);
+    this.setParam(dsp.directPanner.pan, track.pan);
+
+    dsp.output.disconnect();
+    let destNode: AudioNode = this.masterOutput;
+    if (track.outputTrackId && track.outputTrackId !== 'master') {
+      const destTrack = allTracks.find(t => t.id === track.outputTrackId);
+      if (destTrack) destNode = this.getOrCreateTrackDSP(destTrack).input;
+    }
+    dsp.output.connect(destNode);
+
+    this.updateSends(track, dsp, allTracks, options.latency, isAutomated);
+  }
+
+  // --- AUX SENDS ---
+  private updateSends(track: Track, dsp: TrackDSP, allTracks: Track[], latency: TrackLatency | undefined, isAutomated: (parameterName: string) => boolean) {
+    const validIds = new Set(getValidSendDestinations(track.id, allTracks).map(t => t.id));
+    const activeIds = new Set<string>();
+
+    track.sends.forEach(send => {
+      const destTrack = allTracks.find(t => t.id === send.id);
+      if (!destTrack || !validIds.has(send.id)) return; // Feedback-loop protection
+      activeIds.add(send.id);
+
+      let sendEntry = dsp.sends.get(send.id);
+      if (!sendEntry) {
+        sendEntry = { gain: this.ctx.createGain(), delay: this.ctx.createDelay(GraphManager.MAX_PDC_SEC) };
+        sendEntry.gain.gain.value = 0;
+        sendEntry.gain.connect(sendEntry.delay);
+        dsp.sends.set(send.id, sendEntry);
+      }
+      sendEntry.delay.disconnect();
+      sendEntry.delay.connect(this.getOrCreateTrackDSP(destTrack).input);
+      (send.isPreFader ? dsp.preFader : dsp.panner).connect(sendEntry.gain);
+
+      const level = send.isEnabled && !track.isMuted ? send.level : 0;
+      if (level === 0 || !isAutomated(`send::${send.id}`)) this.setParam(sendEntry.gain.gain, level);
+      sendEntry.delay.delayTime.setValueAtTime(latency?.sendDelays.get(send.id) || 0, this.ctx.currentTime);
+    });
+
+    dsp.sends.forEach((sendEntry, id) => {
+      if (!activeIds.has(id)) {
+        sendEntry.delay.disconnect();
+        dsp.sends.delete(id);
+      }
+    });
+  }
+
+  // Live: lissage anti-zipper ; export: valeur exacte dès le premier échantillon
+  private setParam(param: AudioParam, value: number) {
+    if (this.ctx instanceof OfflineAudioContext) param.setValueAtTime(value, this.ctx.currentTime);
+    else param.setTargetAtTime(value, this.ctx.currentTime, 0.015);
+  }
+
+  // `instrument` : instrument de la piste piloté par ce plugin (éditeur, paramètres, lanes d'automation)
+  private createPluginNode(plugin: PluginInstance, instrument?: Synthesizer): { input: AudioNode; output: AudioNode; node: any } | null {
+    const entry = PLUGIN_REGISTRY[plugin.type];
+
+    // Instruments, VST and unknown types stay transparent in the insert chain
+    if (!entry || !isInsertPlugin(plugin.type)) {
+      const bypassIn = this.ctx.createGain();
+      const bypassOut = this.ctx.createGain();
+      bypassIn.connect(bypassOut);
+      if (instrument) instrument.updateParams(plugin.params);
+      return { input: bypassIn, output: bypassOut, node: instrument || { updateParams: () => {} } };
+    }
+
+    try {
+      const node = entry.factory(this.ctx, plugin.params, this.currentBpm);
+      if (node && node.input && node.output) {
+        if (node.updateParams) node.updateParams({ ...plugin.params, isEnabled: plugin.isEnabled });
+        return { input: node.input, output: node.output, node };
+      }
+    } catch (e) {
+      console.error(`[GraphManager] Failed to create plugin ${plugin.type}`, e);
+    }
+    return null;
+  }
+
+  // Resolves once every async plugin (AudioWorklet) of the graph is ready
+  public whenReady(): Promise<void> {
+    const pending: Promise<void>[] = [];
+    this.tracksDSP.forEach(dsp => dsp.pluginChain.forEach(entry => {
+      if (entry.instance?.ready) pending.push(entry.instance.ready);
+    }));
+    return Promise.all(pending).then(() => undefined);
+  }
+
+  /**
+   * AudioParam piloté par une lane :
+   * 'volume' | 'pan' | 'send::<trackId>' | 'plugin::<pluginId>::<paramId>'
+   */
+  public getParam(trackId: string, parameterName: string): AudioParam | null {
+    const dsp = this.tracksDSP.get(trackId);
+    if (!dsp) return null;
+
+    if (parameterName === 'volume') return dsp.gain.gain;
+    if (parameterName === 'pan') return dsp.panner.pan;
+
+    const [kind, id, paramId] = parameterName.split('::');
+    if (kind === 'send') return dsp.sends.get(id)?.gain.gain || null;
+    if (kind === 'plugin') {
+      const instance = dsp.pluginChain.get(id)?.instance;
+      return instance && instance.getAudioParam ? instance.getAudioParam(paramId) : null;
+    }
+    return null;
+  }
+
+  public getPluginNodeInstance(trackId: string, pluginId: string) { return this.tracksDSP.get(trackId)?.pluginChain.get(pluginId)?.instance || null; }
+
+  public getTrackPluginParameters(trackId: string): { pluginId: string, pluginName: string, params: PluginParameter[] }[] {
+    const dsp = this.tracksDSP.get(trackId);
+    if (!dsp) return [];
+    const result: { pluginId: string, pluginName: string, params: PluginParameter[] }[] = [];
+    dsp.pluginChain.forEach((entry, pluginId) => {
+      if (!entry.instance || !entry.instance.getParameters || !entry.instance.getAudioParam) return;
+      // Only parameters backed by a real AudioParam can be automated sample-accurately
+      const params = (entry.instance.getParameters() as PluginParameter[]).filter(p => entry.instance.getAudioParam(p.id));
+      if (params.length > 0) result.push({ pluginId, pluginName: entry.name, params });
+    });
+    return result;
+  }
+
+  // --- SOLO ---
+  /**
+   * Solo in place : une piste soloée garde tout ce qui la porte jusqu'au master.
+   * - En aval : bus de sortie et retours d'envoi actifs (solo implicite).
+   * - En amont : les pistes routées dans un bus soloé.
+   * Les pistes solo-safe ne sont jamais coupées. En AFL rien n'est coupé :
+   * seules les pistes soloées sont écoutées, post-fader, à la place du mix.
+   */
+  public static computeSoloStates(tracks: Track[], mode: SoloMode): Map<string, TrackSoloState> {
+    const result = new Map<string, TrackSoloState>();
+    const soloed = tracks.filter(t => t.isSolo);
+
+    if (soloed.length === 0 || mode === 'AFL') {
+      tracks.forEach(t => result.set(t.id, { isSilenced: false, isListened: t.isSolo }));
+      return result;
+    }
+
+    const audible = new Set<string>();
+    const addUpstream = (busId: string) => {
+      tracks.forEach(t => {
+        if (t.outputTrackId !== busId || audible.has(t.id)) return;
+        audible.add(t.id);
+        addUpstream(t.id);
+      });
+    };
+    soloed.forEach(t => { audible.add(t.id); addUpstream(t.id); });
+
+    // Downstream walk from every audible source (visited set guards against cyclic routes)
+    const queue = Array.from(audible);
+    while (queue.length > 0) {
+      const track = tracks.find(t => t.id === queue.shift());
+      if (!track) continue;
+      const targets = [track.outputTrackId, ...track.sends.filter(s => s.isEnabled).map(s => s.id)];
+      targets.forEach(id => {
+        if (!id || id === 'master' || audible.has(id)) return;
+        audible.add(id);
+        queue.push(id);
+      });
+    }
+
+    tracks.forEach(t => result.set(t.id, { isSilenced: !audible.has(t.id) && !t.isSoloSafe, isListened: false }));
+    return result;
+  }
+
+  // --- PLUGIN DELAY COMPENSATION ---
+  public static getMaxLatency(latencies: Map<string, TrackLatency>): number {
+    let max = 0;
+    latencies.forEach(l => { max = Math.max(max, l.total); });
+    return Math.min(max, GraphManager.MAX_PDC_SEC);
+  }
+
+  /**
+   * Latence de chaque piste jusqu'au master (bus et envois compris).
+   * Le chemin le plus lent fixe `total` ; les chemins plus courts reçoivent
+   * un délai de compensation (sortie principale ou envoi).
+   */
+  public static computeLatencies(tracks: Track[]): Map<string, TrackLatency> {
+    const result = new Map<string, TrackLatency>();
+    const visiting = new Set<string>();
+
+    const resolve = (trackId: string): number => {
+      if (!trackId || trackId === 'master') return 0;
+      const cached = result.get(trackId);
+      if (cached) return cached.total;
+      const track = tracks.find(t => t.id === trackId);
+      if (!track || visiting.has(trackId)) return 0; // Unknown or cyclic route
+      visiting.add(trackId);
+
+      const chain = track.freeze ? 0 : track.plugins.reduce((sum, p) => sum + (p.isEnabled ? Math.max(0, p.latency || 0) : 0), 0);
+      const outputPath = resolve(track.outputTrackId);
+      const sendPaths = new Map<string, number>();
+      track.sends.forEach(send => { if (send.isEnabled) sendPaths.set(send.id, resolve(send.id)); });
+
+      const downstream = Math.max(outputPath, ...Array.from(sendPaths.values()));
+      const sendDelays = new Map<string, number>();
+      sendPaths.forEach((path, id) => sendDelays.set(id, Math.min(GraphManager.MAX_PDC_SEC, downstream - path)));
+
+      visiting.delete(trackId);
+      const latency: TrackLatency = { chain, total: chain + downstream, outputDelay: Math.min(GraphManager.MAX_PDC_SEC, downstream - outputPath), sendDelays };
+      result.set(trackId, latency);
+      return latency.total;
+    };
+
+    tracks.forEach(t => resolve(t.id));
+    return result;
+  }
+}
@@ -1,4 +1,8 @@
 
+import { MidiControlEvent, SampleZone } from '../types';
+import { MidiChannelState } from './MidiChannelState';
+import { SampleZoneMap } from './SampleZoneMap';
+
 export interface MelodicSamplerParams {
   // Source
   rootKey: number;        // MIDI Note (0-127)
@@ -33,6 +37,14 @@ export interface MelodicSamplerParams {
   isEnabled: boolean;
 }
 
+// Échantillon joué par une voix : transposition en cents depuis sa hauteur d'origine
+interface SampleLayer {
+  buffer: AudioBuffer;
+  cents: number;
+  gain: number;
+  loop: { start: number, end: number } | null; // s
+}
+
 /**
  * Single Voice Logic
  * Handles one note instance with its own filter and envelope
@@ -42,8 +54,9 @@ class Voice {
   filter: BiquadFilterNode;
   env: GainNode;
   panner: StereoPannerNode; // Per voice panning if needed, but usually global
+  velocity: number = 0;
   
-  constructor(ctx: AudioContext, destination: AudioNode) {
+  constructor(ctx: BaseAudioContext, destination: AudioNode) {
     this.source = ctx.createBufferSource();
     this.filter = ctx.createBiquadFilter();
     this.env = ctx.createGain();
@@ -70,9 +83,10 @@ class Voice {
 }
 
 export class MelodicSamplerNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode; 
   public output: GainNode;
+  public readonly channel: MidiChannelState;
   
   // FX Chain
   private saturator: WaveShaperNode;
@@ -84,7 +98,8 @@ export class MelodicSamplerNode {
   private masterGain: GainNode;
   
   private buffer: AudioBuffer | null = null;
-  private activeVoices: Map<number, Voice> = new Map();
+  private activeVoices: Map<number, Voice[]> = new Map(); // Key: pitch, une voix par couche
+  private zoneMap = new SampleZoneMap();
   private lastNoteFreq: number | null = null; // For Glide
   
   // Global LFO
@@ -115,7 +130,7 @@ export class MelodicSamplerNode {
     isEnabled: true
   };
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     this.input = ctx.createGain();
     this.output = ctx.createGain();
@@ -150,6 +165,8 @@ export class MelodicSamplerNode {
     this.lfoGain = ctx.createGain();
     this.lfo.connect(this.lfoGain);
     this.lfo.start();
+
+    this.channel = new MidiChannelState(ctx);
   }
 
   private makeDistortionCurve(amount: number) {
@@ -183,6 +200,11 @@ export class MelodicSamplerNode {
     this.buffer = buffer;
   }
 
+  // Mapping multi-échantillons de la piste : remplace le buffer unique tant qu'il a des zones
+  public setZones(zones: SampleZone[]) {
+    this.zoneMap.setZones(zones);
+  }
+
   public updateParams(p: Partial<MelodicSamplerParams>) {
     this.params = { ...this.params, ...p };
     
@@ -207,49 +229,80 @@ export class MelodicSamplerNode {
   public getBuffer() { return this.buffer; }
 
   public triggerAttack(pitch: number, velocity: number, time: number) {
-     if (!this.buffer || !this.params.isEnabled) return;
+     if (!this.params.isEnabled) return;
      
      const now = Math.max(time, this.ctx.currentTime);
+     // Une nouvelle frappe de la même touche remplace la précédente
+     this.triggerRelease(pitch, now);
+
+     const layers = this.getLayers(pitch, velocity);
+     if (layers.length === 0) return;
+
+     // Fine Tune
+     const targetFreq = 440 * Math.pow(2, (pitch - 69) / 12);
+     const finalFreq = targetFreq * Math.pow(2, this.params.fineTune / 1200);
      
+     // Portamento (Glide) : départ à la hauteur de la note précédente
+     const glideFrom = (this.lastNoteFreq && this.params.glide > 0) ? this.lastNoteFreq / finalFreq : 1;
+     this.lastNoteFreq = finalFreq;
+
+     // LFO Modulation (Connect Global LFO to the new note)
+     if (this.params.lfoAmount > 0) this.lfoGain.disconnect();
+
+     this.activeVoices.set(pitch, layers.map(layer => this.startVoice(layer, velocity, glideFrom, now)));
+  }
+
+  /**
+   * Échantillons d'une note : zones du mapping multi-échantillons,
+   * sinon le buffer unique étiré depuis rootKey.
+   */
+  private getLayers(pitch: number, velocity: number): SampleLayer[] {
+     if (this.zoneMap.hasZones()) {
+         return this.zoneMap.select(pitch, velocity).map(zone => ({
+             buffer: zone.buffer!,
+             cents: SampleZoneMap.getCents(zone, pitch),
+             gain: SampleZoneMap.getGain(zone),
+             loop: zone.loopEnd ? { start: zone.loopStart || 0, end: zone.loopEnd } : null
+         }));
+     }
+     if (!this.buffer) return [];
+     return [{
+         buffer: this.buffer,
+         cents: (pitch - this.params.rootKey) * 100,
+         gain: 1,
+         loop: this.params.loop ? { start: this.params.loopStart * this.buffer.duration, end: this.params.loopEnd * this.buffer.duration } : null
+     }];
+  }
+
+  private startVoice(layer: SampleLayer, velocity: number, glideFrom: number, now: number): Voice {
      // Create Voice
      const voice = new Voice(this.ctx, this.input);
-     voice.source.buffer = this.buffer;
-     voice.source.loop = this.params.loop;
+     voice.source.buffer = layer.buffer;
+     voice.source.loop = !!layer.loop;
      
-     if (this.params.loop) {
-         voice.source.loopStart = this.params.loopStart * this.buffer.duration;
-         voice.source.loopEnd = this.params.loopEnd * this.buffer.duration;
+     if (layer.loop) {
+         voice.source.loopStart = layer.loop.start;
+         voice.source.loopEnd = layer.loop.end;
      }
 
      // Pitch Logic
-     const rootFreq = 440 * Math.pow(2, (this.params.rootKey - 69) / 12);
-     const targetFreq = 440 * Math.pow(2, (pitch - 69) / 12);
+     const targetPlaybackRate = Math.pow(2, (layer.cents + this.params.fineTune) / 1200);
      
-     // Fine Tune
-     const detuneFactor = Math.pow(2, this.params.fineTune / 1200);
-     const finalFreq = targetFreq * detuneFactor;
-     
-     // Portamento (Glide)
-     const startFreq = (this.lastNoteFreq && this.params.glide > 0) ? this.lastNoteFreq : finalFreq;
-     const basePlaybackRate = startFreq / rootFreq; // Assuming sample is at rootKey
-     const targetPlaybackRate = finalFreq / rootFreq;
-     
-     voice.source.playbackRate.setValueAtTime(basePlaybackRate, now);
-     if (this.params.glide > 0 && this.lastNoteFreq) {
+     voice.source.playbackRate.setValueAtTime(targetPlaybackRate * glideFrom, now);
+     voice.source.detune.setValueAtTime(this.channel.bendCents, now);
+     this.channel.vibrato.connect(voice.source.detune);
+     voice.source.onended = () => { try { this.channel.vibrato.disconnect(voice.source.detune); } catch (e) {} };
+     if (glideFrom !== 1) {
          voice.source.playbackRate.linearRampToValueAtTime(targetPlaybackRate, now + this.params.glide);
      }
-     this.lastNoteFreq = finalFreq;
 
      // Filter Logic
      // Velocity opens filter
-     const cutoff = Math.min(20000, Math.max(20, this.params.filterCutoff + (velocity * this.params.velocityToFilter * 5000)));
-     voice.filter.frequency.setValueAtTime(cutoff, now);
+     voice.velocity = velocity;
+     voice.filter.frequency.setValueAtTime(this.getCutoff(velocity), now);
      voice.filter.Q.value = this.params.filterRes;
 
-     // LFO Modulation (Connect Global LFO to Voice Parameter)
      if (this.params.lfoAmount > 0) {
-         this.lfoGain.gain.setValueAtTime(this.params.lfoAmount * 100, now); // Scale
-         this.lfoGain.disconnect();
          if (this.params.lfoDest === 'PITCH') {
              this.lfoGain.connect(voice.source.detune);
              this.lfoGain.gain.value = this.params.lfoAmount * 100; // Cents
@@ -264,34 +317,57 @@ export class MelodicSamplerNode {
 
      // ADSR Envelope
      const { attack, decay, sustain } = this.params;
+     const peak = velocity * layer.gain;
      voice.env.gain.cancelScheduledValues(now);
      voice.env.gain.setValueAtTime(0, now);
-     voice.env.gain.linearRampToValueAtTime(velocity, now + attack);
-     voice.env.gain.exponentialRampToValueAtTime(Math.max(0.001, velocity * sustain), now + attack + decay);
+     voice.env.gain.linearRampToValueAtTime(peak, now + attack);
+     voice.env.gain.exponentialRampToValueAtTime(Math.max(0.001, peak * sustain), now + attack + decay);
      
      voice.source.start(now);
-     
-     // Store voice
-     this.activeVoices.set(pitch, voice);
+     return voice;
   }
 
   public triggerRelease(pitch: number, time: number) {
-      const voice = this.activeVoices.get(pitch);
-      if (voice) {
+      const voices = this.activeVoices.get(pitch);
+      if (voices) {
           const now = Math.max(time, this.ctx.currentTime);
-          // Release phase
-          voice.env.gain.cancelScheduledValues(now);
-          voice.env.gain.setValueAtTime(voice.env.gain.value, now);
-          voice.env.gain.exponentialRampToValueAtTime(0.0001, now + this.params.release);
-          
-          voice.stop(now + this.params.release + 0.1);
+          voices.forEach(voice => {
+              // Release phase
+              voice.env.gain.cancelScheduledValues(now);
+              voice.env.gain.setValueAtTime(voice.env.gain.value, now);
+              voice.env.gain.exponentialRampToValueAtTime(0.0001, now + this.params.release);
+              
+              voice.stop(now + this.params.release + 0.1);
+          });
           this.activeVoices.delete(pitch);
       }
   }
 
+  // Pitch bend, vibrato (CC1), volume (CC7/CC11), brillance (CC74, pression)
+  public applyControl(event: MidiControlEvent, time: number = 0) {
+      const now = Math.max(time, this.ctx.currentTime);
+      this.channel.apply(event, now);
+      this.masterGain.gain.setValueAtTime(this.channel.volume, now);
+      this.activeVoices.forEach(voices => voices.forEach(voice => {
+          voice.source.detune.setValueAtTime(this.channel.bendCents, now);
+          voice.filter.frequency.setValueAtTime(this.getCutoff(voice.velocity), now);
+      }));
+  }
+
+  public resetControllers() {
+      this.channel.reset();
+      this.masterGain.gain.setValueAtTime(1, this.ctx.currentTime);
+  }
+
+  // Velocity opens filter, CC74 / pression en plus
+  private getCutoff(velocity: number) {
+      const cutoff = (this.params.filterCutoff + velocity * this.params.velocityToFilter * 5000) * this.channel.brightness;
+      return Math.min(20000, Math.max(20, cutoff));
+  }
+
   public stopAll() {
       const now = this.ctx.currentTime;
-      this.activeVoices.forEach(v => v.stop(now));
+      this.activeVoices.forEach(voices => voices.forEach(v => v.stop(now)));
       this.activeVoices.clear();
   }
 }
@@ -0,0 +1,117 @@
+import { MetronomeSettings, MetronomeSound, TempoMap, MeterMarker } from '../types';
+import { timeToBar, barToBeat, beatToTime, getMeterAtBar } from '../utils/helpers';
+
+/**
+ * METRONOME
+ * Clic planifié fenêtre par fenêtre depuis le transport, et count-in avant les prises.
+ * Branché directement sur la destination : jamais dans le master, les meters ni l'export.
+ */
+
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+  isEnabled: false,
+  level: 0.6,
+  sound: 'CLICK',
+  accentDownbeat: true,
+  output: 'STEREO',
+  countInBars: 1,
+  countInMode: 'COUNT_IN'
+};
+
+const SOUNDS: Record<MetronomeSound, { type: OscillatorType; freq: number; accentFreq: number; decay: number }> = {
+  CLICK: { type: 'square', freq: 1500, accentFreq: 2500, decay: 0.015 },
+  WOOD: { type: 'triangle', freq: 800, accentFreq: 1200, decay: 0.04 },
+  BEEP: { type: 'sine', freq: 880, accentFreq: 1760, decay: 0.08 }
+};
+
+export class Metronome {
+  private ctx: AudioContext;
+  private output: GainNode;
+  private panner: StereoPannerNode;
+  private settings: MetronomeSettings = DEFAULT_METRONOME_SETTINGS;
+  private voices: Set<OscillatorNode> = new Set(); // Clics planifiés pas encore joués
+
+  private ACCENT_GAIN = 1.0;
+  private BEAT_GAIN = 0.6;
+
+  constructor(ctx: AudioContext) {
+    this.ctx = ctx;
+    this.output = ctx.createGain();
+    this.panner = ctx.createStereoPanner();
+    this.output.connect(this.panner);
+    this.panner.connect(ctx.destination);
+    this.setSettings(this.settings);
+  }
+
+  public setSettings(settings: MetronomeSettings) {
+    this.settings = settings;
+    const now = this.ctx.currentTime;
+    this.output.gain.setTargetAtTime(settings.level, now, 0.015);
+    // Un seul côté : le clic reste dans une oreille du casque
+    this.panner.pan.setValueAtTime(settings.output === 'LEFT' ? -1 : settings.output === 'RIGHT' ? 1 : 0, now);
+  }
+
+  public getSettings(): MetronomeSettings { return this.settings; }
+
+  // Stop / count-in annulé : les clics déjà planifiés sont coupés
+  public stop() {
+    this.voices.forEach(osc => { try { osc.stop(); } catch (e) {} });
+    this.voices.clear();
+  }
+
+  /**
+   * Clics de la fenêtre projet [projectStart, projectEnd[ ; `when` = heure du contexte de projectStart.
+   * Une pulsation par temps de la mesure (croche en 6/8), accent sur le premier temps.
+   */
+  public schedule(projectStart: number, projectEnd: number, when: number, tempoMap: TempoMap) {
+    if (!this.settings.isEnabled) return;
+    const firstBar = Math.max(0, Math.floor(timeToBar(projectStart, tempoMap)));
+    const lastBar = Math.floor(timeToBar(projectEnd, tempoMap));
+
+    for (let bar = firstBar; bar <= lastBar; bar++) {
+      const meter = getMeterAtBar(bar, tempoMap);
+      const barBeat = barToBeat(bar, tempoMap);
+      const step = 4 / meter.denominator; // En noires
+      for (let i = 0; i < meter.numerator; i++) {
+        const time = beatToTime(barBeat + i * step, tempoMap);
+        if (time >= projectStart && time < projectEnd) this.click(when + time - projectStart, i === 0);
+      }
+    }
+  }
+
+  /**
+   * Count-in à tempo constant : `bars` mesures dont la dernière pulsation précède `endAt`.
+   * Joué même si le clic de lecture est coupé.
+   */
+  public scheduleCountIn(endAt: number, bars: number, bpm: number, meter: MeterMarker) {
+    const pulse = (60 / bpm) * (4 / meter.denominator);
+    const pulses = bars * meter.numerator;
+    for (let i = 0; i < pulses; i++) {
+      this.click(endAt - (pulses - i) * pulse, i % meter.numerator === 0);
+    }
+  }
+
+  public getCountInDuration(bars: number, bpm: number, meter: MeterMarker): number {
+    return bars * meter.numerator * (60 / bpm) * (4 / meter.denominator);
+  }
+
+  private click(time: number, isDownbeat: boolean) {
+    if (time < this.ctx.currentTime) return;
+    const sound = SOUNDS[this.settings.sound] || SOUNDS.CLICK;
+    const isAccent = isDownbeat && this.settings.accentDownbeat;
+
+    const osc = this.ctx.createOscillator();
+    const env = this.ctx.createGain();
+    osc.type = sound.type;
+    osc.frequency.value = isAccent ? sound.accentFreq : sound.freq;
+    osc.connect(env);
+    env.connect(this.output);
+
+    env.gain.setValueAtTime(0, time);
+    env.gain.linearRampToValueAtTime(isAccent ? this.ACCENT_GAIN : this.BEAT_GAIN, time + 0.001);
+    env.gain.exponentialRampToValueAtTime(0.0001, time + sound.decay * 4);
+    osc.start(time);
+    osc.stop(time + sound.decay * 4 + 0.01);
+    this.voices.add(osc);
+    osc.onended = () => { env.disconnect(); this.voices.delete(osc); };
+  }
+}
@@ -0,0 +1,54 @@
+import { MidiControlEvent } from '../types';
+
+/**
+ * MIDI CAPTURE
+ * Notes et contrôleurs joués pendant une prise, en positions projet (boucle déjà résolue par le transport).
+ * Une note tenue pendant un retour de boucle est fermée sur loopEnd.
+ */
+
+export interface CapturedNote {
+  pitch: number;
+  velocity: number; // 0..1
+  start: number;    // Position projet (s)
+  end: number;
+}
+
+export interface CapturedControl {
+  event: MidiControlEvent;
+  time: number; // Position projet (s)
+}
+
+export class MidiCapture {
+  private loop: { start: number, end: number } | null;
+  private held: Map<number, { start: number, velocity: number }> = new Map();
+  private notes: CapturedNote[] = [];
+  private controls: CapturedControl[] = [];
+
+  constructor(loop: { start: number, end: number } | null) {
+    this.loop = loop;
+  }
+
+  public noteOn(pitch: number, velocity: number, time: number) {
+    if (this.held.has(pitch)) this.noteOff(pitch, time);
+    this.held.set(pitch, { start: time, velocity });
+  }
+
+  public noteOff(pitch: number, time: number) {
+    const on = this.held.get(pitch);
+    if (!on) return;
+    this.held.delete(pitch);
+    // Position revenue en arrière : la boucle est repartie pendant la note
+    const end = time < on.start && this.loop ? this.loop.end : time;
+    this.notes.push({ pitch, velocity: on.velocity, start: on.start, end: Math.max(end, on.start) });
+  }
+
+  public control(event: MidiControlEvent, time: number) {
+    this.controls.push({ event, time });
+  }
+
+  // Ferme les notes encore tenues à l'arrêt
+  public finish(time: number): { notes: CapturedNote[], controls: CapturedControl[] } {
+    [...this.held.keys()].forEach(pitch => this.noteOff(pitch, time));
+    return { notes: this.notes, controls: this.controls };
+  }
+}
@@ -0,0 +1,59 @@
+import { MidiControlEvent } from '../types';
+
+/**
+ * MIDI CHANNEL STATE
+ * Contrôleurs courants d'un instrument (pitch bend, modulation, volume, brillance, pression).
+ * Chaque instrument lit les valeurs dérivées pour ses voix ; le vibrato (CC1) est un LFO
+ * partagé à brancher sur le `detune` de chaque voix.
+ * Le sustain (CC64) est géré par l'engine, qui retarde les note-off.
+ */
+export class MidiChannelState {
+  public static PITCH_BEND_RANGE = 2; // Demi-tons
+  private static VIBRATO_RATE = 5.5;  // Hz
+  private static VIBRATO_DEPTH = 50;  // Cents à modulation maximale
+
+  public readonly vibrato: GainNode;
+  private lfo: OscillatorNode;
+  private cc: Map<number, number> = new Map();
+  private bend: number = 0;     // -1..1
+  private pressure: number = 0; // 0..1
+  public program: number = 0;
+
+  constructor(ctx: BaseAudioContext) {
+    this.lfo = ctx.createOscillator();
+    this.lfo.frequency.value = MidiChannelState.VIBRATO_RATE;
+    this.vibrato = ctx.createGain();
+    this.vibrato.gain.value = 0;
+    this.lfo.connect(this.vibrato);
+    this.lfo.start();
+    this.reset();
+  }
+
+  public apply(event: MidiControlEvent, time: number) {
+    if (event.type === 'PITCH_BEND') this.bend = Math.max(-1, Math.min(1, event.value / 8192));
+    else if (event.type === 'AFTERTOUCH') this.pressure = event.value / 127;
+    else if (event.type === 'PROGRAM') this.program = event.value;
+    else if (event.cc !== undefined) this.cc.set(event.cc, event.value);
+
+    if (event.type === 'CC' && event.cc === 1) {
+      this.vibrato.gain.setValueAtTime(event.value / 127 * MidiChannelState.VIBRATO_DEPTH, time);
+    }
+  }
+
+  // Valeurs au repos : volume et expression au maximum, brillance au centre
+  public reset() {
+    this.cc = new Map([[1, 0], [7, 127], [11, 127], [74, 64]]);
+    this.bend = 0;
+    this.pressure = 0;
+    this.vibrato.gain.cancelScheduledValues(0);
+    this.vibrato.gain.value = 0;
+  }
+
+  public get bendCents() { return this.bend * MidiChannelState.PITCH_BEND_RANGE * 100; }
+
+  // CC7 x CC11
+  public get volume() { return (this.cc.get(7)! / 127) * (this.cc.get(11)! / 127); }
+
+  // Multiplicateur de coupure : CC74 (une octave par demi-course) et pression
+  public get brightness() { return Math.pow(2, (this.cc.get(74)! - 64) / 32) * (1 + this.pressure); }
+}
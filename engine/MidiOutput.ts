@@ -0,0 +1,123 @@
+import { MidiControlEvent, TempoMap, TrackMidiOutput } from '../types';
+import { beatToTime, timeToBeat } from '../utils/helpers';
+
+/**
+ * MIDI OUTPUT
+ * Notes et contrôleurs des pistes routées vers un port externe, horloge MIDI (24 ppq) et transport
+ * (Start / Continue / Stop / Song Position Pointer) sur les ports choisis dans les réglages.
+ * Les ports Web MIDI sont fournis par MidiManager ; chaque message est horodaté pour sortir
+ * quand la position correspondante est entendue.
+ */
+export class MidiOutput {
+  private static CLOCK_PPQ = 24;
+  private static SPP_PER_BEAT = 4; // Song Position Pointer en doubles-croches
+
+  private ctx: AudioContext | null = null;
+  private ports: Map<string, any> = new Map(); // Key: port id (MIDIOutput)
+  private clockPortIds: Set<string> = new Set();
+  private held: Map<string, { route: TrackMidiOutput, pitches: Set<number> }> = new Map(); // Key: portId/channel
+  private clockFromBeat: number | null = null; // null = esclaves à l'arrêt
+
+  public attach(ctx: AudioContext) {
+    this.ctx = ctx;
+  }
+
+  public setPorts(ports: Map<string, any>) {
+    this.ports = ports;
+  }
+
+  public setClockPorts(portIds: string[]) {
+    this.clockPortIds = new Set(portIds);
+  }
+
+  public getClockPorts(): string[] { return [...this.clockPortIds]; }
+
+  public noteOn(route: TrackMidiOutput, pitch: number, velocity: number, when: number) {
+    const key = `${route.portId}/${route.channel}`;
+    if (!this.held.has(key)) this.held.set(key, { route, pitches: new Set() });
+    this.held.get(key)!.pitches.add(pitch);
+    this.send(route.portId, [0x90 | MidiOutput.channelBits(route), pitch, Math.max(1, Math.round(velocity * 127))], when);
+  }
+
+  public noteOff(route: TrackMidiOutput, pitch: number, when: number) {
+    this.held.get(`${route.portId}/${route.channel}`)?.pitches.delete(pitch);
+    this.send(route.portId, [0x80 | MidiOutput.channelBits(route), pitch, 0], when);
+  }
+
+  public control(route: TrackMidiOutput, event: MidiControlEvent, when: number) {
+    const channel = MidiOutput.channelBits(route);
+    switch (event.type) {
+      case 'CC': this.send(route.portId, [0xB0 | channel, event.cc ?? 0, event.value], when); break;
+      case 'PROGRAM': this.send(route.portId, [0xC0 | channel, event.value], when); break;
+      case 'AFTERTOUCH': this.send(route.portId, [0xD0 | channel, event.value], when); break;
+      case 'PITCH_BEND': {
+        const value = Math.max(0, Math.min(16383, event.value + 8192));
+        this.send(route.portId, [0xE0 | channel, value & 0x7F, value >> 7], when);
+      }
+    }
+  }
+
+  /**
+   * Horloge de la fenêtre projet [projectStart, projectEnd[ ; `when` = heure du contexte de projectStart.
+   * Premier passage après un départ : SPP sur la double-croche suivante puis Start / Continue.
+   * Retour de boucle : Stop sur loopEnd, le passage suivant recale les esclaves sur loopStart.
+   */
+  public schedule(projectStart: number, projectEnd: number, when: number, tempoMap: TempoMap, endsAtLoop: boolean) {
+    if (this.clockPortIds.size === 0 || projectEnd <= 0) return;
+    const from = Math.max(0, projectStart);
+    if (this.clockFromBeat === null) this.locate(timeToBeat(from, tempoMap), when + from - projectStart);
+
+    const firstTick = Math.ceil(Math.max(this.clockFromBeat!, timeToBeat(from, tempoMap)) * MidiOutput.CLOCK_PPQ - 1e-6);
+    for (let tick = firstTick; ; tick++) {
+      const time = beatToTime(tick / MidiOutput.CLOCK_PPQ, tempoMap);
+      if (time >= projectEnd) break;
+      this.sendClock([0xF8], when + time - projectStart);
+    }
+
+    if (endsAtLoop) {
+      this.sendClock([0xFC], when + projectEnd - projectStart);
+      this.clockFromBeat = null;
+    }
+  }
+
+  // Arrêt du transport : esclaves arrêtés, notes tenues relâchées, pitch bend recentré
+  public stop() {
+    this.ports.forEach(port => port.clear?.()); // Messages planifiés pas encore partis
+    if (this.clockFromBeat !== null) this.sendClock([0xFC], 0);
+    this.clockFromBeat = null;
+    this.held.forEach(({ route, pitches }) => {
+      pitches.forEach(pitch => this.noteOff(route, pitch, 0));
+      this.control(route, { type: 'PITCH_BEND', value: 0 }, 0);
+    });
+    this.held.clear();
+  }
+
+  private locate(beat: number, when: number) {
+    const position = Math.ceil(beat * MidiOutput.SPP_PER_BEAT - 1e-6);
+    this.clockFromBeat = position / MidiOutput.SPP_PER_BEAT;
+    this.sendClock([0xF2, position & 0x7F, (position >> 7) & 0x7F], when);
+    this.sendClock([position === 0 ? 0xFA : 0xFB], when);
+  }
+
+  private sendClock(data: number[], when: number) {
+    this.clockPortIds.forEach(portId => this.send(portId, data, when));
+  }
+
+  // Heure du contexte -> horodatage Web MIDI (base performance.now()), aligné sur la sortie audio
+  private send(portId: string, data: number[], when: number) {
+    const port = this.ports.get(portId);
+    if (!port || !this.ctx) return;
+    const { contextTime, performanceTime } = this.ctx.getOutputTimestamp();
+    const now = performance.now();
+    const timestamp = contextTime !== undefined && performanceTime !== undefined
+      ? performanceTime + (when - contextTime) * 1000
+      : now + (when - this.ctx.currentTime) * 1000;
+    try {
+      port.send(data, Math.max(now, timestamp));
+    } catch (e) {
+      console.warn("[MidiOutput] Send failed:", port.name, e);
+    }
+  }
+
+  private static channelBits(route: TrackMidiOutput) { return Math.max(0, Math.min(15, route.channel - 1)); }
+}
@@ -0,0 +1,46 @@
+import { SampleZone } from '../types';
+
+/**
+ * SAMPLE ZONE MAP
+ * Choix des échantillons d'une note pour les samplers multi-échantillons :
+ * toutes les zones qui couvrent la touche et la vélocité sonnent (couches),
+ * sauf dans un groupe de round robin où une seule zone joue, à tour de rôle.
+ */
+export class SampleZoneMap {
+  private zones: SampleZone[] = [];
+  private counters: Map<number, number> = new Map(); // Key: roundRobinGroup
+
+  public setZones(zones: SampleZone[]) {
+    if (zones === this.zones) return;
+    this.zones = zones;
+    this.counters.clear();
+  }
+
+  // Zones jouables seulement : sans échantillon chargé (session cloud, fichier absent), retour au buffer unique
+  public hasZones() { return this.zones.some(z => z.buffer); }
+
+  // `velocity` 0..1 ; zones sans buffer (échantillon absent) ignorées
+  public select(pitch: number, velocity: number): SampleZone[] {
+    const midiVelocity = Math.max(1, Math.min(127, Math.round(velocity * 127)));
+    const matched = this.zones.filter(z => z.buffer && pitch >= z.lowKey && pitch <= z.highKey && midiVelocity >= z.lowVelocity && midiVelocity <= z.highVelocity);
+
+    const result = matched.filter(z => !z.roundRobinGroup);
+    const groups = new Set(matched.filter(z => z.roundRobinGroup).map(z => z.roundRobinGroup));
+    groups.forEach(group => {
+      const members = matched.filter(z => z.roundRobinGroup === group);
+      const count = this.counters.get(group) || 0;
+      this.counters.set(group, count + 1);
+      result.push(members[count % members.length]);
+    });
+    return result;
+  }
+
+  // Transposition de la zone en cents (pitch bend et vibrato restent sur `detune`)
+  public static getCents(zone: SampleZone, pitch: number) {
+    return (pitch - zone.rootKey) * 100 * zone.keyTracking + zone.tune;
+  }
+
+  public static getGain(zone: SampleZone) {
+    return Math.pow(10, zone.volume / 20);
+  }
+}
@@ -1,91 +1,472 @@
+import { MidiControlEvent, PluginParameter } from '../types';
+import { MidiChannelState } from './MidiChannelState';
+
+export type SynthWaveform = 'sine' | 'triangle' | 'sawtooth' | 'square';
+export type SynthFilterType = 'lowpass' | 'highpass' | 'bandpass';
+export type SynthModSource = 'LFO1' | 'LFO2' | 'FILTER_ENV' | 'VELOCITY';
+export type SynthModDestination = 'PITCH' | 'CUTOFF' | 'AMP' | 'PAN';
+
+export interface SynthOscillatorParams {
+  waveform: SynthWaveform;
+  octave: number;       // -3..3
+  semitone: number;     // -12..12
+  fine: number;         // Cents
+  level: number;        // 0..1 (0 = coupé)
+  unison: number;       // 1..7 voix
+  unisonDetune: number; // Cents entre les voix extrêmes
+}
+
+export interface SynthLfoParams {
+  waveform: SynthWaveform;
+  rate: number; // Hz
+}
+
+export interface SynthModSlot {
+  source: SynthModSource;
+  destination: SynthModDestination;
+  amount: number; // -1..1
+}
+
+export interface SynthParams {
+  oscillators: SynthOscillatorParams[]; // 3
+  filterType: SynthFilterType;
+  cutoff: number;          // Hz
+  resonance: number;
+  keyTracking: number;     // 0..1 (1 = la coupure suit le clavier)
+  filterEnvAmount: number; // -1..1
+  filterAttack: number;
+  filterDecay: number;
+  filterSustain: number;
+  filterRelease: number;
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+  lfos: SynthLfoParams[];     // 2, libres (partagés par toutes les voix)
+  modMatrix: SynthModSlot[];  // 4
+  polyphony: number;       // 1 = mono legato
+  glide: number;           // s
+  level: number;
+  isEnabled: boolean;
+}
+
+export const DEFAULT_SYNTH_PARAMS: SynthParams = {
+  oscillators: [
+    { waveform: 'sawtooth', octave: 0, semitone: 0, fine: 0, level: 0.7, unison: 1, unisonDetune: 20 },
+    { waveform: 'square', octave: -1, semitone: 0, fine: 0, level: 0.3, unison: 1, unisonDetune: 20 },
+    { waveform: 'sawtooth', octave: 0, semitone: 0, fine: 7, level: 0, unison: 1, unisonDetune: 20 }
+  ],
+  filterType: 'lowpass', cutoff: 2000, resonance: 1, keyTracking: 0.5, filterEnvAmount: 0.2,
+  filterAttack: 0.01, filterDecay: 0.3, filterSustain: 0.3, filterRelease: 0.3,
+  attack: 0.01, decay: 0.1, sustain: 0.5, release: 0.2,
+  lfos: [{ waveform: 'sine', rate: 5 }, { waveform: 'triangle', rate: 0.5 }],
+  modMatrix: [
+    { source: 'LFO1', destination: 'PITCH', amount: 0 },
+    { source: 'LFO2', destination: 'CUTOFF', amount: 0 },
+    { source: 'VELOCITY', destination: 'CUTOFF', amount: 0 },
+    { source: 'FILTER_ENV', destination: 'PAN', amount: 0 }
+  ],
+  polyphony: 8, glide: 0, level: 1, isEnabled: true
+};
+
+interface SynthVoice {
+  pitch: number;
+  isReleased: boolean;
+  keyCents: number;
+  oscillators: { node: OscillatorNode, baseDetune: number, ratio: number }[];
+  sources: AudioScheduledSourceNode[];
+  filter: BiquadFilterNode;
+  amp: GainNode;
+  modEnv: ConstantSourceNode; // Enveloppe de filtre, 0..1
+  slots: { gain: GainNode, source: SynthModSource, destination: SynthModDestination }[];
+  links: [AudioNode, AudioNode | AudioParam][]; // Connexions depuis les noeuds partagés
+}
 
 /**
- * Simple Polyphonic Synthesizer
- * Uses native Web Audio Oscillators to replace Tone.PolySynth
+ * Polyphonic Subtractive Synthesizer
+ * 3 oscillateurs (unisson) -> filtre (enveloppe, suivi de clavier) -> VCA, 2 LFO et matrice de modulation.
+ * Les paramètres automatisables sont des sources partagées (ConstantSource, LFO) branchées sur chaque voix :
+ * une lane 'plugin::<pluginId>::<paramId>' agit donc aussi sur les notes déjà jouées.
  */
 export class Synthesizer {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public output: GainNode;
-  
-  // Active voices: MIDI Pitch -> Oscillator/Nodes
-  private activeVoices: Map<number, { osc: OscillatorNode, env: GainNode }> = new Map();
-  
-  private params = {
-    attack: 0.01,
-    decay: 0.1,
-    sustain: 0.5,
-    release: 0.2,
-    type: 'sawtooth' as OscillatorType,
-    filterCutoff: 2000
-  };
-
-  constructor(ctx: AudioContext) {
+  public readonly channel: MidiChannelState;
+
+  private voices: SynthVoice[] = []; // Ordre de déclenchement, voix en release comprises
+  private heldPitches: number[] = []; // Mono : notes tenues, la dernière sonne
+  private lastPitch: number | null = null; // Départ du glide
+
+  private MAIN_LEVEL = 0.5;
+  private STEAL_FADE = 0.005;
+  private FILTER_ENV_RANGE = 7200; // Cents à modulation maximale
+  private static MOD_SCALE: Record<SynthModDestination, number> = { PITCH: 1200, CUTOFF: 4800, AMP: 0.5, PAN: 1 };
+  // Program change : forme d'onde de l'oscillateur 1 (programme 0 = son du patch)
+  private static WAVEFORMS: OscillatorType[] = ['sawtooth', 'square', 'triangle', 'sine'];
+  private programWaveform: OscillatorType | null = null;
+
+  private params: SynthParams;
+
+  // Sources partagées (AudioParams exposés à l'automation)
+  private channelGain: GainNode;
+  private cutoffSource: ConstantSourceNode;
+  private resonanceSource: ConstantSourceNode;
+  private envAmountSource: ConstantSourceNode;
+  private envAmountScale: GainNode;
+  private oscLevelSources: ConstantSourceNode[];
+  private lfos: OscillatorNode[];
+
+  constructor(ctx: BaseAudioContext, params: Partial<SynthParams> = {}) {
     this.ctx = ctx;
+    this.params = { ...DEFAULT_SYNTH_PARAMS, ...params };
+    this.channel = new MidiChannelState(ctx);
+
+    this.channelGain = ctx.createGain();
+    this.channelGain.gain.value = this.MAIN_LEVEL;
     this.output = ctx.createGain();
-    this.output.gain.value = 0.5; // Main volume
+    this.output.gain.value = this.params.level;
+    this.channelGain.connect(this.output);
+
+    this.cutoffSource = this.createSource(this.params.cutoff);
+    this.resonanceSource = this.createSource(this.params.resonance);
+    this.envAmountSource = this.createSource(this.params.filterEnvAmount);
+    this.envAmountScale = ctx.createGain();
+    this.envAmountScale.gain.value = this.FILTER_ENV_RANGE;
+    this.envAmountSource.connect(this.envAmountScale);
+    this.oscLevelSources = this.params.oscillators.map(osc => this.createSource(osc.level));
+    this.lfos = this.params.lfos.map(settings => {
+      const lfo = ctx.createOscillator();
+      lfo.type = settings.waveform;
+      lfo.frequency.value = settings.rate;
+      lfo.start();
+      return lfo;
+    });
   }
 
-  public triggerAttack(pitch: number, velocity: number = 0.8, time: number = 0) {
-    // Stop existing voice if any (monophonic per key)
-    this.triggerRelease(pitch, time);
+  private createSource(value: number) {
+    const source = this.ctx.createConstantSource();
+    source.offset.value = value;
+    source.start();
+    return source;
+  }
 
-    const t = Math.max(time, this.ctx.currentTime);
-    const freq = 440 * Math.pow(2, (pitch - 69) / 12);
-    
-    const osc = this.ctx.createOscillator();
-    const env = this.ctx.createGain();
-    const filter = this.ctx.createBiquadFilter();
+  // --- PARAMS ---
+  public updateParams(changes: Partial<SynthParams>) {
+    const previous = this.params;
+    const p = this.params = { ...previous, ...changes };
+    const now = this.ctx.currentTime;
+    // Seules les valeurs modifiées sont réécrites : une lane d'automation en cours n'est pas écrasée.
+    // Export : valeur exacte dès le premier échantillon
+    const isOffline = this.ctx instanceof OfflineAudioContext;
+    const set = (param: AudioParam, value: number, before: number) => {
+      if (value === before) return;
+      if (isOffline) param.setValueAtTime(value, now);
+      else param.setTargetAtTime(value, now, 0.02);
+    };
+
+    set(this.output.gain, p.level, previous.level);
+    set(this.cutoffSource.offset, p.cutoff, previous.cutoff);
+    set(this.resonanceSource.offset, p.resonance, previous.resonance);
+    set(this.envAmountSource.offset, p.filterEnvAmount, previous.filterEnvAmount);
+    p.oscillators.forEach((osc, i) => set(this.oscLevelSources[i].offset, osc.level, previous.oscillators[i].level));
+    p.lfos.forEach((settings, i) => {
+      set(this.lfos[i].frequency, settings.rate, previous.lfos[i].rate);
+      if (settings.waveform !== previous.lfos[i].waveform) this.lfos[i].type = settings.waveform;
+    });
 
-    osc.type = this.params.type;
-    osc.frequency.setValueAtTime(freq, t);
+    // Voix en cours : type de filtre et quantités de modulation (source / destination : notes suivantes)
+    this.voices.forEach(voice => {
+      if (p.filterType !== previous.filterType) voice.filter.type = p.filterType;
+      voice.slots.forEach((slot, i) => {
+        const settings = p.modMatrix[i];
+        if (settings.source === slot.source && settings.destination === slot.destination && settings.amount !== previous.modMatrix[i].amount) {
+          slot.gain.gain.setTargetAtTime(settings.amount * Synthesizer.MOD_SCALE[slot.destination], now, 0.02);
+        }
+      });
+    });
+  }
 
-    // Simple Filter
-    filter.type = 'lowpass';
-    filter.frequency.setValueAtTime(this.params.filterCutoff, t);
-    filter.Q.value = 1;
+  public getParams() { return this.params; }
+
+  // Paramètres pilotables par une lane d'automation (un AudioParam partagé chacun)
+  public getParameters(): PluginParameter[] {
+    const p = this.params;
+    return [
+      { id: 'level', name: 'Level', type: 'float', min: 0, max: 1, value: p.level },
+      ...p.oscillators.map((osc, i) => ({ id: `osc${i + 1}Level`, name: `Osc ${i + 1} Level`, type: 'float' as const, min: 0, max: 1, value: osc.level })),
+      { id: 'cutoff', name: 'Cutoff', type: 'float', min: 20, max: 20000, value: p.cutoff, unit: 'Hz' },
+      { id: 'resonance', name: 'Resonance', type: 'float', min: 0, max: 20, value: p.resonance },
+      { id: 'filterEnvAmount', name: 'Filter Env', type: 'float', min: -1, max: 1, value: p.filterEnvAmount },
+      ...p.lfos.map((lfo, i) => ({ id: `lfo${i + 1}Rate`, name: `LFO ${i + 1} Rate`, type: 'float' as const, min: 0.05, max: 20, value: lfo.rate, unit: 'Hz' }))
+    ];
+  }
 
-    // Connections
-    osc.connect(filter);
-    filter.connect(env);
-    env.connect(this.output);
+  public getAudioParam(paramId: string): AudioParam | null {
+    switch (paramId) {
+      case 'level': return this.output.gain;
+      case 'cutoff': return this.cutoffSource.offset;
+      case 'resonance': return this.resonanceSource.offset;
+      case 'filterEnvAmount': return this.envAmountSource.offset;
+      case 'osc1Level': case 'osc2Level': case 'osc3Level': return this.oscLevelSources[Number(paramId[3]) - 1].offset;
+      case 'lfo1Rate': case 'lfo2Rate': return this.lfos[Number(paramId[3]) - 1].frequency;
+      default: return null;
+    }
+  }
 
-    // ADSR Envelope
-    env.gain.setValueAtTime(0, t);
-    env.gain.linearRampToValueAtTime(velocity, t + this.params.attack);
-    env.gain.linearRampToValueAtTime(velocity * this.params.sustain, t + this.params.attack + this.params.decay);
+  // --- NOTES ---
+  public triggerAttack(pitch: number, velocity: number = 0.8, time: number = 0) {
+    const t = Math.max(time, this.ctx.currentTime);
 
-    osc.start(t);
+    if (this.params.polyphony <= 1) {
+      this.heldPitches = [...this.heldPitches.filter(p => p !== pitch), pitch];
+      const held = this.voices.find(v => !v.isReleased);
+      // Legato : la voix tenue glisse vers la nouvelle note sans redéclencher les enveloppes
+      if (held) {
+        this.glideVoice(held, pitch, t);
+        return;
+      }
+      this.stealVoices(0, t);
+    } else {
+      // Une voix par touche : la note rejouée remplace la précédente
+      this.voices.filter(v => v.pitch === pitch && !v.isReleased).forEach(v => this.releaseVoice(v, t));
+      this.stealVoices(this.params.polyphony - 1, t);
+    }
 
-    this.activeVoices.set(pitch, { osc, env });
+    this.voices.push(this.createVoice(pitch, velocity, t, this.params.glide > 0 ? this.lastPitch : null));
+    this.lastPitch = pitch;
   }
 
   public triggerRelease(pitch: number, time: number = 0) {
-    const voice = this.activeVoices.get(pitch);
-    if (voice) {
-      const t = Math.max(time, this.ctx.currentTime);
-      // Release envelope
-      try {
-        voice.env.gain.cancelScheduledValues(t);
-        voice.env.gain.setValueAtTime(voice.env.gain.value, t);
-        voice.env.gain.exponentialRampToValueAtTime(0.001, t + this.params.release);
-        voice.osc.stop(t + this.params.release + 0.1); // Stop after release
-      } catch (e) {
-          // Ignore scheduling errors
+    const t = Math.max(time, this.ctx.currentTime);
+
+    if (this.params.polyphony <= 1) {
+      this.heldPitches = this.heldPitches.filter(p => p !== pitch);
+      const held = this.voices.find(v => !v.isReleased);
+      if (held && held.pitch === pitch && this.heldPitches.length > 0) {
+        // Retour sur la note encore tenue
+        this.glideVoice(held, this.heldPitches[this.heldPitches.length - 1], t);
+        return;
       }
-      this.activeVoices.delete(pitch);
     }
+    this.voices.filter(v => v.pitch === pitch && !v.isReleased).forEach(v => this.releaseVoice(v, t));
   }
 
   public releaseAll() {
     const now = this.ctx.currentTime;
-    this.activeVoices.forEach((voice) => {
+    [...this.voices].forEach(voice => this.stealVoice(voice, now, 0.05));
+    this.voices = [];
+    this.heldPitches = [];
+    this.lastPitch = null;
+  }
+
+  // Pitch bend, modulation, volume (CC7/CC11), brillance (CC74, pression), program change
+  public applyControl(event: MidiControlEvent, time: number = 0) {
+    const t = Math.max(time, this.ctx.currentTime);
+    this.channel.apply(event, t);
+    if (event.type === 'PROGRAM') {
+      this.programWaveform = event.value === 0 ? null : Synthesizer.WAVEFORMS[event.value % Synthesizer.WAVEFORMS.length];
+      return;
+    }
+    this.channelGain.gain.setValueAtTime(this.MAIN_LEVEL * this.channel.volume, t);
+    const brightness = this.getBrightnessCents();
+    this.voices.forEach(voice => {
+      voice.oscillators.forEach(osc => osc.node.detune.setValueAtTime(osc.baseDetune + this.channel.bendCents, t));
+      voice.filter.detune.setValueAtTime(voice.keyCents + brightness, t);
+    });
+  }
+
+  public resetControllers() {
+    this.channel.reset();
+    this.programWaveform = null;
+    this.channelGain.gain.setValueAtTime(this.MAIN_LEVEL, this.ctx.currentTime);
+  }
+
+  private getBrightnessCents() {
+    return 1200 * Math.log2(this.channel.brightness);
+  }
+
+  private getKeyCents(pitch: number) {
+    return (pitch - 60) * 100 * this.params.keyTracking;
+  }
+
+  private static toFrequency(pitch: number) {
+    return 440 * Math.pow(2, (pitch - 69) / 12);
+  }
+
+  // --- VOICES ---
+  private createVoice(pitch: number, velocity: number, t: number, fromPitch: number | null): SynthVoice {
+    const ctx = this.ctx;
+    const p = this.params;
+    const links: [AudioNode, AudioNode | AudioParam][] = [];
+    const link = (from: AudioNode, to: AudioNode | AudioParam) => {
+      if (to instanceof AudioParam) from.connect(to);
+      else from.connect(to);
+      links.push([from, to]);
+    };
+    const sources: AudioScheduledSourceNode[] = [];
+
+    // Modulations de hauteur (vibrato CC1, matrice) en cents, vers chaque oscillateur
+    const pitchBus = ctx.createGain();
+    link(this.channel.vibrato, pitchBus);
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = p.filterType;
+    filter.frequency.value = 0;
+    link(this.cutoffSource, filter.frequency);
+    filter.Q.value = 0;
+    link(this.resonanceSource, filter.Q);
+    const keyCents = this.getKeyCents(pitch);
+    filter.detune.setValueAtTime(keyCents + this.getBrightnessCents(), t);
+
+    // OSCILLATORS + UNISON
+    const oscillators: SynthVoice['oscillators'] = [];
+    p.oscillators.forEach((settings, index) => {
+      const count = Math.max(1, Math.round(settings.unison));
+      const mix = ctx.createGain();
+      mix.gain.value = 0;
+      link(this.oscLevelSources[index], mix.gain);
+      const norm = ctx.createGain();
+      norm.gain.value = 1 / Math.sqrt(count);
+      norm.connect(mix);
+      mix.connect(filter);
+
+      const ratio = Math.pow(2, settings.octave + settings.semitone / 12);
+      for (let i = 0; i < count; i++) {
+        const node = ctx.createOscillator();
+        node.type = index === 0 && this.programWaveform ? this.programWaveform : settings.waveform;
+        const baseDetune = settings.fine + (count > 1 ? settings.unisonDetune * (i / (count - 1) - 0.5) : 0);
+        node.detune.setValueAtTime(baseDetune + this.channel.bendCents, t);
+        pitchBus.connect(node.detune);
+        const target = Synthesizer.toFrequency(pitch) * ratio;
+        if (fromPitch !== null) {
+          node.frequency.setValueAtTime(Synthesizer.toFrequency(fromPitch) * ratio, t);
+          node.frequency.exponentialRampToValueAtTime(target, t + p.glide);
+        } else {
+          node.frequency.setValueAtTime(target, t);
+        }
+        node.connect(norm);
+        oscillators.push({ node, baseDetune, ratio });
+        sources.push(node);
+      }
+    });
+
+    // FILTER ENVELOPE (0..1, mise à l'échelle par la quantité partagée)
+    const modEnv = ctx.createConstantSource();
+    modEnv.offset.setValueAtTime(0, t);
+    modEnv.offset.linearRampToValueAtTime(1, t + Math.max(0.001, p.filterAttack));
+    modEnv.offset.linearRampToValueAtTime(p.filterSustain, t + Math.max(0.001, p.filterAttack) + p.filterDecay);
+    sources.push(modEnv);
+    const envGain = ctx.createGain();
+    envGain.gain.value = 0;
+    link(this.envAmountScale, envGain.gain);
+    modEnv.connect(envGain);
+    envGain.connect(filter.detune);
+
+    // AMP ENVELOPE -> tremolo -> pan
+    const amp = ctx.createGain();
+    amp.gain.setValueAtTime(0, t);
+    amp.gain.linearRampToValueAtTime(velocity, t + Math.max(0.001, p.attack));
+    amp.gain.linearRampToValueAtTime(velocity * p.sustain, t + Math.max(0.001, p.attack) + p.decay);
+    const trem = ctx.createGain();
+    const panner = ctx.createStereoPanner();
+    filter.connect(amp);
+    amp.connect(trem);
+    trem.connect(panner);
+    panner.connect(this.channelGain);
+
+    // MOD MATRIX
+    let velocitySource: ConstantSourceNode | null = null;
+    const slots = p.modMatrix.map(settings => {
+      const gain = ctx.createGain();
+      gain.gain.value = settings.amount * Synthesizer.MOD_SCALE[settings.destination];
+      if (settings.source === 'LFO1' || settings.source === 'LFO2') link(this.lfos[settings.source === 'LFO1' ? 0 : 1], gain);
+      else if (settings.source === 'FILTER_ENV') modEnv.connect(gain);
+      else {
+        if (!velocitySource) {
+          velocitySource = ctx.createConstantSource();
+          velocitySource.offset.value = velocity;
+          sources.push(velocitySource);
+        }
+        velocitySource.connect(gain);
+      }
+      switch (settings.destination) {
+        case 'PITCH': gain.connect(pitchBus); break;
+        case 'CUTOFF': gain.connect(filter.detune); break;
+        case 'AMP': gain.connect(trem.gain); break;
+        case 'PAN': gain.connect(panner.pan); break;
+      }
+      return { gain, source: settings.source, destination: settings.destination };
+    });
+
+    sources.forEach(source => source.start(t));
+
+    const voice: SynthVoice = { pitch, isReleased: false, keyCents, oscillators, sources, filter, amp, modEnv, slots, links };
+    sources[0].onended = () => {
+      links.forEach(([from, to]) => {
         try {
-            voice.env.gain.cancelScheduledValues(now);
-            voice.env.gain.setValueAtTime(voice.env.gain.value, now);
-            voice.env.gain.linearRampToValueAtTime(0, now + 0.05);
-            voice.osc.stop(now + 0.05);
-        } catch(e) {}
+          if (to instanceof AudioParam) from.disconnect(to);
+          else from.disconnect(to);
+        } catch (e) {}
+      });
+      panner.disconnect();
+      this.voices = this.voices.filter(v => v !== voice);
+    };
+    return voice;
+  }
+
+  // Mono legato : les oscillateurs rejoignent la nouvelle note en `glide` secondes
+  private glideVoice(voice: SynthVoice, pitch: number, t: number) {
+    const glide = this.params.glide;
+    voice.oscillators.forEach(osc => {
+      const target = Synthesizer.toFrequency(pitch) * osc.ratio;
+      Synthesizer.hold(osc.node.frequency, t);
+      if (glide > 0) osc.node.frequency.exponentialRampToValueAtTime(target, t + glide);
+      else osc.node.frequency.setValueAtTime(target, t);
     });
-    this.activeVoices.clear();
+    voice.keyCents = this.getKeyCents(pitch);
+    voice.filter.detune.setValueAtTime(voice.keyCents + this.getBrightnessCents(), t);
+    voice.pitch = pitch;
+    this.lastPitch = pitch;
+  }
+
+  private releaseVoice(voice: SynthVoice, t: number) {
+    const p = this.params;
+    voice.isReleased = true;
+    try {
+      Synthesizer.hold(voice.amp.gain, t);
+      voice.amp.gain.setTargetAtTime(0, t, p.release / 5 + 0.001);
+      Synthesizer.hold(voice.modEnv.offset, t);
+      voice.modEnv.offset.setTargetAtTime(0, t, p.filterRelease / 5 + 0.001);
+      voice.sources.forEach(source => source.stop(t + p.release + 0.05));
+    } catch (e) {
+      // Ignore scheduling errors
+    }
+  }
+
+  // Vol de voix : la plus ancienne en release, sinon la plus ancienne tenue
+  private stealVoices(keep: number, t: number) {
+    while (this.voices.length > keep) {
+      this.stealVoice(this.voices.find(v => v.isReleased) || this.voices[0], t, this.STEAL_FADE);
+    }
+  }
+
+  private stealVoice(voice: SynthVoice, t: number, fade: number) {
+    voice.isReleased = true;
+    try {
+      Synthesizer.hold(voice.amp.gain, t);
+      voice.amp.gain.linearRampToValueAtTime(0, t + fade);
+      voice.sources.forEach(source => source.stop(t + fade + 0.005));
+    } catch (e) {}
+    this.voices = this.voices.filter(v => v !== voice);
+  }
+
+  // Fige la valeur d'un paramètre à `t` avant une nouvelle rampe
+  private static hold(param: AudioParam, t: number) {
+    if (typeof param.cancelAndHoldAtTime === 'function') {
+      param.cancelAndHoldAtTime(t);
+    } else {
+      param.cancelScheduledValues(t);
+      param.setValueAtTime(param.value, t);
+    }
   }
 }
@@ -0,0 +1,190 @@
+/**
+ * TRANSPORT MANAGER
+ * Horloge de lecture : position, boucle, compensation PDC et découpage des fenêtres de planification.
+ * Les fenêtres sont cadencées par un AudioWorklet (public/worklets/TransportClockProcessor.js) ;
+ * setInterval ne sert plus que de repli si le worklet ne peut pas être chargé.
+ * Ne connaît pas le graphe : chaque segment [start, end[ est confié au callback `onSchedule`.
+ */
+
+/**
+ * `when` = heure du contexte correspondant à `projectStart`.
+ * `endsAtLoop` = le segment s'arrête sur loopEnd, le suivant repart de loopStart.
+ */
+export type ScheduleCallback = (projectStart: number, projectEnd: number, when: number, endsAtLoop: boolean) => void;
+
+interface ClockAnchor {
+  ctxTime: number;     // Heure du contexte...
+  projectTime: number; // ...à laquelle la lecture passe par cette position projet
+}
+
+export class TransportManager {
+  private ctx: AudioContext | null = null;
+  private onSchedule: ScheduleCallback;
+  private clockNode: AudioWorkletNode | null = null;
+  private clockReady: Promise<void> = Promise.resolve();
+
+  // Scheduling State
+  private isPlaying: boolean = false;
+  private generation: number = 0;
+  private fallbackTimer: number | null = null;
+  private nextScheduleTime: number = 0;
+  private projectCursor: number = 0; // Position projet de nextScheduleTime (boucle déjà appliquée)
+  private anchors: ClockAnchor[] = []; // Début de lecture puis chaque retour de boucle
+  private pausedAt: number = 0;
+  private pdcOffset: number = 0; // Global delay applied to the transport while PDC is active
+
+  private LOOKAHEAD_MS = 25.0; // Fallback timer only
+  private SCHEDULE_AHEAD_SEC = 0.1;
+
+  // --- LOOP MANAGEMENT ---
+  private isLoopActive: boolean = false;
+  private loopStart: number = 0;
+  private loopEnd: number = 0;
+
+  constructor(onSchedule: ScheduleCallback) {
+    this.onSchedule = onSchedule;
+  }
+
+  public attach(ctx: AudioContext) {
+    this.ctx = ctx;
+    this.clockReady = this.initClock(ctx);
+  }
+
+  private async initClock(ctx: AudioContext) {
+    try {
+      await ctx.audioWorklet.addModule('/worklets/TransportClockProcessor.js');
+      this.clockNode = new AudioWorkletNode(ctx, 'transport-clock-processor', {
+        numberOfInputs: 0,
+        numberOfOutputs: 1
+      });
+      this.clockNode.port.onmessage = (event) => {
+        const msg = event.data;
+        if (msg.type === 'window' && msg.generation === this.generation) this.scheduleWindow(msg.from, msg.to);
+      };
+      // Silent link to the destination so the browser keeps pulling the processor
+      const silence = ctx.createGain();
+      silence.gain.value = 0;
+      this.clockNode.connect(silence);
+      silence.connect(ctx.destination);
+    } catch (e) {
+      console.error("[Transport] Clock worklet unavailable, falling back to setInterval:", e);
+      this.clockNode = null;
+    }
+  }
+
+  public setLatencyMode(mode: 'low' | 'balanced' | 'high') {
+      if (mode === 'low') { this.LOOKAHEAD_MS = 15.0; this.SCHEDULE_AHEAD_SEC = 0.04; }
+      else if (mode === 'balanced') { this.LOOKAHEAD_MS = 25.0; this.SCHEDULE_AHEAD_SEC = 0.1; }
+      else { this.LOOKAHEAD_MS = 50.0; this.SCHEDULE_AHEAD_SEC = 0.2; }
+      this.clockNode?.port.postMessage({ type: 'config', windowSec: this.SCHEDULE_AHEAD_SEC });
+  }
+
+  public setLoop(active: boolean, start: number, end: number) {
+    this.isLoopActive = active;
+    this.loopStart = start;
+    this.loopEnd = end;
+  }
+
+  public getLoop() { return { active: this.isLoopActive, start: this.loopStart, end: this.loopEnd }; }
+
+  // `at` = heure du contexte du premier échantillon (count-in) ; par défaut dès que possible.
+  // Résout l'heure réellement retenue (jamais avant currentTime + 50 ms), null si arrêté entre-temps
+  public async start(startOffset: number, pdcOffset: number = 0, at?: number): Promise<number | null> {
+    if (!this.ctx) return null;
+    if (this.isPlaying) this.stop();
+
+    const generation = ++this.generation;
+    this.isPlaying = true;
+    this.pausedAt = startOffset;
+    this.pdcOffset = pdcOffset;
+    this.anchors = [];
+    await this.clockReady;
+    if (generation !== this.generation) return null; // Stopped while the clock was loading
+    this.nextScheduleTime = Math.max(at ?? 0, this.ctx.currentTime + 0.05);
+    this.projectCursor = startOffset;
+    this.anchors = [{ ctxTime: this.nextScheduleTime, projectTime: startOffset }];
+
+    if (this.clockNode) {
+      this.clockNode.port.postMessage({ type: 'start', from: this.nextScheduleTime, windowSec: this.SCHEDULE_AHEAD_SEC, generation });
+    } else {
+      this.fallbackTimer = window.setInterval(() => {
+        while (this.ctx && this.nextScheduleTime < this.ctx.currentTime + this.SCHEDULE_AHEAD_SEC) {
+          this.scheduleWindow(this.nextScheduleTime, this.nextScheduleTime + this.SCHEDULE_AHEAD_SEC);
+        }
+      }, this.LOOKAHEAD_MS);
+    }
+    return this.anchors[0].ctxTime;
+  }
+
+  public stop() {
+    this.isPlaying = false;
+    this.generation++;
+    this.clockNode?.port.postMessage({ type: 'stop' });
+    if (this.fallbackTimer) {
+      clearInterval(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
+  }
+
+  public setPausedAt(time: number) { this.pausedAt = time; }
+
+  /**
+   * Position entendue : dernière ancre déjà atteinte + temps écoulé depuis.
+   * Lecture seule, la boucle est résolue au moment de la planification.
+   */
+  public getCurrentTime(): number {
+    return this.ctx ? this.getPositionAt(this.ctx.currentTime) : 0;
+  }
+
+  // Position entendue à une heure du contexte récente (horodatage d'une note MIDI jouée)
+  public getPositionAt(ctxTime: number): number {
+    if (!this.ctx) return 0;
+    if (!this.isPlaying || this.anchors.length === 0) return this.pausedAt;
+
+    // What is heard lags the scheduler by the PDC offset
+    const heard = ctxTime - this.pdcOffset;
+    let anchor = this.anchors[0];
+    for (let i = this.anchors.length - 1; i > 0; i--) {
+      if (this.anchors[i].ctxTime <= heard) { anchor = this.anchors[i]; break; }
+    }
+    return Math.max(0, anchor.projectTime + (heard - anchor.ctxTime));
+  }
+
+  public getIsPlaying(): boolean { return this.isPlaying; }
+  public getPdcOffset(): number { return this.pdcOffset; }
+
+  /**
+   * Convertit une fenêtre du contexte [from, to[ en segments projet.
+   * Une fenêtre qui franchit loopEnd est coupée exactement sur la borne :
+   * le reste est planifié depuis loopStart à l'heure précise du retour.
+   */
+  private scheduleWindow(from: number, to: number) {
+    if (!this.isPlaying) return;
+    let when = from;
+
+    while (to - when > 1e-9) {
+      const remaining = to - when;
+      const loopLength = this.loopEnd - this.loopStart;
+      const wraps = this.isLoopActive && loopLength > 0
+        && this.projectCursor < this.loopEnd
+        && this.projectCursor + remaining > this.loopEnd;
+
+      if (!wraps) {
+        this.onSchedule(this.projectCursor, this.projectCursor + remaining, when, false);
+        this.projectCursor += remaining;
+        break;
+      }
+
+      const segment = this.loopEnd - this.projectCursor;
+      this.onSchedule(this.projectCursor, this.loopEnd, when, true);
+      when += segment;
+      this.projectCursor = this.loopStart;
+      this.anchors.push({ ctxTime: when, projectTime: this.loopStart });
+    }
+
+    this.nextScheduleTime = to;
+    // Anchors already well in the past are no longer needed to resolve the position
+    const heard = this.ctx ? this.ctx.currentTime - this.pdcOffset : 0;
+    while (this.anchors.length > 2 && this.anchors[1].ctxTime < heard - 1) this.anchors.shift();
+  }
+}
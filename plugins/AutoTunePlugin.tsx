@@ -171,11 +171,12 @@ export interface AutoTuneParams {
 }
 
 export class AutoTuneNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   private worklet: AudioWorkletNode | null = null;
   private onStatusCallback: ((data: any) => void) | null = null;
+  public ready: Promise<void>; // Resolves once the worklet is wired (or bypassed)
 
   private params: AutoTuneParams = {
     speed: 0.1,
@@ -186,11 +187,11 @@ export class AutoTuneNode {
     isEnabled: true
   };
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     this.input = ctx.createGain();
     this.output = ctx.createGain();
-    this.initWorklet();
+    this.ready = this.initWorklet();
   }
 
   private async initWorklet() {
@@ -17,7 +17,7 @@ export interface ChorusParams {
 }
 
 export class ChorusNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   
@@ -44,7 +44,7 @@ export class ChorusNode {
     isEnabled: true
   };
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     this.input = ctx.createGain();
     this.output = ctx.createGain();
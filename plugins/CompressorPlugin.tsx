@@ -17,7 +17,7 @@ export interface CompressorParams {
 }
 
 export class CompressorNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   
@@ -59,7 +59,7 @@ export class CompressorNode {
     isEnabled: true
   };
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     
     // I/O
@@ -227,6 +227,19 @@ export class CompressorNode {
     return max > 0 ? 20 * Math.log10(max) : -100;
   }
 
+  public getParameters(): PluginParameter[] {
+    return [
+      { id: 'threshold', name: 'Threshold', type: 'float', min: -60, max: 0, value: this.params.threshold, unit: 'dB' },
+      { id: 'ratio', name: 'Ratio', type: 'float', min: 1, max: 20, value: this.params.ratio, unit: ':1' },
+      { id: 'knee', name: 'Knee', type: 'float', min: 0, max: 40, value: this.params.knee, unit: 'dB' },
+      { id: 'attack', name: 'Attack', type: 'float', min: 0.0001, max: 0.1, value: this.params.attack, unit: 's' },
+      { id: 'release', name: 'Release', type: 'float', min: 0.01, max: 1, value: this.params.release, unit: 's' },
+      { id: 'makeupGain', name: 'Makeup', type: 'float', min: 1, max: 16, value: this.params.makeupGain },
+      { id: 'mix', name: 'Dry/Wet', type: 'float', min: 0, max: 1, value: this.params.mix, unit: '%' },
+      { id: 'scHpFreq', name: 'SC High-Pass', type: 'float', min: 20, max: 500, value: this.params.scHpFreq, unit: 'Hz' }
+    ];
+  }
+
   public getAudioParam(paramId: string): AudioParam | null {
     switch(paramId) {
       case 'threshold': return this.compressor.threshold;
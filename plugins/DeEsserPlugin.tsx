@@ -20,7 +20,7 @@ export interface DeEsserParams {
 }
 
 export class DeEsserNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   private dryPathFilter: BiquadFilterNode;
@@ -38,7 +38,7 @@ export class DeEsserNode {
     isEnabled: true
   };
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     this.input = ctx.createGain();
     this.output = ctx.createGain();
@@ -22,7 +22,7 @@ const DIVISION_FACTORS: Record<DelayDivision, number> = {
 };
 
 export class SyncDelayNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   
@@ -41,7 +41,7 @@ export class SyncDelayNode {
   private params: DelayParams;
 
   // FIX: Constructor updated to take only one argument (AudioContext) as required by the call site in AudioEngine.
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     this.params = {
       division: '1/4',
@@ -141,10 +141,26 @@ export class SyncDelayNode {
     this.applyParams();
   }
 
+  /**
+   * Suit la carte de tempo : la division est recalculée au tempo de l'instant `when`.
+   */
+  public syncTempo(bpm: number, when: number) {
+    if (!bpm || bpm === this.params.bpm) return;
+    this.params.bpm = bpm;
+    if (!this.params.isEnabled) return;
+    const delaySeconds = this.getDelaySeconds();
+    this.delayNodeL.delayTime.setTargetAtTime(delaySeconds, when, 0.05);
+    this.delayNodeR.delayTime.setTargetAtTime(delaySeconds, when, 0.05);
+  }
+
+  private getDelaySeconds() {
+    const beatDuration = 60 / (this.params.bpm || 120);
+    return beatDuration * DIVISION_FACTORS[this.params.division];
+  }
+
   private applyParams() {
     const now = this.ctx.currentTime;
-    const beatDuration = 60 / (this.params.bpm || 120);
-    const delaySeconds = beatDuration * DIVISION_FACTORS[this.params.division];
+    const delaySeconds = this.getDelaySeconds();
     const safe = (v: number, def: number) => Number.isFinite(v) ? v : def;
 
     if (this.params.isEnabled) {
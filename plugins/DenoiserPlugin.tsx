@@ -26,7 +26,7 @@ const DENOISER_PRESETS = [
 ];
 
 export class DenoiserNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   private gainNode: GainNode;
@@ -52,7 +52,7 @@ export class DenoiserNode {
   private isGateOpen: boolean = true;
   private updateInterval: number | null = null;
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     
     // Create nodes
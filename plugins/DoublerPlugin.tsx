@@ -18,7 +18,7 @@ export interface DoublerParams {
 }
 
 export class VocalDoublerNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   
@@ -46,7 +46,7 @@ export class VocalDoublerNode {
     isEnabled: true
   };
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     this.input = ctx.createGain();
     this.output = ctx.createGain();
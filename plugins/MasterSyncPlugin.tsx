@@ -22,7 +22,7 @@ export interface MasterSyncParams {
 }
 
 export class MasterSyncNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   private params: MasterSyncParams = {
@@ -36,7 +36,7 @@ export class MasterSyncNode {
     hasResult: false
   };
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     this.input = ctx.createGain();
     this.output = ctx.createGain();
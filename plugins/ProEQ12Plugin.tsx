@@ -31,7 +31,7 @@ const MAX_GAIN = DB_SCALE;
 const MIN_GAIN = -DB_SCALE; // Added missing constant
 
 export class ProEQ12Node {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   public preAnalyzer: AnalyserNode;
@@ -39,7 +39,7 @@ export class ProEQ12Node {
   private filters: BiquadFilterNode[] = [];
   private params: ProEQ12Params;
 
-  constructor(ctx: AudioContext, initialParams?: ProEQ12Params) {
+  constructor(ctx: BaseAudioContext, initialParams?: ProEQ12Params) {
     this.ctx = ctx;
     
     // Default params if not provided
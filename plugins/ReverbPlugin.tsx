@@ -74,7 +74,7 @@ export const REVERB_PRESETS: Array<Partial<ReverbParams> & { name: string }> = [
 ];
 
 export class ReverbNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   
@@ -146,7 +146,7 @@ export class ReverbNode {
     isEnabled: true
   };
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     
     // I/O
@@ -479,6 +479,16 @@ export class ReverbNode {
     return max > 0 ? 20 * Math.log10(max) : -100;
   }
 
+  public getParameters(): PluginParameter[] {
+    return [
+      { id: 'mix', name: 'Dry/Wet', type: 'float', min: 0, max: 1, value: this.params.mix, unit: '%' },
+      { id: 'preDelay', name: 'Pre-Delay', type: 'float', min: 0, max: 0.2, value: this.params.preDelay, unit: 's' },
+      { id: 'damping', name: 'Damping', type: 'float', min: 1000, max: 20000, value: this.params.damping, unit: 'Hz' },
+      { id: 'lowCut', name: 'Low Cut', type: 'float', min: 20, max: 1000, value: this.params.lowCut, unit: 'Hz' },
+      { id: 'highCut', name: 'High Cut', type: 'float', min: 1000, max: 20000, value: this.params.highCut, unit: 'Hz' }
+    ];
+  }
+
   public getAudioParam(paramId: string): AudioParam | null {
     switch (paramId) {
       case 'mix': return this.wetGain.gain;
@@ -9,7 +9,7 @@ export interface SpreaderParams {
 }
 
 export class StereoSpreaderNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
 
@@ -32,7 +32,7 @@ export class StereoSpreaderNode {
     isEnabled: true
   };
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     this.input = ctx.createGain();
     this.output = ctx.createGain();
@@ -21,7 +21,7 @@ export interface SaturatorParams {
 }
 
 export class VocalSaturatorNode {
-  private ctx: AudioContext;
+  private ctx: BaseAudioContext;
   public input: GainNode;
   public output: GainNode;
   private driveGain: GainNode;
@@ -46,7 +46,7 @@ export class VocalSaturatorNode {
     isEnabled: true
   };
 
-  constructor(ctx: AudioContext) {
+  constructor(ctx: BaseAudioContext) {
     this.ctx = ctx;
     this.input = ctx.createGain();
     this.output = ctx.createGain();
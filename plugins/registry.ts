@@ -1,4 +1,3 @@
-
 import React from 'react';
 import { PluginType } from '../types';
 
@@ -10,7 +9,7 @@ import { FlangerNode } from './FlangerPlugin';
 import { VocalDoublerNode } from './DoublerPlugin';
 import { StereoSpreaderNode } from './StereoSpreaderPlugin';
 import { CompressorNode } from './CompressorPlugin';
-import { AutoTuneNode } from './autotune-pro/AutoTuneNode'; // Updated to use the clean node
+import { AutoTuneNode } from './AutoTunePlugin';
 import { DeEsserNode } from './DeEsserPlugin';
 import { DenoiserNode } from './DenoiserPlugin';
 import { ProEQ12Node } from './ProEQ12Plugin';
@@ -21,9 +20,11 @@ import { MasterSyncNode } from './MasterSyncPlugin';
 import { MelodicSamplerNode } from '../engine/MelodicSamplerNode';
 import { DrumSamplerNode } from '../engine/DrumSamplerNode';
 import { DrumRackNode } from '../engine/DrumRackNode';
+import { AudioSampler } from '../engine/AudioSampler';
+import { Synthesizer, DEFAULT_SYNTH_PARAMS } from '../engine/Synthesizer';
 
 // LAZY LOADED UI COMPONENTS
-const AutoTuneUI = React.lazy(() => import('./autotune-pro/AutoTuneUI').then(m => ({ default: m.AutoTuneUI })));
+const AutoTuneUI = React.lazy(() => import('./AutoTunePlugin').then(m => ({ default: m.AutoTuneUI })));
 const ProfessionalReverbUI = React.lazy(() => import('./ReverbPlugin').then(m => ({ default: m.ProfessionalReverbUI })));
 const VocalCompressorUI = React.lazy(() => import('./CompressorPlugin').then(m => ({ default: m.VocalCompressorUI })));
 const SyncDelayUI = React.lazy(() => import('./DelayPlugin').then(m => ({ default: m.SyncDelayUI })));
@@ -37,9 +38,11 @@ const ProEQ12UI = React.lazy(() => import('./ProEQ12Plugin').then(m => ({ defaul
 const VocalSaturatorUI = React.lazy(() => import('./VocalSaturatorPlugin').then(m => ({ default: m.VocalSaturatorUI })));
 const MasterSyncUI = React.lazy(() => import('./MasterSyncPlugin').then(m => ({ default: m.MasterSyncUI })));
 
+const SamplerEditor = React.lazy(() => import('../components/SamplerEditor'));
 const MelodicSamplerEditor = React.lazy(() => import('../components/MelodicSamplerEditor'));
 const DrumSamplerEditor = React.lazy(() => import('../components/DrumSamplerEditor'));
 const DrumRack = React.lazy(() => import('../components/DrumRack'));
+const SynthEditor = React.lazy(() => import('../components/SynthEditor'));
 const VSTPluginWindow = React.lazy(() => import('../components/VSTPluginWindow'));
 
 export interface PluginEntry {
@@ -49,11 +52,18 @@ export interface PluginEntry {
   icon: string;
   color: string;
   category: 'DYNAMICS' | 'SPATIAL' | 'MODULATION' | 'PITCH' | 'EQ' | 'UTILITY' | 'INSTRUMENT' | 'EXTERNAL';
-  factory: (ctx: AudioContext, params: any, bpm: number) => any;
+  // Works with both the live AudioContext and the OfflineAudioContext of the export
+  factory: (ctx: BaseAudioContext, params: any, bpm: number) => any;
   ui: React.LazyExoticComponent<any>;
   defaultParams: any;
 }
 
+const createDefaultEQBands = () => Array.from({ length: 12 }, (_, i) => ({
+  id: i, type: (i === 0 ? 'highpass' : i === 11 ? 'lowpass' : 'peaking'),
+  frequency: [80, 150, 300, 500, 1000, 2000, 4000, 6000, 8000, 10000, 12000, 18000][i],
+  gain: 0, q: 1.0, isEnabled: true, isSolo: false
+}));
+
 export const PLUGIN_REGISTRY: Record<string, PluginEntry> = {
   // --- DYNAMICS ---
   'COMPRESSOR': {
@@ -89,7 +99,7 @@ export const PLUGIN_REGISTRY: Record<string, PluginEntry> = {
     ui: VocalDeEsserUI,
     defaultParams: { threshold: -25, frequency: 6500, q: 1.0, reduction: 0.6, mode: 'BELL', isEnabled: true }
   },
-  
+
   // --- EQ ---
   'PROEQ12': {
     name: 'Pro-EQ 12',
@@ -98,17 +108,9 @@ export const PLUGIN_REGISTRY: Record<string, PluginEntry> = {
     icon: 'fa-wave-square',
     color: '#00f2ff',
     category: 'EQ',
-    factory: (ctx, params) => new ProEQ12Node(ctx, params || { bands: [], masterGain: 1, isEnabled: true }),
+    factory: (ctx, params) => new ProEQ12Node(ctx, params && params.bands ? params : { isEnabled: true, masterGain: 1.0, bands: createDefaultEQBands() }),
     ui: ProEQ12UI,
-    defaultParams: {
-        isEnabled: true, 
-        masterGain: 1.0, 
-        bands: Array.from({ length: 12 }, (_, i) => ({
-            id: i, type: (i === 0 ? 'highpass' : i === 11 ? 'lowpass' : 'peaking'), 
-            frequency: [80, 150, 300, 500, 1000, 2000, 4000, 6000, 8000, 10000, 12000, 18000][i], 
-            gain: 0, q: 1.0, isEnabled: true, isSolo: false
-        }))
-    }
+    defaultParams: { isEnabled: true, masterGain: 1.0, bands: createDefaultEQBands() }
   },
 
   // --- SPATIAL ---
@@ -130,7 +132,7 @@ export const PLUGIN_REGISTRY: Record<string, PluginEntry> = {
     icon: 'fa-history',
     color: '#0ea5e9',
     category: 'SPATIAL',
-    factory: (ctx, _, bpm) => new SyncDelayNode(ctx, bpm || 120),
+    factory: (ctx) => new SyncDelayNode(ctx),
     ui: SyncDelayUI,
     defaultParams: { division: '1/4', feedback: 0.4, damping: 5000, mix: 0.3, pingPong: false, bpm: 120, isEnabled: true }
   },
@@ -219,6 +221,17 @@ export const PLUGIN_REGISTRY: Record<string, PluginEntry> = {
   },
 
   // --- INSTRUMENTS ---
+  'SAMPLER': {
+      name: 'Sampler',
+      type: 'SAMPLER',
+      description: 'Chromatic Sample Player',
+      icon: 'fa-compact-disc',
+      color: '#eab308',
+      category: 'INSTRUMENT',
+      factory: (ctx, _, bpm) => new AudioSampler(ctx, bpm || 120),
+      ui: SamplerEditor,
+      defaultParams: { isEnabled: true }
+  },
   'MELODIC_SAMPLER': {
       name: 'Melodic Sampler',
       type: 'MELODIC_SAMPLER',
@@ -230,6 +243,17 @@ export const PLUGIN_REGISTRY: Record<string, PluginEntry> = {
       ui: MelodicSamplerEditor,
       defaultParams: { rootKey: 60, fineTune: 0, glide: 0.05, loop: true, loopStart: 0, loopEnd: 1, attack: 0.01, decay: 0.3, sustain: 0.5, release: 0.5, filterCutoff: 20000, filterRes: 0, velocityToFilter: 0.5, lfoRate: 4, lfoAmount: 0, lfoDest: 'PITCH', saturation: 0, bitCrush: 0, chorus: 0, width: 0.5, isEnabled: true }
   },
+  'SYNTH': {
+      name: 'Poly Synth',
+      type: 'SYNTH',
+      description: 'Subtractive Synthesizer',
+      icon: 'fa-keyboard',
+      color: '#ec4899',
+      category: 'INSTRUMENT',
+      factory: (ctx, params) => new Synthesizer(ctx, params),
+      ui: SynthEditor,
+      defaultParams: DEFAULT_SYNTH_PARAMS
+  },
   'DRUM_SAMPLER': {
       name: 'Drum Sampler',
       type: 'DRUM_SAMPLER',
@@ -252,7 +276,7 @@ export const PLUGIN_REGISTRY: Record<string, PluginEntry> = {
       ui: DrumRack,
       defaultParams: { isEnabled: true }
   },
-  
+
   // --- EXTERNAL ---
   'VST3': {
       name: 'VST3 Bridge',
@@ -266,3 +290,9 @@ export const PLUGIN_REGISTRY: Record<string, PluginEntry> = {
       defaultParams: { localPath: '', isEnabled: true }
   }
 };
+
+// Instruments et VST ne sont pas des inserts : ils restent transparents dans la chaîne
+export const isInsertPlugin = (type: string) => {
+  const entry = PLUGIN_REGISTRY[type];
+  return !!entry && entry.category !== 'INSTRUMENT' && entry.category !== 'EXTERNAL';
+};
@@ -0,0 +1,76 @@
+/**
+ * Recorder Processor
+ * Capture PCM Float32 brute sur le thread audio (remplace MediaRecorder / webm-opus).
+ * Les échantillons sont envoyés par paquets de CHUNK_FRAMES, buffers transférés sans copie.
+ */
+
+const CHUNK_FRAMES = 4096;
+
+class RecorderProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+
+    this.recording = false;
+    this.hasStarted = false;  // Premier bloc capturé déjà signalé
+    this.channelCount = 0;    // Figé au premier bloc
+    this.buffers = [];
+    this.writeIndex = 0;
+
+    this.port.onmessage = (event) => {
+      const msg = event.data;
+      if (msg.type === 'start') {
+        this.recording = true;
+        this.hasStarted = false;
+        this.channelCount = 0;
+        this.writeIndex = 0;
+      } else if (msg.type === 'stop') {
+        if (this.recording) this.flush();
+        this.recording = false;
+        this.port.postMessage({ type: 'stopped' });
+      }
+    };
+  }
+
+  allocate() {
+    this.buffers = [];
+    for (let ch = 0; ch < this.channelCount; ch++) this.buffers.push(new Float32Array(CHUNK_FRAMES));
+    this.writeIndex = 0;
+  }
+
+  flush() {
+    if (this.writeIndex === 0) return;
+    const channels = this.buffers.map(buffer => buffer.slice(0, this.writeIndex));
+    this.port.postMessage({ type: 'data', channels }, channels.map(c => c.buffer));
+    this.allocate();
+  }
+
+  process(inputs) {
+    if (!this.recording) return true;
+    const input = inputs[0] || [];
+    const frames = input[0] ? input[0].length : 128;
+
+    if (!this.hasStarted) {
+      // Heure du contexte du premier échantillon : sert à aligner la prise sur le projet
+      this.hasStarted = true;
+      this.channelCount = Math.max(1, input.length);
+      this.allocate();
+      this.port.postMessage({ type: 'started', time: currentTime });
+    }
+
+    let read = 0;
+    while (read < frames) {
+      const count = Math.min(frames - read, CHUNK_FRAMES - this.writeIndex);
+      for (let ch = 0; ch < this.channelCount; ch++) {
+        // Entrée déconnectée ou canal manquant : silence / copie du premier canal, le temps continue
+        const source = input[ch] || input[0];
+        if (source) this.buffers[ch].set(source.subarray(read, read + count), this.writeIndex);
+      }
+      this.writeIndex += count;
+      read += count;
+      if (this.writeIndex === CHUNK_FRAMES) this.flush();
+    }
+    return true;
+  }
+}
+
+registerProcessor('recorder-processor', RecorderProcessor);
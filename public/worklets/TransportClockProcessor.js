@@ -0,0 +1,48 @@
+/**
+ * Transport Clock Processor
+ * Horloge du transport cadencée par le thread audio : publie les fenêtres de planification
+ * sans dépendre de setInterval (onglets en arrière-plan, rendus React lourds).
+ */
+
+class TransportClockProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+
+    this.running = false;
+    this.nextWindow = 0;   // Début de la prochaine fenêtre (temps du contexte)
+    this.windowSec = 0.1;  // Taille d'une fenêtre = avance de planification
+    this.generation = 0;   // Identifie la lecture en cours (les fenêtres périmées sont ignorées)
+
+    this.port.onmessage = (event) => {
+      const msg = event.data;
+      if (msg.type === 'start') {
+        this.running = true;
+        this.nextWindow = msg.from;
+        this.windowSec = msg.windowSec;
+        this.generation = msg.generation;
+      } else if (msg.type === 'stop') {
+        this.running = false;
+      } else if (msg.type === 'config') {
+        this.windowSec = msg.windowSec;
+      }
+    };
+  }
+
+  process() {
+    if (this.running) {
+      // Toujours une fenêtre d'avance : le thread principal dispose de windowSec pour planifier
+      while (this.nextWindow < currentTime + this.windowSec) {
+        this.port.postMessage({
+          type: 'window',
+          from: this.nextWindow,
+          to: this.nextWindow + this.windowSec,
+          generation: this.generation
+        });
+        this.nextWindow += this.windowSec;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('transport-clock-processor', TransportClockProcessor);
@@ -1,5 +1,7 @@
 
-import { AutomationPoint } from '../types';
+import { AutomationPoint, AutomationMode, Track } from '../types';
+import { audioEngine } from '../engine/AudioEngine';
+import { getAutomationValueAt, thinAutomationPoints, generateId } from '../utils/helpers';
 
 /**
  * AUTOMATION MANAGER (Observer Pattern)
@@ -7,6 +9,10 @@ import { AutomationPoint } from '../types';
  * Orchestre l'enregistrement et la lecture des automations pour:
  * 1. WebAudio (Natif) -> Haute fréquence (Sample accurate-ish)
  * 2. VST (Bridge Python) -> Basse fréquence (Throttled ~30ms)
+ *
+ * Les courbes vivent dans `Track.automationLanes` : la lecture audio est faite par
+ * l'AudioEngine, ce manager n'en garde qu'un miroir pour animer les contrôles et
+ * renvoie chaque passe d'écriture au projet via le `LaneWriter`.
  */
 
 type ParamCallback = (value: number) => void;
@@ -18,9 +24,42 @@ interface RegisteredParam {
   callback: ParamCallback;
   isBridged: boolean; // True si c'est un VST (nécessite throttling)
   lastUpdate: number; // Pour le throttling
+  lane?: LaneTarget; // Paramètre automatisable de la piste (absent = contrôle non enregistrable)
+  info?: ParamInfo;
+  lastValue: number;
 }
 
-export type AutomationMode = 'OFF' | 'READ' | 'WRITE' | 'LATCH';
+// Nom et plage du contrôle, pour le piloter depuis un contrôleur MIDI
+export interface ParamInfo {
+  label: string;
+  min: number;
+  max: number;
+}
+
+export interface LaneTarget {
+  parameterName: string; // 'volume' | 'pan' | 'send::<id>' | 'plugin::<pluginId>::<paramId>'
+  min: number;
+  max: number;
+}
+
+// Passe d'écriture en cours sur un paramètre
+interface WritePass {
+  start: number;
+  points: AutomationPoint[];
+  isTouched: boolean;
+}
+
+export interface AutomationPass {
+  trackId: string;
+  lane: LaneTarget;
+  start: number;
+  end: number;
+  points: AutomationPoint[];
+}
+
+export type LaneWriter = (pass: AutomationPass) => void;
+
+export type { AutomationMode };
 
 class AutomationManager {
   private static instance: AutomationManager;
@@ -28,17 +67,25 @@ class AutomationManager {
   // Registre des paramètres pilotables
   private registry: Map<string, RegisteredParam> = new Map();
   
-  // Données d'automation (Courbes)
-  // Map<ParamID, Points[]>
+  // Miroir des courbes du projet
+  // Map<trackId::parameterName, Points[]>
   private automationData: Map<string, AutomationPoint[]> = new Map();
   
   // État global
   private mode: AutomationMode = 'READ';
   private recordingParams: Set<string> = new Set(); // Paramètres en cours de modification (Touch)
+  private passes: Map<string, WritePass> = new Map();
+  private laneWriter: LaneWriter | null = null;
+  private wasPlaying = false;
+  private lastTime = 0;
   
   // Throttling configuration
   private readonly VST_THROTTLE_MS = 30;
 
+  // Écriture : un point toutes les 20ms max, puis simplification à 0.5% de la plage
+  private readonly WRITE_INTERVAL_SEC = 0.02;
+  private readonly THIN_TOLERANCE = 0.005;
+
   private constructor() {
     this.loop = this.loop.bind(this);
     // Démarrer la boucle de lecture (RAF)
@@ -63,7 +110,9 @@ class AutomationManager {
     targetId: string, 
     callback: ParamCallback, 
     defaultValue: number = 0,
-    isBridged: boolean = false
+    isBridged: boolean = false,
+    lane?: LaneTarget,
+    info?: ParamInfo
   ) {
     this.registry.set(paramId, {
       id: paramId,
@@ -71,11 +120,15 @@ class AutomationManager {
       callback,
       defaultValue,
       isBridged,
-      lastUpdate: 0
+      lastUpdate: 0,
+      lane,
+      info,
+      lastValue: defaultValue
     });
   }
 
   public unregister(paramId: string) {
+    this.commitPass(paramId);
     this.registry.delete(paramId);
   }
 
@@ -83,48 +136,103 @@ class AutomationManager {
    * PILIER 2 : ENREGISTREMENT (WRITE)
    * Appelé par l'UI quand un bouton bouge.
    */
-  public setValue(paramId: string, value: number, time: number) {
+  public setValue(paramId: string, value: number, time: number = audioEngine.getCurrentTime()) {
     const param = this.registry.get(paramId);
     if (!param) return;
 
     // 1. Application immédiate (Feedback visuel + Audio)
+    param.lastValue = value;
     this.applyValue(param, value);
 
     // 2. Logique d'enregistrement
-    if (this.mode === 'WRITE' && this.recordingParams.has(paramId)) {
-      this.addPoint(paramId, time, value);
-    }
+    const pass = this.passes.get(paramId);
+    if (pass) this.addPoint(pass, time, value);
   }
 
   // Appelé quand l'utilisateur clique/touche le bouton
   public touch(paramId: string) {
     this.recordingParams.add(paramId);
-    // En mode LATCH, on pourrait effacer la courbe future ici
+    const pass = this.passes.get(paramId);
+    if (pass) {
+      pass.isTouched = true;
+      return;
+    }
+    if (this.isWriting()) this.startPass(paramId, audioEngine.getCurrentTime(), true);
   }
 
   // Appelé quand l'utilisateur relâche
   public release(paramId: string) {
     this.recordingParams.delete(paramId);
+    const pass = this.passes.get(paramId);
+    if (!pass) return;
+
+    // TOUCH : la lane reprend la lecture dès le relâchement
+    // LATCH / WRITE : la dernière valeur reste écrite jusqu'au stop
+    if (this.mode === 'TOUCH') this.commitPass(paramId);
+    else pass.isTouched = false;
   }
 
-  private addPoint(paramId: string, time: number, value: number) {
-    let lane = this.automationData.get(paramId);
-    if (!lane) {
-      lane = [];
-      this.automationData.set(paramId, lane);
-    }
+  /**
+   * Pousse les courbes du projet dans le miroir (appelé à chaque changement de pistes).
+   */
+  public syncLanes(tracks: Track[]) {
+    this.automationData.clear();
+    tracks.forEach(track => track.automationLanes.forEach(lane => {
+      if (lane.points.length > 0) this.automationData.set(`${track.id}::${lane.parameterName}`, [...lane.points].sort((a, b) => a.time - b.time));
+    }));
+  }
 
-    // Optimisation simple: remplacer le dernier point si très proche dans le temps
-    const lastPoint = lane[lane.length - 1];
-    if (lastPoint && Math.abs(lastPoint.time - time) < 0.05) {
-      lastPoint.value = value;
+  public setLaneWriter(writer: LaneWriter | null) { this.laneWriter = writer; }
+
+  private isWriting() {
+    return audioEngine.getIsPlaying() && (this.mode === 'TOUCH' || this.mode === 'LATCH' || this.mode === 'WRITE');
+  }
+
+  private startPass(paramId: string, time: number, isTouched: boolean) {
+    const param = this.registry.get(paramId);
+    if (!param || !param.lane) return;
+
+    audioEngine.setAutomationOverride(param.targetId, param.lane.parameterName, true);
+    this.passes.set(paramId, { start: time, points: [{ id: generateId('pt'), time, value: param.lastValue }], isTouched });
+  }
+
+  private addPoint(pass: WritePass, time: number, value: number) {
+    const lastPoint = pass.points[pass.points.length - 1];
+    if (time < lastPoint.time) return;
+
+    // Un point par intervalle : le dernier est remplacé tant que l'intervalle n'est pas écoulé
+    if (pass.points.length > 1 && time - pass.points[pass.points.length - 2].time < this.WRITE_INTERVAL_SEC) {
       lastPoint.time = time;
+      lastPoint.value = value;
     } else {
-      lane.push({ id: `pt-${Date.now()}`, time, value });
+      pass.points.push({ id: generateId('pt'), time, value });
     }
-    
-    // Trier par temps pour lecture rapide (même si l'ajout est séquentiel, sécurité)
-    // lane.sort((a, b) => a.time - b.time); 
+  }
+
+  /**
+   * Termine une passe : simplification des points puis écriture dans la lane de la piste.
+   */
+  private commitPass(paramId: string, endTime: number = audioEngine.getCurrentTime()) {
+    const pass = this.passes.get(paramId);
+    if (!pass) return;
+    this.passes.delete(paramId);
+
+    const param = this.registry.get(paramId);
+    if (!param || !param.lane) return;
+    audioEngine.setAutomationOverride(param.targetId, param.lane.parameterName, false);
+
+    const end = Math.max(pass.points[pass.points.length - 1].time, Math.min(endTime, this.lastTime));
+    this.addPoint(pass, end, param.lastValue);
+
+    const tolerance = (param.lane.max - param.lane.min) * this.THIN_TOLERANCE;
+    const points = thinAutomationPoints(pass.points, tolerance);
+    if (this.laneWriter) {
+      this.laneWriter({ trackId: param.targetId, lane: param.lane, start: pass.start, end, points });
+    }
+  }
+
+  private commitAll() {
+    Array.from(this.passes.keys()).forEach(id => this.commitPass(id, this.lastTime));
   }
 
   /**
@@ -132,28 +240,49 @@ class AutomationManager {
    * Boucle principale
    */
   private loop() {
-    // Si on a accès au temps global du DAW (via window.DAW_CONTROL ou autre)
-    const currentTime = window.DAW_CONTROL ? window.DAW_CONTROL.getState().currentTime : 0;
-    const isPlaying = window.DAW_CONTROL ? window.DAW_CONTROL.getState().isPlaying : false;
+    const currentTime = audioEngine.getCurrentTime();
+    const isPlaying = audioEngine.getIsPlaying();
+
+    if (isPlaying) {
+      // Retour de boucle : chaque tour devient une passe distincte
+      if (currentTime < this.lastTime - 0.05) {
+        const touched = Array.from(this.passes.entries()).filter(([, pass]) => pass.isTouched || this.mode !== 'TOUCH').map(([id]) => id);
+        this.commitAll();
+        touched.forEach(id => this.startPass(id, currentTime, this.recordingParams.has(id)));
+      }
+      this.lastTime = currentTime;
+
+      // WRITE : toutes les lanes existantes sont réécrites dès le départ
+      if (!this.wasPlaying && this.mode === 'WRITE') {
+        this.registry.forEach((param, id) => {
+          if (param.lane && this.automationData.has(`${param.targetId}::${param.lane.parameterName}`)) this.startPass(id, currentTime, false);
+        });
+      }
 
-    if (this.mode === 'READ' && isPlaying) {
       this.registry.forEach((param, id) => {
-        // Ne pas lire l'automation si l'utilisateur est en train de toucher le bouton (Override)
-        if (this.recordingParams.has(id)) return;
+        const pass = this.passes.get(id);
+        if (pass) {
+          // LATCH / WRITE : la valeur tenue continue d'être écrite
+          if (!pass.isTouched) this.addPoint(pass, currentTime, param.lastValue);
+          return;
+        }
+        if (this.mode === 'OFF' || this.mode === 'WRITE' || !param.lane) return;
 
-        const points = this.automationData.get(id);
+        const points = this.automationData.get(`${param.targetId}::${param.lane.parameterName}`);
         if (points && points.length > 0) {
-          const value = this.interpolate(points, currentTime);
+          const value = getAutomationValueAt(points, currentTime);
           if (value !== null) {
-            this.applyValue(param, value);
-            // TODO: Mettre à jour l'UI visuelle du bouton (via un EventSystem ou React State externe)
-            // Pour l'instant, le callback gère l'audio, mais l'UI React ne sera pas mise à jour 
-            // à 60fps sans un système de subscription dédié pour éviter les re-renders massifs.
+            param.lastValue = value;
+            // Les paramètres natifs sont joués par l'AudioEngine, seuls les VST reçoivent la valeur
+            if (param.isBridged) this.applyValue(param, value);
             this.notifyUI(id, value);
           }
         }
       });
+    } else if (this.wasPlaying) {
+      this.commitAll();
     }
+    this.wasPlaying = isPlaying;
 
     requestAnimationFrame(this.loop);
   }
@@ -177,26 +306,6 @@ class AutomationManager {
     }
   }
 
-  private interpolate(points: AutomationPoint[], time: number): number | null {
-    // Recherche dichotomique ou linéaire simple pour trouver les points entourants
-    // Optimisation: On pourrait stocker le dernier index lu pour aller plus vite
-    
-    if (time < points[0].time) return points[0].value;
-    if (time > points[points.length - 1].time) return points[points.length - 1].value;
-
-    for (let i = 0; i < points.length - 1; i++) {
-      const p1 = points[i];
-      const p2 = points[i + 1];
-
-      if (time >= p1.time && time < p2.time) {
-        const ratio = (time - p1.time) / (p2.time - p1.time);
-        // Interpolation Linéaire
-        return p1.value + (p2.value - p1.value) * ratio;
-      }
-    }
-    return null;
-  }
-
   // Système simple pour notifier l'UI sans re-render React complet
   private uiListeners: Map<string, (val: number) => void> = new Map();
   
@@ -214,16 +323,16 @@ class AutomationManager {
   }
 
   // API Publique
-  public setMode(m: AutomationMode) { this.mode = m; }
-  public getMode() { return this.mode; }
-  public getAutomationData(paramId: string) { return this.automationData.get(paramId) || []; }
-  
-  // Import/Export
-  public loadAutomation(data: Record<string, AutomationPoint[]>) {
-      Object.entries(data).forEach(([key, points]) => {
-          this.automationData.set(key, points);
-      });
+  public setMode(m: AutomationMode) {
+    if (m === this.mode) return;
+    this.commitAll();
+    this.mode = m;
+    audioEngine.setAutomationMode(m);
   }
+  public getMode() { return this.mode; }
+  public getParamInfo(paramId: string) { return this.registry.get(paramId)?.info; }
+  public getValue(paramId: string) { return this.registry.get(paramId)?.lastValue; }
+  public getAutomationData(trackId: string, parameterName: string) { return this.automationData.get(`${trackId}::${parameterName}`) || []; }
 }
 
 export const automationManager = AutomationManager.getInstance();
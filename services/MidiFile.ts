@@ -0,0 +1,352 @@
+import { Clip, MidiControlEvent, MidiControllerLane, MidiNote, TempoMap, TempoMarker, MeterMarker, TrackType } from '../types';
+import { beatToTime, timeToBeat, tempoAt, barToBeat, beatsPerBar, getMeterAtBar, timeToBar, midiOffsetToTime, timeToMidiOffset, generateId } from '../utils/helpers';
+
+/**
+ * STANDARD MIDI FILE
+ * Lecture (format 0 / 1) et écriture (format 1) des fichiers .mid.
+ * Les positions du fichier sont gardées en noires : le placement sur la timeline passe par
+ * la tempo map, les notes restent sur leur temps quel que soit le tempo.
+ */
+
+export interface SmfNote {
+  pitch: number;
+  velocity: number; // 0..1
+  beat: number;
+  duration: number; // En noires
+}
+
+export interface SmfControl {
+  event: MidiControlEvent;
+  beat: number;
+}
+
+export interface SmfTrack {
+  name: string;
+  channel: number; // 1-16
+  notes: SmfNote[];
+  controls: SmfControl[];
+}
+
+export interface SmfFile {
+  tracks: SmfTrack[];
+  tempos: { beat: number, bpm: number }[];
+  meters: { beat: number, numerator: number, denominator: number }[];
+}
+
+// Piste du projet à écrire : ses clips MIDI, lus à partir de `originBeat`
+export interface SmfExportTrack {
+  name: string;
+  channel: number;
+  clips: Clip[];
+}
+
+interface RawEvent {
+  tick: number;
+  data: number[];
+}
+
+export class MidiFile {
+  private static PPQ = 480;
+  private static DRUM_CHANNEL = 10;
+
+  public static isMidiFile(file: File) { return /\.midi?$/i.test(file.name) || file.type === 'audio/midi'; }
+
+  // --- LECTURE ---
+  public static parse(buffer: ArrayBuffer): SmfFile {
+    const reader = new ByteReader(new Uint8Array(buffer));
+    if (reader.text(4) !== 'MThd') throw new Error('Not a Standard MIDI File');
+    const headerLength = reader.uint32();
+    const format = reader.uint16();
+    const trackCount = reader.uint16();
+    const division = reader.uint16();
+    reader.skip(headerLength - 6);
+    if (format > 1) throw new Error(`SMF format ${format} is not supported`);
+    if (division & 0x8000) throw new Error('SMPTE time division is not supported');
+
+    const file: SmfFile = { tracks: [], tempos: [], meters: [] };
+    for (let i = 0; i < trackCount && !reader.isDone(); i++) {
+      const chunk = reader.text(4);
+      const length = reader.uint32();
+      if (chunk !== 'MTrk') { reader.skip(length); continue; }
+      MidiFile.parseTrack(new ByteReader(reader.bytes(length)), division, file);
+    }
+    file.tempos.sort((a, b) => a.beat - b.beat);
+    file.meters.sort((a, b) => a.beat - b.beat);
+    return file;
+  }
+
+  // Une piste SMF par canal utilisé : un fichier format 0 donne plusieurs pistes
+  private static parseTrack(reader: ByteReader, division: number, file: SmfFile) {
+    let tick = 0;
+    let status = 0;
+    let name = '';
+    const channels: Map<number, SmfTrack> = new Map();
+    const held: Map<string, { beat: number, velocity: number }[]> = new Map(); // Key: canal:note
+    const getChannel = (channel: number) => {
+      if (!channels.has(channel)) channels.set(channel, { name: '', channel, notes: [], controls: [] });
+      return channels.get(channel)!;
+    };
+
+    while (!reader.isDone()) {
+      tick += reader.varLength();
+      const beat = tick / division;
+      const byte = reader.uint8();
+
+      if (byte === 0xFF) {
+        const type = reader.uint8();
+        const data = reader.bytes(reader.varLength());
+        if (type === 0x03 && !name) name = new TextDecoder().decode(data).trim();
+        else if (type === 0x51) file.tempos.push({ beat, bpm: 60000000 / ((data[0] << 16) | (data[1] << 8) | data[2]) });
+        else if (type === 0x58) file.meters.push({ beat, numerator: data[0], denominator: Math.pow(2, data[1]) });
+        else if (type === 0x2F) break;
+        continue;
+      }
+      if (byte === 0xF0 || byte === 0xF7) {
+        reader.skip(reader.varLength());
+        continue;
+      }
+
+      // Running status : l'octet lu est déjà la première donnée
+      let data1: number;
+      if (byte & 0x80) {
+        status = byte;
+        data1 = reader.uint8();
+      } else {
+        data1 = byte;
+      }
+      const command = status & 0xF0;
+      const channel = (status & 0x0F) + 1;
+      const data2 = command === 0xC0 || command === 0xD0 ? 0 : reader.uint8();
+      const key = `${channel}:${data1}`;
+
+      if (command === 0x90 && data2 > 0) {
+        if (!held.has(key)) held.set(key, []);
+        held.get(key)!.push({ beat, velocity: data2 / 127 });
+      } else if (command === 0x80 || command === 0x90) {
+        const on = held.get(key)?.shift();
+        if (on) getChannel(channel).notes.push({ pitch: data1, velocity: on.velocity, beat: on.beat, duration: Math.max(0, beat - on.beat) });
+      } else if (command === 0xB0) {
+        getChannel(channel).controls.push({ event: { type: 'CC', cc: data1, value: data2 }, beat });
+      } else if (command === 0xC0) {
+        getChannel(channel).controls.push({ event: { type: 'PROGRAM', value: data1 }, beat });
+      } else if (command === 0xD0) {
+        getChannel(channel).controls.push({ event: { type: 'AFTERTOUCH', value: data1 }, beat });
+      } else if (command === 0xE0) {
+        getChannel(channel).controls.push({ event: { type: 'PITCH_BEND', value: ((data2 << 7) | data1) - 8192 }, beat });
+      }
+    }
+
+    const used = [...channels.values()].filter(t => t.notes.length > 0);
+    used.forEach(track => {
+      const label = name || `Track ${file.tracks.length + 1}`;
+      track.name = used.length > 1 ? `${label} (Ch ${track.channel})` : label;
+      track.notes.sort((a, b) => a.beat - b.beat);
+      file.tracks.push(track);
+    });
+  }
+
+  // --- CONVERSION PROJET ---
+  // Tempo et mesures du fichier (120 BPM en 4/4 par défaut, comme le prévoit la norme)
+  public static toTempoMap(file: SmfFile): TempoMap {
+    const tempos: TempoMarker[] = [{ id: 'tempo-0', beat: 0, bpm: 120 }];
+    file.tempos.forEach(t => {
+      const bpm = Math.round(t.bpm * 1000) / 1000;
+      if (t.beat === 0) tempos[0].bpm = bpm;
+      else if (tempos[tempos.length - 1].bpm !== bpm) tempos.push({ id: generateId('tempo'), beat: t.beat, bpm });
+    });
+
+    const meters: MeterMarker[] = [{ id: 'meter-0', bar: 0, numerator: 4, denominator: 4 }];
+    let bar = 0;
+    let barBeat = 0;
+    file.meters.forEach(m => {
+      const last = meters[meters.length - 1];
+      bar += Math.round((m.beat - barBeat) / beatsPerBar(last));
+      barBeat = m.beat;
+      if (bar === last.bar) Object.assign(last, { numerator: m.numerator, denominator: m.denominator });
+      else meters.push({ id: generateId('meter'), bar, numerator: m.numerator, denominator: m.denominator });
+    });
+    return { tempos, meters };
+  }
+
+  // Piste du fichier -> clip MIDI posé au début du projet, allongé jusqu'à la fin de sa dernière mesure
+  public static toClip(track: SmfTrack, map: TempoMap, color: string): Clip {
+    const toOffset = (beat: number) => timeToMidiOffset(0, beatToTime(beat, map), map);
+    const notes: MidiNote[] = track.notes.map(note => ({
+      id: generateId('note'),
+      pitch: note.pitch,
+      velocity: note.velocity,
+      start: toOffset(note.beat),
+      duration: toOffset(note.beat + note.duration) - toOffset(note.beat)
+    }));
+
+    const lanes: Map<string, MidiControllerLane> = new Map();
+    track.controls.forEach(({ event, beat }) => {
+      const key = `${event.type}:${event.cc ?? ''}`;
+      if (!lanes.has(key)) lanes.set(key, { id: generateId('ctrl'), type: event.type, cc: event.cc, points: [] });
+      lanes.get(key)!.points.push({ id: generateId('pt'), time: toOffset(beat), value: event.value });
+    });
+    lanes.forEach(lane => lane.points.sort((a, b) => a.time - b.time));
+
+    const endBeat = Math.max(...track.notes.map(n => n.beat + n.duration), ...track.controls.map(c => c.beat), 0);
+    const lastBar = Math.max(1, Math.ceil(timeToBar(beatToTime(endBeat, map), map) - 1e-6));
+    return {
+      id: generateId('clip'), start: 0, duration: toOffset(barToBeat(lastBar, map)), offset: 0, fadeIn: 0, fadeOut: 0,
+      name: track.name, color, type: TrackType.MIDI, notes, controllers: [...lanes.values()]
+    };
+  }
+
+  // Clips MIDI de pistes du projet (les clips mutés sont ignorés) dans [originBeat, endBeat[, positions comptées depuis originBeat
+  public static fromClips(tracks: SmfExportTrack[], map: TempoMap, originBeat: number = 0, endBeat: number = Infinity): SmfFile {
+    const toBeat = (clip: Clip, offset: number) => timeToBeat(midiOffsetToTime(clip.start, offset, map), map) - originBeat;
+    const file: SmfFile = { tracks: [], tempos: [], meters: [] };
+
+    tracks.forEach(({ name, channel, clips }) => {
+      const track: SmfTrack = { name, channel, notes: [], controls: [] };
+      clips.filter(c => c.type === TrackType.MIDI && !c.isMuted).forEach(clip => {
+        (clip.notes || []).filter(n => n.start < clip.duration).forEach(note => {
+          const beat = toBeat(clip, note.start);
+          track.notes.push({ pitch: note.pitch, velocity: note.velocity, beat, duration: toBeat(clip, Math.min(clip.duration, note.start + note.duration)) - beat });
+        });
+        (clip.controllers || []).forEach(lane => lane.points.filter(p => p.time <= clip.duration).forEach(point => {
+          track.controls.push({ event: { type: lane.type, cc: lane.cc, value: point.value }, beat: toBeat(clip, point.time) });
+        }));
+      });
+      track.notes = track.notes.filter(n => n.beat >= 0 && n.beat < endBeat - originBeat);
+      track.controls = track.controls.filter(c => c.beat >= 0 && c.beat < endBeat - originBeat);
+      if (track.notes.length > 0) file.tracks.push(track);
+    });
+
+    // Tempo en vigueur à l'origine, puis marqueurs suivants ; les rampes sont écrites par paliers d'une noire
+    const originTime = beatToTime(originBeat, map);
+    file.tempos.push({ beat: 0, bpm: tempoAt(originTime, map) });
+    const markers = [...map.tempos].sort((a, b) => a.beat - b.beat);
+    markers.forEach((marker, i) => {
+      if (i === 0 || marker.beat <= originBeat) return;
+      if (marker.ramp) {
+        for (let beat = Math.max(Math.floor(markers[i - 1].beat) + 1, Math.ceil(originBeat)); beat < marker.beat; beat++) {
+          if (beat > originBeat) file.tempos.push({ beat: beat - originBeat, bpm: tempoAt(beatToTime(beat, map), map) });
+        }
+      }
+      file.tempos.push({ beat: marker.beat - originBeat, bpm: marker.bpm });
+    });
+
+    const originMeter = getMeterAtBar(Math.floor(timeToBar(originTime, map)), map);
+    file.meters.push({ beat: 0, numerator: originMeter.numerator, denominator: originMeter.denominator });
+    map.meters.forEach(meter => {
+      const beat = barToBeat(meter.bar, map);
+      if (beat > originBeat) file.meters.push({ beat: beat - originBeat, numerator: meter.numerator, denominator: meter.denominator });
+    });
+    file.meters.sort((a, b) => a.beat - b.beat);
+    return file;
+  }
+
+  // Canal d'export d'une piste : celui de sa sortie MIDI, 10 pour les batteries
+  public static getExportChannel(type: TrackType, outputChannel?: number) {
+    if (outputChannel) return outputChannel;
+    return type === TrackType.DRUM_RACK ? MidiFile.DRUM_CHANNEL : 1;
+  }
+
+  // --- ÉCRITURE (format 1 : piste 0 = tempo et mesures) ---
+  public static write(file: SmfFile): Uint8Array {
+    const toTick = (beat: number) => Math.max(0, Math.round(beat * MidiFile.PPQ));
+    const conductor: RawEvent[] = [
+      ...file.tempos.map(t => {
+        const micros = Math.round(60000000 / t.bpm);
+        return { tick: toTick(t.beat), data: [0xFF, 0x51, 0x03, (micros >> 16) & 0xFF, (micros >> 8) & 0xFF, micros & 0xFF] };
+      }),
+      ...file.meters.map(m => ({ tick: toTick(m.beat), data: [0xFF, 0x58, 0x04, m.numerator, Math.round(Math.log2(m.denominator)), 24, 8] }))
+    ];
+
+    const chunks = [MidiFile.trackChunk(conductor)];
+    file.tracks.forEach(track => {
+      const channel = Math.max(0, Math.min(15, track.channel - 1));
+      const name = Array.from(new TextEncoder().encode(track.name));
+      const events: RawEvent[] = [{ tick: 0, data: [0xFF, 0x03, ...MidiFile.varLength(name.length), ...name] }];
+      track.controls.forEach(({ event, beat }) => events.push({ tick: toTick(beat), data: MidiFile.controlBytes(event, channel) }));
+      track.notes.forEach(note => {
+        events.push({ tick: toTick(note.beat), data: [0x90 | channel, note.pitch, Math.max(1, Math.round(note.velocity * 127))] });
+        events.push({ tick: Math.max(toTick(note.beat) + 1, toTick(note.beat + note.duration)), data: [0x80 | channel, note.pitch, 0] });
+      });
+      chunks.push(MidiFile.trackChunk(events));
+    });
+
+    const header = [...MidiFile.ascii('MThd'), 0, 0, 0, 6, 0, 1, (chunks.length >> 8) & 0xFF, chunks.length & 0xFF, (MidiFile.PPQ >> 8) & 0xFF, MidiFile.PPQ & 0xFF];
+    return new Uint8Array([...header, ...chunks.flat()]);
+  }
+
+  private static controlBytes(event: MidiControlEvent, channel: number): number[] {
+    switch (event.type) {
+      case 'CC': return [0xB0 | channel, event.cc ?? 0, event.value];
+      case 'PROGRAM': return [0xC0 | channel, event.value];
+      case 'AFTERTOUCH': return [0xD0 | channel, event.value];
+      default: {
+        const value = Math.max(0, Math.min(16383, event.value + 8192));
+        return [0xE0 | channel, value & 0x7F, value >> 7];
+      }
+    }
+  }
+
+  // Événements triés (note-off avant note-on au même tick), deltas, fin de piste
+  private static trackChunk(events: RawEvent[]): number[] {
+    const isNoteOff = (e: RawEvent) => (e.data[0] & 0xF0) === 0x80;
+    const sorted = [...events].sort((a, b) => a.tick - b.tick || Number(isNoteOff(b)) - Number(isNoteOff(a)));
+    const bytes: number[] = [];
+    let tick = 0;
+    sorted.forEach(event => {
+      bytes.push(...MidiFile.varLength(event.tick - tick), ...event.data);
+      tick = event.tick;
+    });
+    bytes.push(0, 0xFF, 0x2F, 0);
+    const length = bytes.length;
+    return [...MidiFile.ascii('MTrk'), (length >>> 24) & 0xFF, (length >> 16) & 0xFF, (length >> 8) & 0xFF, length & 0xFF, ...bytes];
+  }
+
+  private static varLength(value: number): number[] {
+    const bytes = [value & 0x7F];
+    while ((value >>= 7) > 0) bytes.unshift((value & 0x7F) | 0x80);
+    return bytes;
+  }
+
+  private static ascii(text: string): number[] { return Array.from(text, c => c.charCodeAt(0)); }
+}
+
+// Lecture séquentielle big-endian d'un chunk
+class ByteReader {
+  private data: Uint8Array;
+  private pos = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  public isDone() { return this.pos >= this.data.length; }
+
+  public uint8() {
+    if (this.pos >= this.data.length) throw new Error('Unexpected end of MIDI file');
+    return this.data[this.pos++];
+  }
+
+  public uint16() { return (this.uint8() << 8) | this.uint8(); }
+
+  public uint32() { return ((this.uint8() << 24) | (this.uint8() << 16) | (this.uint8() << 8) | this.uint8()) >>> 0; }
+
+  public varLength() {
+    let value = 0;
+    let byte: number;
+    do {
+      byte = this.uint8();
+      value = (value << 7) | (byte & 0x7F);
+    } while (byte & 0x80);
+    return value;
+  }
+
+  public bytes(length: number) {
+    const slice = this.data.subarray(this.pos, this.pos + length);
+    this.pos += length;
+    return slice;
+  }
+
+  public skip(length: number) { this.pos += length; }
+
+  public text(length: number) { return String.fromCharCode(...Array.from(this.bytes(length))); }
+}
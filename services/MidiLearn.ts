@@ -0,0 +1,188 @@
+import { MidiMapping, MidiLearnSource, ControllerPreset } from '../types';
+import { automationManager } from './AutomationManager';
+import { generateId } from '../utils/helpers';
+
+/**
+ * MIDI LEARN
+ * ----------
+ * Lie un CC ou une note du contrôleur à un paramètre du registre d'AutomationManager.
+ * Mode learn : clic sur un contrôle (SmartKnob) puis mouvement du contrôleur.
+ * Les valeurs passent par automationManager.setValue, donc s'écrivent en automation comme la souris.
+ * Les mappings vivent dans le projet (`DAWState.midiMappings`, renvoyés via le MappingWriter) ;
+ * les presets de contrôleur sont globaux (localStorage).
+ */
+
+export type MappingWriter = (mappings: MidiMapping[]) => void;
+
+type LearnListener = () => void;
+
+const PRESETS_KEY = 'nova_midi_controller_presets';
+
+class MidiLearnManager {
+  private static instance: MidiLearnManager;
+
+  private mappings: MidiMapping[] = [];
+  private writer: MappingWriter | null = null;
+  private isLearning = false;
+  private targetParamId: string | null = null;
+  private listeners: Set<LearnListener> = new Set();
+
+  // Reprise (PICKUP) : dernière position du contrôleur et dernière valeur envoyée, par mapping
+  private hardwareValues: Map<string, number> = new Map();
+  private sentValues: Map<string, number> = new Map();
+  private touchTimers: Map<string, number> = new Map(); // Key: paramId
+
+  private readonly PICKUP_TOLERANCE = 0.02; // Fraction de la plage
+  private readonly TOUCH_RELEASE_MS = 400;  // Contrôleur immobile : fin du geste (automation TOUCH)
+
+  private constructor() {}
+
+  public static getInstance(): MidiLearnManager {
+    if (!MidiLearnManager.instance) {
+      MidiLearnManager.instance = new MidiLearnManager();
+    }
+    return MidiLearnManager.instance;
+  }
+
+  // --- PROJET ---
+  public setMappings(mappings: MidiMapping[]) {
+    this.mappings = mappings;
+    this.notify();
+  }
+
+  public getMappings() { return this.mappings; }
+
+  public setMappingWriter(writer: MappingWriter | null) { this.writer = writer; }
+
+  public updateMapping(id: string, changes: Partial<MidiMapping>) {
+    this.write(this.mappings.map(m => m.id === id ? { ...m, ...changes } : m));
+  }
+
+  public removeMapping(id: string) {
+    this.write(this.mappings.filter(m => m.id !== id));
+  }
+
+  private write(mappings: MidiMapping[]) {
+    this.mappings = mappings;
+    this.writer?.(mappings);
+    this.notify();
+  }
+
+  // --- LEARN MODE ---
+  public setLearning(active: boolean) {
+    this.isLearning = active;
+    this.targetParamId = null;
+    this.notify();
+  }
+
+  public getIsLearning() { return this.isLearning; }
+
+  public getTarget() { return this.targetParamId; }
+
+  // Contrôle cliqué pendant le learn : le prochain message MIDI lui sera lié
+  public setTarget(paramId: string) {
+    this.targetParamId = paramId;
+    this.notify();
+  }
+
+  public isMapped(paramId: string) { return this.mappings.some(m => m.paramId === paramId); }
+
+  /**
+   * Message CC / note reçu par MidiManager. `value` = 0..1.
+   * Retourne true si le message est consommé (learn ou mapping) : il ne joue alors pas les pistes.
+   */
+  public handleMessage(source: MidiLearnSource, value: number): boolean {
+    if (this.isLearning && this.targetParamId) {
+      this.learn(this.targetParamId, source);
+      return true;
+    }
+    const mappings = this.mappings.filter(m => MidiLearnManager.isSameSource(m.source, source));
+    mappings.forEach(mapping => this.apply(mapping, value));
+    return mappings.length > 0;
+  }
+
+  // Un contrôle n'a qu'une source, une source pilote un seul contrôle
+  private learn(paramId: string, source: MidiLearnSource) {
+    const info = automationManager.getParamInfo(paramId);
+    const mapping: MidiMapping = {
+      id: generateId('map'), paramId, label: info?.label, source,
+      min: 0, max: 1, curve: 'LINEAR', takeover: 'JUMP'
+    };
+    this.targetParamId = null;
+    this.write([...this.mappings.filter(m => m.paramId !== paramId && !MidiLearnManager.isSameSource(m.source, source)), mapping]);
+  }
+
+  private apply(mapping: MidiMapping, value: number) {
+    const info = automationManager.getParamInfo(mapping.paramId);
+    if (!info) return; // Contrôle pas affiché : rien à piloter
+    const shaped = mapping.curve === 'LOG' ? Math.sqrt(value) : mapping.curve === 'EXP' ? value * value : value;
+    const fraction = mapping.min + shaped * (mapping.max - mapping.min);
+    const target = info.min + fraction * (info.max - info.min);
+
+    const previous = this.hardwareValues.get(mapping.id);
+    this.hardwareValues.set(mapping.id, target);
+    const current = automationManager.getValue(mapping.paramId);
+    // PICKUP : paramètre modifié ailleurs (souris, automation), on attend que le contrôleur le rejoigne
+    if (mapping.takeover === 'PICKUP' && current !== undefined && this.sentValues.get(mapping.id) !== current) {
+      const hasCrossed = previous !== undefined && (previous - current) * (target - current) <= 0;
+      if (!hasCrossed && Math.abs(target - current) > this.PICKUP_TOLERANCE * (info.max - info.min)) return;
+    }
+
+    this.touch(mapping.paramId);
+    automationManager.setValue(mapping.paramId, target);
+    this.sentValues.set(mapping.id, target);
+  }
+
+  // Un geste au contrôleur = touch / release, comme un clic sur le contrôle
+  private touch(paramId: string) {
+    const timer = this.touchTimers.get(paramId);
+    if (timer) clearTimeout(timer);
+    else automationManager.touch(paramId);
+    this.touchTimers.set(paramId, window.setTimeout(() => {
+      this.touchTimers.delete(paramId);
+      automationManager.release(paramId);
+    }, this.TOUCH_RELEASE_MS));
+  }
+
+  private static isSameSource(a: MidiLearnSource, b: MidiLearnSource) {
+    return a.type === b.type && a.channel === b.channel && a.number === b.number;
+  }
+
+  // --- PRESETS (globaux) ---
+  public getPresets(): ControllerPreset[] {
+    try {
+      return JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    } catch (e) {
+      return [];
+    }
+  }
+
+  public savePreset(name: string) {
+    const presets = [...this.getPresets().filter(p => p.name !== name), { id: generateId('preset'), name, mappings: this.mappings }];
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+    this.notify();
+  }
+
+  public deletePreset(id: string) {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(this.getPresets().filter(p => p.id !== id)));
+    this.notify();
+  }
+
+  // Remplace les mappings du projet ; les ids sont régénérés pour rester uniques
+  public loadPreset(id: string) {
+    const preset = this.getPresets().find(p => p.id === id);
+    if (preset) this.write(preset.mappings.map(m => ({ ...m, id: generateId('map') })));
+  }
+
+  // --- OBSERVERS (SmartKnob, panneau) ---
+  public addListener(callback: LearnListener) {
+    this.listeners.add(callback);
+    return () => { this.listeners.delete(callback); };
+  }
+
+  private notify() {
+    this.listeners.forEach(cb => cb());
+  }
+}
+
+export const midiLearn = MidiLearnManager.getInstance();
@@ -1,5 +1,6 @@
-import { MidiDevice } from '../types';
+import { MidiDevice, MidiControlEvent } from '../types';
 import { audioEngine } from '../engine/AudioEngine';
+import { midiLearn } from './MidiLearn';
 
 type MidiMessageCallback = (command: number, note: number, velocity: number) => void;
 
@@ -7,12 +8,15 @@ class MidiManager {
   private static instance: MidiManager;
   private access: any = null;
   private inputs: Map<string, any> = new Map();
+  private outputs: Map<string, any> = new Map();
+  private ready: Promise<void> | null = null;
   private selectedInputId: string | null = null;
   private selectedChannel: number = 0; // 0 = Omni, 1-16
   private selectedTrackId: string | null = null;
   
   // Event listeners for visual feedback
   private noteListeners: Set<MidiMessageCallback> = new Set();
+  private portListeners: Set<() => void> = new Set();
 
   private constructor() {}
 
@@ -23,14 +27,22 @@ class MidiManager {
     return MidiManager.instance;
   }
 
-  public async init() {
+  // Un seul accès Web MIDI, partagé par les réglages et les sorties des pistes
+  public init(): Promise<void> {
+    if (!this.ready) this.ready = this.requestAccess();
+    return this.ready;
+  }
+
+  private async requestAccess() {
     if (navigator.requestMIDIAccess) {
       try {
         this.access = await navigator.requestMIDIAccess();
         this.refreshInputs();
+        this.refreshOutputs();
         
         this.access.onstatechange = (e: any) => {
           this.refreshInputs();
+          this.refreshOutputs();
           console.log(`[MIDI] State Change: ${e.port.name} -> ${e.port.state}`);
         };
         
@@ -58,6 +70,16 @@ class MidiManager {
     }
   }
 
+  private refreshOutputs() {
+    this.outputs.clear();
+    const iter = this.access.outputs.values();
+    for (let output = iter.next(); !output.done; output = iter.next()) {
+      this.outputs.set(output.value.id, output.value);
+    }
+    audioEngine.setMidiOutputPorts(this.outputs);
+    this.portListeners.forEach(cb => cb());
+  }
+
   public getInputs(): MidiDevice[] {
       const list: MidiDevice[] = [];
       this.inputs.forEach((input) => {
@@ -72,6 +94,29 @@ class MidiManager {
       return list;
   }
 
+  public getOutputs(): MidiDevice[] {
+      const list: MidiDevice[] = [];
+      this.outputs.forEach((output) => {
+          list.push({
+              id: output.id,
+              name: output.name,
+              manufacturer: output.manufacturer,
+              state: output.state,
+              type: 'output'
+          });
+      });
+      return list;
+  }
+
+  // Horloge MIDI et transport (start / stop / position) envoyés à ces sorties
+  public setClockOutputs(ids: string[]) {
+      audioEngine.setMidiClockPorts(ids);
+  }
+
+  public getClockOutputs(): string[] {
+      return audioEngine.getMidiClockPorts();
+  }
+
   public selectInput(id: string) {
       // Detach old
       if (this.selectedInputId && this.inputs.has(this.selectedInputId)) {
@@ -109,22 +154,51 @@ class MidiManager {
     const note = data1;
     const velocity = data2;
 
+    // MIDI learn / mappings : tous canaux, le message ne joue pas les pistes s'il est consommé
+    if (command === 176 && midiLearn.handleMessage({ type: 'CC', channel, number: data1 }, data2 / 127)) return;
+    if ((command === 144 || command === 128) && midiLearn.handleMessage({ type: 'NOTE', channel, number: note }, command === 144 && velocity > 0 ? 1 : 0)) return;
+
     // Filter Channel (if not Omni)
     if (this.selectedChannel !== 0 && channel !== this.selectedChannel) return;
 
-    // Routing to Audio Engine
-    if (this.selectedTrackId) {
-        // Note On (144)
-        if (command === 144 && velocity > 0) {
-            audioEngine.triggerTrackAttack(this.selectedTrackId, note, velocity / 127);
-            this.notifyListeners(144, note, velocity);
-        }
-        // Note Off (128) OR Note On with 0 velocity
-        else if (command === 128 || (command === 144 && velocity === 0)) {
-            audioEngine.triggerTrackRelease(this.selectedTrackId, note);
-            this.notifyListeners(128, note, 0);
-        }
+    // Routing to Audio Engine : pistes instrument armées, sinon la piste sélectionnée
+    const armed = audioEngine.getMidiArmedTrackIds();
+    const targets = armed.length > 0 ? armed : (this.selectedTrackId ? [this.selectedTrackId] : []);
+    if (targets.length === 0) return;
+
+    // Note On (144)
+    if (command === 144 && velocity > 0) {
+        targets.forEach(trackId => {
+            audioEngine.triggerTrackAttack(trackId, note, velocity / 127);
+            audioEngine.recordMidiNote(trackId, note, velocity / 127, event.timeStamp);
+        });
+        this.notifyListeners(144, note, velocity);
+    }
+    // Note Off (128) OR Note On with 0 velocity
+    else if (command === 128 || (command === 144 && velocity === 0)) {
+        targets.forEach(trackId => {
+            audioEngine.triggerTrackRelease(trackId, note);
+            audioEngine.recordMidiNote(trackId, note, 0, event.timeStamp);
+        });
+        this.notifyListeners(128, note, 0);
     }
+    else {
+        const control = this.parseControl(command, data1, data2);
+        if (!control) return;
+        targets.forEach(trackId => {
+            audioEngine.sendTrackControl(trackId, control);
+            audioEngine.recordMidiControl(trackId, control, event.timeStamp);
+        });
+    }
+  }
+
+  // Control Change (176), Program Change (192), Channel Aftertouch (208), Pitch Bend (224)
+  private parseControl(command: number, data1: number, data2: number): MidiControlEvent | null {
+    if (command === 176) return { type: 'CC', cc: data1, value: data2 };
+    if (command === 192) return { type: 'PROGRAM', value: data1 };
+    if (command === 208) return { type: 'AFTERTOUCH', value: data1 };
+    if (command === 224) return { type: 'PITCH_BEND', value: ((data2 << 7) | data1) - 8192 };
+    return null;
   }
 
   // --- OBSERVER PATTERN FOR VISUALS ---
@@ -135,6 +209,12 @@ class MidiManager {
       return () => { this.noteListeners.delete(callback); };
   }
 
+  // Ports branchés / débranchés
+  public addPortListener(callback: () => void) {
+      this.portListeners.add(callback);
+      return () => { this.portListeners.delete(callback); };
+  }
+
   private notifyListeners(cmd: number, note: number, vel: number) {
       this.noteListeners.forEach(cb => cb(cmd, note, vel));
   }
@@ -0,0 +1,76 @@
+import { Track, Clip, MidiNote, MidiControllerLane, MidiRecordSettings, TempoMap, TrackType } from '../types';
+import { midiOffsetToTime, timeToMidiOffset, timeToBeat, beatToTime } from '../utils/helpers';
+
+export const DEFAULT_MIDI_RECORD_SETTINGS: MidiRecordSettings = {
+  mode: 'OVERDUB',
+  quantize: 0
+};
+
+/**
+ * MIDI RECORDING
+ * Pose une prise MIDI (un clip de notes, voir AudioEngine.buildMidiTake) sur la piste.
+ * Les clips MIDI qu'elle chevauche sont fusionnés avec elle en un seul clip :
+ * OVERDUB garde toutes leurs notes, REPLACE retire celles qui commencent dans la zone enregistrée
+ * (idem pour les points de contrôleurs).
+ */
+export class MidiRecording {
+  private static MIN_NOTE_BEATS = 1 / 64;
+
+  public static merge(track: Track, take: Clip, settings: MidiRecordSettings, map: TempoMap): Track {
+    const takeNotes = settings.quantize > 0 ? MidiRecording.quantize(take, settings.quantize, map) : take.notes || [];
+    const takeEnd = midiOffsetToTime(take.start, take.duration, map);
+    const overlapping = track.clips.filter(c => c.type === TrackType.MIDI && !c.takeId
+      && c.start < takeEnd && midiOffsetToTime(c.start, c.duration, map) > take.start);
+    if (overlapping.length === 0) return { ...track, clips: [...track.clips, { ...take, color: track.color, notes: takeNotes }] };
+
+    const start = Math.min(take.start, ...overlapping.map(c => c.start));
+    const end = Math.max(takeEnd, ...overlapping.map(c => midiOffsetToTime(c.start, c.duration, map)));
+    // Notes recalées sur le début du clip fusionné
+    const moveNotes = (clip: Clip, notes: MidiNote[]) => notes.map(note => ({
+      ...note,
+      start: timeToMidiOffset(start, midiOffsetToTime(clip.start, note.start, map), map)
+    }));
+
+    const isKept = (clip: Clip, offset: number) => {
+      if (settings.mode === 'OVERDUB') return true;
+      const time = midiOffsetToTime(clip.start, offset, map);
+      return time < take.start || time >= takeEnd;
+    };
+    const kept = overlapping.flatMap(clip => moveNotes(clip, (clip.notes || []).filter(note => isKept(clip, note.start))));
+
+    // Lanes regroupées par contrôleur
+    const lanes: Map<string, MidiControllerLane> = new Map();
+    [...overlapping, take].forEach(clip => (clip.controllers || []).forEach(lane => {
+      const key = `${lane.type}:${lane.cc ?? ''}`;
+      if (!lanes.has(key)) lanes.set(key, { ...lane, points: [] });
+      const points = lane.points
+        .filter(point => clip === take || isKept(clip, point.time))
+        .map(point => ({ ...point, time: timeToMidiOffset(start, midiOffsetToTime(clip.start, point.time, map), map) }));
+      lanes.get(key)!.points.push(...points);
+    }));
+    lanes.forEach(lane => lane.points.sort((a, b) => a.time - b.time));
+
+    const base = overlapping[0];
+    const merged: Clip = {
+      ...base,
+      start,
+      offset: 0,
+      duration: timeToMidiOffset(start, end, map),
+      notes: [...kept, ...moveNotes(take, takeNotes)].sort((a, b) => a.start - b.start),
+      controllers: [...lanes.values()]
+    };
+    return { ...track, clips: [...track.clips.filter(c => !overlapping.includes(c)), merged] };
+  }
+
+  // Début des notes sur la grille (`grid` en noires), durées conservées
+  private static quantize(clip: Clip, grid: number, map: TempoMap): MidiNote[] {
+    return (clip.notes || []).map(note => {
+      const beat = timeToBeat(midiOffsetToTime(clip.start, note.start, map), map);
+      const endBeat = timeToBeat(midiOffsetToTime(clip.start, note.start + note.duration, map), map);
+      const snapped = Math.max(timeToBeat(clip.start, map), Math.round(beat / grid) * grid);
+      const start = timeToMidiOffset(clip.start, beatToTime(snapped, map), map);
+      const end = timeToMidiOffset(clip.start, beatToTime(Math.max(snapped + MidiRecording.MIN_NOTE_BEATS, snapped + endBeat - beat), map), map);
+      return { ...note, start, duration: end - start };
+    });
+  }
+}
@@ -3,6 +3,10 @@ import JSZip from 'jszip';
 import { DAWState, Clip } from '../types';
 import { audioBufferToWav } from './AudioUtils';
 import { audioEngine } from '../engine/AudioEngine';
+import { createTempoMap } from '../utils/helpers';
+import { DEFAULT_METRONOME_SETTINGS } from '../engine/Metronome';
+import { DEFAULT_MIDI_RECORD_SETTINGS } from './MidiRecording';
+import { TakeComping } from './TakeComping';
 
 export class ProjectIO {
   
@@ -31,6 +35,12 @@ export class ProjectIO {
         for (let cIndex = 0; cIndex < track.clips.length; cIndex++) {
             const clip = track.clips[cIndex];
             const sClip = sTrack.clips[cIndex];
+
+            // Clips de comp : reconstruits depuis les prises au chargement
+            if (clip.takeId) {
+                delete sClip.buffer;
+                continue;
+            }
             
             if (clip.buffer) {
                 const filename = `${clip.id}.wav`;
@@ -54,6 +64,37 @@ export class ProjectIO {
                 }
             }
         }
+
+        // Take lanes : une piste audio par prise
+        if (track.takeFolder) {
+            track.takeFolder.takes.forEach((take, i) => {
+                const sClip = sTrack.takeFolder.takes[i].clip;
+                delete sClip.buffer;
+                if (!take.clip.buffer) return;
+                const filename = `take-${take.id}.wav`;
+                sClip.audioRef = `audio/${filename}`;
+                if (!isUnlicensedStoreBeat && audioFolder) audioFolder.file(filename, audioBufferToWav(take.clip.buffer));
+            });
+        }
+
+        // Rendu gelé : stocké comme un clip, rechargé au chargement du projet
+        if (track.freeze) {
+            const filename = `freeze-${track.id}.wav`;
+            sTrack.freeze = { start: track.freeze.start, audioRef: `audio/${filename}` };
+            if (!isUnlicensedStoreBeat && audioFolder) audioFolder.file(filename, audioBufferToWav(track.freeze.buffer));
+        }
+
+        // Multi-échantillons du sampler : un wav par zone
+        if (track.sampleZones) {
+            track.sampleZones.forEach((zone, i) => {
+                const sZone = sTrack.sampleZones[i];
+                delete sZone.buffer;
+                if (!zone.buffer) return;
+                const filename = `zone-${zone.id}.wav`;
+                sZone.audioRef = `audio/${filename}`;
+                if (!isUnlicensedStoreBeat && audioFolder) audioFolder.file(filename, audioBufferToWav(zone.buffer));
+            });
+        }
     }
     
     // 3. Ajout du fichier JSON d'état
@@ -102,7 +143,44 @@ export class ProjectIO {
                 delete clip.audioRef;
             }
         }
+
+        if (track.takeFolder) {
+            for (const take of track.takeFolder.takes) {
+                const takeFile = take.clip.audioRef ? zip.file(take.clip.audioRef) : null;
+                if (takeFile) take.clip.buffer = await audioEngine.ctx!.decodeAudioData(await takeFile.async("arraybuffer"));
+                delete take.clip.audioRef;
+            }
+            // Les clips de comp pointent sur les buffers des prises
+            Object.assign(track, TakeComping.refresh(track));
+        }
+
+        if (track.freeze) {
+            const freezeFile = track.freeze.audioRef ? zip.file(track.freeze.audioRef) : null;
+            if (freezeFile) {
+                track.freeze = { start: track.freeze.start, buffer: await audioEngine.ctx!.decodeAudioData(await freezeFile.async("arraybuffer")) };
+            } else {
+                // Rendu absent : la piste repart sur sa chaîne live
+                delete track.freeze;
+                track.isFrozen = false;
+            }
+        }
+
+        if (track.sampleZones) {
+            for (const zone of track.sampleZones) {
+                const zoneFile = zone.audioRef ? zip.file(zone.audioRef) : null;
+                if (zoneFile) zone.buffer = await audioEngine.ctx!.decodeAudioData(await zoneFile.async("arraybuffer"));
+                delete zone.audioRef;
+            }
+        }
     }
+
+    // Projets plus anciens : tempo constant en 4/4, solo in place, sans punch, métronome et enregistrement MIDI par défaut, sans MIDI learn
+    if (!loadedState.tempoMap) loadedState.tempoMap = createTempoMap(loadedState.bpm || 120);
+    if (!loadedState.soloMode) loadedState.soloMode = 'SIP';
+    if (loadedState.isPunchActive === undefined) Object.assign(loadedState, { isPunchActive: false, punchIn: 0, punchOut: 0 });
+    if (!loadedState.metronome) loadedState.metronome = { ...DEFAULT_METRONOME_SETTINGS };
+    if (!loadedState.midiRecord) loadedState.midiRecord = { ...DEFAULT_MIDI_RECORD_SETTINGS };
+    if (!loadedState.midiMappings) loadedState.midiMappings = [];
     
     return loadedState as DAWState;
   }
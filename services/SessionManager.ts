@@ -14,24 +14,25 @@ export class SessionManager {
   public static prepareForRecording(state: DAWState): DAWState {
     const updatedTracks = state.tracks.map(track => {
       // 1. Identifier les pistes qui causent de la latence (PDC > 0)
+      // La piste armée garde sa chaîne : c'est elle que l'artiste entend en direct
       const hasLatencyPlugins = track.plugins.some(p => p.latency > 0 && p.isEnabled);
       
-      if (hasLatencyPlugins && track.id !== 'track-rec') {
+      // Une piste déjà gelée (rendu) ne charge plus ses plugins : rien à couper
+      if (hasLatencyPlugins && !track.isTrackArmed && !track.freeze) {
         // Geler la piste : on désactive les plugins lourds mais on garde le gain
         return {
           ...track,
           isFrozen: true,
-          plugins: track.plugins.map(p => ({
-            ...p,
-            isEnabled: p.latency === 0 // On ne garde que les plugins à latence zéro (EQ, Gain)
-          }))
+          // On ne garde que les plugins à latence zéro (EQ, Gain) ; ceux coupés ici sont marqués
+          plugins: track.plugins.map(p => p.latency > 0 && p.isEnabled ? { ...p, isEnabled: false, disabledByRecMode: true } : p)
         };
       }
       return track;
     });
 
-    // 2. Désactiver globalement la PDC dans le moteur audio
+    // 2. Désactiver globalement la PDC dans le moteur audio (plus aucun délai de compensation)
     audioEngine.setRecMode(true);
+    updatedTracks.forEach(t => audioEngine.updateTrack(t, updatedTracks));
 
     return {
       ...state,
@@ -47,14 +48,12 @@ export class SessionManager {
    */
   public static finalizeRecording(state: DAWState): DAWState {
     const restoredTracks = state.tracks.map(track => {
-      if (track.isFrozen) {
+      if (track.isFrozen && !track.freeze) {
         return {
           ...track,
           isFrozen: false,
-          plugins: track.plugins.map(p => ({
-            ...p,
-            isEnabled: true // On réactive tout
-          }))
+          // On réactive uniquement ce que le mode REC a coupé : les bypass de l'utilisateur restent
+          plugins: track.plugins.map(({ disabledByRecMode, ...p }) => disabledByRecMode ? { ...p, isEnabled: true } : p)
         };
       }
       return track;
@@ -62,6 +61,7 @@ export class SessionManager {
 
     // Réactiver la PDC
     audioEngine.setRecMode(false);
+    restoredTracks.forEach(t => audioEngine.updateTrack(t, restoredTracks));
 
     return {
       ...state,
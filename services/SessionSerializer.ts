@@ -16,16 +16,21 @@ export class SessionSerializer {
     const session = JSON.parse(JSON.stringify(state));
 
     // Nettoyage spécifique par piste
-    session.tracks = session.tracks.map((track: Track) => {
+    session.tracks = session.tracks.map(({ freeze, takeFolder, isTakesExpanded, ...track }: Track) => {
       return {
         ...track,
+        // Le rendu gelé n'est pas stocké : la piste repart sur sa chaîne live
+        isFrozen: freeze ? false : track.isFrozen,
         // On s'assure de garder les plugins et leurs paramètres (ADSR, etc.)
         plugins: track.plugins, 
         // On nettoie les clips (retrait du buffer binaire)
+        // Les prises ne sont pas stockées : seul le comp reste, en clips ordinaires
         clips: track.clips.map((clip: Clip) => {
-          const { buffer, ...cleanClip } = clip; // On exclut 'buffer'
+          const { buffer, takeId, ...cleanClip } = clip; // On exclut 'buffer'
           return cleanClip;
-        })
+        }),
+        // Zones du sampler : mapping seul, les échantillons ne sont pas stockés
+        sampleZones: track.sampleZones?.map(({ buffer, ...zone }) => zone)
       };
     });
 
@@ -0,0 +1,213 @@
+import { SampleZone } from '../types';
+import { generateId, noteNameToMidi } from '../utils/helpers';
+
+/**
+ * SFZ
+ * Lecture des instruments .sfz (pianos échantillonnés, kits 808...) vers le mapping multi-échantillons.
+ * Headers <control> <global> <master> <group> <region> avec héritage, #define, et les opcodes
+ * de mapping (touches, vélocités, round robin, accord, volume, boucles). Les autres opcodes
+ * (enveloppes, filtres, triggers de release...) sont ignorés : le sampler garde ses propres réglages.
+ */
+
+// Opcodes d'une région, héritage des headers déjà appliqué
+export interface SfzRegion {
+  sample: string; // Chemin relatif au fichier .sfz, séparateurs normalisés en '/'
+  opcodes: Record<string, string>;
+}
+
+export interface SfzImport {
+  zones: SampleZone[];
+  missing: string[]; // Échantillons référencés mais absents des fichiers fournis
+}
+
+// Headers qui ne décrivent pas de région
+const IGNORED_HEADERS = ['curve', 'effect', 'midi', 'sample'];
+
+export class SfzFile {
+  public static isSfzFile(file: File) { return /\.sfz$/i.test(file.name); }
+
+  public static parse(text: string): SfzRegion[] {
+    const defines: Record<string, string> = {};
+    const source = text
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .split(/\r?\n/)
+      .map(line => line.replace(/\/\/.*$/, ''))
+      .filter(line => {
+        const define = /^\s*#define\s+(\$\w+)\s+(.*?)\s*$/.exec(line);
+        if (define) defines[define[1]] = define[2];
+        return !/^\s*#/.test(line); // #include non supporté
+      })
+      .join('\n')
+      .replace(/\$\w+/g, name => defines[name] ?? name);
+
+    const regions: SfzRegion[] = [];
+    let control: Record<string, string> = {};
+    let global: Record<string, string> = {};
+    let master: Record<string, string> = {};
+    let group: Record<string, string> = {};
+    let current: Record<string, string> | null = null;
+    let currentHeader = '';
+
+    const flush = () => {
+      if (currentHeader !== 'region' || !current) return;
+      const opcodes = { ...global, ...master, ...group, ...current };
+      if (!opcodes.sample) return;
+      const path = `${control.default_path || ''}${opcodes.sample}`.replace(/\\/g, '/').replace(/^\.\//, '');
+      regions.push({ sample: path, opcodes });
+    };
+
+    const tokens = source.split(/<(\w+)>/);
+    // tokens : [avant le premier header, header, corps, header, corps...]
+    for (let i = 1; i < tokens.length; i += 2) {
+      flush();
+      const header = tokens[i].toLowerCase();
+      const opcodes = SfzFile.parseOpcodes(tokens[i + 1] || '');
+      currentHeader = header;
+      current = opcodes;
+
+      if (header === 'control') control = { ...control, ...opcodes };
+      else if (header === 'global') { global = opcodes; master = {}; group = {}; }
+      else if (header === 'master') { master = opcodes; group = {}; }
+      else if (header === 'group') group = opcodes;
+      else if (IGNORED_HEADERS.includes(header)) current = null;
+    }
+    flush();
+    return regions;
+  }
+
+  // "sample=Grand Piano C4.wav lokey=c4" : une valeur court jusqu'à l'opcode suivant (espaces autorisés)
+  private static parseOpcodes(body: string): Record<string, string> {
+    const opcodes: Record<string, string> = {};
+    const matches = [...body.matchAll(/([A-Za-z_][\w]*)=/g)];
+    matches.forEach((match, i) => {
+      const end = i + 1 < matches.length ? matches[i + 1].index! : body.length;
+      opcodes[match[1].toLowerCase()] = body.slice(match.index! + match[0].length, end).trim();
+    });
+    return opcodes;
+  }
+
+  /**
+   * Zone sans buffer ; `nativeRate` : fréquence d'origine du fichier, celle des points de boucle (en échantillons).
+   * `roundRobinGroups` numérote les groupes de round robin de l'import : les régions alternées d'une même
+   * plage de touches et de vélocités (même seq_length) partagent un groupe, quel que soit leur <group>.
+   */
+  public static toZone(region: SfzRegion, nativeRate: number, roundRobinGroups: Map<string, number>): SampleZone | null {
+    const op = region.opcodes;
+    if (op.trigger && op.trigger !== 'attack') return null; // Release triggers non gérés
+
+    const key = SfzFile.parseKey(op.key);
+    const lowKey = SfzFile.parseKey(op.lokey) ?? key ?? 0;
+    const highKey = SfzFile.parseKey(op.hikey) ?? key ?? 127;
+    const rootKey = SfzFile.parseKey(op.pitch_keycenter) ?? key ?? 60;
+    const num = (value: string | undefined, fallback: number) => {
+      const n = parseFloat(value ?? '');
+      return isNaN(n) ? fallback : n;
+    };
+
+    const isRoundRobin = num(op.seq_length, 1) > 1 || num(op.lorand, 0) > 0 || num(op.hirand, 1) < 1;
+    const lowVelocity = Math.max(1, num(op.lovel, 1));
+    const highVelocity = Math.min(127, num(op.hivel, 127));
+    let roundRobinGroup = 0;
+    if (isRoundRobin) {
+      const slot = [Math.min(lowKey, highKey), Math.max(lowKey, highKey), lowVelocity, highVelocity, num(op.seq_length, 1)].join(':');
+      if (!roundRobinGroups.has(slot)) roundRobinGroups.set(slot, roundRobinGroups.size + 1);
+      roundRobinGroup = roundRobinGroups.get(slot)!;
+    }
+    const loopMode = op.loop_mode || '';
+    const hasLoop = (loopMode === 'loop_continuous' || loopMode === 'loop_sustain') && op.loop_end !== undefined;
+
+    return {
+      id: generateId('zone'),
+      sampleName: region.sample.split('/').pop() || region.sample,
+      rootKey,
+      lowKey: Math.min(lowKey, highKey),
+      highKey: Math.max(lowKey, highKey),
+      lowVelocity,
+      highVelocity,
+      roundRobinGroup,
+      tune: num(op.tune, 0) + num(op.transpose, 0) * 100,
+      volume: num(op.volume, 0),
+      keyTracking: num(op.pitch_keytrack, 100) / 100,
+      loopStart: hasLoop ? num(op.loop_start, 0) / nativeRate : undefined,
+      loopEnd: hasLoop ? num(op.loop_end, 0) / nativeRate : undefined
+    };
+  }
+
+  // Numéro MIDI ou nom de note (c4 = 60)
+  private static parseKey(value: string | undefined): number | null {
+    if (value === undefined) return null;
+    const n = parseInt(value, 10);
+    if (!isNaN(n) && /^-?\d+$/.test(value.trim())) return Math.max(0, Math.min(127, n));
+    return noteNameToMidi(value);
+  }
+
+  /**
+   * Importe un .sfz avec ses échantillons (fichiers déposés ou dossier choisi).
+   * Les chemins sont résolus sur le chemin relatif du dossier, puis sur le nom du fichier seul.
+   */
+  public static async load(sfz: File, files: File[], ctx: BaseAudioContext): Promise<SfzImport> {
+    const regions = SfzFile.parse(await sfz.text());
+    const buffers = new Map<string, { buffer: AudioBuffer, nativeRate: number } | null>();
+    const missing: string[] = [];
+
+    const findFile = (path: string) => {
+      const lower = path.toLowerCase();
+      const name = lower.split('/').pop();
+      return files.find(f => (f.webkitRelativePath || '').toLowerCase().endsWith(lower))
+        || files.find(f => f.name.toLowerCase() === name);
+    };
+
+    // Décodage séquentiel : un kit peut référencer des centaines de fichiers
+    for (const region of regions) {
+      if (buffers.has(region.sample)) continue;
+      const file = findFile(region.sample);
+      let decoded: { buffer: AudioBuffer, nativeRate: number } | null = null;
+      if (file) {
+        try {
+          const data = await file.arrayBuffer();
+          // Lue avant le décodage : decodeAudioData rééchantillonne à la fréquence du contexte
+          const nativeRate = SfzFile.getNativeSampleRate(data);
+          const buffer = await ctx.decodeAudioData(data);
+          decoded = { buffer, nativeRate: nativeRate || buffer.sampleRate }; // Autres formats : fréquence du buffer, faute d'en-tête lu
+        } catch (e) {
+          console.warn(`[SFZ] Impossible de décoder ${region.sample}`, e);
+        }
+      }
+      if (!decoded) missing.push(region.sample);
+      buffers.set(region.sample, decoded);
+    }
+
+    // Round robin : une zone par position, dans l'ordre de seq_position
+    const ordered = regions
+      .map((region, index) => ({ region, index, position: parseInt(region.opcodes.seq_position || '1', 10) || 1 }))
+      .sort((a, b) => a.position - b.position || a.index - b.index);
+
+    const zones: SampleZone[] = [];
+    const roundRobinGroups = new Map<string, number>();
+    ordered.forEach(({ region }) => {
+      const decoded = buffers.get(region.sample);
+      if (!decoded) return;
+      const zone = SfzFile.toZone(region, decoded.nativeRate, roundRobinGroups);
+      if (zone) zones.push({ ...zone, buffer: decoded.buffer });
+    });
+    return { zones, missing };
+  }
+
+  // Fréquence d'échantillonnage écrite dans le fichier : chunk `fmt ` (WAV) ou STREAMINFO (FLAC), null sinon
+  private static getNativeSampleRate(data: ArrayBuffer): number | null {
+    const view = new DataView(data);
+    const tag = (offset: number) => offset + 4 <= view.byteLength ? String.fromCharCode(...new Uint8Array(data, offset, 4)) : '';
+
+    if (tag(0) === 'RIFF' && tag(8) === 'WAVE') {
+      for (let offset = 12; offset + 8 <= view.byteLength;) {
+        const size = view.getUint32(offset + 4, true);
+        if (tag(offset) === 'fmt ' && offset + 16 <= view.byteLength) return view.getUint32(offset + 12, true);
+        offset += 8 + size + (size % 2);
+      }
+    }
+    if (tag(0) === 'fLaC' && view.byteLength >= 21) {
+      return (view.getUint8(18) << 12) | (view.getUint8(19) << 4) | (view.getUint8(20) >> 4);
+    }
+    return null;
+  }
+}
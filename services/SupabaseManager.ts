@@ -4,6 +4,9 @@ import { User, DAWState, Clip, Instrument, PendingUpload, Track } from '../types
 import { audioBufferToWav } from './AudioUtils';
 import { audioEngine } from '../engine/AudioEngine';
 import { SessionSerializer } from './SessionSerializer';
+import { createTempoMap } from '../utils/helpers';
+import { DEFAULT_METRONOME_SETTINGS } from '../engine/Metronome';
+import { DEFAULT_MIDI_RECORD_SETTINGS } from './MidiRecording';
 
 export class SupabaseManager {
   private static instance: SupabaseManager;
@@ -432,6 +435,12 @@ export class SupabaseManager {
         await this.hydrateAudioBuffers(loadedState);
         loadedState.id = data.id;
         loadedState.name = data.name;
+        if (!loadedState.tempoMap) loadedState.tempoMap = createTempoMap(loadedState.bpm || 120);
+        if (!loadedState.soloMode) loadedState.soloMode = 'SIP';
+        if (loadedState.isPunchActive === undefined) Object.assign(loadedState, { isPunchActive: false, punchIn: 0, punchOut: 0 });
+        if (!loadedState.metronome) loadedState.metronome = { ...DEFAULT_METRONOME_SETTINGS };
+        if (!loadedState.midiRecord) loadedState.midiRecord = { ...DEFAULT_MIDI_RECORD_SETTINGS };
+        if (!loadedState.midiMappings) loadedState.midiMappings = [];
         this.uploadedBlobsCache.clear();
         return loadedState;
     }
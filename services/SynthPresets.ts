@@ -0,0 +1,87 @@
+import { SynthParams, SynthOscillatorParams, DEFAULT_SYNTH_PARAMS } from '../engine/Synthesizer';
+import { generateId } from '../utils/helpers';
+
+export interface SynthPreset {
+  id: string;
+  name: string;
+  isFactory?: boolean;
+  params: SynthParams;
+}
+
+const PRESETS_KEY = 'nova_synth_presets';
+
+const osc = (changes: Partial<SynthOscillatorParams>): SynthOscillatorParams => ({ ...DEFAULT_SYNTH_PARAMS.oscillators[0], level: 0, ...changes });
+
+const patch = (id: string, name: string, changes: Partial<SynthParams>): SynthPreset => ({
+  id, name, isFactory: true, params: { ...DEFAULT_SYNTH_PARAMS, ...changes }
+});
+
+const FACTORY_PRESETS: SynthPreset[] = [
+  patch('factory-init', 'Init', {}),
+  patch('factory-supersaw', 'Super Saw', {
+    oscillators: [osc({ level: 0.8, unison: 7, unisonDetune: 40 }), osc({ octave: -1, level: 0.4, unison: 3, unisonDetune: 25 }), osc({ waveform: 'sine', octave: -2, level: 0.2 })],
+    cutoff: 6000, resonance: 0, filterEnvAmount: 0.1, attack: 0.02, sustain: 0.8, release: 0.4
+  }),
+  patch('factory-pad', 'Warm Pad', {
+    oscillators: [osc({ level: 0.6, unison: 3, unisonDetune: 15 }), osc({ waveform: 'triangle', fine: -6, level: 0.5 }), osc({ waveform: 'sine', octave: 1, level: 0.2 })],
+    cutoff: 900, resonance: 2, keyTracking: 0.3, filterEnvAmount: 0.3, filterAttack: 1.2, filterDecay: 2, filterSustain: 0.5, filterRelease: 1.5,
+    attack: 0.8, decay: 1, sustain: 0.8, release: 1.5,
+    modMatrix: [
+      { source: 'LFO1', destination: 'PITCH', amount: 0.005 },
+      { source: 'LFO2', destination: 'CUTOFF', amount: 0.15 },
+      { source: 'VELOCITY', destination: 'CUTOFF', amount: 0.2 },
+      { source: 'LFO2', destination: 'PAN', amount: 0.3 }
+    ]
+  }),
+  patch('factory-bass', 'Mono Bass', {
+    oscillators: [osc({ level: 0.7 }), osc({ waveform: 'square', octave: -1, level: 0.5 }), osc({ waveform: 'sine', octave: -1, level: 0.3 })],
+    cutoff: 300, resonance: 6, keyTracking: 0.2, filterEnvAmount: 0.45, filterDecay: 0.25, filterSustain: 0.1,
+    attack: 0.003, decay: 0.3, sustain: 0.7, release: 0.08, polyphony: 1, glide: 0.06
+  }),
+  patch('factory-pluck', 'Pluck', {
+    oscillators: [osc({ waveform: 'square', level: 0.6 }), osc({ fine: 8, level: 0.4 }), osc({ level: 0 })],
+    cutoff: 400, resonance: 4, keyTracking: 0.8, filterEnvAmount: 0.6, filterAttack: 0.002, filterDecay: 0.18, filterSustain: 0, filterRelease: 0.2,
+    attack: 0.002, decay: 0.4, sustain: 0, release: 0.3,
+    modMatrix: [...DEFAULT_SYNTH_PARAMS.modMatrix.slice(0, 2), { source: 'VELOCITY', destination: 'CUTOFF', amount: 0.4 }, DEFAULT_SYNTH_PARAMS.modMatrix[3]]
+  }),
+  patch('factory-brass', 'Brass', {
+    oscillators: [osc({ level: 0.7, unison: 2, unisonDetune: 12 }), osc({ fine: -5, level: 0.5 }), osc({ level: 0 })],
+    cutoff: 700, resonance: 1, keyTracking: 0.6, filterEnvAmount: 0.4, filterAttack: 0.08, filterDecay: 0.4, filterSustain: 0.6,
+    attack: 0.05, decay: 0.2, sustain: 0.8, release: 0.25
+  }),
+  patch('factory-wobble', 'Wobble', {
+    oscillators: [osc({ level: 0.7 }), osc({ waveform: 'square', octave: -1, level: 0.6 }), osc({ level: 0 })],
+    cutoff: 250, resonance: 8, filterEnvAmount: 0, sustain: 1, release: 0.1, polyphony: 1, glide: 0.03,
+    lfos: [{ waveform: 'sine', rate: 4 }, DEFAULT_SYNTH_PARAMS.lfos[1]],
+    modMatrix: [{ source: 'LFO1', destination: 'CUTOFF', amount: 0.7 }, ...DEFAULT_SYNTH_PARAMS.modMatrix.slice(1)]
+  })
+];
+
+/**
+ * SYNTH PRESETS
+ * Presets d'usine + presets utilisateur (globaux, localStorage), comme les presets de contrôleur.
+ */
+export class SynthPresets {
+  public static getAll(): SynthPreset[] {
+    return [...FACTORY_PRESETS, ...SynthPresets.getUserPresets()];
+  }
+
+  public static getUserPresets(): SynthPreset[] {
+    try {
+      return JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+    } catch (e) {
+      return [];
+    }
+  }
+
+  // Un preset du même nom est remplacé
+  public static save(name: string, params: SynthParams): SynthPreset {
+    const preset: SynthPreset = { id: generateId('synth'), name, params };
+    localStorage.setItem(PRESETS_KEY, JSON.stringify([...SynthPresets.getUserPresets().filter(p => p.name !== name), preset]));
+    return preset;
+  }
+
+  public static delete(id: string) {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(SynthPresets.getUserPresets().filter(p => p.id !== id)));
+  }
+}
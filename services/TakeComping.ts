@@ -0,0 +1,158 @@
+import { Track, Clip, Take, TakeFolder, CompSegment } from '../types';
+import { generateId } from '../utils/helpers';
+
+/**
+ * TAKE COMPING
+ * Les passes du cycle recording sont rangées en take lanes sur la piste.
+ * Le comp choisit, zone par zone, la prise entendue ; il est matérialisé en clips
+ * de la piste (marqués `takeId`), que le moteur joue comme n'importe quel clip.
+ */
+export class TakeComping {
+  private static SEAM_FADE_SEC = 0.005; // Micro-fondu aux raccords du comp
+  private static MIN_SEGMENT_SEC = 0.01;
+
+  /**
+   * Ajoute les passes d'une prise en cycle. Chaque passe devient le comp de sa zone,
+   * dans l'ordre : la dernière prise enregistrée l'emporte.
+   */
+  public static addTakes(track: Track, clips: Clip[]): Track {
+    const folder: TakeFolder = track.takeFolder || { id: generateId('takes'), start: Infinity, end: -Infinity, takes: [], comp: [] };
+    const takes: Take[] = clips.map((clip, i) => {
+      const name = `Take ${folder.takes.length + i + 1}`;
+      return { id: generateId('take'), name, clip: { ...clip, name } };
+    });
+
+    const next: TakeFolder = {
+      ...folder,
+      start: Math.min(folder.start, ...takes.map(t => t.clip.start)),
+      end: Math.max(folder.end, ...takes.map(t => t.clip.start + t.clip.duration)),
+      takes: [...folder.takes, ...takes]
+    };
+
+    let result: Track = { ...track, takeFolder: next, isTakesExpanded: true };
+    takes.forEach(take => { result = TakeComping.setComp(result, take.id, take.clip.start, take.clip.start + take.clip.duration); });
+    return result;
+  }
+
+  // Swipe comping : la prise `takeId` est entendue sur [start, end[ (bornée à son audio)
+  public static setComp(track: Track, takeId: string, start: number, end: number): Track {
+    const folder = track.takeFolder;
+    const take = folder?.takes.find(t => t.id === takeId);
+    if (!folder || !take) return track;
+
+    const from = Math.max(Math.min(start, end), take.clip.start);
+    const to = Math.min(Math.max(start, end), take.clip.start + take.clip.duration);
+    if (to - from < TakeComping.MIN_SEGMENT_SEC) return track;
+
+    const comp: CompSegment[] = [];
+    folder.comp.forEach(seg => {
+      if (seg.end <= from || seg.start >= to) { comp.push(seg); return; }
+      if (seg.start < from) comp.push({ ...seg, id: generateId('comp'), end: from });
+      if (seg.end > to) comp.push({ ...seg, id: generateId('comp'), start: to });
+    });
+    comp.push({ id: generateId('comp'), takeId, start: from, end: to });
+
+    return TakeComping.refresh({ ...track, takeFolder: { ...folder, comp: TakeComping.mergeSegments(comp) } });
+  }
+
+  // Clic sur une take lane : la prise remplace la zone du comp sous le curseur
+  public static selectTakeAt(track: Track, takeId: string, time: number): Track {
+    const take = track.takeFolder?.takes.find(t => t.id === takeId);
+    if (!take) return track;
+    const seg = track.takeFolder!.comp.find(s => time >= s.start && time < s.end);
+    if (seg) return TakeComping.setComp(track, takeId, seg.start, seg.end);
+    return TakeComping.setComp(track, takeId, take.clip.start, take.clip.start + take.clip.duration);
+  }
+
+  public static removeTake(track: Track, takeId: string): Track {
+    const folder = track.takeFolder;
+    if (!folder) return track;
+    const takes = folder.takes.filter(t => t.id !== takeId);
+    if (takes.length === 0) return TakeComping.refresh({ ...track, takeFolder: undefined, isTakesExpanded: false });
+    return TakeComping.refresh({ ...track, takeFolder: { ...folder, takes, comp: folder.comp.filter(s => s.takeId !== takeId) } });
+  }
+
+  /**
+   * Colle le comp en un seul clip audio (raccords en micro-fondus) et supprime les take lanes.
+   * Les zones dont la prise n'a pas d'audio chargé (session rechargée) restent en silence ;
+   * sans aucune prise chargée, la piste est rendue telle quelle (même objet).
+   */
+  public static flatten(track: Track): Track {
+    const folder = track.takeFolder;
+    const clips = track.clips.filter(c => !c.takeId);
+    if (!folder || folder.comp.length === 0) return { ...track, clips, takeFolder: undefined, isTakesExpanded: false };
+
+    const first = folder.takes.find(t => t.clip.buffer)?.clip.buffer;
+    if (!first) return track;
+    const sampleRate = first.sampleRate;
+    const channels = Math.max(...folder.takes.map(t => t.clip.buffer?.numberOfChannels || 1));
+    const start = folder.comp[0].start;
+    const end = folder.comp[folder.comp.length - 1].end;
+    const flat = new AudioBuffer({ length: Math.max(1, Math.round((end - start) * sampleRate)), numberOfChannels: channels, sampleRate });
+    const fade = Math.round(TakeComping.SEAM_FADE_SEC * sampleRate);
+
+    folder.comp.forEach(seg => {
+      const take = folder.takes.find(t => t.id === seg.takeId);
+      const source = take?.clip.buffer;
+      if (!take || !source) return;
+      const readFrom = Math.round((take.clip.offset + seg.start - take.clip.start) * sampleRate);
+      const writeFrom = Math.round((seg.start - start) * sampleRate);
+      const length = Math.min(Math.round((seg.end - seg.start) * sampleRate), source.length - readFrom, flat.length - writeFrom);
+
+      for (let ch = 0; ch < channels; ch++) {
+        const input = source.getChannelData(Math.min(ch, source.numberOfChannels - 1));
+        const output = flat.getChannelData(ch);
+        for (let i = 0; i < length; i++) {
+          const edge = Math.min(i, length - 1 - i);
+          output[writeFrom + i] = input[readFrom + i] * (edge < fade ? edge / fade : 1);
+        }
+      }
+    });
+
+    const clip: Clip = {
+      id: generateId('comp'), name: `${track.name} Comp`, start, duration: end - start, offset: 0,
+      fadeIn: 0.01, fadeOut: 0.01, type: folder.takes[0].clip.type, color: track.color, buffer: flat
+    };
+    return { ...track, clips: [...clips, clip], takeFolder: undefined, isTakesExpanded: false };
+  }
+
+  // Reconstruit les clips de comp de la piste à partir des prises (après édition ou chargement)
+  public static refresh(track: Track): Track {
+    const clips = track.clips.filter(c => !c.takeId);
+    const folder = track.takeFolder;
+    if (!folder) return { ...track, clips };
+
+    const compClips: Clip[] = [];
+    folder.comp.forEach(seg => {
+      const take = folder.takes.find(t => t.id === seg.takeId);
+      if (!take) return;
+      compClips.push({
+        ...take.clip,
+        id: `comp-${seg.id}`,
+        name: take.name,
+        start: seg.start,
+        duration: seg.end - seg.start,
+        offset: take.clip.offset + (seg.start - take.clip.start),
+        fadeIn: TakeComping.SEAM_FADE_SEC,
+        fadeOut: TakeComping.SEAM_FADE_SEC,
+        takeId: take.id
+      });
+    });
+    return { ...track, clips: [...clips, ...compClips] };
+  }
+
+  // Tri, et fusion des zones contiguës d'une même prise
+  private static mergeSegments(segments: CompSegment[]): CompSegment[] {
+    const sorted = [...segments].sort((a, b) => a.start - b.start);
+    const merged: CompSegment[] = [];
+    sorted.forEach(seg => {
+      const last = merged[merged.length - 1];
+      if (last && last.takeId === seg.takeId && Math.abs(last.end - seg.start) < 1e-6) {
+        merged[merged.length - 1] = { ...last, end: seg.end };
+      } else if (seg.end - seg.start >= TakeComping.MIN_SEGMENT_SEC) {
+        merged.push(seg);
+      }
+    });
+    return merged;
+  }
+}
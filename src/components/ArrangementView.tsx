@@ -1,311 +0,0 @@
-
-import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
-import { Track, TrackType, PluginType, PluginInstance, Clip, EditorTool, ContextMenuItem, AutomationLane, AutomationPoint } from '../types';
-import TrackHeader from './TrackHeader';
-import ContextMenu from './ContextMenu';
-import TimelineGridMenu from './TimelineGridMenu'; 
-import LiveRecordingClip from './LiveRecordingClip'; 
-import AutomationLaneComponent from './AutomationLane';
-import { TimelineRenderer } from './timeline/TimelineRenderer';
-
-interface ArrangementViewProps {
-  tracks: Track[];
-  selectedTrackId: string | null;
-  onSelectTrack: (id: string) => void;
-  onUpdateTrack: (track: Track) => void;
-  onReorderTracks: (sourceTrackId: string, destTrackId: string) => void;
-  currentTime: number;
-  isLoopActive: boolean;
-  loopStart: number;
-  loopEnd: number;
-  onSetLoop: (start: number, end: number) => void;
-  onSeek: (time: number) => void;
-  bpm: number;
-  onDropPluginOnTrack: (trackId: string, type: PluginType, metadata?: any) => void;
-  onMovePlugin?: (sourceTrackId: string, destTrackId: string, pluginId: string) => void;
-  onMoveClip?: (sourceTrackId: string, destTrackId: string, clipId: string) => void;
-  onSelectPlugin?: (trackId: string, plugin: PluginInstance) => void;
-  onRemovePlugin?: (trackId: string, pluginId: string) => void;
-  onRequestAddPlugin?: (trackId: string, x: number, y: number) => void;
-  onAddTrack?: (type: TrackType, name?: string, initialPluginType?: PluginType) => void;
-  onDuplicateTrack?: (trackId: string) => void;
-  onDeleteTrack?: (trackId: string) => void;
-  onFreezeTrack?: (trackId: string) => void;
-  onImportFile?: (file: File) => void;
-  onEditClip?: (trackId: string, clipId: string, action: string, payload?: any) => void;
-  isRecording?: boolean;
-  recStartTime: number | null;
-  onCreatePattern?: (trackId: string, time: number) => void;
-  onSwapInstrument?: (trackId: string) => void; 
-  onEditMidi?: (trackId: string, clipId: string) => void;
-}
-
-type InteractionZone = 'BODY' | 'RESIZE_L' | 'RESIZE_R' | 'FADE_IN' | 'FADE_OUT' | 'GAIN' | 'NONE';
-type DragAction = 'MOVE' | 'TRIM_START' | 'TRIM_END' | 'ADJUST_FADE_IN' | 'ADJUST_FADE_OUT' | 'ADJUST_GAIN' | 'SEEK' | 'SELECT_REGION' | 'MOVE_AUTOMATION' | 'SCRUB' | null;
-type LoopDragMode = 'START' | 'END' | 'BODY' | null;
-
-const ArrangementView: React.FC<ArrangementViewProps> = ({ 
-  tracks, selectedTrackId, onSelectTrack, onUpdateTrack, onReorderTracks, currentTime, 
-  isLoopActive, loopStart, loopEnd, onSetLoop, onSeek, bpm, 
-  onDropPluginOnTrack, onMovePlugin, onMoveClip, onSelectPlugin, onRemovePlugin, onRequestAddPlugin,
-  onAddTrack, onDuplicateTrack, onDeleteTrack, onFreezeTrack, onImportFile, onEditClip, isRecording, recStartTime,
-  onCreatePattern, onSwapInstrument, onEditMidi
-}) => {
-  // UI State
-  const [activeTool, setActiveTool] = useState<EditorTool>('SELECT');
-  const [zoomV, setZoomV] = useState(120); 
-  const [zoomH, setZoomH] = useState(40);  
-  const [snapEnabled, setSnapEnabled] = useState(true);
-  const [gridSize, setGridSize] = useState<string>('1/4');
-  
-  // Interaction State
-  const [dragAction, setDragAction] = useState<DragAction | null>(null);
-  const [activeClip, setActiveClip] = useState<{trackId: string, clip: Clip} | null>(null);
-  const [hoveredTrackId, setHoveredTrackId] = useState<string | null>(null);
-  const [loopDragMode, setLoopDragMode] = useState<LoopDragMode>(null);
-  
-  const [dragStartX, setDragStartX] = useState(0);
-  const [dragStartY, setDragStartY] = useState(0);
-  const [initialClipState, setInitialClipState] = useState<Clip | null>(null);
-  const [initialLoopState, setInitialLoopState] = useState<{ start: number, end: number } | null>(null);
-
-  // Menus
-  const [contextMenu, setContextMenu] = useState<any>(null);
-  const [gridMenu, setGridMenu] = useState<{ x: number, y: number } | null>(null);
-  const [hoverTime, setHoverTime] = useState<number | null>(null);
-  const [tooltipPos, setTooltipPos] = useState({ x: 0, y: 0 });
-
-  // Layout
-  const [headerWidth, setHeaderWidth] = useState(256);
-  const [isResizingHeader, setIsResizingHeader] = useState(false);
-  
-  // Refs
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const scrollContainerRef = useRef<HTMLDivElement>(null);
-  const sidebarContainerRef = useRef<HTMLDivElement>(null); 
-  const rendererRef = useRef<TimelineRenderer | null>(null);
-  const requestRef = useRef<number>(0);
-  
-  const visibleTracks = useMemo(() => {
-    return tracks.filter(t => t.id === 'instrumental' || t.id === 'track-rec-main' || t.type === TrackType.AUDIO || t.type === TrackType.MIDI || t.type === TrackType.BUS || t.type === TrackType.SEND || t.type === TrackType.SAMPLER);
-  }, [tracks]);
-
-  // Init Renderer
-  useEffect(() => {
-      if (canvasRef.current && !rendererRef.current) {
-          const ctx = canvasRef.current.getContext('2d', { alpha: false });
-          if (ctx) {
-              rendererRef.current = new TimelineRenderer(ctx);
-          }
-      }
-  }, []);
-
-  // Update Renderer State & Loop
-  useEffect(() => {
-      if (!rendererRef.current || !scrollContainerRef.current) return;
-      
-      const width = scrollContainerRef.current.clientWidth;
-      const height = scrollContainerRef.current.clientHeight;
-      
-      // Update Canvas Size if needed
-      if (canvasRef.current && (canvasRef.current.width !== width || canvasRef.current.height !== height)) {
-          canvasRef.current.width = width;
-          canvasRef.current.height = height;
-      }
-
-      const draw = () => {
-          if (!rendererRef.current || !scrollContainerRef.current) return;
-          
-          rendererRef.current.updateState({
-              tracks: visibleTracks,
-              currentTime,
-              zoomH,
-              zoomV,
-              scrollLeft: scrollContainerRef.current.scrollLeft,
-              scrollTop: scrollContainerRef.current.scrollTop,
-              width,
-              height,
-              bpm,
-              gridSize,
-              isRecording: !!isRecording,
-              activeClipId: activeClip?.clip.id || null,
-              hoveredTrackId,
-              dragAction: dragAction ? 'ACTIVE' : null,
-              loopStart,
-              loopEnd,
-              isLoopActive,
-              theme: (document.documentElement.getAttribute('data-theme') as any) || 'dark'
-          });
-          
-          rendererRef.current.render();
-          requestRef.current = requestAnimationFrame(draw);
-      };
-      
-      draw();
-      return () => cancelAnimationFrame(requestRef.current);
-  }, [visibleTracks, currentTime, zoomH, zoomV, bpm, gridSize, isRecording, activeClip, hoveredTrackId, dragAction, loopStart, loopEnd, isLoopActive]);
-
-  // --- Scroll Sync ---
-  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
-      if (e.target === scrollContainerRef.current && sidebarContainerRef.current) {
-          sidebarContainerRef.current.scrollTop = scrollContainerRef.current.scrollTop;
-      }
-  };
-
-  const getSnappedTime = (time: number): number => {
-    if (!snapEnabled) return time;
-    const beatDuration = 60 / bpm;
-    let subDiv = beatDuration; // 1/4 default
-    if (gridSize === '1/8') subDiv = beatDuration / 2;
-    else if (gridSize === '1/16') subDiv = beatDuration / 4;
-    else if (gridSize === '1/1') subDiv = beatDuration * 4; 
-    return Math.round(time / subDiv) * subDiv;
-  };
-
-  // --- Interaction Handlers (Simplified for brevity, logic remains similar but uses refs) ---
-  const handleMouseDown = (e: React.MouseEvent) => {
-    // Basic interaction logic (same as before but triggers drag state)
-    // ...
-    // Note: Since we are using a renderer class, we don't need to duplicate rendering logic here.
-    // We just update the state React side, and the effect updates the renderer.
-    
-    if (!scrollContainerRef.current) return;
-    const rect = scrollContainerRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left + scrollContainerRef.current.scrollLeft;
-    const y = e.clientY - rect.top + scrollContainerRef.current.scrollTop;
-    
-    // Header logic (Seek/Loop)
-    if (e.clientY - rect.top < 40) {
-        const time = x / zoomH;
-        onSeek(getSnappedTime(time));
-        setDragAction('SCRUB');
-        return;
-    }
-    
-    // Clip logic (Hit test logic should ideally be shared or in a helper)
-    // For now we keep the hit test logic here in React
-    let currentY = 40;
-    for(const t of visibleTracks) {
-        if (y >= currentY && y < currentY + zoomV) {
-            const time = x / zoomH;
-            const clip = t.clips.find(c => time >= c.start && time <= c.start + c.duration);
-            if (clip) {
-                if (e.button === 2) { /* context menu */ return; }
-                setActiveClip({ trackId: t.id, clip });
-                setDragStartX(x);
-                setDragStartY(y);
-                setInitialClipState({ ...clip });
-                setDragAction('MOVE');
-                onSelectTrack(t.id);
-                return;
-            }
-        }
-        currentY += zoomV + (t.automationLanes.filter(l => l.isExpanded).length * 80);
-    }
-    
-    // Empty click -> Scrub
-    const time = x / zoomH;
-    onSeek(getSnappedTime(time));
-    setDragAction('SCRUB');
-  };
-
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!dragAction || !scrollContainerRef.current) return;
-    const rect = scrollContainerRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left + scrollContainerRef.current.scrollLeft;
-    const dx = x - dragStartX;
-    const dt = dx / zoomH;
-
-    if (dragAction === 'MOVE' && activeClip && initialClipState) {
-        const newStart = Math.max(0, getSnappedTime(initialClipState.start + dt));
-        if (newStart !== activeClip.clip.start) {
-            onEditClip?.(activeClip.trackId, activeClip.clip.id, 'UPDATE_PROPS', { start: newStart });
-        }
-    } else if (dragAction === 'SCRUB') {
-        onSeek(x / zoomH);
-    }
-  };
-
-  const handleMouseUp = () => {
-    setDragAction(null);
-    setActiveClip(null);
-  };
-
-  // ... (Other handlers like ContextMenu, GridMenu, DragOver remain similar)
-
-  return (
-    <div className="flex-1 flex flex-col overflow-hidden relative select-none" style={{ backgroundColor: 'var(--bg-main)' }}>
-      {/* Header Toolbar */}
-      <div className="h-12 border-b flex items-center px-4 gap-4 z-30 shrink-0" style={{ backgroundColor: 'var(--bg-surface)', borderColor: 'var(--border-dim)' }}>
-         <div className="flex items-center space-x-2">
-            <button onClick={() => setActiveTool('SELECT')} className={`w-8 h-8 rounded-md flex items-center justify-center transition-all ${activeTool === 'SELECT' ? 'bg-cyan-500 text-black' : 'bg-white/5'}`}><i className="fas fa-mouse-pointer text-[10px]"></i></button>
-            <button onClick={() => setActiveTool('SPLIT')} className={`w-8 h-8 rounded-md flex items-center justify-center transition-all ${activeTool === 'SPLIT' ? 'bg-cyan-500 text-black' : 'bg-white/5'}`}><i className="fas fa-cut text-[10px]"></i></button>
-            <button onClick={() => setSnapEnabled(!snapEnabled)} className={`px-3 h-8 rounded-md border text-[10px] font-bold ${snapEnabled ? 'bg-cyan-500/10 border-cyan-500 text-cyan-400' : 'border-white/10 text-slate-500'}`}>{snapEnabled ? 'SNAP' : 'SLIP'}</button>
-         </div>
-         <div className="flex items-center space-x-2 ml-auto">
-             <i className="fas fa-search-plus text-[10px] text-slate-500"></i>
-             <input type="range" min="10" max="300" value={zoomH} onChange={e => setZoomH(Number(e.target.value))} className="w-24 h-1 bg-white/10 rounded-full accent-cyan-500" />
-         </div>
-      </div>
-
-      <div className="flex-1 flex overflow-hidden relative">
-        {/* Sidebar */}
-        <div 
-            ref={sidebarContainerRef} 
-            className="flex-shrink-0 border-r z-40 flex flex-col overflow-y-hidden overflow-x-hidden"
-            style={{ width: headerWidth, backgroundColor: 'var(--bg-surface)', borderColor: 'var(--border-dim)' }}
-        >
-            <div style={{ height: 40, flexShrink: 0 }} /> {/* Spacer for Ruler */}
-            {visibleTracks.map((track) => (
-                <div key={track.id}>
-                    <div style={{ height: zoomV }}>
-                        <TrackHeader 
-                           track={track} 
-                           isSelected={selectedTrackId === track.id} 
-                           onSelect={() => onSelectTrack(track.id)} 
-                           onUpdate={onUpdateTrack} 
-                           onContextMenu={(e) => {}}
-                           onDragStartTrack={() => {}} 
-                           onDragOverTrack={() => {}} 
-                           onDropTrack={() => {}}
-                           onSwapInstrument={onSwapInstrument}
-                        />
-                    </div>
-                    {track.automationLanes.map(l => l.isExpanded && <div key={l.id} style={{ height: 80 }} className="border-b border-white/5"></div>)}
-                </div>
-            ))}
-            <div style={{ height: 500 }}></div>
-        </div>
-
-        {/* Timeline Canvas */}
-        <div 
-            ref={scrollContainerRef}
-            className="flex-1 overflow-auto relative custom-scroll"
-            onScroll={handleScroll}
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
-        >
-            <div style={{ width: (300 * zoomH), height: visibleTracks.length * (zoomV + 80) + 500 }} className="absolute top-0 left-0 pointer-events-none" />
-            <canvas ref={canvasRef} className="sticky top-0 left-0 block" />
-            
-            {/* Live Clips Overlay (React Components on top of Canvas) */}
-            {isRecording && recStartTime !== null && visibleTracks.map((track, idx) => {
-               if (!track.isTrackArmed) return null;
-               // Calculate Top Position accurately
-               let topY = 40; 
-               for (let i = 0; i < idx; i++) topY += zoomV + (visibleTracks[i].automationLanes.filter(l => l.isExpanded).length * 80);
-               return (
-                   <div key={`live-${track.id}`} style={{ position: 'absolute', top: topY + 2, height: zoomV - 4, left: 0, right: 0, pointerEvents: 'none' }}>
-                       <LiveRecordingClip trackId={track.id} recStartTime={recStartTime} currentTime={currentTime} zoomH={zoomH} height={zoomV - 4} />
-                   </div>
-               );
-            })}
-        </div>
-      </div>
-    </div>
-  );
-};
-
-export default ArrangementView;
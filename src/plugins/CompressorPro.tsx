@@ -1 +0,0 @@
-export {}; // Deleted at user request
\ No newline at end of file
@@ -74,7 +74,7 @@ export interface PendingUpload {
 
 export type AuthStage = 'LOGIN' | 'REGISTER' | 'VERIFY_EMAIL' | 'FORGOT_PASSWORD';
 
-export type PluginType = 'REVERB' | 'DELAY' | 'CHORUS' | 'FLANGER' | 'DOUBLER' | 'STEREOSPREADER' | 'COMPRESSOR' | 'AUTOTUNE' | 'DEESSER' | 'DENOISER' | 'PROEQ12' | 'VOCALSATURATOR' | 'MASTERSYNC' | 'VST3' | 'SAMPLER' | 'DRUM_SAMPLER' | 'MELODIC_SAMPLER' | 'DRUM_RACK_UI';
+export type PluginType = 'REVERB' | 'DELAY' | 'CHORUS' | 'FLANGER' | 'DOUBLER' | 'STEREOSPREADER' | 'COMPRESSOR' | 'AUTOTUNE' | 'DEESSER' | 'DENOISER' | 'PROEQ12' | 'VOCALSATURATOR' | 'MASTERSYNC' | 'VST3' | 'SAMPLER' | 'DRUM_SAMPLER' | 'MELODIC_SAMPLER' | 'DRUM_RACK_UI' | 'SYNTH';
 
 export interface PluginMetadata {
   id: string;
@@ -93,13 +93,15 @@ export interface PluginInstance {
   type: PluginType;
   isEnabled: boolean;
   params: Record<string, any>;
-  latency: number; 
+  latency: number; // Seconds, used by plugin delay compensation
+  disabledByRecMode?: boolean; // Coupé par le mode REC, réactivé à la sortie
 }
 
 export interface TrackSend {
-  id: string;          
+  id: string;          // Destination track (SEND / BUS)
   level: number;       
   isEnabled: boolean;
+  isPreFader?: boolean; // Tapped before the volume fader (cue mixes)
 }
 
 export interface MidiNote {
@@ -111,6 +113,29 @@ export interface MidiNote {
   isSelected?: boolean;
 }
 
+// Messages canal MIDI autres que les notes ; CC64 = sustain
+export type MidiControllerType = 'CC' | 'PITCH_BEND' | 'AFTERTOUCH' | 'PROGRAM';
+
+export interface MidiControlEvent {
+  type: MidiControllerType;
+  cc?: number;   // Numéro de contrôleur (type CC)
+  value: number; // 0..127 ; pitch bend -8192..8191
+}
+
+export interface MidiControlPoint {
+  id: string;
+  time: number;  // Offset MIDI dans le clip, comme MidiNote.start
+  value: number;
+}
+
+// Une lane par contrôleur ; la valeur tient jusqu'au point suivant
+export interface MidiControllerLane {
+  id: string;
+  type: MidiControllerType;
+  cc?: number;
+  points: MidiControlPoint[];
+}
+
 export interface Clip {
   id: string;
   start: number;
@@ -123,11 +148,36 @@ export interface Clip {
   type: TrackType;
   buffer?: AudioBuffer;
   notes?: MidiNote[]; 
+  controllers?: MidiControllerLane[];
   isMuted?: boolean;
   gain?: number;
   isReversed?: boolean; 
   audioRef?: string;
   isUnlicensed?: boolean; 
+  takeId?: string; // Clip de comp : extrait de la prise `takeId`, reconstruit par TakeComping
+}
+
+// --- TAKE LANES (cycle recording) ---
+export interface Take {
+  id: string;
+  name: string;
+  clip: Clip; // Audio de la passe, à sa position dans la boucle
+}
+
+// Zone [start, end[ du comp et prise entendue dans cette zone
+export interface CompSegment {
+  id: string;
+  takeId: string;
+  start: number;
+  end: number;
+}
+
+export interface TakeFolder {
+  id: string;
+  start: number; // Étendue de toutes les prises
+  end: number;
+  takes: Take[];
+  comp: CompSegment[];
 }
 
 export interface AutomationPoint {
@@ -136,6 +186,66 @@ export interface AutomationPoint {
   value: number;
 }
 
+// OFF: ignorée · READ: lecture · TOUCH: écrit tant que le contrôle est tenu
+// LATCH: écrit depuis le premier contact jusqu'au stop · WRITE: réécrit les lanes dès le play
+export type AutomationMode = 'OFF' | 'READ' | 'TOUCH' | 'LATCH' | 'WRITE';
+
+// SIP = solo in place (les autres pistes sont coupées), AFL = écoute post-fader sans toucher au mix
+export type SoloMode = 'SIP' | 'AFL';
+
+/**
+ * Écoute de l'entrée d'une piste armée :
+ * AUTO = entrée à l'arrêt et pendant la prise, lecture pendant le playback ;
+ * TAPE = comme un magnéto : pendant la prise, l'entrée n'est entendue qu'entre punch-in et punch-out.
+ */
+export type MonitorMode = 'OFF' | 'AUTO' | 'ALWAYS' | 'TAPE';
+
+export type MetronomeSound = 'CLICK' | 'WOOD' | 'BEEP';
+
+export interface MetronomeSettings {
+  isEnabled: boolean;                   // Clic pendant la lecture (le count-in joue toujours)
+  level: number;                        // 0..1
+  sound: MetronomeSound;
+  accentDownbeat: boolean;
+  output: 'STEREO' | 'LEFT' | 'RIGHT';  // Un seul côté = clic dans une oreille du casque
+  countInBars: 0 | 1 | 2 | 4;
+  countInMode: 'COUNT_IN' | 'PRE_ROLL'; // Clic seul, ou lecture du projet avant le point d'enregistrement
+}
+
+// Enregistrement MIDI : OVERDUB ajoute aux notes existantes, REPLACE efface celles de la zone enregistrée
+export interface MidiRecordSettings {
+  mode: 'OVERDUB' | 'REPLACE';
+  quantize: number; // Quantification à l'entrée, en noires (0.25 = double croche) ; 0 = off
+}
+
+// MIDI learn : un CC ou une note du contrôleur pilote un paramètre du registre d'automation
+export interface MidiLearnSource {
+  type: 'CC' | 'NOTE';
+  channel: number; // 1-16
+  number: number;  // N° de CC ou note
+}
+
+export type MidiMappingCurve = 'LINEAR' | 'LOG' | 'EXP';
+export type MidiTakeover = 'JUMP' | 'PICKUP'; // PICKUP : le paramètre suit une fois rattrapé par le contrôleur
+
+export interface MidiMapping {
+  id: string;
+  paramId: string; // ID du registre (SmartKnob.id)
+  label?: string;
+  source: MidiLearnSource;
+  min: number; // Course utile, en fraction de la plage du paramètre (0..1)
+  max: number;
+  curve: MidiMappingCurve;
+  takeover: MidiTakeover;
+}
+
+// Mappings d'un contrôleur, réutilisables d'un projet à l'autre
+export interface ControllerPreset {
+  id: string;
+  name: string;
+  mappings: MidiMapping[];
+}
+
 export interface AutomationLane {
   id: string;
   parameterName: 'volume' | 'pan' | string;
@@ -160,6 +270,38 @@ export interface DrumPad {
   audioRef?: string; // URL for persistence
 }
 
+// Zone d'un instrument multi-échantillons : plage de touches x plage de vélocités
+export interface SampleZone {
+  id: string;
+  sampleName: string;
+  rootKey: number;         // Note jouée à la hauteur d'origine
+  lowKey: number;
+  highKey: number;
+  lowVelocity: number;     // 1..127
+  highVelocity: number;
+  roundRobinGroup: number; // 0 = toujours jouée ; sinon les zones du groupe jouent à tour de rôle
+  tune: number;            // Cents
+  volume: number;          // dB
+  keyTracking: number;     // 0 = même hauteur sur toute la plage (kits), 1 = chromatique
+  loopStart?: number;      // s, boucle de sustain
+  loopEnd?: number;
+  buffer?: AudioBuffer;
+  audioRef?: string;       // URL for persistence
+}
+
+// Clips + inserts rendus pré-fader : fader, pan, envois et automation de volume restent live
+export interface TrackFreeze {
+  buffer: AudioBuffer;
+  start: number;     // Position projet du premier échantillon
+  audioRef?: string; // Fichier du rendu dans une sauvegarde ZIP
+}
+
+// Port MIDI de sortie d'une piste (synthé externe ou autre application)
+export interface TrackMidiOutput {
+  portId: string;
+  channel: number; // 1-16
+}
+
 export interface Track {
   id: string;
   name: string;
@@ -167,11 +309,21 @@ export interface Track {
   color: string;
   isMuted: boolean;
   isSolo: boolean;
+  isSoloSafe?: boolean; // Jamais coupée par le solo d'une autre piste (retours reverb/delay)
   isTrackArmed: boolean;
   isFrozen: boolean;
+  freeze?: TrackFreeze; // Rendu gelé joué à la place de la chaîne live
+  takeFolder?: TakeFolder;
+  isTakesExpanded?: boolean;
   volume: number;
   pan: number;
   inputDeviceId?: string; 
+  inputChannel?: number; // Première entrée utilisée sur l'interface (0 = entrée 1)
+  isInputStereo?: boolean; // Paire inputChannel / inputChannel + 1 ; absent = stéréo
+  monitorMode?: MonitorMode; // Absent = AUTO
+  isDirectMonitor?: boolean; // L'entrée contourne les inserts et la PDC (pas de latence plugin), fader et pan gardés
+  midiOutput?: TrackMidiOutput; // Notes et contrôleurs envoyés à ce port au lieu de l'instrument interne
+  isExternalInstrument?: boolean; // Synthé externe : son audio revient en permanence par inputDeviceId / inputChannel
   outputTrackId: string;  
   instrumentId?: number; 
   sends: TrackSend[];
@@ -181,6 +333,28 @@ export interface Track {
   totalLatency: number;
   events?: any[]; 
   drumPads?: DrumPad[]; // Only for DRUM_RACK tracks
+  sampleZones?: SampleZone[]; // Multi-échantillons du sampler de la piste (vide = un seul buffer)
+}
+
+// --- TEMPO MAP ---
+// Positions musicales en noires : un changement de tempo déplace la grille, pas les marqueurs
+export interface TempoMarker {
+  id: string;
+  beat: number;   // Position en noires depuis le début du projet
+  bpm: number;
+  ramp?: boolean; // true = rampe linéaire depuis le marqueur précédent
+}
+
+export interface MeterMarker {
+  id: string;
+  bar: number;         // Index de mesure (0 = première mesure)
+  numerator: number;
+  denominator: number; // 4 = noire, 8 = croche
+}
+
+export interface TempoMap {
+  tempos: TempoMarker[]; // Le premier marqueur (beat 0) suit DAWState.bpm
+  meters: MeterMarker[]; // Le premier marqueur (bar 0) donne la mesure du projet
 }
 
 export interface DAWState {
@@ -195,6 +369,9 @@ export interface DAWState {
   isLoopActive: boolean;
   loopStart: number;
   loopEnd: number;
+  isPunchActive: boolean; // Punch in/out : seule la zone [punchIn, punchOut[ est enregistrée
+  punchIn: number;
+  punchOut: number;
   tracks: Track[];
   selectedTrackId: string | null;
   currentView: ViewType;
@@ -204,6 +381,12 @@ export interface DAWState {
   systemMaxLatency: number; 
   recStartTime: number | null;
   isDelayCompEnabled: boolean; // PDC State
+  automationMode: AutomationMode;
+  soloMode: SoloMode;
+  metronome: MetronomeSettings;
+  midiRecord: MidiRecordSettings;
+  midiMappings: MidiMapping[];
+  tempoMap: TempoMap;
 }
 
 export interface ContextMenuItem {
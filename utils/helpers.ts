@@ -1,3 +1,4 @@
+import { AutomationPoint, TempoMap, MeterMarker, Clip } from '../types';
 
 /**
  * COMMON UTILITY FUNCTIONS
@@ -38,6 +39,27 @@ export const midiToFreq = (midi: number): number => {
   return 440 * Math.pow(2, (midi - 69) / 12);
 };
 
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const NOTE_OFFSETS: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+
+/**
+ * Convert MIDI note number to note name (60 = C4)
+ */
+export const midiToNoteName = (midi: number): string => {
+  return `${NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+};
+
+/**
+ * Convert note name ("C4", "f#2", "Eb-1") to MIDI note number, null if not a note
+ */
+export const noteNameToMidi = (name: string): number | null => {
+  const match = /^([a-g])([#b]?)(-?\d)$/i.exec(name.trim());
+  if (!match) return null;
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  const midi = (parseInt(match[3], 10) + 1) * 12 + NOTE_OFFSETS[match[1].toLowerCase()] + accidental;
+  return midi >= 0 && midi <= 127 ? midi : null;
+};
+
 // ============================================================================
 // MATH UTILITIES
 // ============================================================================
@@ -101,27 +123,309 @@ export const formatTimeMs = (seconds: number): string => {
 };
 
 /**
- * Calculate time from BPM and beat position
+ * Calculate time from BPM (or tempo map) and beat position
  */
-export const beatToTime = (beat: number, bpm: number): number => {
-  return (beat * 60) / bpm;
+export const beatToTime = (beat: number, tempo: number | TempoMap): number => {
+  if (typeof tempo === 'number') return (beat * 60) / tempo;
+  const segment = findTempoSegment(getTempoSegments(tempo), s => s.beat <= beat);
+  return segment.time + beatsToSeconds(beat - segment.beat, segment.bpm, segment.slope);
 };
 
 /**
  * Calculate beat position from time
  */
-export const timeToBeat = (time: number, bpm: number): number => {
-  return (time * bpm) / 60;
+export const timeToBeat = (time: number, tempo: number | TempoMap): number => {
+  if (typeof tempo === 'number') return (time * tempo) / 60;
+  const segment = findTempoSegment(getTempoSegments(tempo), s => s.time <= time);
+  return segment.beat + secondsToBeats(time - segment.time, segment.bpm, segment.slope);
 };
 
 /**
- * Snap time to grid
+ * Snap time to grid (`gridSize` in beats)
  */
-export const snapToGrid = (time: number, gridSize: number, bpm: number): number => {
+export const snapToGrid = (time: number, gridSize: number, tempo: number | TempoMap): number => {
   if (gridSize === 0) return time;
-  const beat = timeToBeat(time, bpm);
+  const beat = timeToBeat(time, tempo);
   const snappedBeat = Math.round(beat / gridSize) * gridSize;
-  return beatToTime(snappedBeat, bpm);
+  return beatToTime(snappedBeat, tempo);
+};
+
+/**
+ * Value of an automation curve at a given time (linear between points, held at the ends)
+ */
+export const getAutomationValueAt = (points: AutomationPoint[], time: number): number | null => {
+  if (points.length === 0) return null;
+  if (time <= points[0].time) return points[0].value;
+  const last = points[points.length - 1];
+  if (time >= last.time) return last.value;
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    if (time >= p1.time && time < p2.time) {
+      const span = p2.time - p1.time;
+      return span > 0 ? lerp(p1.value, p2.value, (time - p1.time) / span) : p2.value;
+    }
+  }
+  return last.value;
+};
+
+/**
+ * Drop points that a straight line between their neighbours already describes
+ * (Ramer-Douglas-Peucker, `tolerance` in value units)
+ */
+export const thinAutomationPoints = (points: AutomationPoint[], tolerance: number): AutomationPoint[] => {
+  if (points.length <= 2) return points;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const span = last.time - first.time;
+  let maxError = 0;
+  let splitIndex = 0;
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const expected = span > 0 ? lerp(first.value, last.value, (points[i].time - first.time) / span) : last.value;
+    const error = Math.abs(points[i].value - expected);
+    if (error > maxError) {
+      maxError = error;
+      splitIndex = i;
+    }
+  }
+
+  if (maxError <= tolerance) return [first, last];
+  const left = thinAutomationPoints(points.slice(0, splitIndex + 1), tolerance);
+  const right = thinAutomationPoints(points.slice(splitIndex), tolerance);
+  return [...left.slice(0, -1), ...right];
+};
+
+/**
+ * Replace the [start, end] range of a curve with a freshly written pass.
+ * The existing curve is anchored on both sides so it is left untouched outside the pass.
+ */
+export const mergeAutomationPass = (
+  existing: AutomationPoint[],
+  pass: AutomationPoint[],
+  start: number,
+  end: number,
+  glide: number = 0.05
+): AutomationPoint[] => {
+  if (pass.length === 0) return existing;
+
+  const sorted = [...existing].sort((a, b) => a.time - b.time);
+  const before = sorted.filter(p => p.time < start);
+  const after = sorted.filter(p => p.time > end + glide);
+  const merged: AutomationPoint[] = [...before];
+
+  if (sorted.length > 0 && start > 0) {
+    merged.push({ id: generateId('pt'), time: Math.max(0, start - 0.001), value: getAutomationValueAt(sorted, start)! });
+  }
+  merged.push(...pass);
+  if (after.length > 0) {
+    // Retour progressif vers la courbe existante
+    merged.push({ id: generateId('pt'), time: end + glide, value: getAutomationValueAt(sorted, end + glide)! });
+  }
+  merged.push(...after);
+  return merged;
+};
+
+/**
+ * Drop a punched-in clip over the existing clips of a track.
+ * Clips under the punch are cut away; the remaining head and tail overlap the punch
+ * by `crossfade` seconds and fade out / in while the punched clip fades in / out.
+ */
+export const mergePunchClip = (existing: Clip[], punched: Clip, crossfade: number = 0.01): Clip[] => {
+  const start = punched.start;
+  const end = punched.start + punched.duration;
+  const merged: Clip[] = [];
+
+  existing.forEach(clip => {
+    const clipEnd = clip.start + clip.duration;
+    if (clipEnd <= start || clip.start >= end) { merged.push(clip); return; }
+
+    if (clip.start < start) {
+      const headEnd = Math.min(clipEnd, start + crossfade);
+      merged.push({ ...clip, duration: headEnd - clip.start, fadeOut: headEnd > start ? headEnd - start : clip.fadeOut });
+    }
+    if (clipEnd > end) {
+      const tailStart = Math.max(clip.start, end - crossfade);
+      merged.push({
+        ...clip,
+        id: clip.start < start ? generateId('clip') : clip.id,
+        start: tailStart,
+        duration: clipEnd - tailStart,
+        offset: clip.offset + (tailStart - clip.start),
+        fadeIn: tailStart < end ? end - tailStart : clip.fadeIn
+      });
+    }
+  });
+
+  merged.push({ ...punched, fadeIn: crossfade, fadeOut: crossfade });
+  return merged;
+};
+
+// ============================================================================
+// TEMPO MAP UTILITIES
+// ============================================================================
+
+/**
+ * Tempo map with a single tempo and time signature
+ */
+export const createTempoMap = (bpm: number, numerator: number = 4, denominator: number = 4): TempoMap => ({
+  tempos: [{ id: 'tempo-0', beat: 0, bpm }],
+  meters: [{ id: 'meter-0', bar: 0, numerator, denominator }]
+});
+
+interface TempoSegment {
+  beat: number;  // Start of the segment (beats)
+  time: number;  // Start of the segment (seconds)
+  bpm: number;   // Tempo at the start
+  slope: number; // BPM change per beat (0 = constant)
+}
+
+// Segments are derived once per map (state objects are immutable)
+const tempoSegmentsCache = new WeakMap<TempoMap, TempoSegment[]>();
+
+const beatsToSeconds = (beats: number, bpm: number, slope: number): number => {
+  if (slope === 0) return (beats * 60) / bpm;
+  return (60 / slope) * Math.log((bpm + slope * beats) / bpm);
+};
+
+const secondsToBeats = (seconds: number, bpm: number, slope: number): number => {
+  if (slope === 0) return (seconds * bpm) / 60;
+  return (bpm * (Math.exp((slope * seconds) / 60) - 1)) / slope;
+};
+
+const getTempoSegments = (map: TempoMap): TempoSegment[] => {
+  const cached = tempoSegmentsCache.get(map);
+  if (cached) return cached;
+
+  const markers = [...map.tempos].sort((a, b) => a.beat - b.beat);
+  const segments: TempoSegment[] = [];
+  let time = 0;
+  markers.forEach((marker, i) => {
+    const beat = i === 0 ? 0 : marker.beat; // The first tempo applies from the project start
+    const next = markers[i + 1];
+    const slope = next && next.ramp && next.beat > beat ? (next.bpm - marker.bpm) / (next.beat - beat) : 0;
+    segments.push({ beat, time, bpm: marker.bpm, slope });
+    if (next) time += beatsToSeconds(next.beat - beat, marker.bpm, slope);
+  });
+  if (segments.length === 0) segments.push({ beat: 0, time: 0, bpm: 120, slope: 0 });
+
+  tempoSegmentsCache.set(map, segments);
+  return segments;
+};
+
+const findTempoSegment = (segments: TempoSegment[], isBefore: (s: TempoSegment) => boolean): TempoSegment => {
+  let found = segments[0];
+  for (const segment of segments) {
+    if (!isBefore(segment)) break;
+    found = segment;
+  }
+  return found;
+};
+
+/**
+ * Tempo (BPM) at a given time, ramps included
+ */
+export const tempoAt = (time: number, map: TempoMap): number => {
+  const segment = findTempoSegment(getTempoSegments(map), s => s.time <= time);
+  return segment.bpm + segment.slope * (timeToBeat(time, map) - segment.beat);
+};
+
+/**
+ * Length of a bar in beats (quarter notes): 4/4 = 4, 6/8 = 3
+ */
+export const beatsPerBar = (meter: MeterMarker): number => (meter.numerator * 4) / meter.denominator;
+
+const getSortedMeters = (map: TempoMap): MeterMarker[] => {
+  const meters = [...map.meters].sort((a, b) => a.bar - b.bar);
+  return meters.length > 0 ? meters : [{ id: 'meter-0', bar: 0, numerator: 4, denominator: 4 }];
+};
+
+/**
+ * Time signature in effect at a bar
+ */
+export const getMeterAtBar = (bar: number, map: TempoMap): MeterMarker => {
+  const meters = getSortedMeters(map);
+  let found = meters[0];
+  for (const meter of meters) {
+    if (meter.bar > bar) break;
+    found = meter;
+  }
+  return found;
+};
+
+/**
+ * Beat position of the start of a bar (fractional bars allowed)
+ */
+export const barToBeat = (bar: number, map: TempoMap): number => {
+  const meters = getSortedMeters(map);
+  let beat = 0;
+  for (let i = 0; i < meters.length; i++) {
+    const start = i === 0 ? 0 : meters[i].bar;
+    const nextBar = i + 1 < meters.length ? meters[i + 1].bar : Infinity;
+    if (bar <= nextBar) return beat + (bar - start) * beatsPerBar(meters[i]);
+    beat += (nextBar - start) * beatsPerBar(meters[i]);
+  }
+  return beat;
+};
+
+/**
+ * Fractional bar position of a time (1.5 = middle of the second bar)
+ */
+export const timeToBar = (time: number, map: TempoMap): number => {
+  const beat = timeToBeat(time, map);
+  const meters = getSortedMeters(map);
+  let barBeat = 0;
+  for (let i = 0; i < meters.length; i++) {
+    const start = i === 0 ? 0 : meters[i].bar;
+    const nextBar = i + 1 < meters.length ? meters[i + 1].bar : Infinity;
+    const length = beatsPerBar(meters[i]);
+    const nextBarBeat = barBeat + (nextBar - start) * length;
+    if (beat < nextBarBeat) return start + (beat - barBeat) / length;
+    barBeat = nextBarBeat;
+  }
+  return 0;
+};
+
+/**
+ * Snap time to the nearest bar line
+ */
+export const snapToBar = (time: number, map: TempoMap): number => {
+  return beatToTime(barToBeat(Math.round(timeToBar(time, map)), map), map);
+};
+
+/**
+ * MIDI clip offsets (note start / duration, clip duration) are seconds at the first tempo of the map,
+ * so notes stay on their beat when the tempo changes. Offset from the clip start -> project time
+ */
+export const midiOffsetToTime = (clipStart: number, offset: number, map: TempoMap): number => {
+  const baseBpm = map.tempos[0]?.bpm || 120;
+  return beatToTime(timeToBeat(clipStart, map) + offset * baseBpm / 60, map);
+};
+
+/**
+ * Project time -> MIDI offset from the clip start
+ */
+export const timeToMidiOffset = (clipStart: number, time: number, map: TempoMap): number => {
+  const baseBpm = map.tempos[0]?.bpm || 120;
+  return (timeToBeat(time, map) - timeToBeat(clipStart, map)) * 60 / baseBpm;
+};
+
+/**
+ * Re-expresses a MIDI clip for an edited tempo map so its content stays on the same beats:
+ * the start follows its beat, offsets (clip, notes, controllers) move to the new base tempo
+ */
+export const rebaseMidiClip = (clip: Clip, from: TempoMap, to: TempoMap): Clip => {
+  const scale = (from.tempos[0]?.bpm || 120) / (to.tempos[0]?.bpm || 120);
+  return {
+    ...clip,
+    start: beatToTime(timeToBeat(clip.start, from), to),
+    duration: clip.duration * scale,
+    offset: clip.offset * scale,
+    notes: clip.notes?.map(note => ({ ...note, start: note.start * scale, duration: note.duration * scale })),
+    controllers: clip.controllers?.map(lane => ({ ...lane, points: lane.points.map(point => ({ ...point, time: point.time * scale })) }))
+  };
 };
 
 // ============================================================================